@@ -1,12 +1,15 @@
-import React, { useState, useEffect, useCallback } from 'react';
+import React, { useState, useEffect, useCallback, useRef } from 'react';
 import { TopBar } from './components/TopBar';
 import { SideNav } from './components/SideNav';
 import { Dashboard } from './components/Dashboard';
 import { SemanticBuilder } from './components/SemanticBuilder';
 import { AgentChat } from './components/AgentChat';
 import { BigQueryAgents } from './components/BigQueryAgents';
-import { ViewState, SemanticModel, SemanticModelCollection, EntityType, PropertyType, EntityUpdateSuggestion, SuggestionStatus, SuggestionSource, SuggestionType, DescriptionHistory, Property } from './types';
+import { ViewState, SemanticModel, SemanticModelCollection, EntityType, PropertyType, EntityUpdateSuggestion, SuggestionStatus, SuggestionSource, SuggestionType, DescriptionHistory, Property, AggregationType, Additivity } from './types';
 import { comprehensiveSupplyChainModel } from './data/supplyChainModel';
+import { loadWorkspace, saveWorkspaceChanges, subscribeToWorkspaceChanges, diffWorkspace, mergeExternalModels, mergeExternalSuggestions } from './services/modelStorage';
+
+const AUTOSAVE_DELAY_MS = 800;
 
 // Mock initial data based on the PDF examples (Revenue Domain)
 const INITIAL_MODELS: SemanticModelCollection = {
@@ -37,7 +40,7 @@ const INITIAL_MODELS: SemanticModelCollection = {
           description: 'Current stock levels in warehouses',
           properties: [
             { id: 'i1', name: 'Product SKU', dataType: 'STRING', description: 'Foreign key to Product', binding: 'OLTP_INV_SKU.sku_id' },
-            { id: 'i2', name: 'Current Stock', dataType: 'INTEGER', description: 'Quantity on hand', binding: 'OLTP_INV_SKU.current_stock_qty' },
+            { id: 'i2', name: 'Current Stock', dataType: 'INTEGER', description: 'Quantity on hand', binding: 'OLTP_INV_SKU.current_stock_qty', propertyType: PropertyType.MEASURE, aggregation: AggregationType.SUM, additivity: Additivity.SEMI_ADDITIVE, snapshotPropertyId: 'i3' },
             { id: 'i3', name: 'Last Updated', dataType: 'TIMESTAMP', description: 'Time of last check', binding: 'OLTP_INV_SKU.last_updated_ts' }
           ]
         }
@@ -93,7 +96,8 @@ const INITIAL_MODELS: SemanticModelCollection = {
             { id: 'trip_12', name: 'Tip Amount', dataType: 'FLOAT', description: 'Tip amount (automatically populated for credit card payments)', binding: 'tlc_yellow_trips_2024.tip_amount', bindingType: 'column', bindingSystem: 'bigquery', bindingProject: 'bigquery-public-data', bindingDataset: 'new_york', bindingTable: 'tlc_yellow_trips_2024', bindingColumn: 'tip_amount', propertyType: PropertyType.MEASURE },
             { id: 'trip_13', name: 'Tolls Amount', dataType: 'FLOAT', description: 'Total amount of all tolls paid in trip', binding: 'tlc_yellow_trips_2024.tolls_amount', bindingType: 'column', bindingSystem: 'bigquery', bindingProject: 'bigquery-public-data', bindingDataset: 'new_york', bindingTable: 'tlc_yellow_trips_2024', bindingColumn: 'tolls_amount', propertyType: PropertyType.MEASURE },
             { id: 'trip_14', name: 'Total Amount', dataType: 'FLOAT', description: 'Total amount charged to passengers (excludes cash tips)', binding: 'tlc_yellow_trips_2024.total_amount', bindingType: 'column', bindingSystem: 'bigquery', bindingProject: 'bigquery-public-data', bindingDataset: 'new_york', bindingTable: 'tlc_yellow_trips_2024', bindingColumn: 'total_amount', propertyType: PropertyType.MEASURE },
-            { id: 'trip_15', name: 'Congestion Surcharge', dataType: 'FLOAT', description: 'CBD congestion fee for trips in Manhattan', binding: 'tlc_yellow_trips_2024.cbd_congestion_fee', bindingType: 'column', bindingSystem: 'bigquery', bindingProject: 'bigquery-public-data', bindingDataset: 'new_york', bindingTable: 'tlc_yellow_trips_2024', bindingColumn: 'cbd_congestion_fee', propertyType: PropertyType.MEASURE }
+            { id: 'trip_15', name: 'Congestion Surcharge', dataType: 'FLOAT', description: 'CBD congestion fee for trips in Manhattan', binding: 'tlc_yellow_trips_2024.cbd_congestion_fee', bindingType: 'column', bindingSystem: 'bigquery', bindingProject: 'bigquery-public-data', bindingDataset: 'new_york', bindingTable: 'tlc_yellow_trips_2024', bindingColumn: 'cbd_congestion_fee', propertyType: PropertyType.MEASURE },
+            { id: 'trip_16', name: 'Fare per Mile', dataType: 'FLOAT', description: 'Amount charged per mile driven', isComputed: true, definition: '${Total Amount} / NULLIF(${Trip Distance}, 0)', propertyType: PropertyType.MEASURE }
           ]
         },
         {
@@ -223,7 +227,75 @@ function App() {
   const [suggestions, setSuggestions] = useState<EntityUpdateSuggestion[]>([]);
   const [isSuggestionPanelOpen, setIsSuggestionPanelOpen] = useState(false);
   
+  const [isHydrated, setIsHydrated] = useState(false);
+  const lastSavedModelsRef = useRef<SemanticModel[]>([]);
+  const lastSavedSuggestionsRef = useRef<string>('[]');
+  const pendingSaveRef = useRef<(() => void) | null>(null);
+  
   const activeModel = activeModelId ? modelCollection.models.find(m => m.id === activeModelId) : null;
+  // Suggestions drafted for one model only show while that model is open
+  const modelSuggestions = suggestions.filter(s => !s.modelId || s.modelId === activeModelId);
+
+  // Restore the saved workspace; on first run the sample models are kept and saved
+  useEffect(() => {
+    let cancelled = false;
+    loadWorkspace()
+      .then(workspace => {
+        if (cancelled || !workspace) return;
+        lastSavedModelsRef.current = workspace.models;
+        lastSavedSuggestionsRef.current = JSON.stringify(workspace.suggestions);
+        setModelCollection({ models: workspace.models });
+        setSuggestions(workspace.suggestions);
+      })
+      .catch(error => console.error('[Storage] Could not load saved models, using defaults:', error))
+      .finally(() => {
+        if (!cancelled) setIsHydrated(true);
+      });
+    return () => { cancelled = true; };
+  }, []);
+
+  // Debounced autosave of whatever changed since the last successful write
+  useEffect(() => {
+    if (!isHydrated) return;
+    const models = modelCollection.models;
+    const save = () => {
+      pendingSaveRef.current = null;
+      const changes = diffWorkspace(lastSavedModelsRef.current, models, suggestions);
+      const suggestionsKey = JSON.stringify(suggestions);
+      const orderChanged = lastSavedModelsRef.current.map(m => m.id).join() !== changes.modelOrder.join();
+      if (!changes.upserts.length && !changes.deletes.length && !orderChanged && suggestionsKey === lastSavedSuggestionsRef.current) return;
+      saveWorkspaceChanges(changes)
+        .then(() => {
+          lastSavedModelsRef.current = models;
+          lastSavedSuggestionsRef.current = suggestionsKey;
+        })
+        .catch(error => console.error('[Storage] Autosave failed, will retry on the next change:', error));
+    };
+    pendingSaveRef.current = save;
+    const timer = setTimeout(save, AUTOSAVE_DELAY_MS);
+    return () => clearTimeout(timer);
+  }, [isHydrated, modelCollection, suggestions]);
+
+  // Flush a pending autosave when the tab is hidden or closed
+  useEffect(() => {
+    const flush = () => pendingSaveRef.current?.();
+    window.addEventListener('pagehide', flush);
+    return () => window.removeEventListener('pagehide', flush);
+  }, []);
+
+  // Pick up saves made in other tabs
+  useEffect(() => subscribeToWorkspaceChanges(() => {
+    loadWorkspace()
+      .then(workspace => {
+        if (!workspace) return;
+        const lastSaved = lastSavedModelsRef.current;
+        setModelCollection(prev => ({ ...prev, models: mergeExternalModels(prev.models, lastSaved, workspace.models) }));
+        setSuggestions(prev => mergeExternalSuggestions(prev, workspace.suggestions));
+        lastSavedModelsRef.current = workspace.models;
+        lastSavedSuggestionsRef.current = JSON.stringify(workspace.suggestions);
+      })
+      .catch(error => console.error('[Storage] Could not reload models saved in another tab:', error));
+  }), []);
   
   const updateActiveModel = (updatedModel: SemanticModel) => {
     setModelCollection(prev => ({
@@ -247,6 +319,7 @@ function App() {
   const handleApproveSuggestion = useCallback((suggestionId: string) => {
     const suggestion = suggestions.find(s => s.id === suggestionId);
     if (!suggestion || !activeModel || suggestion.status !== SuggestionStatus.PENDING) return;
+    if (suggestion.modelId && suggestion.modelId !== activeModel.id) return;
 
     if (suggestion.type === SuggestionType.NEW_PROPERTY && suggestion.suggestedProperties) {
       const entity = activeModel.entities.find(e => e.id === suggestion.entityId);
@@ -291,6 +364,19 @@ function App() {
         updatedAt: new Date()
       });
       console.log(`[Suggestion] APPROVED: Updated description for "${suggestion.entityName}" (previous saved to history)`);
+    } else if (suggestion.type === SuggestionType.NEW_RELATIONSHIP && suggestion.suggestedRelationship) {
+      const relationship = suggestion.suggestedRelationship;
+      // Applied against the latest collection so "Approve All" keeps every relationship
+      setModelCollection(prev => ({
+        ...prev,
+        models: prev.models.map(m => {
+          if (m.id !== activeModel.id || m.relationships.some(r => r.id === relationship.id)) return m;
+          const entityIds = new Set(m.entities.map(e => e.id));
+          if (!entityIds.has(relationship.sourceEntityId) || !entityIds.has(relationship.targetEntityId)) return m;
+          return { ...m, relationships: [...m.relationships, relationship], updatedAt: new Date() };
+        })
+      }));
+      console.log(`[Suggestion] APPROVED: Added relationship "${relationship.id}" from "${suggestion.entityName}"`);
     }
 
     setSuggestions(prev => prev.map(s => 
@@ -425,7 +511,7 @@ function App() {
                       setActiveModelId(null);
                     }
                   }}
-                  suggestions={suggestions}
+                  suggestions={modelSuggestions}
                   onAddSuggestion={handleAddSuggestion}
                   onApproveSuggestion={handleApproveSuggestion}
                   onRejectSuggestion={handleRejectSuggestion}
@@ -1,7 +1,8 @@
 import React, { useState, useRef, useEffect } from 'react';
 import { SemanticModel, ChatMessage } from '../types';
-import { generateAssistantResponse } from '../services/geminiService';
-import { Send, User, Bot, Sparkles } from 'lucide-react';
+import { generateAssistantResponse, generateSemanticQuery } from '../services/geminiService';
+import { compileSemanticQuery, SemanticQueryError } from '../services/semanticQuery';
+import { Send, User, Bot, Sparkles, Database } from 'lucide-react';
 
 interface AgentChatProps {
   model: SemanticModel | null | undefined;
@@ -43,13 +44,28 @@ export const AgentChat: React.FC<AgentChatProps> = ({ model }) => {
     setIsThinking(true);
 
     const history = messages.map(m => ({ role: m.role, text: m.text }));
-    const responseText = await generateAssistantResponse(userMsg.text, model, history);
+    const [responseText, query] = await Promise.all([
+        generateAssistantResponse(userMsg.text, model, history),
+        generateSemanticQuery(userMsg.text, model)
+    ]);
+
+    // Questions that map onto the model's fields also get the compiled SQL
+    let compiled: { sql?: string; warnings?: string[]; error?: string } | undefined;
+    if (query) {
+        try {
+            const result = compileSemanticQuery(model, query);
+            compiled = { sql: result.sql, warnings: result.warnings };
+        } catch (e) {
+            compiled = { error: e instanceof SemanticQueryError ? e.message : String(e) };
+        }
+    }
 
     const botMsg: ChatMessage = {
         id: (Date.now() + 1).toString(),
         role: 'model',
         text: responseText,
-        timestamp: new Date()
+        timestamp: new Date(),
+        metadata: compiled
     };
 
     setMessages(prev => [...prev, botMsg]);
@@ -83,6 +99,22 @@ export const AgentChat: React.FC<AgentChatProps> = ({ model }) => {
                 </div>
                 <div className={`max-w-[70%] rounded-lg p-4 text-sm leading-relaxed shadow-sm ${msg.role === 'user' ? 'bg-blue-600 text-white' : 'bg-white border border-gray-200 text-gray-800'}`}>
                     <div className="whitespace-pre-wrap">{msg.text}</div>
+                    {msg.metadata?.sql && (
+                        <div className="mt-3">
+                            <div className="text-xs font-medium text-gray-500 mb-1 flex items-center gap-1">
+                                <Database size={12} /> Generated SQL
+                            </div>
+                            <pre className="bg-gray-900 text-green-300 text-xs rounded-md p-3 overflow-x-auto">{msg.metadata.sql}</pre>
+                            {msg.metadata.warnings?.length > 0 && (
+                                <ul className="mt-2 text-xs text-amber-700 list-disc pl-4 space-y-0.5">
+                                    {msg.metadata.warnings.map((warning: string, idx: number) => <li key={idx}>{warning}</li>)}
+                                </ul>
+                            )}
+                        </div>
+                    )}
+                    {msg.metadata?.error && (
+                        <div className="mt-3 text-xs text-amber-700">Could not build SQL: {msg.metadata.error}</div>
+                    )}
                 </div>
             </div>
         ))}
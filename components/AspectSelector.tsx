@@ -53,6 +53,15 @@ export const AVAILABLE_ASPECT_TYPES: AspectType[] = [
       { name: 'business_rules', type: 'string' },
       { name: 'example_values', type: 'string' }
     ]
+  },
+  {
+    id: 'aspect_allowed_values',
+    name: 'Allowed Values',
+    description: 'Enumerated set of values a property can take',
+    fields: [
+      { name: 'values', type: 'string', required: true },
+      { name: 'enum_name', type: 'string' }
+    ]
   }
 ];
 
@@ -136,6 +136,7 @@ export const BigQueryAgents: React.FC<BigQueryAgentsProps> = ({ onBack, models =
       <BigQueryConversation 
         onBack={() => setShowConversation(false)} 
         selectedDataSource={selectedDataSource || undefined}
+        model={selectedDataSource?.type === 'semantic_graph' ? models.find(m => m.id === selectedDataSource.id) : undefined}
       />
     );
   }
@@ -1,6 +1,9 @@
 import React, { useState } from 'react';
 import { Bot, Plus, Search, ChevronLeft, Settings, Trash2, Send, ChevronDown, HelpCircle, BarChart3, Sparkles, FileText, Database, Layers, MoreVertical, Loader2 } from 'lucide-react';
 import { GoogleGenAI } from "@google/genai";
+import { SemanticModel } from '../types';
+import { generateSemanticQuery } from '../services/geminiService';
+import { compileSemanticQuery, SemanticQueryError } from '../services/semanticQuery';
 
 const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
 
@@ -23,6 +26,8 @@ interface ConversationMessage {
   isLoading?: boolean;
   queryResult?: QueryResult;
   chartData?: ChartData;
+  sql?: string;
+  sqlWarnings?: string[];
 }
 
 interface Conversation {
@@ -36,6 +41,8 @@ interface Conversation {
 interface BigQueryConversationProps {
   onBack: () => void;
   selectedDataSource?: { id: string; name: string; type: 'table' | 'semantic_graph' };
+  // The semantic graph being queried, used to compile questions to SQL
+  model?: SemanticModel;
 }
 
 const generateMockDataForQuestion = (question: string): { queryResult?: QueryResult; chartData?: ChartData } => {
@@ -128,7 +135,7 @@ const generateMockDataForQuestion = (question: string): { queryResult?: QueryRes
   };
 };
 
-export const BigQueryConversation: React.FC<BigQueryConversationProps> = ({ onBack, selectedDataSource }) => {
+export const BigQueryConversation: React.FC<BigQueryConversationProps> = ({ onBack, selectedDataSource, model }) => {
   const [activeTab, setActiveTab] = useState<'conversations' | 'agent_catalog'>('conversations');
   const [selectedConversation, setSelectedConversation] = useState<string>('conv_new');
   const [inputValue, setInputValue] = useState('');
@@ -151,6 +158,20 @@ export const BigQueryConversation: React.FC<BigQueryConversationProps> = ({ onBa
 
   const activeConversation = conversations.find(c => c.id === selectedConversation);
 
+  // SQL for the question over the semantic graph, when it maps onto its fields
+  const compileQuestion = async (question: string): Promise<Pick<ConversationMessage, 'sql' | 'sqlWarnings'>> => {
+    if (!model) return {};
+    const query = await generateSemanticQuery(question, model);
+    if (!query) return {};
+    try {
+      const compiled = compileSemanticQuery(model, query);
+      return { sql: compiled.sql, sqlWarnings: compiled.warnings };
+    } catch (error) {
+      if (error instanceof SemanticQueryError) return { sqlWarnings: [error.message] };
+      throw error;
+    }
+  };
+
   const handleSendMessage = async () => {
     if (!inputValue.trim() || !activeConversation || isGenerating) return;
 
@@ -180,6 +201,7 @@ export const BigQueryConversation: React.FC<BigQueryConversationProps> = ({ onBa
     setIsGenerating(true);
 
     try {
+      const compiling = compileQuestion(question).catch(() => ({}));
       const response = await ai.models.generateContent({
         model: 'gemini-2.5-flash',
         contents: `You are a data analyst assistant. The user is querying data from "${selectedDataSource?.name || 'a data source'}".
@@ -196,7 +218,8 @@ Provide a brief, helpful response explaining what query you would write and what
         type: 'assistant',
         content: response.text || "I've analyzed your request and here are the results.",
         timestamp: new Date(),
-        ...mockData
+        ...mockData,
+        ...(await compiling)
       };
 
       setConversations(prev => prev.map(conv => 
@@ -399,6 +422,18 @@ Provide a brief, helpful response explaining what query you would write and what
                     {/* Response Text */}
                     <p className="text-gray-700 ml-11">{message.content}</p>
 
+                    {/* Generated SQL */}
+                    {(message.sql || !!message.sqlWarnings?.length) && (
+                      <div className="ml-11">
+                        {message.sql && (
+                          <pre className="bg-gray-50 border border-gray-200 rounded-lg p-4 text-xs text-gray-800 overflow-x-auto mb-2">{message.sql}</pre>
+                        )}
+                        {message.sqlWarnings?.map((warning, idx) => (
+                          <p key={idx} className="text-xs text-amber-700">{warning}</p>
+                        ))}
+                      </div>
+                    )}
+
                     {/* Query Result */}
                     {message.queryResult && (
                       <div className="ml-11">
@@ -0,0 +1,71 @@
+import React from 'react';
+import { X, RotateCcw, History, Circle, CheckCircle2 } from 'lucide-react';
+import { CommandHistory } from '../services/commandHistory';
+
+interface HistoryPanelProps {
+    history: CommandHistory;
+    onJump: (position: number) => void;
+    onClose: () => void;
+}
+
+const isMac = typeof navigator !== 'undefined' && /Mac|iPhone|iPad/.test(navigator.platform);
+export const UNDO_SHORTCUT = isMac ? '⌘Z' : 'Ctrl+Z';
+export const REDO_SHORTCUT = isMac ? '⇧⌘Z' : 'Ctrl+Y';
+
+export const HistoryPanel: React.FC<HistoryPanelProps> = ({ history, onJump, onClose }) => {
+    const steps = [...history.past, ...history.future];
+    const position = history.past.length;
+
+    return (
+        <div className="w-80 bg-white rounded-lg shadow-lg border border-gray-200 overflow-hidden">
+            <div className="px-4 py-3 border-b border-gray-100 flex items-center justify-between">
+                <div className="flex items-center gap-2">
+                    <History size={16} className="text-blue-600" />
+                    <span className="text-sm font-semibold text-gray-800">Edit History</span>
+                </div>
+                <button onClick={onClose} className="p-1 hover:bg-gray-100 rounded text-gray-400 hover:text-gray-600">
+                    <X size={14} />
+                </button>
+            </div>
+
+            <div className="max-h-80 overflow-y-auto py-1">
+                {/* Newest first; position 0 is the state before any recorded edit */}
+                {steps.map((step, index) => ({ step, stepPosition: index + 1 })).reverse().map(({ step, stepPosition }) => {
+                    const isCurrent = stepPosition === position;
+                    const isUndone = stepPosition > position;
+                    return (
+                        <button
+                            key={step.id}
+                            onClick={() => onJump(stepPosition)}
+                            className={`w-full flex items-start gap-2 px-4 py-2 text-left text-sm transition-colors ${isCurrent ? 'bg-blue-50' : 'hover:bg-gray-50'}`}
+                        >
+                            {isCurrent
+                                ? <CheckCircle2 size={14} className="text-blue-600 shrink-0 mt-0.5" />
+                                : <Circle size={14} className={`shrink-0 mt-0.5 ${isUndone ? 'text-gray-200' : 'text-gray-300'}`} />}
+                            <div className="min-w-0">
+                                <div className={`truncate ${isCurrent ? 'text-blue-700 font-medium' : isUndone ? 'text-gray-400 line-through' : 'text-gray-700'}`}>
+                                    {step.label}
+                                </div>
+                                <div className="text-[10px] text-gray-400">{step.timestamp.toLocaleTimeString()}</div>
+                            </div>
+                        </button>
+                    );
+                })}
+                <button
+                    onClick={() => onJump(0)}
+                    disabled={steps.length === 0}
+                    className={`w-full flex items-center gap-2 px-4 py-2 text-left text-sm transition-colors ${position === 0 ? 'bg-blue-50 text-blue-700 font-medium' : 'text-gray-500 hover:bg-gray-50'}`}
+                >
+                    <RotateCcw size={14} className="shrink-0" />
+                    Opened model
+                </button>
+            </div>
+
+            <div className="px-4 py-2 border-t border-gray-100 bg-gray-50 text-[10px] text-gray-400">
+                {steps.length === 0
+                    ? 'Edits you make to this model will appear here.'
+                    : `Undo ${UNDO_SHORTCUT} · Redo ${REDO_SHORTCUT} · Click a step to jump to it`}
+            </div>
+        </div>
+    );
+};
@@ -0,0 +1,269 @@
+import React, { useState, useEffect, useMemo, useRef } from 'react';
+import { ArrowLeft, ArrowRight, GitMerge, Upload, AlertCircle, AlertTriangle, Check, FileText } from 'lucide-react';
+import { SemanticModel, ModelSnapshot } from '../types';
+import { listSnapshots } from '../services/modelStorage';
+import { parseModelYaml, documentToModel, getModelFilePath } from '../services/modelYaml';
+import { mergeModels, findDanglingRelationships, ConflictSide, MergeConflict, EXISTS_FIELD } from '../services/modelMerge';
+import { diffModels } from '../services/modelDiff';
+import { ModelDiffView, formatDiffValue } from './ModelDiffView';
+
+interface MergePageProps {
+    model: SemanticModel;
+    onApply: (merged: SemanticModel) => void;
+    onBack: () => void;
+}
+
+const readModelFile = async (file: File): Promise<SemanticModel> => {
+    const text = await file.text();
+    return file.name.toLowerCase().endsWith('.json') ? documentToModel(JSON.parse(text)) : parseModelYaml(text);
+};
+
+const ConflictValue: React.FC<{ value: any; field: string }> = ({ value, field }) => {
+    if (field === EXISTS_FIELD) {
+        return <span className={value ? 'text-gray-700' : 'text-red-600 italic'}>{value ? 'Kept (modified)' : 'Deleted'}</span>;
+    }
+    return <span className="font-mono break-all">{formatDiffValue(value)}</span>;
+};
+
+const ConflictCard: React.FC<{
+    conflict: MergeConflict;
+    side: ConflictSide;
+    onChange: (side: ConflictSide) => void;
+}> = ({ conflict, side, onChange }) => (
+    <div className="bg-white rounded-xl border border-amber-200 overflow-hidden">
+        <div className="px-4 py-2 bg-amber-50 border-b border-amber-200 flex items-center justify-between">
+            <span className="text-sm font-medium text-gray-800">{conflict.label}</span>
+            <span className="text-[10px] font-semibold uppercase text-amber-700">
+                {conflict.category} · {conflict.field === EXISTS_FIELD ? 'deleted vs modified' : conflict.field}
+            </span>
+        </div>
+        <div className="grid grid-cols-2 divide-x divide-gray-100 text-xs">
+            {(['ours', 'theirs'] as const).map(option => (
+                <button
+                    key={option}
+                    onClick={() => onChange(option)}
+                    className={`p-3 text-left transition-colors ${side === option ? 'bg-blue-50 ring-2 ring-inset ring-blue-400' : 'hover:bg-gray-50'}`}
+                >
+                    <div className="flex items-center gap-2 mb-1 text-[11px] font-semibold uppercase text-gray-500">
+                        <span className={`w-3.5 h-3.5 rounded-full border-2 flex items-center justify-center ${side === option ? 'border-blue-600 bg-blue-600' : 'border-gray-300'}`}>
+                            {side === option && <Check size={8} className="text-white" />}
+                        </span>
+                        {option === 'ours' ? 'Keep mine' : 'Take theirs'}
+                    </div>
+                    <ConflictValue value={conflict[option]} field={conflict.field} />
+                </button>
+            ))}
+        </div>
+        {conflict.field !== EXISTS_FIELD && (
+            <div className="px-4 py-2 border-t border-gray-100 text-[11px] text-gray-400">
+                Base: <span className="font-mono">{formatDiffValue(conflict.base)}</span>
+            </div>
+        )}
+    </div>
+);
+
+export const MergePage: React.FC<MergePageProps> = ({ model, onApply, onBack }) => {
+    const [snapshots, setSnapshots] = useState<ModelSnapshot[]>([]);
+    const [baseSnapshotId, setBaseSnapshotId] = useState('');
+    const [uploadedBase, setUploadedBase] = useState<{ name: string; model: SemanticModel } | null>(null);
+    const [theirs, setTheirs] = useState<{ name: string; model: SemanticModel } | null>(null);
+    const [resolutions, setResolutions] = useState<Record<string, ConflictSide>>({});
+    const [error, setError] = useState<string | null>(null);
+    const baseInputRef = useRef<HTMLInputElement>(null);
+    const theirsInputRef = useRef<HTMLInputElement>(null);
+
+    useEffect(() => {
+        listSnapshots(model.id)
+            .then(list => {
+                setSnapshots(list);
+                if (list.length > 0) setBaseSnapshotId(list[0].id);
+            })
+            .catch(err => setError(`Could not load snapshots: ${err.message}`));
+    }, [model.id]);
+
+    const baseModel = uploadedBase?.model || snapshots.find(s => s.id === baseSnapshotId)?.model;
+
+    const result = useMemo(
+        () => (baseModel && theirs ? mergeModels(baseModel, model, theirs.model, resolutions) : null),
+        [baseModel, model, theirs, resolutions]
+    );
+    const dangling = useMemo(() => (result ? findDanglingRelationships(result.merged) : []), [result]);
+    // What Apply writes: the merge without the dangling relationships
+    const applied = useMemo(() => {
+        if (!result) return null;
+        const danglingIds = new Set(dangling.map(r => r.id));
+        return { ...result.merged, relationships: result.merged.relationships.filter(r => !danglingIds.has(r.id)) };
+    }, [result, dangling]);
+    const preview = useMemo(() => (applied ? diffModels(model, applied) : null), [applied, model]);
+    // Dangling relationships can point at entities only one of the inputs still has
+    const entityName = (id: string) =>
+        [model, theirs?.model, baseModel].flatMap(m => m?.entities || []).find(e => e.id === id)?.name || id;
+
+    const handleFile = async (file: File | undefined, setter: (value: { name: string; model: SemanticModel }) => void) => {
+        if (!file) return;
+        try {
+            setter({ name: file.name, model: await readModelFile(file) });
+            setResolutions({});
+            setError(null);
+        } catch (err: any) {
+            setError(`Could not read ${file.name}: ${err.message}`);
+        }
+    };
+
+    const handleApply = () => {
+        if (applied) onApply(applied);
+    };
+
+    const resolveAll = (side: ConflictSide) => {
+        if (!result) return;
+        setResolutions(Object.fromEntries(result.conflicts.map(c => [c.id, side])));
+    };
+
+    return (
+        <div className="flex flex-col h-full bg-gradient-to-br from-gray-50 to-gray-100">
+            {/* Header */}
+            <div className="h-14 border-b border-gray-200 bg-white flex items-center justify-between px-6">
+                <button onClick={onBack} className="flex items-center gap-2 text-gray-600 hover:text-gray-900 text-sm font-medium">
+                    <ArrowLeft size={18} />
+                    Back to Model
+                </button>
+                <div className="flex items-center gap-2">
+                    <GitMerge size={18} className="text-blue-600" />
+                    <span className="font-semibold text-gray-800">Merge: {model.name}</span>
+                </div>
+                <button
+                    onClick={handleApply}
+                    disabled={!result}
+                    className="px-4 py-2 bg-blue-600 text-white rounded-lg text-sm font-medium hover:bg-blue-700 transition-colors disabled:opacity-50 disabled:cursor-not-allowed flex items-center gap-2"
+                >
+                    <Check size={16} />
+                    Apply Merge
+                </button>
+            </div>
+
+            <div className="flex-1 overflow-y-auto p-8">
+                <div className="max-w-5xl mx-auto space-y-6">
+                    {/* Inputs */}
+                    <div className="grid grid-cols-3 gap-4">
+                        <div className="bg-white rounded-2xl border border-gray-200 p-5">
+                            <div className="text-[11px] font-bold text-gray-500 uppercase tracking-wider mb-3">Common base</div>
+                            {uploadedBase ? (
+                                <div className="flex items-center gap-2 text-sm text-gray-700">
+                                    <FileText size={14} className="text-gray-400" />
+                                    <span className="truncate flex-1">{uploadedBase.name}</span>
+                                    <button onClick={() => setUploadedBase(null)} className="text-xs text-blue-600 hover:underline">Use snapshot</button>
+                                </div>
+                            ) : (
+                                <select
+                                    value={baseSnapshotId}
+                                    onChange={(e) => { setBaseSnapshotId(e.target.value); setResolutions({}); }}
+                                    className="w-full px-3 py-2 border border-gray-300 rounded-lg text-sm bg-white outline-none focus:ring-2 focus:ring-blue-500"
+                                >
+                                    <option value="" disabled>{snapshots.length ? 'Select a snapshot…' : 'No snapshots saved'}</option>
+                                    {snapshots.map(s => (
+                                        <option key={s.id} value={s.id}>{s.name} — {s.createdAt.toLocaleString()}</option>
+                                    ))}
+                                </select>
+                            )}
+                            <input ref={baseInputRef} type="file" accept=".yaml,.yml,.json" className="hidden" onChange={(e) => handleFile(e.target.files?.[0], setUploadedBase)} />
+                            <button onClick={() => baseInputRef.current?.click()} className="mt-3 text-xs text-gray-500 hover:text-blue-600 flex items-center gap-1">
+                                <Upload size={12} /> Upload base file instead
+                            </button>
+                        </div>
+                        <div className="bg-white rounded-2xl border border-gray-200 p-5">
+                            <div className="text-[11px] font-bold text-gray-500 uppercase tracking-wider mb-3">Mine</div>
+                            <div className="text-sm text-gray-700">Working copy</div>
+                            <div className="text-xs text-gray-400 mt-1">{model.entities.length} entities · {model.relationships.length} relationships</div>
+                        </div>
+                        <div className="bg-white rounded-2xl border border-gray-200 p-5">
+                            <div className="text-[11px] font-bold text-gray-500 uppercase tracking-wider mb-3">Theirs</div>
+                            {theirs ? (
+                                <div className="flex items-center gap-2 text-sm text-gray-700">
+                                    <FileText size={14} className="text-gray-400" />
+                                    <span className="truncate">{theirs.name}</span>
+                                </div>
+                            ) : (
+                                <div className="text-sm text-gray-400 italic">No file selected</div>
+                            )}
+                            <input ref={theirsInputRef} type="file" accept=".yaml,.yml,.json" className="hidden" onChange={(e) => handleFile(e.target.files?.[0], setTheirs)} />
+                            <button onClick={() => theirsInputRef.current?.click()} className="mt-3 text-xs text-gray-500 hover:text-blue-600 flex items-center gap-1">
+                                <Upload size={12} /> Upload their model file
+                            </button>
+                        </div>
+                    </div>
+
+                    {error && (
+                        <div className="flex items-start gap-2 p-3 bg-red-50 border border-red-200 rounded-lg text-sm text-red-700">
+                            <AlertCircle size={16} className="shrink-0 mt-0.5" />
+                            <span>{error}</span>
+                        </div>
+                    )}
+
+                    {!result && (
+                        <div className="bg-white rounded-xl border border-dashed border-gray-300 p-8 text-center text-sm text-gray-500">
+                            Choose a common base and upload the other version of <code className="bg-gray-100 px-1 rounded">{getModelFilePath(model)}</code> to merge.
+                        </div>
+                    )}
+
+                    {result && (
+                        <>
+                            {/* Conflicts */}
+                            <div>
+                                <div className="flex items-center justify-between mb-3">
+                                    <h3 className="text-sm font-semibold text-gray-600 uppercase tracking-wider">
+                                        Conflicts ({result.conflicts.length})
+                                    </h3>
+                                    {result.conflicts.length > 0 && (
+                                        <div className="flex gap-2 text-xs">
+                                            <button onClick={() => resolveAll('ours')} className="px-2 py-1 rounded hover:bg-gray-200 text-gray-600">Keep all mine</button>
+                                            <button onClick={() => resolveAll('theirs')} className="px-2 py-1 rounded hover:bg-gray-200 text-gray-600">Take all theirs</button>
+                                        </div>
+                                    )}
+                                </div>
+                                {result.conflicts.length === 0 ? (
+                                    <div className="bg-green-50 border border-green-200 rounded-xl p-4 text-sm text-green-700 flex items-center gap-2">
+                                        <Check size={16} /> No conflicts — all changes merge cleanly.
+                                    </div>
+                                ) : (
+                                    <div className="space-y-3">
+                                        {result.conflicts.map(conflict => (
+                                            <ConflictCard
+                                                key={conflict.id}
+                                                conflict={conflict}
+                                                side={resolutions[conflict.id] || 'ours'}
+                                                onChange={(side) => setResolutions(prev => ({ ...prev, [conflict.id]: side }))}
+                                            />
+                                        ))}
+                                    </div>
+                                )}
+                            </div>
+
+                            {dangling.length > 0 && (
+                                <div className="flex items-start gap-2 p-3 bg-amber-50 border border-amber-200 rounded-lg text-sm text-amber-800">
+                                    <AlertTriangle size={16} className="shrink-0 mt-0.5" />
+                                    <div>
+                                        {dangling.length} relationship{dangling.length > 1 ? 's point' : ' points'} at entities or properties removed by the merge and will be dropped:
+                                        <ul className="mt-1 list-disc list-inside">
+                                            {dangling.map(rel => (
+                                                <li key={rel.id}>
+                                                    {entityName(rel.sourceEntityId)} <ArrowRight size={12} className="inline" /> {entityName(rel.targetEntityId)}
+                                                    {(rel.label || rel.title) && <span className="text-amber-600"> ({rel.label || rel.title})</span>}
+                                                </li>
+                                            ))}
+                                        </ul>
+                                    </div>
+                                </div>
+                            )}
+
+                            {/* Resulting changes to the working copy */}
+                            <div>
+                                <h3 className="text-sm font-semibold text-gray-600 uppercase tracking-wider mb-3">Changes to your working copy</h3>
+                                {preview && <ModelDiffView diff={preview} emptyMessage="Merging leaves your working copy unchanged." />}
+                            </div>
+                        </>
+                    )}
+                </div>
+            </div>
+        </div>
+    );
+};
@@ -0,0 +1,123 @@
+import React, { useState } from 'react';
+import { Plus, Minus, Edit, ChevronDown, ChevronRight, CheckCircle2 } from 'lucide-react';
+import { ModelDiff, DiffEntry, DiffCategory, ChangeKind } from '../services/modelDiff';
+
+interface ModelDiffViewProps {
+    diff: ModelDiff;
+    emptyMessage?: string;
+}
+
+const CATEGORY_ORDER: DiffCategory[] = ['model', 'entity', 'property', 'binding', 'relationship', 'aspect', 'glossary'];
+
+const CATEGORY_LABELS: Record<DiffCategory, string> = {
+    model: 'Model',
+    entity: 'Entities',
+    property: 'Properties',
+    binding: 'Bindings',
+    relationship: 'Relationships',
+    aspect: 'Aspects',
+    glossary: 'Glossary Links'
+};
+
+const KIND_STYLES: Record<ChangeKind, { badge: string; icon: React.ReactNode }> = {
+    added: { badge: 'bg-green-50 text-green-700 border-green-200', icon: <Plus size={12} /> },
+    removed: { badge: 'bg-red-50 text-red-700 border-red-200', icon: <Minus size={12} /> },
+    changed: { badge: 'bg-amber-50 text-amber-700 border-amber-200', icon: <Edit size={12} /> }
+};
+
+export const formatDiffValue = (value: any): string => {
+    if (value === undefined || value === null || value === '') return '—';
+    if (value instanceof Date) return value.toISOString();
+    if (typeof value === 'object') return JSON.stringify(value);
+    return String(value);
+};
+
+const DiffEntryRow: React.FC<{ entry: DiffEntry }> = ({ entry }) => {
+    const [isExpanded, setIsExpanded] = useState(false);
+    const style = KIND_STYLES[entry.kind];
+    const canExpand = entry.changes.length > 0;
+
+    return (
+        <div className="border-b border-gray-100 last:border-b-0">
+            <button
+                onClick={() => canExpand && setIsExpanded(!isExpanded)}
+                className={`w-full flex items-center gap-3 px-4 py-2.5 text-left text-sm ${canExpand ? 'hover:bg-gray-50' : 'cursor-default'}`}
+            >
+                <span className={`inline-flex items-center gap-1 px-2 py-0.5 text-[10px] font-semibold uppercase rounded-full border ${style.badge}`}>
+                    {style.icon}
+                    {entry.kind}
+                </span>
+                <span className="flex-1 text-gray-800 truncate">{entry.label}</span>
+                {canExpand && (
+                    <span className="text-xs text-gray-400 flex items-center gap-1">
+                        {entry.changes.map(c => c.field).join(', ')}
+                        {isExpanded ? <ChevronDown size={14} /> : <ChevronRight size={14} />}
+                    </span>
+                )}
+            </button>
+            {isExpanded && (
+                <div className="px-4 pb-3">
+                    <table className="w-full text-xs font-mono">
+                        <tbody>
+                            {entry.changes.map(change => (
+                                <tr key={change.field} className="align-top">
+                                    <td className="py-1 pr-3 text-gray-500 whitespace-nowrap">{change.field}</td>
+                                    <td className="py-1 pr-3 text-red-600 line-through break-all">{formatDiffValue(change.before)}</td>
+                                    <td className="py-1 text-green-700 break-all">{formatDiffValue(change.after)}</td>
+                                </tr>
+                            ))}
+                        </tbody>
+                    </table>
+                </div>
+            )}
+        </div>
+    );
+};
+
+export const ModelDiffView: React.FC<ModelDiffViewProps> = ({ diff, emptyMessage = 'No differences between these versions.' }) => {
+    if (diff.entries.length === 0) {
+        return (
+            <div className="bg-white rounded-xl border border-gray-200 p-8 text-center text-sm text-gray-500">
+                <CheckCircle2 size={28} className="mx-auto mb-3 text-green-500" />
+                {emptyMessage}
+            </div>
+        );
+    }
+
+    return (
+        <div className="space-y-4">
+            {/* Summary */}
+            <div className="flex flex-wrap gap-2">
+                {CATEGORY_ORDER.map(category => {
+                    const counts = diff.summary[category];
+                    const total = counts.added + counts.removed + counts.changed;
+                    if (total === 0) return null;
+                    return (
+                        <span key={category} className="px-3 py-1 bg-white border border-gray-200 rounded-full text-xs text-gray-600">
+                            <span className="font-medium text-gray-800">{CATEGORY_LABELS[category]}</span>
+                            {counts.added > 0 && <span className="ml-2 text-green-600">+{counts.added}</span>}
+                            {counts.removed > 0 && <span className="ml-2 text-red-600">−{counts.removed}</span>}
+                            {counts.changed > 0 && <span className="ml-2 text-amber-600">~{counts.changed}</span>}
+                        </span>
+                    );
+                })}
+            </div>
+
+            {/* Entries grouped by category */}
+            {CATEGORY_ORDER.map(category => {
+                const entries = diff.entries.filter(e => e.category === category);
+                if (entries.length === 0) return null;
+                return (
+                    <div key={category} className="bg-white rounded-xl border border-gray-200 overflow-hidden">
+                        <div className="px-4 py-2 bg-gray-50 border-b border-gray-200 text-[11px] font-bold text-gray-500 uppercase tracking-wider">
+                            {CATEGORY_LABELS[category]} ({entries.length})
+                        </div>
+                        {entries.map(entry => (
+                            <DiffEntryRow key={`${entry.kind}_${entry.category}_${entry.entityId || ''}_${entry.propertyId || ''}_${entry.id}`} entry={entry} />
+                        ))}
+                    </div>
+                );
+            })}
+        </div>
+    );
+};
@@ -1,12 +1,41 @@
 import React, { useState, useMemo, useRef, useEffect } from 'react';
-import { Entity, SemanticModel, EntityType, Relationship, Property, AspectAssignment, GlossaryTerm, DescriptionHistory, PropertyType, EntityUpdateSuggestion, SuggestionStatus, SuggestionSource, SuggestionType } from '../types';
-import { Plus, Database, Table as TableIcon, Columns, ArrowRight, Save, Wand2, X, Maximize2, Layers, ArrowLeft, GitCommit, Link, Pencil, Check, Rocket, ChevronDown, BarChart3, Settings2, PieChart, LineChart, Activity, Calendar, AlertCircle, TrendingUp, GripVertical, ExternalLink, ChevronRight, Minimize2, Search, FileText, BookOpen, Tag, Upload, Eye, Trash2, MoreVertical, Download, Key, Edit3, MessageSquare, Send, Bot, User, Sparkles, Bell, RotateCcw, Info } from 'lucide-react';
+import { Entity, SemanticModel, EntityType, Relationship, Property, AspectAssignment, GlossaryTerm, DescriptionHistory, PropertyType, AggregationType, Additivity, EntityUpdateSuggestion, SuggestionStatus, SuggestionSource, SuggestionType, ModelSnapshot } from '../types';
+import { Plus, Database, Table as TableIcon, Columns, ArrowRight, Save, Wand2, X, Maximize2, Layers, ArrowLeft, GitCommit, Link, Pencil, Check, Rocket, ChevronDown, BarChart3, Settings2, PieChart, LineChart, Activity, Calendar, AlertCircle, TrendingUp, GripVertical, ExternalLink, ChevronRight, Minimize2, Search, FileText, BookOpen, Tag, Upload, Eye, Trash2, MoreVertical, Download, Key, Edit3, MessageSquare, Send, Bot, User, Sparkles, Bell, RotateCcw, Info, History, GitMerge, Undo2, Redo2, Share2 } from 'lucide-react';
 import { suggestEntitiesFromDescription, generateAssistantResponse } from '../services/geminiService';
 import { WikiEditor } from './WikiEditor';
 import { AspectSelector, AVAILABLE_ASPECT_TYPES } from './AspectSelector';
 import { GlossarySelector } from './GlossarySelector';
 import { SuggestionPanel } from './SuggestionPanel';
 import { EnterpriseGraphView } from './EnterpriseGraphView';
+import { serializeModelToYaml, parseModelYaml, documentToModel, getModelFilePath } from '../services/modelYaml';
+import { CURRENT_FORMAT_VERSION, SEMANTIC_MODEL_JSON_SCHEMA } from '../services/modelSchema';
+import { listSnapshots, saveSnapshot, createSnapshot } from '../services/modelStorage';
+import { diffModels, ModelDiff } from '../services/modelDiff';
+import { ModelDiffView } from './ModelDiffView';
+import { SnapshotsPage } from './SnapshotsPage';
+import { MergePage } from './MergePage';
+import { HistoryPanel, UNDO_SHORTCUT, REDO_SHORTCUT } from './HistoryPanel';
+import { lookmlToModel } from '../services/lookmlImport';
+import { generateLookmlProject } from '../services/lookmlExport';
+import { generateBigQueryViewDdl } from '../services/bigqueryViews';
+import { createZip, ArchiveFile } from '../services/zipArchive';
+import { dbtToModel } from '../services/dbtImport';
+import { generateDbtProject } from '../services/dbtExport';
+import { generateGraphqlApi } from '../services/graphqlSchema';
+import { buildCatalogRequests, createRestCatalogClient, deployCatalog, CatalogDeployResult, DATAPLEX_API_URL, DATAPLEX_STUB_URL } from '../services/dataplexCatalog';
+import { ddlToModel } from '../services/ddlImport';
+import { generateSpannerGraphDdl, isSpannerGraphDdl, spannerGraphToModel } from '../services/spannerGraph';
+import { validateSpannerDdl } from '../services/spannerDdlValidator';
+import { turtleToModel, modelToTurtle } from '../services/turtleOntology';
+import { dbmlToModel, modelToDbml } from '../services/dbml';
+import { samplesToModel, SAMPLE_FILE_PATTERN } from '../services/sampleImport';
+import { generateErDiagram, subgraphAround, DiagramFormat, DIAGRAM_FORMATS } from '../services/erDiagram';
+import { generateDocsSite, DocsFormat } from '../services/docsSite';
+import { compileSemanticQuery, SemanticQueryError } from '../services/semanticQuery';
+import { describeJoinPath } from '../services/joinPlanner';
+import { AGGREGATION_LABELS, ADDITIVITY_LABELS, measureAggregation, measureAdditivity } from '../services/measures';
+import { buildDependencyGraph, withDefinition, propertyKey, referenceLabel, issuesOf, downstreamOf, DEPENDENCY_LEVEL_LABELS } from '../services/derivedMetrics';
+import { CommandHistory, HistoryMove, emptyHistory, recordChange, undo, redo, jumpTo } from '../services/commandHistory';
 
 // Mock Schema for BigQuery Tables to power the dropdowns
 const MOCK_BQ_SCHEMA: Record<string, Array<{ name: string, type: string }>> = {
@@ -52,7 +81,7 @@ type Selection =
   | { type: 'RELATIONSHIP'; id: string }
   | null;
 
-type ViewMode = 'GRAPH' | 'AUTHORING' | 'FULL_PAGE_ENTITY' | 'DEPLOY' | 'SETTINGS';
+type ViewMode = 'GRAPH' | 'AUTHORING' | 'FULL_PAGE_ENTITY' | 'DEPLOY' | 'SETTINGS' | 'SNAPSHOTS' | 'MERGE';
 
 export const SemanticBuilder: React.FC<SemanticBuilderProps> = ({ 
   models, 
@@ -70,11 +99,60 @@ export const SemanticBuilder: React.FC<SemanticBuilderProps> = ({
 }) => {
   const model = models.find(m => m.id === activeModelId);
   
-  const setModel = (updater: SemanticModel | ((prev: SemanticModel) => SemanticModel)) => {
+  // Undo/redo history per model. Changes are recorded by observing the active
+  // model, so edits that arrive from outside the builder (approved suggestions,
+  // other tabs) become undoable steps too.
+  const [histories, setHistories] = useState<Record<string, CommandHistory>>({});
+  const [isHistoryOpen, setIsHistoryOpen] = useState(false);
+  const lastSeenModelsRef = useRef<Record<string, SemanticModel>>({});
+  const pendingLabelRef = useRef<string | undefined>(undefined);
+  const history = (model && histories[model.id]) || emptyHistory();
+
+  const setModel = (updater: SemanticModel | ((prev: SemanticModel) => SemanticModel), label?: string) => {
     if (!model) return;
     const newModel = typeof updater === 'function' ? updater(model) : updater;
+    pendingLabelRef.current = label;
     onUpdateModel({ ...newModel, updatedAt: new Date() });
   };
+
+  useEffect(() => {
+    if (!model) return;
+    const previous = lastSeenModelsRef.current[model.id];
+    lastSeenModelsRef.current[model.id] = model;
+    const label = pendingLabelRef.current;
+    pendingLabelRef.current = undefined;
+    if (!previous || previous === model) return;
+    setHistories(prev => ({ ...prev, [model.id]: recordChange(prev[model.id] || emptyHistory(), previous, model, label) }));
+  }, [model]);
+
+  const applyHistoryMove = (move: HistoryMove | null) => {
+    if (!model || !move) return;
+    const restored = { ...move.model, updatedAt: new Date() };
+    // Mark as seen first so restoring a step is not itself recorded
+    lastSeenModelsRef.current[model.id] = restored;
+    setHistories(prev => ({ ...prev, [model.id]: move.history }));
+    onUpdateModel(restored);
+  };
+
+  useEffect(() => {
+    if (!model) return;
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (!(e.metaKey || e.ctrlKey) || e.altKey) return;
+      const target = e.target as HTMLElement | null;
+      // Leave text fields to their native undo
+      if (target && (target.isContentEditable || ['INPUT', 'TEXTAREA', 'SELECT'].includes(target.tagName))) return;
+      const key = e.key.toLowerCase();
+      if (key === 'z' && !e.shiftKey) {
+        e.preventDefault();
+        applyHistoryMove(undo(history));
+      } else if ((key === 'z' && e.shiftKey) || key === 'y') {
+        e.preventDefault();
+        applyHistoryMove(redo(history));
+      }
+    };
+    document.addEventListener('keydown', handleKeyDown);
+    return () => document.removeEventListener('keydown', handleKeyDown);
+  });
   const [selection, setSelection] = useState<Selection>(null);
   const [viewMode, setViewMode] = useState<ViewMode>('GRAPH');
   
@@ -250,6 +328,19 @@ export const SemanticBuilder: React.FC<SemanticBuilderProps> = ({
       }
   };
 
+  const handleExportTurtle = () => {
+      if (!model) return;
+      const blob = new Blob([modelToTurtle(model)], { type: 'text/turtle' });
+      const url = URL.createObjectURL(blob);
+      const a = document.createElement('a');
+      a.href = url;
+      a.download = `${model.name.toLowerCase().replace(/\s+/g, '_')}.ttl`;
+      document.body.appendChild(a);
+      a.click();
+      document.body.removeChild(a);
+      URL.revokeObjectURL(url);
+  };
+
   // Scroll chat to bottom when messages change
   useEffect(() => {
     chatEndRef.current?.scrollIntoView({ behavior: 'smooth' });
@@ -358,6 +449,28 @@ export const SemanticBuilder: React.FC<SemanticBuilderProps> = ({
       );
   }
 
+  if (viewMode === 'SNAPSHOTS' && model) {
+      return (
+          <SnapshotsPage 
+            model={model}
+            onBack={() => setViewMode('GRAPH')}
+          />
+      );
+  }
+
+  if (viewMode === 'MERGE' && model) {
+      return (
+          <MergePage 
+            model={model}
+            onApply={(merged) => {
+                setModel(merged, 'Merge changes');
+                setViewMode('GRAPH');
+            }}
+            onBack={() => setViewMode('GRAPH')}
+          />
+      );
+  }
+
   if (viewMode === 'SETTINGS' && model) {
       return (
           <ModelSettingsPage 
@@ -451,10 +564,12 @@ export const SemanticBuilder: React.FC<SemanticBuilderProps> = ({
         {showImportModal && (
           <NewModelModal 
             onClose={() => setShowImportModal(false)}
+            existingModelIds={models.map(m => m.id)}
             onCreate={(newModel) => {
               onCreateModel(newModel);
               setShowImportModal(false);
             }}
+            onAddSuggestion={onAddSuggestion}
           />
         )}
       </div>
@@ -503,6 +618,32 @@ export const SemanticBuilder: React.FC<SemanticBuilderProps> = ({
                      <div className="text-xs text-gray-400">Description, aspects, glossary</div>
                    </div>
                  </button>
+                 <button
+                   onClick={() => {
+                     setViewMode('SNAPSHOTS');
+                     setShowSettingsMenu(false);
+                   }}
+                   className="w-full flex items-center gap-3 px-4 py-2.5 text-sm text-gray-700 hover:bg-gray-50 transition-colors text-left"
+                 >
+                   <History size={16} className="text-gray-400" />
+                   <div>
+                     <div className="font-medium">Snapshots & Changes</div>
+                     <div className="text-xs text-gray-400">Save versions and compare them</div>
+                   </div>
+                 </button>
+                 <button
+                   onClick={() => {
+                     setViewMode('MERGE');
+                     setShowSettingsMenu(false);
+                   }}
+                   className="w-full flex items-center gap-3 px-4 py-2.5 text-sm text-gray-700 hover:bg-gray-50 transition-colors text-left"
+                 >
+                   <GitMerge size={16} className="text-gray-400" />
+                   <div>
+                     <div className="font-medium">Merge Changes</div>
+                     <div className="text-xs text-gray-400">Three-way merge another version</div>
+                   </div>
+                 </button>
                  <button
                    onClick={() => {
                      setShowGitFileModal(true);
@@ -516,6 +657,19 @@ export const SemanticBuilder: React.FC<SemanticBuilderProps> = ({
                      <div className="text-xs text-gray-400">Update source file reference</div>
                    </div>
                  </button>
+                 <button
+                   onClick={() => {
+                     handleExportTurtle();
+                     setShowSettingsMenu(false);
+                   }}
+                   className="w-full flex items-center gap-3 px-4 py-2.5 text-sm text-gray-700 hover:bg-gray-50 transition-colors text-left"
+                 >
+                   <Download size={16} className="text-gray-400" />
+                   <div>
+                     <div className="font-medium">Export as Turtle</div>
+                     <div className="text-xs text-gray-400">OWL ontology for RDF tools</div>
+                   </div>
+                 </button>
                  <div className="border-t border-gray-100 my-1"></div>
                  <button
                    onClick={() => {
@@ -702,8 +856,46 @@ export const SemanticBuilder: React.FC<SemanticBuilderProps> = ({
           />
         )}
         
-        {model.entities.length < 20 && (
-          <div className="absolute top-4 right-4 flex gap-2 z-10">
+        <div className={`absolute ${model.entities.length >= 20 ? 'top-14' : 'top-4'} right-4 flex items-start gap-2 z-10`}>
+            {/* Undo / Redo / History (below the enterprise view's own toolbar) */}
+            <div className="relative">
+                <div className="flex items-center bg-white rounded-lg shadow-md border border-gray-200 overflow-hidden">
+                    <button
+                        onClick={() => applyHistoryMove(undo(history))}
+                        disabled={history.past.length === 0}
+                        className="px-2.5 py-2 hover:bg-gray-100 text-gray-600 disabled:text-gray-300 disabled:hover:bg-white border-r border-gray-200"
+                        title={history.past.length ? `Undo ${history.past[history.past.length - 1].label} (${UNDO_SHORTCUT})` : 'Nothing to undo'}
+                    >
+                        <Undo2 size={16} />
+                    </button>
+                    <button
+                        onClick={() => applyHistoryMove(redo(history))}
+                        disabled={history.future.length === 0}
+                        className="px-2.5 py-2 hover:bg-gray-100 text-gray-600 disabled:text-gray-300 disabled:hover:bg-white border-r border-gray-200"
+                        title={history.future.length ? `Redo ${history.future[0].label} (${REDO_SHORTCUT})` : 'Nothing to redo'}
+                    >
+                        <Redo2 size={16} />
+                    </button>
+                    <button
+                        onClick={() => setIsHistoryOpen(!isHistoryOpen)}
+                        className={`px-2.5 py-2 transition-colors ${isHistoryOpen ? 'bg-blue-50 text-blue-600' : 'hover:bg-gray-100 text-gray-600'}`}
+                        title="Edit History"
+                    >
+                        <History size={16} />
+                    </button>
+                </div>
+                {isHistoryOpen && (
+                    <div className="absolute right-0 top-full mt-2 z-50">
+                        <HistoryPanel
+                            history={history}
+                            onJump={(position) => applyHistoryMove(jumpTo(history, position))}
+                            onClose={() => setIsHistoryOpen(false)}
+                        />
+                    </div>
+                )}
+            </div>
+
+            {model.entities.length < 20 && (
               <button 
                   onClick={() => setIsChatOpen(true)}
                   className="flex items-center gap-2 px-4 py-2 text-sm font-medium text-white bg-gradient-to-r from-purple-600 to-indigo-600 rounded-full shadow-lg hover:from-purple-700 hover:to-indigo-700 transition-all"
@@ -711,8 +903,8 @@ export const SemanticBuilder: React.FC<SemanticBuilderProps> = ({
                   <MessageSquare size={16} />
                   Talk to Your Data
               </button>
-          </div>
-        )}
+            )}
+        </div>
       </div>
 
       {/* Talk to Your Data Chat Panel */}
@@ -916,7 +1108,7 @@ export const SemanticBuilder: React.FC<SemanticBuilderProps> = ({
                         ) : (
                             // DASHBOARD TAB CONTENT
                             <div className="p-6">
-                                <EntityDashboard entity={selectedEntity} />
+                                <EntityDashboard entity={selectedEntity} model={model} />
                             </div>
                         )}
                     </>
@@ -1058,10 +1250,47 @@ export const SemanticBuilder: React.FC<SemanticBuilderProps> = ({
 const PropertyDefinitionEditor: React.FC<{
     definition: string;
     onChange: (definition: string) => void;
-}> = ({ definition, onChange }) => {
+    model: SemanticModel;
+    entity: Entity;
+    property: Property;
+}> = ({ definition, onChange, model, entity, property }) => {
     const [isValidating, setIsValidating] = useState(false);
     const [validationResult, setValidationResult] = useState<{ valid: boolean; message: string } | null>(null);
 
+    // ${...} references of the definition being edited, checked against the whole model
+    const graph = useMemo(
+        () => buildDependencyGraph(withDefinition(model, entity.id, property.id, definition)),
+        [model, entity.id, property.id, definition]
+    );
+    const key = propertyKey({ entity, property });
+    const node = graph.nodes.get(key);
+    const issues = node ? issuesOf(graph, node) : [];
+    const dependents = downstreamOf(graph, key).map(k => graph.nodes.get(k)!);
+
+    // Upstream dependencies as a tree; a property already on the branch closes a cycle
+    const renderUpstream = (nodeKey: string, branch: string[]): React.ReactNode => {
+        const children = graph.dependsOn.get(nodeKey) || [];
+        if (children.length === 0) return null;
+        return (
+            <ul className="ml-2 pl-3 border-l border-gray-200 space-y-1">
+                {children.map(childKey => {
+                    const child = graph.nodes.get(childKey)!;
+                    const circular = branch.includes(childKey);
+                    return (
+                        <li key={childKey}>
+                            <div className="flex items-center gap-2">
+                                <span className="font-mono text-gray-700">{referenceLabel(child)}</span>
+                                <span className="text-[10px] text-gray-400">{child.property.dataType} · {DEPENDENCY_LEVEL_LABELS[child.level]}</span>
+                                {circular && <span className="text-[10px] font-medium text-red-600">circular</span>}
+                            </div>
+                            {!circular && renderUpstream(childKey, [...branch, childKey])}
+                        </li>
+                    );
+                })}
+            </ul>
+        );
+    };
+
     const handleValidate = async () => {
         setIsValidating(true);
         setValidationResult(null);
@@ -1073,8 +1302,11 @@ const PropertyDefinitionEditor: React.FC<{
         const sqlKeywords = ['SELECT', 'FROM', 'WHERE', 'JOIN', 'GROUP BY', 'ORDER BY', 'HAVING', 'UNION', 'CASE', 'WHEN', 'THEN', 'ELSE', 'END', 'AS', 'AND', 'OR', 'NOT', 'IN', 'LIKE', 'BETWEEN', 'IS', 'NULL', 'COUNT', 'SUM', 'AVG', 'MIN', 'MAX', 'DISTINCT', 'CAST', 'COALESCE', 'IFNULL', 'NULLIF', 'IF', 'CONCAT', 'SUBSTR', 'LENGTH', 'TRIM', 'UPPER', 'LOWER', 'DATE', 'TIMESTAMP', 'EXTRACT', 'FORMAT_DATE', 'PARSE_DATE', 'DATE_ADD', 'DATE_SUB', 'DATE_DIFF', 'CURRENT_DATE', 'CURRENT_TIMESTAMP'];
         
         const trimmedDef = definition.trim();
+        const blocking = issues.find(issue => issue.kind !== 'type');
         if (!trimmedDef) {
             setValidationResult({ valid: false, message: 'Definition cannot be empty' });
+        } else if (blocking) {
+            setValidationResult({ valid: false, message: blocking.message });
         } else if (trimmedDef.includes(';') && trimmedDef.indexOf(';') !== trimmedDef.length - 1) {
             setValidationResult({ valid: false, message: 'Multiple statements not allowed' });
         } else {
@@ -1126,9 +1358,55 @@ const PropertyDefinitionEditor: React.FC<{
                         onChange(e.target.value);
                         setValidationResult(null);
                     }}
-                    placeholder="Enter GoogleSQL expression, e.g.:&#10;SUM(revenue) / COUNT(DISTINCT customer_id)&#10;CONCAT(first_name, ' ', last_name)&#10;DATE_DIFF(CURRENT_DATE(), order_date, DAY)"
+                    placeholder="Enter GoogleSQL expression, e.g.:&#10;SUM(revenue) / COUNT(DISTINCT customer_id)&#10;${Total Amount} / ${Trip Distance}&#10;CONCAT(${First Name}, ' ', ${Customer.Last Name})"
                     className="w-full text-sm font-mono border border-gray-300 rounded-lg p-3 focus:border-blue-500 outline-none bg-gray-50 min-h-[100px] resize-y"
                 />
+                {node && node.references.length > 0 && (
+                    <div className="mt-2 space-y-2 text-xs">
+                        <div className="space-y-1">
+                            {node.references.map(reference => (
+                                <div key={reference.start} className="flex items-center gap-2 flex-wrap">
+                                    <span className={`font-mono px-1.5 py-0.5 rounded ${reference.target ? 'bg-blue-50 text-blue-700' : 'bg-red-50 text-red-700'}`}>{`\${${reference.text}}`}</span>
+                                    {reference.target ? (
+                                        <>
+                                            <ArrowRight size={12} className="text-gray-400" />
+                                            <span className="font-mono text-gray-700">{referenceLabel(reference.target)}</span>
+                                            <span className="text-gray-400">{reference.target.property.dataType} · {DEPENDENCY_LEVEL_LABELS[graph.nodes.get(propertyKey(reference.target))!.level]}</span>
+                                            {reference.path && <span className="text-gray-400">via {describeJoinPath(reference.path)}</span>}
+                                        </>
+                                    ) : (
+                                        <span className="text-red-600">unresolved</span>
+                                    )}
+                                </div>
+                            ))}
+                        </div>
+                        {issues.length > 0 && (
+                            <div className="space-y-1">
+                                {issues.map((issue, idx) => (
+                                    <div key={idx} className={`p-2 rounded-lg flex items-start gap-2 border ${issue.kind === 'type' ? 'bg-amber-50 text-amber-800 border-amber-200' : 'bg-red-50 text-red-700 border-red-200'}`}>
+                                        <AlertCircle size={14} className="shrink-0 mt-0.5" />
+                                        <span>{issue.message}</span>
+                                    </div>
+                                ))}
+                            </div>
+                        )}
+                        <div className="p-2 rounded-lg border border-gray-200 bg-gray-50">
+                            <div className="flex items-center gap-1.5 mb-1 font-medium text-gray-600">
+                                <Share2 size={12} />
+                                Depends on
+                                <span className="font-normal text-gray-400">· {property.name} is {DEPENDENCY_LEVEL_LABELS[node.level].toLowerCase()}</span>
+                            </div>
+                            {renderUpstream(key, [key])}
+                        </div>
+                    </div>
+                )}
+                {dependents.length > 0 && (
+                    <div className="mt-2 text-xs text-gray-500">
+                        Used by {dependents.map(dependent => (
+                            <span key={dependent.key} className="font-mono text-gray-700 bg-gray-100 rounded px-1.5 py-0.5 mr-1">{referenceLabel(dependent)}</span>
+                        ))}
+                    </div>
+                )}
                 {validationResult && (
                     <div className={`mt-2 p-2 rounded-lg text-xs flex items-center gap-2 ${
                         validationResult.valid 
@@ -1186,9 +1464,17 @@ const FullPageEntityView: React.FC<FullPageEntityViewProps> = ({
     };
 
     const deleteProperty = (propId: string) => {
-        updateEntity({
-            properties: entity.properties.filter(p => p.id !== propId)
-        });
+        // Drop relationships keyed on this property so the model stays valid
+        setModel(prev => ({
+            ...prev,
+            entities: prev.entities.map(ent =>
+                ent.id === entity.id ? { ...ent, properties: ent.properties.filter(p => p.id !== propId) } : ent
+            ),
+            relationships: prev.relationships.filter(r =>
+                !(r.sourceEntityId === entity.id && r.sourcePropertyId === propId) &&
+                !(r.targetEntityId === entity.id && r.targetPropertyId === propId)
+            )
+        }));
         if (editingPropertyId === propId) {
             setEditingPropertyId(null);
         }
@@ -1454,6 +1740,55 @@ const FullPageEntityView: React.FC<FullPageEntityViewProps> = ({
                                                                     </div>
                                                                 </div>
 
+                                                                {/* Measure Semantics */}
+                                                                {prop.propertyType === PropertyType.MEASURE && (() => {
+                                                                    const defaultAggregation = measureAggregation({ ...prop, aggregation: undefined }, prop.bindingType === 'expression' ? prop.definition || prop.binding : undefined);
+                                                                    const timeProperties = entity.properties.filter(p => p.propertyType !== PropertyType.MEASURE && ['DATE', 'TIMESTAMP', 'DATETIME'].includes(p.dataType));
+                                                                    return (
+                                                                        <div className="grid grid-cols-3 gap-4">
+                                                                            <div>
+                                                                                <label className="block text-xs font-medium text-gray-500 uppercase tracking-wide mb-1">Aggregation</label>
+                                                                                <select
+                                                                                    value={prop.aggregation || ''}
+                                                                                    onChange={(e) => updateProperty(prop.id, { aggregation: (e.target.value || undefined) as AggregationType })}
+                                                                                    className="w-full text-sm border border-gray-300 rounded-lg p-2 focus:border-blue-500 outline-none bg-white"
+                                                                                >
+                                                                                    <option value="">Default{defaultAggregation ? ` (${AGGREGATION_LABELS[defaultAggregation]})` : ''}</option>
+                                                                                    {Object.values(AggregationType).map(aggregation => (
+                                                                                        <option key={aggregation} value={aggregation}>{AGGREGATION_LABELS[aggregation]}</option>
+                                                                                    ))}
+                                                                                </select>
+                                                                            </div>
+                                                                            <div>
+                                                                                <label className="block text-xs font-medium text-gray-500 uppercase tracking-wide mb-1">Additivity</label>
+                                                                                <select
+                                                                                    value={prop.additivity || ''}
+                                                                                    onChange={(e) => updateProperty(prop.id, { additivity: (e.target.value || undefined) as Additivity })}
+                                                                                    className="w-full text-sm border border-gray-300 rounded-lg p-2 focus:border-blue-500 outline-none bg-white"
+                                                                                >
+                                                                                    <option value="">Default ({ADDITIVITY_LABELS[measureAdditivity({ ...prop, additivity: undefined }, prop.aggregation || defaultAggregation)]})</option>
+                                                                                    {Object.values(Additivity).map(additivity => (
+                                                                                        <option key={additivity} value={additivity}>{ADDITIVITY_LABELS[additivity]}</option>
+                                                                                    ))}
+                                                                                </select>
+                                                                            </div>
+                                                                            {prop.additivity === Additivity.SEMI_ADDITIVE && (
+                                                                                <div>
+                                                                                    <label className="block text-xs font-medium text-gray-500 uppercase tracking-wide mb-1">Snapshot Time</label>
+                                                                                    <select
+                                                                                        value={prop.snapshotPropertyId || ''}
+                                                                                        onChange={(e) => updateProperty(prop.id, { snapshotPropertyId: e.target.value || undefined })}
+                                                                                        className="w-full text-sm border border-gray-300 rounded-lg p-2 focus:border-blue-500 outline-none bg-white"
+                                                                                    >
+                                                                                        <option value="">{timeProperties.length ? `Default (${timeProperties[0].name})` : 'No date or time property'}</option>
+                                                                                        {timeProperties.map(p => <option key={p.id} value={p.id}>{p.name}</option>)}
+                                                                                    </select>
+                                                                                </div>
+                                                                            )}
+                                                                        </div>
+                                                                    );
+                                                                })()}
+
                                                                 {/* Unique Key Checkbox */}
                                                                 <div className="flex items-center gap-2 py-2">
                                                                     <input
@@ -1540,7 +1875,10 @@ const FullPageEntityView: React.FC<FullPageEntityViewProps> = ({
                                                                             <div className="mt-3">
                                                                                 <PropertyDefinitionEditor
                                                                                     definition={prop.definition || ''}
-                                                                                    onChange={(definition) => updateProperty(prop.id, { definition })}
+                                                                                    onChange={(definition) => updateProperty(prop.id, { definition, isComputed: !!definition.trim() })}
+                                                                                    model={model}
+                                                                                    entity={entity}
+                                                                                    property={prop}
                                                                                 />
                                                                             </div>
                                                                         </>
@@ -1853,7 +2191,7 @@ const FullPageEntityView: React.FC<FullPageEntityViewProps> = ({
                                     <h3 className="text-base font-bold text-gray-800 mb-6 flex items-center gap-2">
                                         <BarChart3 className="text-blue-500"/> Instance Explorer
                                     </h3>
-                                    <EntityDashboard entity={entity} isFullPage />
+                                    <EntityDashboard entity={entity} model={model} isFullPage />
                                 </div>
                             </div>
                         </div>
@@ -2131,7 +2469,10 @@ const EntityConfigView: React.FC<any> = ({
                                                 <div className="mt-3">
                                                     <PropertyDefinitionEditor
                                                         definition={prop.definition || ''}
-                                                        onChange={(definition) => updateProperty(prop.id, { definition })}
+                                                        onChange={(definition) => updateProperty(prop.id, { definition, isComputed: !!definition.trim() })}
+                                                        model={model}
+                                                        entity={entity}
+                                                        property={prop}
                                                     />
                                                 </div>
                                             </>
@@ -2228,13 +2569,62 @@ const EntityConfigView: React.FC<any> = ({
     );
 };
 
-const EntityDashboard: React.FC<{ entity: Entity, isFullPage?: boolean }> = ({ entity, isFullPage }) => {
+const EntityDashboard: React.FC<{ entity: Entity, model?: SemanticModel, isFullPage?: boolean }> = ({ entity, model, isFullPage }) => {
     // Determine entity type context for better mocks
     const isProduct = entity.name.toLowerCase().includes('product');
     const isInventory = entity.name.toLowerCase().includes('inventory');
 
     const [selectedInstanceId, setSelectedInstanceId] = useState("");
 
+    // Measures of this entity broken down by a dimension of it or of a related entity
+    const measures = entity.properties.filter(p => p.propertyType === PropertyType.MEASURE);
+    const groupings = useMemo(() => {
+        if (!model) return [];
+        const related = model.relationships.flatMap(r =>
+            r.sourceEntityId === entity.id ? [r.targetEntityId] : r.targetEntityId === entity.id ? [r.sourceEntityId] : []);
+        return [entity, ...model.entities.filter(e => e.id !== entity.id && related.includes(e.id))]
+            .flatMap(e => e.properties
+                .filter(p => p.propertyType !== PropertyType.MEASURE)
+                .map(p => ({ key: `${e.id}|${p.id}`, label: e.id === entity.id ? p.name : `${e.name} · ${p.name}` })));
+    }, [model, entity]);
+    const [queryMeasure, setQueryMeasure] = useState('');
+    const [queryGrouping, setQueryGrouping] = useState('');
+    // Join path chosen per entity id where several rank equally. Choices only
+    // hold for the query they were made in; the compiler rejects paths to
+    // entities a query does not join.
+    const [pathChoices, setPathChoices] = useState<{ query: string; paths: Record<string, string[]> }>({ query: '', paths: {} });
+    const measureId = measures.some(p => p.id === queryMeasure) ? queryMeasure : measures[0]?.id;
+    const groupingKey = groupings.some(g => g.key === queryGrouping) ? queryGrouping : groupings[0]?.key;
+    const queryKey = [entity.id, measureId, groupingKey].join('|');
+    const joinPaths = useMemo(() => (pathChoices.query === queryKey ? pathChoices.paths : {}), [pathChoices, queryKey]);
+
+    const compiledQuery = useMemo(() => {
+        if (!model || !measureId || !groupingKey) return undefined;
+        const [groupEntity, groupProperty] = groupingKey.split('|');
+        const measure = { entity: entity.id, property: measureId };
+        try {
+            return compileSemanticQuery(model, {
+                entity: entity.id,
+                fields: [{ entity: groupEntity, property: groupProperty }, measure],
+                sorts: [{ field: measure, direction: 'DESC' }],
+                limit: 10,
+                joinPaths
+            });
+        } catch (e) {
+            if (e instanceof SemanticQueryError) return { error: e.message };
+            throw e;
+        }
+    }, [model, entity.id, measureId, groupingKey, joinPaths]);
+    // Entities reached by several equally ranked paths stay selectable after a choice
+    const ambiguousPaths = compiledQuery && !('error' in compiledQuery)
+        ? Object.keys(compiledQuery.plan.candidates)
+            .map(id => {
+                const paths = compiledQuery.plan.candidates[id];
+                return { target: model!.entities.find(e => e.id === id)!, paths: paths.filter(p => p.score === paths[0].score) };
+            })
+            .filter(choice => choice.paths.length > 1)
+        : [];
+
     const mockInstances = useMemo(() => {
         if (isProduct) return ['SKU-1001 (Laptop X)', 'SKU-1002 (Monitor Y)', 'SKU-1003 (Mouse Z)'];
         if (isInventory) return ['SKU-1001 (Warehouse A)', 'SKU-1001 (Warehouse B)', 'SKU-1002 (Warehouse A)'];
@@ -2358,6 +2748,76 @@ const EntityDashboard: React.FC<{ entity: Entity, isFullPage?: boolean }> = ({ e
                     </div>
                 </div>
             </div>
+
+            {/* Semantic query over the entity */}
+            {model && (
+                <div className="bg-white p-4 rounded-lg border border-gray-200 shadow-sm">
+                    <h4 className="text-xs font-bold text-gray-600 uppercase mb-4 flex items-center gap-2">
+                        <Database size={14} className="text-emerald-500"/>
+                        Query
+                    </h4>
+                    {measures.length === 0 ? (
+                        <p className="text-xs text-gray-400">Mark a property of {entity.name} as a measure to query it.</p>
+                    ) : (
+                        <>
+                            <div className={`grid ${isFullPage ? 'grid-cols-2' : 'grid-cols-1'} gap-2 mb-3`}>
+                                <select
+                                    value={measureId}
+                                    onChange={(e) => setQueryMeasure(e.target.value)}
+                                    className="w-full bg-white border border-gray-300 rounded-lg py-1.5 px-2 text-sm text-gray-700 focus:ring-2 focus:ring-blue-500 outline-none"
+                                >
+                                    {measures.map(p => <option key={p.id} value={p.id}>{p.name}</option>)}
+                                </select>
+                                <select
+                                    value={groupingKey}
+                                    onChange={(e) => setQueryGrouping(e.target.value)}
+                                    className="w-full bg-white border border-gray-300 rounded-lg py-1.5 px-2 text-sm text-gray-700 focus:ring-2 focus:ring-blue-500 outline-none"
+                                >
+                                    {groupings.map(g => <option key={g.key} value={g.key}>by {g.label}</option>)}
+                                </select>
+                            </div>
+                            {compiledQuery && 'error' in compiledQuery ? (
+                                <p className="text-xs text-red-600">{compiledQuery.error}</p>
+                            ) : compiledQuery && (
+                                <>
+                                    {ambiguousPaths.map(({ target, paths }) => {
+                                        const options = paths.map(path => path.edges.map(edge => edge.relationship.id).join(','));
+                                        const current = joinPaths[target.id]?.join(',');
+                                        return (
+                                            <div key={target.id} className="mb-2 p-2 rounded-md border border-amber-200 bg-amber-50">
+                                                <div className="text-[11px] text-amber-800 mb-1 flex items-center gap-1">
+                                                    <GitMerge size={12} /> Several join paths reach {target.name}
+                                                </div>
+                                                <select
+                                                    value={options.includes(current) ? current : options[0]}
+                                                    onChange={(e) => setPathChoices({ query: queryKey, paths: { ...joinPaths, [target.id]: e.target.value.split(',') } })}
+                                                    className="w-full bg-white border border-amber-300 rounded py-1 px-2 text-xs text-gray-700 outline-none"
+                                                >
+                                                    {paths.map((path, idx) => <option key={options[idx]} value={options[idx]}>{describeJoinPath(path)}</option>)}
+                                                </select>
+                                            </div>
+                                        );
+                                    })}
+                                    {compiledQuery.plan.traps.length > 0 && (
+                                        <div className="mb-2 p-2 rounded-md border border-blue-200 bg-blue-50 text-[11px] text-blue-800">
+                                            <span className="font-medium">
+                                                {compiledQuery.strategy === 'preaggregate' ? 'Pre-aggregated' : compiledQuery.strategy === 'symmetric' ? 'Symmetric aggregates' : 'Unsafe join'}:
+                                            </span>{' '}
+                                            {compiledQuery.plan.suggestion.reason}
+                                        </div>
+                                    )}
+                                    <pre className="bg-gray-900 text-green-300 text-xs rounded-md p-3 overflow-x-auto">{compiledQuery.sql}</pre>
+                                    {compiledQuery.warnings.length > 0 && (
+                                        <ul className="mt-2 text-[11px] text-amber-700 list-disc pl-4 space-y-0.5">
+                                            {compiledQuery.warnings.map((warning, idx) => <li key={idx}>{warning}</li>)}
+                                        </ul>
+                                    )}
+                                </>
+                            )}
+                        </>
+                    )}
+                </div>
+            )}
         </div>
     );
 };
@@ -2657,21 +3117,58 @@ const GraphView: React.FC<{
     const [showLayersDropdown, setShowLayersDropdown] = useState(false);
     const layersDropdownRef = useRef<HTMLDivElement>(null);
     const [zoomScale, setZoomScale] = useState(0.85);
+    const [showExportDropdown, setShowExportDropdown] = useState(false);
+    const exportDropdownRef = useRef<HTMLDivElement>(null);
+    const [diagramFormat, setDiagramFormat] = useState<DiagramFormat>('mermaid');
+    const [diagramScope, setDiagramScope] = useState<'model' | 'selection'>('model');
+    const [diagramCopied, setDiagramCopied] = useState(false);
     
-    // Close dropdown when clicking outside
+    // Close dropdowns when clicking outside
     useEffect(() => {
         const handleClickOutside = (event: MouseEvent) => {
             if (layersDropdownRef.current && !layersDropdownRef.current.contains(event.target as Node)) {
                 setShowLayersDropdown(false);
             }
+            if (exportDropdownRef.current && !exportDropdownRef.current.contains(event.target as Node)) {
+                setShowExportDropdown(false);
+            }
         };
-        if (showLayersDropdown) {
+        if (showLayersDropdown || showExportDropdown) {
             document.addEventListener('mousedown', handleClickOutside);
         }
         return () => {
             document.removeEventListener('mousedown', handleClickOutside);
         };
-    }, [showLayersDropdown]);
+    }, [showLayersDropdown, showExportDropdown]);
+
+    // The selected entity and its direct neighbours, or the whole model
+    const exportDiagram = () => {
+        const entityIds = diagramScope === 'selection' && selection?.type === 'ENTITY'
+            ? subgraphAround(model, selection.id)
+            : undefined;
+        return generateErDiagram(model, diagramFormat, { entityIds });
+    };
+
+    const handleCopyDiagram = () => {
+        navigator.clipboard.writeText(exportDiagram())
+            .then(() => {
+                setDiagramCopied(true);
+                setTimeout(() => setDiagramCopied(false), 2000);
+            })
+            .catch(error => console.error('[Diagram] Could not copy to clipboard:', error));
+    };
+
+    const handleDownloadDiagram = () => {
+        const blob = new Blob([exportDiagram()], { type: 'text/plain' });
+        const url = URL.createObjectURL(blob);
+        const a = document.createElement('a');
+        a.href = url;
+        a.download = `${model.name.toLowerCase().replace(/\s+/g, '_')}_er.${DIAGRAM_FORMATS[diagramFormat].extension}`;
+        document.body.appendChild(a);
+        a.click();
+        document.body.removeChild(a);
+        URL.revokeObjectURL(url);
+    };
     
     // Drag state for movable nodes
     const [nodePositions, setNodePositions] = useState<Record<string, {x: number, y: number}>>({});
@@ -3120,6 +3617,77 @@ const GraphView: React.FC<{
                     )}
                 </div>
                 
+                {/* Diagram Export Dropdown */}
+                <div className="relative" ref={exportDropdownRef}>
+                    <button
+                        onClick={(e) => {
+                            e.stopPropagation();
+                            setShowExportDropdown(!showExportDropdown);
+                        }}
+                        className="flex items-center gap-2 px-4 py-2 rounded-lg shadow-md border bg-white text-gray-700 border-gray-200 hover:bg-gray-50 transition-all"
+                    >
+                        <Share2 size={16} />
+                        <span className="text-sm font-medium">Export</span>
+                        <ChevronDown size={14} className={`transition-transform ${showExportDropdown ? 'rotate-180' : ''}`} />
+                    </button>
+
+                    {showExportDropdown && (
+                        <div
+                            className="absolute top-full left-0 mt-2 bg-white rounded-lg shadow-lg border border-gray-200 py-2 min-w-[240px] z-50"
+                            onClick={(e) => e.stopPropagation()}
+                        >
+                            <div className="px-4 py-1 text-xs font-semibold text-gray-400 uppercase tracking-wider">ER Diagram</div>
+                            {(Object.keys(DIAGRAM_FORMATS) as DiagramFormat[]).map(format => (
+                                <label key={format} className="flex items-center gap-3 px-4 py-1.5 hover:bg-gray-50 cursor-pointer">
+                                    <input
+                                        type="radio"
+                                        checked={diagramFormat === format}
+                                        onChange={() => setDiagramFormat(format)}
+                                        className="w-4 h-4 text-blue-600 border-gray-300 focus:ring-blue-500"
+                                    />
+                                    <span className="text-sm text-gray-700">{DIAGRAM_FORMATS[format].label}</span>
+                                </label>
+                            ))}
+                            <div className="px-4 pt-2 pb-1 text-xs font-semibold text-gray-400 uppercase tracking-wider border-t border-gray-100 mt-1">Scope</div>
+                            <label className="flex items-center gap-3 px-4 py-1.5 hover:bg-gray-50 cursor-pointer">
+                                <input
+                                    type="radio"
+                                    checked={diagramScope === 'model'}
+                                    onChange={() => setDiagramScope('model')}
+                                    className="w-4 h-4 text-blue-600 border-gray-300 focus:ring-blue-500"
+                                />
+                                <span className="text-sm text-gray-700">Whole model</span>
+                            </label>
+                            <label className={`flex items-center gap-3 px-4 py-1.5 ${selection?.type === 'ENTITY' ? 'hover:bg-gray-50 cursor-pointer' : 'opacity-50 cursor-not-allowed'}`}>
+                                <input
+                                    type="radio"
+                                    checked={diagramScope === 'selection' && selection?.type === 'ENTITY'}
+                                    disabled={selection?.type !== 'ENTITY'}
+                                    onChange={() => setDiagramScope('selection')}
+                                    className="w-4 h-4 text-blue-600 border-gray-300 focus:ring-blue-500"
+                                />
+                                <span className="text-sm text-gray-700">Selected entity and neighbours</span>
+                            </label>
+                            <div className="flex gap-2 px-4 pt-2 mt-1 border-t border-gray-100">
+                                <button
+                                    onClick={handleCopyDiagram}
+                                    className="flex-1 flex items-center justify-center gap-1.5 px-3 py-1.5 text-xs font-medium text-gray-700 bg-gray-100 rounded-md hover:bg-gray-200"
+                                >
+                                    {diagramCopied ? <Check size={14} /> : <FileText size={14} />}
+                                    {diagramCopied ? 'Copied' : 'Copy'}
+                                </button>
+                                <button
+                                    onClick={handleDownloadDiagram}
+                                    className="flex-1 flex items-center justify-center gap-1.5 px-3 py-1.5 text-xs font-medium text-white bg-blue-600 rounded-md hover:bg-blue-700"
+                                >
+                                    <Download size={14} />
+                                    Download
+                                </button>
+                            </div>
+                        </div>
+                    )}
+                </div>
+
                 {/* Suggestions Panel - triggered from TopBar notification */}
                 <div className="bg-white rounded-lg shadow-md border border-gray-200">
                     <SuggestionPanel
@@ -3371,15 +3939,40 @@ const ModelSettingsPage: React.FC<{
 };
 
 // Deployment Page Component
-type DeployTarget = 'bigquery' | 'spanner' | 'looker' | null;
+type DeployTarget = 'bigquery' | 'spanner' | 'looker' | 'dataplex' | 'dbt' | 'graphql' | 'docs' | 'dbml' | null;
 
 const DeploymentPage: React.FC<{ model: SemanticModel; onBack: () => void }> = ({ model, onBack }) => {
     const [selectedTarget, setSelectedTarget] = useState<DeployTarget>(null);
-    const [previewMode, setPreviewMode] = useState<'resources' | 'ddl'>('resources');
+    const [previewMode, setPreviewMode] = useState<'resources' | 'ddl' | 'changes'>('resources');
+    const [lastDeployment, setLastDeployment] = useState<ModelSnapshot | null>(null);
+    const [snapshotsLoaded, setSnapshotsLoaded] = useState(false);
+
+    // Compare against the most recent deployment snapshot (or any snapshot if none)
+    useEffect(() => {
+        listSnapshots(model.id)
+            .then(list => setLastDeployment(list.find(s => s.deployedTo) || list[0] || null))
+            .catch(error => console.error('[Deploy] Could not load snapshots:', error))
+            .finally(() => setSnapshotsLoaded(true));
+    }, [model.id]);
+
+    const changesSinceLastDeploy: ModelDiff | null = useMemo(
+        () => (lastDeployment ? diffModels(lastDeployment.model, model) : null),
+        [lastDeployment, model]
+    );
     const [project, setProject] = useState('');
     const [dataset, setDataset] = useState('');
     const [instance, setInstance] = useState('');
     const [lookerProject, setLookerProject] = useState('');
+    const [lookerConnection, setLookerConnection] = useState('');
+    const [dbtProjectName, setDbtProjectName] = useState('');
+    const [docsFormat, setDocsFormat] = useState<DocsFormat>('html');
+    const [dataplexLocation, setDataplexLocation] = useState('us-central1');
+    const [dataplexEntryGroup, setDataplexEntryGroup] = useState('');
+    const [dataplexEndpoint, setDataplexEndpoint] = useState<'stub' | 'api'>('stub');
+    const [dataplexToken, setDataplexToken] = useState('');
+    const [deployProgress, setDeployProgress] = useState<{ done: number; total: number } | null>(null);
+    const [deployError, setDeployError] = useState<string | null>(null);
+    const [catalogResult, setCatalogResult] = useState<CatalogDeployResult | null>(null);
     const [isDeploying, setIsDeploying] = useState(false);
     const [deployed, setDeployed] = useState(false);
     const [deployDataAgent, setDeployDataAgent] = useState(false);
@@ -3398,7 +3991,7 @@ const DeploymentPage: React.FC<{ model: SemanticModel; onBack: () => void }> = (
         {
             id: 'bigquery' as const,
             name: 'BigQuery',
-            description: 'Deploy as BigQuery views and tables',
+            description: 'Deploy as semantic views over bound tables',
             icon: <Database size={24} />,
             color: 'from-blue-500 to-blue-700'
         },
@@ -3415,250 +4008,139 @@ const DeploymentPage: React.FC<{ model: SemanticModel; onBack: () => void }> = (
             description: 'Generate LookML model definitions',
             icon: <Eye size={24} />,
             color: 'from-purple-500 to-indigo-600'
+        },
+        {
+            id: 'dataplex' as const,
+            name: 'Dataplex Catalog',
+            description: 'Publish entries, aspects and glossary links',
+            icon: <BookOpen size={24} />,
+            color: 'from-cyan-500 to-sky-600'
+        },
+        {
+            id: 'dbt' as const,
+            name: 'dbt',
+            description: 'Generate a dbt project with tests and metrics',
+            icon: <GitMerge size={24} />,
+            color: 'from-rose-500 to-red-600'
+        },
+        {
+            id: 'graphql' as const,
+            name: 'GraphQL',
+            description: 'Generate a typed API schema and resolvers',
+            icon: <Share2 size={24} />,
+            color: 'from-pink-500 to-fuchsia-600'
+        },
+        {
+            id: 'docs' as const,
+            name: 'Documentation',
+            description: 'Publish a static data dictionary site',
+            icon: <FileText size={24} />,
+            color: 'from-slate-500 to-gray-700'
+        },
+        {
+            id: 'dbml' as const,
+            name: 'DBML',
+            description: 'Export the schema for dbdiagram.io',
+            icon: <FileText size={24} />,
+            color: 'from-orange-500 to-amber-600'
         }
     ];
 
-    const handleDeploy = () => {
+    const generateCatalogRequests = () =>
+        buildCatalogRequests(model, AVAILABLE_ASPECT_TYPES, { project, location: dataplexLocation, entryGroup: dataplexEntryGroup });
+
+    const handleDeploy = async () => {
         setIsDeploying(true);
-        setTimeout(() => {
-            setIsDeploying(false);
+        setDeployError(null);
+        try {
+            if (selectedTarget === 'dataplex') {
+                const client = createRestCatalogClient({
+                    baseUrl: dataplexEndpoint === 'api' ? DATAPLEX_API_URL : DATAPLEX_STUB_URL,
+                    accessToken: dataplexEndpoint === 'api' ? dataplexToken : undefined
+                });
+                setCatalogResult(await deployCatalog(generateCatalogRequests(), client, (done, total) => setDeployProgress({ done, total })));
+            } else {
+                await new Promise(resolve => setTimeout(resolve, 2000));
+            }
+            const targetName = targets.find(t => t.id === selectedTarget)?.name || 'target';
+            const snapshot: ModelSnapshot = { ...createSnapshot(model, `Deployed to ${targetName}`), deployedTo: targetName };
+            saveSnapshot(snapshot)
+                .catch(error => console.error('[Deploy] Could not record deployment snapshot:', error));
+            setLastDeployment(snapshot);
             setDeployed(true);
-        }, 2000);
+        } catch (error) {
+            setDeployError(error instanceof Error ? error.message : String(error));
+        } finally {
+            setIsDeploying(false);
+            setDeployProgress(null);
+        }
     };
 
-    const generateLookML = () => {
-        let lookml = `# Auto-generated LookML for ${model.name}\n`;
-        lookml += `# Generated: ${new Date().toISOString()}\n`;
-        lookml += `# Looker Project: ${lookerProject || 'project'}\n\n`;
-        
-        model.entities.forEach(entity => {
-            const viewName = entity.name.toLowerCase().replace(/\s+/g, '_').replace(/[^a-z0-9_]/g, '');
-            lookml += `view: ${viewName} {\n`;
-            lookml += `  sql_table_name: \`${project || 'project'}.${dataset || 'dataset'}.${viewName}\` ;;\n\n`;
-            
-            if (entity.description) {
-                lookml += `  # ${entity.description}\n\n`;
-            }
-            
-            entity.properties.forEach(prop => {
-                const fieldType = prop.dataType === 'INTEGER' || prop.dataType === 'FLOAT' ? 'number' : 
-                                 prop.dataType === 'TIMESTAMP' || prop.dataType === 'DATE' ? 'time' : 'string';
-                const fieldName = prop.name.toLowerCase().replace(/\s+/g, '_').replace(/[^a-z0-9_]/g, '');
-                
-                lookml += `  dimension: ${fieldName} {\n`;
-                lookml += `    type: ${fieldType}\n`;
-                
-                // Generate SQL expression with proper fallback
-                const columnName = prop.binding 
-                    ? (prop.binding.split('.')[1] || fieldName) 
-                    : fieldName;
-                lookml += `    sql: \${TABLE}.${columnName} ;;\n`;
-                
-                if (prop.description) {
-                    const safeDesc = prop.description.replace(/"/g, '\\"').substring(0, 200);
-                    lookml += `    description: "${safeDesc}"\n`;
-                }
-                lookml += `  }\n\n`;
-            });
-            
-            lookml += `}\n\n`;
-        });
-        
-        // Generate model file reference
-        lookml += `# Model file: ${lookerProject || 'project'}.model.lkml\n`;
-        lookml += `# connection: "your_bq_connection"\n`;
-        lookml += `# include: "/*.view.lkml"\n`;
-        
-        return lookml;
-    };
+    const generateLookML = () =>
+        generateLookmlProject(model, { connection: lookerConnection, modelName: lookerProject, project, dataset });
 
-    const generateBigQueryDDL = () => {
-        let ddl = `-- BigQuery DDL for ${model.name}\n`;
-        ddl += `-- Generated: ${new Date().toISOString()}\n`;
-        ddl += `-- Project: ${project || 'project'}\n`;
-        ddl += `-- Dataset: ${dataset || 'dataset'}\n\n`;
-        
-        // Create dataset statement
-        ddl += `-- Create dataset if not exists\n`;
-        ddl += `CREATE SCHEMA IF NOT EXISTS \`${project || 'project'}.${dataset || 'dataset'}\`\n`;
-        ddl += `OPTIONS (\n`;
-        ddl += `  description = "${model.description || model.name} semantic model"\n`;
-        ddl += `);\n\n`;
-        
-        model.entities.forEach(entity => {
-            const tableName = entity.name.toLowerCase().replace(/\s+/g, '_').replace(/[^a-z0-9_]/g, '');
-            const fullTableName = `\`${project || 'project'}.${dataset || 'dataset'}.${tableName}\``;
-            
-            ddl += `-- ${entity.type || 'ENTITY'}: ${entity.name}\n`;
-            if (entity.description) {
-                ddl += `-- ${entity.description}\n`;
-            }
-            ddl += `CREATE OR REPLACE TABLE ${fullTableName} (\n`;
-            
-            entity.properties.forEach((prop, idx) => {
-                const columnName = prop.name.toLowerCase().replace(/\s+/g, '_').replace(/[^a-z0-9_]/g, '');
-                const bqType = mapDataTypeToBQ(prop.dataType);
-                const isLast = idx === entity.properties.length - 1;
-                
-                ddl += `  ${columnName} ${bqType}`;
-                if (prop.description) {
-                    ddl += ` OPTIONS (description = "${prop.description.replace(/"/g, '\\"').substring(0, 200)}")`;
-                }
-                ddl += isLast ? '\n' : ',\n';
-            });
-            
-            ddl += `)\n`;
-            ddl += `OPTIONS (\n`;
-            ddl += `  description = "${(entity.description || entity.name).replace(/"/g, '\\"').substring(0, 200)}"\n`;
-            ddl += `);\n\n`;
-        });
-        
-        // Generate relationships as comments (BQ doesn't have FK constraints in the traditional sense)
-        if (model.relationships.length > 0) {
-            ddl += `-- Relationships (for documentation purposes)\n`;
-            model.relationships.forEach(rel => {
-                const source = model.entities.find(e => e.id === rel.sourceEntityId);
-                const target = model.entities.find(e => e.id === rel.targetEntityId);
-                const sourceProp = source?.properties.find(p => p.id === rel.sourcePropertyId);
-                const targetProp = target?.properties.find(p => p.id === rel.targetPropertyId);
-                ddl += `-- ${source?.name}.${sourceProp?.name || 'id'} -> ${target?.name}.${targetProp?.name || 'id'} (${rel.type})\n`;
-            });
+    const generateBigQueryDDL = () =>
+        generateBigQueryViewDdl(model, { project, dataset });
+
+    const generateSpannerDDL = () =>
+        generateSpannerGraphDdl(model, { project, instance, database: dataset });
+
+    // Spanner rejects the whole batch on the first bad statement, so problems block download and deploy
+    const spannerIssues = useMemo(
+        () => (selectedTarget === 'spanner' ? validateSpannerDdl(generateSpannerGraphDdl(model, {})) : []),
+        [selectedTarget, model]
+    );
+
+    // Multi-file targets list their files for the preview and download as a ZIP
+    const getExportFile = (): { content: string; filename: string; mimeType: string; files?: ArchiveFile[] } => {
+        const baseName = model.name.toLowerCase().replace(/\s+/g, '_');
+        if (selectedTarget === 'looker') {
+            const files = generateLookML();
+            return {
+                content: files.map(f => `# ---- ${f.name} ----\n${f.content}`).join('\n'),
+                filename: `${lookerProject || baseName}_lookml.zip`,
+                mimeType: 'application/zip',
+                files
+            };
+        } else if (selectedTarget === 'dbt') {
+            const files = generateDbtProject(model, { projectName: dbtProjectName, project, dataset });
+            return {
+                content: files.map(f => `# ---- ${f.name} ----\n${f.content}`).join('\n'),
+                filename: `${dbtProjectName || baseName}_dbt.zip`,
+                mimeType: 'application/zip',
+                files
+            };
+        } else if (selectedTarget === 'dataplex') {
+            return { content: JSON.stringify(generateCatalogRequests(), null, 2), filename: `${baseName}_dataplex_catalog.json`, mimeType: 'application/json' };
+        } else if (selectedTarget === 'docs') {
+            const files = generateDocsSite(model, { format: docsFormat, aspectTypes: AVAILABLE_ASPECT_TYPES });
+            return {
+                content: files.filter(f => f.name !== 'style.css').map(f => `<!-- ---- ${f.name} ---- -->\n${f.content}`).join('\n'),
+                filename: `${baseName}_docs_${docsFormat}.zip`,
+                mimeType: 'application/zip',
+                files
+            };
+        } else if (selectedTarget === 'graphql') {
+            const files = generateGraphqlApi(model, { project, dataset });
+            return {
+                content: files.map(f => `# ---- ${f.name} ----\n${f.content}`).join('\n'),
+                filename: `${baseName}_graphql.zip`,
+                mimeType: 'application/zip',
+                files
+            };
+        } else if (selectedTarget === 'spanner') {
+            return { content: generateSpannerDDL(), filename: `${baseName}_spanner.sql`, mimeType: 'application/sql' };
+        } else if (selectedTarget === 'dbml') {
+            return { content: modelToDbml(model), filename: `${baseName}.dbml`, mimeType: 'text/plain' };
         }
-        
-        return ddl;
-    };
-    
-    const mapDataTypeToBQ = (dataType: string): string => {
-        const typeMap: Record<string, string> = {
-            'STRING': 'STRING',
-            'INTEGER': 'INT64',
-            'FLOAT': 'FLOAT64',
-            'BOOLEAN': 'BOOL',
-            'TIMESTAMP': 'TIMESTAMP',
-            'DATE': 'DATE',
-            'DATETIME': 'DATETIME',
-            'TIME': 'TIME',
-            'BYTES': 'BYTES',
-            'NUMERIC': 'NUMERIC',
-            'BIGNUMERIC': 'BIGNUMERIC',
-            'GEOGRAPHY': 'GEOGRAPHY',
-            'JSON': 'JSON',
-        };
-        return typeMap[dataType?.toUpperCase()] || 'STRING';
+        return { content: generateBigQueryDDL(), filename: `${baseName}_bigquery.sql`, mimeType: 'application/sql' };
     };
 
-    const generateSpannerDDL = () => {
-        let ddl = `-- Spanner Graph DDL for ${model.name}\n`;
-        ddl += `-- Generated: ${new Date().toISOString()}\n`;
-        ddl += `-- Project: ${project || 'project'}\n`;
-        ddl += `-- Instance: ${instance || 'instance'}\n`;
-        ddl += `-- Database: ${dataset || 'database'}\n\n`;
+    const handleDownload = () => {
+        if (spannerIssues.length > 0) return;
+        const { content, filename, mimeType, files } = getExportFile();
         
-        // Create node tables for entities
-        ddl += `-- Node Tables (Entities)\n`;
-        ddl += `-- ========================\n\n`;
-        
-        model.entities.forEach(entity => {
-            const tableName = entity.name.replace(/\s+/g, '_');
-            
-            ddl += `-- ${entity.type || 'ENTITY'}: ${entity.name}\n`;
-            if (entity.description) {
-                ddl += `-- ${entity.description}\n`;
-            }
-            ddl += `CREATE TABLE ${tableName} (\n`;
-            
-            // Find primary key (first property or one named 'id')
-            const pkProp = entity.properties.find(p => p.name.toLowerCase() === 'id') || entity.properties[0];
-            
-            entity.properties.forEach((prop, idx) => {
-                const columnName = prop.name.replace(/\s+/g, '_');
-                const spannerType = mapDataTypeToSpanner(prop.dataType);
-                const isLast = idx === entity.properties.length - 1;
-                ddl += `  ${columnName} ${spannerType}`;
-                ddl += isLast ? '\n' : ',\n';
-            });
-            
-            ddl += `) PRIMARY KEY (${pkProp?.name.replace(/\s+/g, '_') || 'id'});\n\n`;
-        });
-        
-        // Create property graph
-        ddl += `-- Property Graph Definition\n`;
-        ddl += `-- =========================\n\n`;
-        ddl += `CREATE OR REPLACE PROPERTY GRAPH ${model.name.replace(/\s+/g, '_')}Graph\n`;
-        ddl += `  NODE TABLES (\n`;
-        
-        model.entities.forEach((entity, idx) => {
-            const tableName = entity.name.replace(/\s+/g, '_');
-            const isLast = idx === model.entities.length - 1;
-            ddl += `    ${tableName}`;
-            ddl += isLast ? '\n' : ',\n';
-        });
-        
-        ddl += `  )`;
-        
-        // Add edge tables for relationships
-        if (model.relationships.length > 0) {
-            ddl += `\n  EDGE TABLES (\n`;
-            
-            model.relationships.forEach((rel, idx) => {
-                const source = model.entities.find(e => e.id === rel.sourceEntityId);
-                const target = model.entities.find(e => e.id === rel.targetEntityId);
-                const sourceProp = source?.properties.find(p => p.id === rel.sourcePropertyId);
-                const targetProp = target?.properties.find(p => p.id === rel.targetPropertyId);
-                const edgeName = `${source?.name.replace(/\s+/g, '_')}_to_${target?.name.replace(/\s+/g, '_')}`;
-                const isLast = idx === model.relationships.length - 1;
-                
-                ddl += `    ${edgeName}\n`;
-                ddl += `      SOURCE KEY (${sourceProp?.name.replace(/\s+/g, '_') || 'id'}) REFERENCES ${source?.name.replace(/\s+/g, '_')}\n`;
-                ddl += `      DESTINATION KEY (${targetProp?.name.replace(/\s+/g, '_') || 'id'}) REFERENCES ${target?.name.replace(/\s+/g, '_')}`;
-                ddl += isLast ? '\n' : ',\n';
-            });
-            
-            ddl += `  )`;
-        }
-        
-        ddl += `;\n`;
-        
-        return ddl;
-    };
-    
-    const mapDataTypeToSpanner = (dataType: string): string => {
-        const typeMap: Record<string, string> = {
-            'STRING': 'STRING(MAX)',
-            'INTEGER': 'INT64',
-            'FLOAT': 'FLOAT64',
-            'BOOLEAN': 'BOOL',
-            'TIMESTAMP': 'TIMESTAMP',
-            'DATE': 'DATE',
-            'DATETIME': 'TIMESTAMP',
-            'TIME': 'STRING(MAX)',
-            'BYTES': 'BYTES(MAX)',
-            'NUMERIC': 'NUMERIC',
-            'JSON': 'JSON',
-        };
-        return typeMap[dataType?.toUpperCase()] || 'STRING(MAX)';
-    };
-
-    const handleDownload = () => {
-        let content = '';
-        let filename = '';
-        let mimeType = 'text/plain';
-        
-        if (selectedTarget === 'looker') {
-            content = generateLookML();
-            filename = `${model.name.toLowerCase().replace(/\s+/g, '_')}.view.lkml`;
-            mimeType = 'text/plain';
-        } else if (selectedTarget === 'spanner') {
-            content = generateSpannerDDL();
-            filename = `${model.name.toLowerCase().replace(/\s+/g, '_')}_spanner.sql`;
-            mimeType = 'application/sql';
-        } else {
-            content = generateBigQueryDDL();
-            filename = `${model.name.toLowerCase().replace(/\s+/g, '_')}_bigquery.sql`;
-            mimeType = 'application/sql';
-        }
-        
-        const blob = new Blob([content], { type: mimeType });
+        const blob = new Blob([files ? createZip(files) : content], { type: mimeType });
         const url = URL.createObjectURL(blob);
         const a = document.createElement('a');
         a.href = url;
@@ -3687,6 +4169,12 @@ const DeploymentPage: React.FC<{ model: SemanticModel; onBack: () => void }> = (
                         <p className="text-gray-600 mb-4">
                             Your semantic model "{model.name}" has been deployed to {targets.find(t => t.id === selectedTarget)?.name}.
                         </p>
+                        {selectedTarget === 'dataplex' && catalogResult && (
+                            <p className="text-sm text-gray-500 mb-4">
+                                {catalogResult.created} catalog resources created, {catalogResult.existing} already existed
+                                {dataplexEndpoint === 'stub' ? ' (local stub)' : ''}.
+                            </p>
+                        )}
                         {deployDataAgent && (
                             <div className="bg-blue-50 rounded-xl p-4 mb-6 text-left">
                                 <div className="flex items-center gap-2 text-blue-800 font-medium mb-1">
@@ -3736,7 +4224,7 @@ const DeploymentPage: React.FC<{ model: SemanticModel; onBack: () => void }> = (
                                 <p className="text-gray-500">Select where you want to deploy your semantic model</p>
                             </div>
                             
-                            <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
+                            <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
                                 {targets.map((target) => (
                                     <button
                                         key={target.id}
@@ -3849,6 +4337,185 @@ const DeploymentPage: React.FC<{ model: SemanticModel; onBack: () => void }> = (
                                                     Instance must have Graph support enabled. Enterprise edition recommended.
                                                 </p>
                                             </div>
+                                            {spannerIssues.length > 0 && (
+                                                <div className="bg-red-50 rounded-xl p-4 text-sm text-red-800">
+                                                    <div className="font-medium mb-1 flex items-center gap-1.5">
+                                                        <AlertCircle size={14} />
+                                                        Generated DDL is not valid Spanner DDL
+                                                    </div>
+                                                    <ul className="text-red-600 text-xs space-y-0.5">
+                                                        {spannerIssues.map((issue, idx) => (
+                                                            <li key={idx}>Line {issue.line}: {issue.message}</li>
+                                                        ))}
+                                                    </ul>
+                                                </div>
+                                            )}
+                                        </div>
+                                    )}
+
+                                    {selectedTarget === 'dataplex' && (
+                                        <div className="space-y-5">
+                                            <div>
+                                                <label className="block text-sm font-medium text-gray-700 mb-2">GCP Project</label>
+                                                <input
+                                                    type="text"
+                                                    value={project}
+                                                    onChange={(e) => setProject(e.target.value)}
+                                                    placeholder="my-gcp-project"
+                                                    className="w-full px-4 py-3 border border-gray-300 rounded-xl focus:ring-2 focus:ring-blue-500 focus:border-blue-500 outline-none"
+                                                />
+                                            </div>
+                                            <div>
+                                                <label className="block text-sm font-medium text-gray-700 mb-2">Location</label>
+                                                <input
+                                                    type="text"
+                                                    value={dataplexLocation}
+                                                    onChange={(e) => setDataplexLocation(e.target.value)}
+                                                    placeholder="us-central1"
+                                                    className="w-full px-4 py-3 border border-gray-300 rounded-xl focus:ring-2 focus:ring-blue-500 focus:border-blue-500 outline-none"
+                                                />
+                                            </div>
+                                            <div>
+                                                <label className="block text-sm font-medium text-gray-700 mb-2">Entry Group</label>
+                                                <input
+                                                    type="text"
+                                                    value={dataplexEntryGroup}
+                                                    onChange={(e) => setDataplexEntryGroup(e.target.value)}
+                                                    placeholder={model.name.toLowerCase().replace(/[^a-z0-9]+/g, '-')}
+                                                    className="w-full px-4 py-3 border border-gray-300 rounded-xl focus:ring-2 focus:ring-blue-500 focus:border-blue-500 outline-none"
+                                                />
+                                            </div>
+                                            <div>
+                                                <label className="block text-sm font-medium text-gray-700 mb-2">Endpoint</label>
+                                                <select
+                                                    value={dataplexEndpoint}
+                                                    onChange={(e) => setDataplexEndpoint(e.target.value as 'stub' | 'api')}
+                                                    className="w-full px-4 py-3 border border-gray-300 rounded-xl focus:ring-2 focus:ring-blue-500 focus:border-blue-500 outline-none bg-white"
+                                                >
+                                                    <option value="stub">Local stub server (records calls)</option>
+                                                    <option value="api">Dataplex API</option>
+                                                </select>
+                                            </div>
+                                            {dataplexEndpoint === 'api' && (
+                                                <div>
+                                                    <label className="block text-sm font-medium text-gray-700 mb-2">Access Token</label>
+                                                    <input
+                                                        type="password"
+                                                        value={dataplexToken}
+                                                        onChange={(e) => setDataplexToken(e.target.value)}
+                                                        placeholder="gcloud auth print-access-token"
+                                                        className="w-full px-4 py-3 border border-gray-300 rounded-xl focus:ring-2 focus:ring-blue-500 focus:border-blue-500 outline-none"
+                                                    />
+                                                </div>
+                                            )}
+                                            <div className="bg-cyan-50 rounded-xl p-4 text-sm text-cyan-800">
+                                                <div className="font-medium mb-1">Dataplex Catalog</div>
+                                                <p className="text-cyan-600 text-xs">
+                                                    Creates aspect types, entry types, an entry group, glossary terms, an entry per model, entity and property with its aspect values, and definition links to glossary terms. The local stub records calls at <code className="bg-cyan-100 px-1 rounded">{DATAPLEX_STUB_URL}/calls</code>.
+                                                </p>
+                                            </div>
+                                            {deployError && (
+                                                <div className="bg-red-50 rounded-xl p-4 text-sm text-red-800">
+                                                    <div className="font-medium mb-1 flex items-center gap-1.5">
+                                                        <AlertCircle size={14} />
+                                                        Deployment failed
+                                                    </div>
+                                                    <p className="text-red-600 text-xs break-words">{deployError}</p>
+                                                </div>
+                                            )}
+                                        </div>
+                                    )}
+
+                                    {selectedTarget === 'dbt' && (
+                                        <div className="space-y-5">
+                                            <div>
+                                                <label className="block text-sm font-medium text-gray-700 mb-2">dbt Project Name</label>
+                                                <input
+                                                    type="text"
+                                                    value={dbtProjectName}
+                                                    onChange={(e) => setDbtProjectName(e.target.value)}
+                                                    placeholder={model.name.toLowerCase().replace(/\s+/g, '_')}
+                                                    className="w-full px-4 py-3 border border-gray-300 rounded-xl focus:ring-2 focus:ring-blue-500 focus:border-blue-500 outline-none"
+                                                />
+                                            </div>
+                                            <div>
+                                                <label className="block text-sm font-medium text-gray-700 mb-2">Default Source Dataset</label>
+                                                <input
+                                                    type="text"
+                                                    value={dataset}
+                                                    onChange={(e) => setDataset(e.target.value)}
+                                                    placeholder="raw"
+                                                    className="w-full px-4 py-3 border border-gray-300 rounded-xl focus:ring-2 focus:ring-blue-500 focus:border-blue-500 outline-none"
+                                                />
+                                            </div>
+                                            <div className="bg-rose-50 rounded-xl p-4 text-sm text-rose-800">
+                                                <div className="font-medium mb-1">dbt Project</div>
+                                                <p className="text-rose-600 text-xs">
+                                                    A staging model per entity built from its bindings, schema.yml with descriptions and unique, not_null, relationships and accepted_values tests, and MetricFlow semantic models and metrics for measures. Downloads as a ZIP project.
+                                                </p>
+                                            </div>
+                                        </div>
+                                    )}
+
+                                    {selectedTarget === 'graphql' && (
+                                        <div className="space-y-5">
+                                            <div>
+                                                <label className="block text-sm font-medium text-gray-700 mb-2">Default GCP Project</label>
+                                                <input
+                                                    type="text"
+                                                    value={project}
+                                                    onChange={(e) => setProject(e.target.value)}
+                                                    placeholder="my-gcp-project"
+                                                    className="w-full px-4 py-3 border border-gray-300 rounded-xl focus:ring-2 focus:ring-blue-500 focus:border-blue-500 outline-none"
+                                                />
+                                            </div>
+                                            <div>
+                                                <label className="block text-sm font-medium text-gray-700 mb-2">Default Dataset</label>
+                                                <input
+                                                    type="text"
+                                                    value={dataset}
+                                                    onChange={(e) => setDataset(e.target.value)}
+                                                    placeholder="raw"
+                                                    className="w-full px-4 py-3 border border-gray-300 rounded-xl focus:ring-2 focus:ring-blue-500 focus:border-blue-500 outline-none"
+                                                />
+                                            </div>
+                                            <div className="bg-pink-50 rounded-xl p-4 text-sm text-pink-800">
+                                                <div className="font-medium mb-1">GraphQL API</div>
+                                                <p className="text-pink-600 text-xs">
+                                                    schema.graphql with an object type per entity and connection fields for relationships, plus resolvers.ts that compiles each query's selection into GoogleSQL over the bound tables. Downloads as a ZIP.
+                                                </p>
+                                            </div>
+                                        </div>
+                                    )}
+
+                                    {selectedTarget === 'docs' && (
+                                        <div className="space-y-5">
+                                            <div>
+                                                <label className="block text-sm font-medium text-gray-700 mb-2">Format</label>
+                                                <select
+                                                    value={docsFormat}
+                                                    onChange={(e) => setDocsFormat(e.target.value as DocsFormat)}
+                                                    className="w-full px-4 py-3 border border-gray-300 rounded-xl focus:ring-2 focus:ring-blue-500 focus:border-blue-500 outline-none bg-white"
+                                                >
+                                                    <option value="html">Static HTML site</option>
+                                                    <option value="markdown">Markdown (with Mermaid diagrams)</option>
+                                                </select>
+                                            </div>
+                                            <div className="bg-slate-50 rounded-xl p-4 text-sm text-slate-800">
+                                                <div className="font-medium mb-1">Data Dictionary</div>
+                                                <p className="text-slate-600 text-xs">
+                                                    An overview page with the model diagram, a page per entity with its description, overview, properties, bindings, aspects, glossary terms and relationships, and a glossary page. Downloads as a ZIP ready to publish.
+                                                </p>
+                                            </div>
+                                        </div>
+                                    )}
+
+                                    {selectedTarget === 'dbml' && (
+                                        <div className="bg-orange-50 rounded-xl p-4 text-sm text-orange-800">
+                                            <div className="font-medium mb-1">DBML Export</div>
+                                            <p className="text-orange-600 text-xs">
+                                                Tables, columns, notes, enums and Ref lines with their cardinality. Open the file in dbdiagram.io or any DBML tool.
+                                            </p>
                                         </div>
                                     )}
 
@@ -3882,16 +4549,27 @@ const DeploymentPage: React.FC<{ model: SemanticModel; onBack: () => void }> = (
                                                     <option value="looker-staging.company.com">looker-staging.company.com (Staging)</option>
                                                 </select>
                                             </div>
+                                            <div>
+                                                <label className="block text-sm font-medium text-gray-700 mb-2">Database Connection</label>
+                                                <input
+                                                    type="text"
+                                                    value={lookerConnection}
+                                                    onChange={(e) => setLookerConnection(e.target.value)}
+                                                    placeholder="bigquery_connection"
+                                                    className="w-full px-4 py-3 border border-gray-300 rounded-xl focus:ring-2 focus:ring-blue-500 focus:border-blue-500 outline-none"
+                                                />
+                                            </div>
                                             <div className="bg-purple-50 rounded-xl p-4 text-sm text-purple-800">
                                                 <div className="font-medium mb-1">LookML Generation</div>
                                                 <p className="text-purple-600 text-xs">
-                                                    View definitions will be generated from your semantic model entities.
+                                                    A view file per entity with dimensions, dimension groups, measures and primary keys, plus a model file with an explore per fact entity joined along its relationships. Downloads as a ZIP project.
                                                 </p>
                                             </div>
                                         </div>
                                     )}
 
                                     {/* Data Agent Configuration */}
+                                    {selectedTarget !== 'dbml' && selectedTarget !== 'dbt' && selectedTarget !== 'graphql' && selectedTarget !== 'docs' && selectedTarget !== 'dataplex' && (
                                     <div className="mt-6 pt-6 border-t border-gray-100">
                                         <label className="flex items-center gap-3 cursor-pointer group">
                                             <div className="relative">
@@ -3958,22 +4636,33 @@ const DeploymentPage: React.FC<{ model: SemanticModel; onBack: () => void }> = (
                                             </div>
                                         )}
                                     </div>
+                                    )}
 
                                     <div className="mt-6 pt-6 border-t border-gray-100">
+                                        {selectedTarget === 'dbml' || selectedTarget === 'dbt' || selectedTarget === 'graphql' || selectedTarget === 'docs' ? (
+                                        <button
+                                            onClick={handleDownload}
+                                            className="w-full px-6 py-3 bg-blue-600 text-white rounded-xl font-medium hover:bg-blue-700 transition-colors flex items-center justify-center gap-2"
+                                        >
+                                            <Download size={18} />
+                                            {selectedTarget === 'dbt' ? 'Download dbt Project' : selectedTarget === 'graphql' ? 'Download GraphQL API' : selectedTarget === 'docs' ? 'Download Documentation' : 'Download DBML'}
+                                        </button>
+                                        ) : (
                                         <button
                                             onClick={handleDeploy}
                                             disabled={
                                                 isDeploying || 
                                                 (selectedTarget === 'bigquery' && (!project || !dataset)) ||
-                                                (selectedTarget === 'spanner' && (!project || !instance || !dataset)) ||
-                                                (selectedTarget === 'looker' && (!lookerProject || !instance))
+                                                (selectedTarget === 'spanner' && (!project || !instance || !dataset || spannerIssues.length > 0)) ||
+                                                (selectedTarget === 'looker' && (!lookerProject || !instance)) ||
+                                                (selectedTarget === 'dataplex' && (!project || !dataplexLocation || (dataplexEndpoint === 'api' && !dataplexToken)))
                                             }
                                             className="w-full px-6 py-3 bg-blue-600 text-white rounded-xl font-medium hover:bg-blue-700 transition-colors disabled:opacity-50 disabled:cursor-not-allowed flex items-center justify-center gap-2"
                                         >
                                             {isDeploying ? (
                                                 <>
                                                     <div className="w-5 h-5 border-2 border-white/30 border-t-white rounded-full animate-spin"></div>
-                                                    Deploying...
+                                                    Deploying{deployProgress ? ` ${deployProgress.done}/${deployProgress.total}` : ''}...
                                                 </>
                                             ) : (
                                                 <>
@@ -3982,6 +4671,7 @@ const DeploymentPage: React.FC<{ model: SemanticModel; onBack: () => void }> = (
                                                 </>
                                             )}
                                         </button>
+                                        )}
                                     </div>
                                 </div>
                             </div>
@@ -4012,24 +4702,43 @@ const DeploymentPage: React.FC<{ model: SemanticModel; onBack: () => void }> = (
                                                     : 'text-gray-600 hover:text-gray-900'
                                             }`}
                                         >
-                                            {selectedTarget === 'looker' ? 'LookML' : 'DDL Code'}
+                                            {selectedTarget === 'looker' ? 'LookML' : selectedTarget === 'dbt' ? 'dbt Files' : selectedTarget === 'graphql' ? 'SDL' : selectedTarget === 'docs' ? 'Pages' : selectedTarget === 'dataplex' ? 'Payloads' : selectedTarget === 'dbml' ? 'DBML' : 'DDL Code'}
+                                        </button>
+                                        <button
+                                            onClick={() => setPreviewMode('changes')}
+                                            className={`px-3 py-1.5 text-xs font-medium rounded-md transition-colors ${
+                                                previewMode === 'changes' 
+                                                    ? 'bg-white text-gray-900 shadow-sm' 
+                                                    : 'text-gray-600 hover:text-gray-900'
+                                            }`}
+                                        >
+                                            Changes{changesSinceLastDeploy && changesSinceLastDeploy.entries.length > 0 ? ` (${changesSinceLastDeploy.entries.length})` : ''}
                                         </button>
                                     </div>
                                 </div>
                                 
-                                {previewMode === 'ddl' ? (
+                                {previewMode === 'changes' ? (
+                                    <div>
+                                        <p className="text-sm text-gray-500 mb-4">
+                                            {lastDeployment
+                                                ? <>Compared with <span className="font-medium text-gray-700">{lastDeployment.name}</span> ({lastDeployment.createdAt.toLocaleString()})</>
+                                                : snapshotsLoaded ? 'No previous deployment or snapshot recorded for this model.' : 'Loading snapshots…'}
+                                        </p>
+                                        {changesSinceLastDeploy && (
+                                            <ModelDiffView diff={changesSinceLastDeploy} emptyMessage="No changes since the last deployment." />
+                                        )}
+                                    </div>
+                                ) : previewMode === 'ddl' ? (
                                     <div className="bg-gray-900 rounded-2xl overflow-hidden">
                                         <div className="flex items-center justify-between px-4 py-2 bg-gray-800 border-b border-gray-700">
                                             <span className="text-xs text-gray-400 font-mono">
-                                                {selectedTarget === 'looker' 
-                                                    ? `${model.name.toLowerCase().replace(/\s+/g, '_')}.view.lkml`
-                                                    : selectedTarget === 'spanner'
-                                                        ? `${model.name.toLowerCase().replace(/\s+/g, '_')}_spanner.sql`
-                                                        : `${model.name.toLowerCase().replace(/\s+/g, '_')}_bigquery.sql`}
+                                                {getExportFile().filename}
                                             </span>
                                             <button
                                                 onClick={handleDownload}
-                                                className="flex items-center gap-1.5 px-3 py-1.5 text-xs font-medium text-gray-300 bg-gray-700 rounded-lg hover:bg-gray-600 transition-colors"
+                                                disabled={spannerIssues.length > 0}
+                                                title={spannerIssues.length > 0 ? 'Fix the DDL validation errors first' : undefined}
+                                                className="flex items-center gap-1.5 px-3 py-1.5 text-xs font-medium text-gray-300 bg-gray-700 rounded-lg hover:bg-gray-600 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
                                             >
                                                 <Download size={14} />
                                                 Download
@@ -4037,11 +4746,7 @@ const DeploymentPage: React.FC<{ model: SemanticModel; onBack: () => void }> = (
                                         </div>
                                         <div className="p-6 h-[560px] overflow-auto">
                                             <pre className="text-sm text-gray-300 font-mono whitespace-pre-wrap">
-                                                {selectedTarget === 'looker' 
-                                                    ? generateLookML() 
-                                                    : selectedTarget === 'spanner' 
-                                                        ? generateSpannerDDL() 
-                                                        : generateBigQueryDDL()}
+                                                {getExportFile().content}
                                             </pre>
                                         </div>
                                     </div>
@@ -4067,6 +4772,21 @@ const DeploymentPage: React.FC<{ model: SemanticModel; onBack: () => void }> = (
                                                             {selectedTarget === 'looker' && (
                                                                 <code>view: {entity.name.toLowerCase().replace(/\s+/g, '_')}</code>
                                                             )}
+                                                            {selectedTarget === 'dataplex' && (
+                                                                <code>Entry: {entity.name} ({entity.properties.length} property entries)</code>
+                                                            )}
+                                                            {selectedTarget === 'dbt' && (
+                                                                <code>model: stg_{entity.name.toLowerCase().replace(/[^a-z0-9]+/g, '_')}</code>
+                                                            )}
+                                                            {selectedTarget === 'graphql' && (
+                                                                <code>type {entity.name.replace(/[^A-Za-z0-9]+/g, '')}</code>
+                                                            )}
+                                                            {selectedTarget === 'docs' && (
+                                                                <code>Page: entities/{entity.name.toLowerCase().replace(/[^a-z0-9]+/g, '-')}.{docsFormat === 'html' ? 'html' : 'md'}</code>
+                                                            )}
+                                                            {selectedTarget === 'dbml' && (
+                                                                <code>Table: {entity.name}</code>
+                                                            )}
                                                         </div>
                                                     </div>
                                                     <div className="text-xs text-gray-400">
@@ -4619,8 +5339,10 @@ const AuthoringView: React.FC<{
 // New Model Modal Component - Combined Create and Import
 const NewModelModal: React.FC<{
     onClose: () => void;
+    existingModelIds: string[];
     onCreate: (model: SemanticModel) => void;
-}> = ({ onClose, onCreate }) => {
+    onAddSuggestion: (suggestion: Omit<EntityUpdateSuggestion, 'id' | 'createdAt' | 'status'>) => EntityUpdateSuggestion;
+}> = ({ onClose, existingModelIds, onCreate, onAddSuggestion }) => {
     type ModalView = 'main' | 'create' | 'import';
     type ImportSource = 'looker' | 'dbt' | 'file' | null;
     type ContextSource = { id: string; type: 'github' | 'drive'; name: string; url?: string };
@@ -4639,11 +5361,10 @@ const NewModelModal: React.FC<{
     const [isGenerating, setIsGenerating] = useState(false);
     
     // Import state
-    const [connectionUrl, setConnectionUrl] = useState('');
     const [projectName, setProjectName] = useState('');
-    const [apiKey, setApiKey] = useState('');
     const [selectedFiles, setSelectedFiles] = useState<FileList | null>(null);
     const [isLoading, setIsLoading] = useState(false);
+    const [importError, setImportError] = useState<string | null>(null);
     const fileInputRef = React.useRef<HTMLInputElement>(null);
 
     const handleCreate = () => {
@@ -4808,170 +5529,99 @@ const NewModelModal: React.FC<{
         }, contextSources.length > 0 ? 2000 : 500);
     };
 
-    // Shared supply chain model data
-    const getSupplyChainEntities = (): Entity[] => [
-        {
-            id: 'entity_supplier',
-            name: 'Supplier',
-            type: EntityType.ENTITY,
-            description: 'Vendors and suppliers providing raw materials and goods',
-            properties: [
-                { id: 'prop_supplier_id', name: 'supplier_id', dataType: 'STRING', description: 'Unique supplier identifier', binding: 'SCM_DIM_SUPPLIER.supplier_id', isUniqueKey: true },
-                { id: 'prop_supplier_name', name: 'supplier_name', dataType: 'STRING', description: 'Name of the supplier company', binding: 'SCM_DIM_SUPPLIER.supplier_name' },
-                { id: 'prop_supplier_country', name: 'country', dataType: 'STRING', description: 'Country where supplier is located', binding: 'SCM_DIM_SUPPLIER.country' },
-                { id: 'prop_supplier_rating', name: 'rating', dataType: 'FLOAT', description: 'Performance rating (1-5)', binding: 'SCM_DIM_SUPPLIER.rating' },
-                { id: 'prop_supplier_lead_time', name: 'avg_lead_time_days', dataType: 'INTEGER', description: 'Average lead time in days', binding: 'SCM_DIM_SUPPLIER.avg_lead_time_days' }
-            ],
-            bindings: [{ type: 'BIGQUERY', resource: 'project.scm_dataset.SCM_DIM_SUPPLIER' }]
-        },
-        {
-            id: 'entity_warehouse',
-            name: 'Warehouse',
-            type: EntityType.DIMENSION,
-            description: 'Distribution centers and storage facilities',
-            properties: [
-                { id: 'prop_wh_id', name: 'warehouse_id', dataType: 'STRING', description: 'Unique warehouse identifier', binding: 'SCM_DIM_WAREHOUSE.warehouse_id', isUniqueKey: true },
-                { id: 'prop_wh_name', name: 'warehouse_name', dataType: 'STRING', description: 'Name of the warehouse', binding: 'SCM_DIM_WAREHOUSE.warehouse_name' },
-                { id: 'prop_wh_location', name: 'location', dataType: 'STRING', description: 'City and state location', binding: 'SCM_DIM_WAREHOUSE.location' },
-                { id: 'prop_wh_capacity', name: 'capacity_units', dataType: 'INTEGER', description: 'Maximum storage capacity', binding: 'SCM_DIM_WAREHOUSE.capacity_units' },
-                { id: 'prop_wh_type', name: 'warehouse_type', dataType: 'STRING', description: 'Type: Distribution, Fulfillment, Cold Storage', binding: 'SCM_DIM_WAREHOUSE.warehouse_type' }
-            ],
-            bindings: [{ type: 'BIGQUERY', resource: 'project.scm_dataset.SCM_DIM_WAREHOUSE' }]
-        },
-        {
-            id: 'entity_product',
-            name: 'Product',
-            type: EntityType.DIMENSION,
-            description: 'Products and SKUs in the supply chain',
-            properties: [
-                { id: 'prop_prod_sku', name: 'sku_id', dataType: 'STRING', description: 'Stock keeping unit identifier', binding: 'SCM_DIM_PRODUCT.sku_id', isUniqueKey: true },
-                { id: 'prop_prod_name', name: 'product_name', dataType: 'STRING', description: 'Product display name', binding: 'SCM_DIM_PRODUCT.product_name' },
-                { id: 'prop_prod_category', name: 'category', dataType: 'STRING', description: 'Product category', binding: 'SCM_DIM_PRODUCT.category' },
-                { id: 'prop_prod_unit_cost', name: 'unit_cost', dataType: 'FLOAT', description: 'Cost per unit', binding: 'SCM_DIM_PRODUCT.unit_cost' },
-                { id: 'prop_prod_weight', name: 'weight_kg', dataType: 'FLOAT', description: 'Weight in kilograms', binding: 'SCM_DIM_PRODUCT.weight_kg' }
-            ],
-            bindings: [{ type: 'BIGQUERY', resource: 'project.scm_dataset.SCM_DIM_PRODUCT' }]
-        },
-        {
-            id: 'entity_inventory',
-            name: 'Inventory',
-            type: EntityType.FACT,
-            description: 'Current inventory levels across warehouses',
-            properties: [
-                { id: 'prop_inv_id', name: 'inventory_id', dataType: 'STRING', description: 'Unique inventory record ID', binding: 'SCM_FACT_INVENTORY.inventory_id', isUniqueKey: true },
-                { id: 'prop_inv_sku', name: 'sku_id', dataType: 'STRING', description: 'Product SKU', binding: 'SCM_FACT_INVENTORY.sku_id' },
-                { id: 'prop_inv_wh', name: 'warehouse_id', dataType: 'STRING', description: 'Warehouse location', binding: 'SCM_FACT_INVENTORY.warehouse_id' },
-                { id: 'prop_inv_qty', name: 'quantity_on_hand', dataType: 'INTEGER', description: 'Current stock quantity', binding: 'SCM_FACT_INVENTORY.quantity_on_hand' },
-                { id: 'prop_inv_reorder', name: 'reorder_point', dataType: 'INTEGER', description: 'Quantity threshold for reorder', binding: 'SCM_FACT_INVENTORY.reorder_point' },
-                { id: 'prop_inv_updated', name: 'last_updated', dataType: 'TIMESTAMP', description: 'Last inventory update timestamp', binding: 'SCM_FACT_INVENTORY.last_updated' }
-            ],
-            bindings: [{ type: 'BIGQUERY', resource: 'project.scm_dataset.SCM_FACT_INVENTORY' }]
-        },
-        {
-            id: 'entity_shipment',
-            name: 'Shipment',
-            type: EntityType.FACT,
-            description: 'Shipments and deliveries in transit',
-            properties: [
-                { id: 'prop_ship_id', name: 'shipment_id', dataType: 'STRING', description: 'Unique shipment tracking ID', binding: 'SCM_FACT_SHIPMENT.shipment_id', isUniqueKey: true },
-                { id: 'prop_ship_origin', name: 'origin_warehouse_id', dataType: 'STRING', description: 'Originating warehouse', binding: 'SCM_FACT_SHIPMENT.origin_warehouse_id' },
-                { id: 'prop_ship_dest', name: 'destination', dataType: 'STRING', description: 'Delivery destination', binding: 'SCM_FACT_SHIPMENT.destination' },
-                { id: 'prop_ship_carrier', name: 'carrier', dataType: 'STRING', description: 'Shipping carrier name', binding: 'SCM_FACT_SHIPMENT.carrier' },
-                { id: 'prop_ship_status', name: 'status', dataType: 'STRING', description: 'Current shipment status', binding: 'SCM_FACT_SHIPMENT.status' },
-                { id: 'prop_ship_date', name: 'ship_date', dataType: 'TIMESTAMP', description: 'Date shipment was dispatched', binding: 'SCM_FACT_SHIPMENT.ship_date' },
-                { id: 'prop_ship_eta', name: 'estimated_arrival', dataType: 'TIMESTAMP', description: 'Expected delivery date', binding: 'SCM_FACT_SHIPMENT.estimated_arrival' }
-            ],
-            bindings: [{ type: 'BIGQUERY', resource: 'project.scm_dataset.SCM_FACT_SHIPMENT' }]
-        },
-        {
-            id: 'entity_order',
-            name: 'Purchase Order',
-            type: EntityType.FACT,
-            description: 'Purchase orders placed with suppliers',
-            properties: [
-                { id: 'prop_po_id', name: 'po_id', dataType: 'STRING', description: 'Purchase order number', binding: 'SCM_FACT_PO.po_id', isUniqueKey: true },
-                { id: 'prop_po_supplier', name: 'supplier_id', dataType: 'STRING', description: 'Supplier fulfilling the order', binding: 'SCM_FACT_PO.supplier_id' },
-                { id: 'prop_po_sku', name: 'sku_id', dataType: 'STRING', description: 'Ordered product SKU', binding: 'SCM_FACT_PO.sku_id' },
-                { id: 'prop_po_qty', name: 'quantity', dataType: 'INTEGER', description: 'Quantity ordered', binding: 'SCM_FACT_PO.quantity' },
-                { id: 'prop_po_total', name: 'total_cost', dataType: 'FLOAT', description: 'Total order cost', binding: 'SCM_FACT_PO.total_cost' },
-                { id: 'prop_po_date', name: 'order_date', dataType: 'TIMESTAMP', description: 'Date order was placed', binding: 'SCM_FACT_PO.order_date' },
-                { id: 'prop_po_status', name: 'status', dataType: 'STRING', description: 'Order status: Pending, Confirmed, Shipped, Delivered', binding: 'SCM_FACT_PO.status' }
-            ],
-            bindings: [{ type: 'BIGQUERY', resource: 'project.scm_dataset.SCM_FACT_PO' }]
+    const handleFileImport = async (files: FileList) => {
+        setIsLoading(true);
+        setImportError(null);
+        const ddlFiles = Array.from(files).filter((f: File) => /\.(sql|ddl)$/i.test(f.name));
+        if (ddlFiles.length > 0) {
+            // All selected CREATE TABLE scripts go into one model so cross-file foreign keys resolve
+            try {
+                const scripts = await Promise.all(ddlFiles.map(async (f: File) => ({ name: f.name, content: await f.text() })));
+                onCreate(scripts.some(script => isSpannerGraphDdl(script.content)) ? spannerGraphToModel(scripts) : ddlToModel(scripts));
+            } catch (error) {
+                setImportError(`Could not import DDL: ${error instanceof Error ? error.message : String(error)}`);
+            } finally {
+                setIsLoading(false);
+            }
+            return;
         }
-    ];
-
-    const getSupplyChainRelationships = (): Relationship[] => [
-        {
-            id: 'rel_supplier_product',
-            sourceEntityId: 'entity_supplier',
-            targetEntityId: 'entity_product',
-            type: 'ONE_TO_MANY',
-            description: 'Supplier provides products',
-            label: 'supplies'
-        },
-        {
-            id: 'rel_product_inventory',
-            sourceEntityId: 'entity_product',
-            targetEntityId: 'entity_inventory',
-            type: 'ONE_TO_MANY',
-            description: 'Product has inventory records',
-            label: 'stocked as'
-        },
-        {
-            id: 'rel_warehouse_inventory',
-            sourceEntityId: 'entity_warehouse',
-            targetEntityId: 'entity_inventory',
-            type: 'ONE_TO_MANY',
-            description: 'Warehouse holds inventory',
-            label: 'stores'
-        },
-        {
-            id: 'rel_warehouse_shipment',
-            sourceEntityId: 'entity_warehouse',
-            targetEntityId: 'entity_shipment',
-            type: 'ONE_TO_MANY',
-            description: 'Warehouse originates shipments',
-            label: 'ships from'
-        },
-        {
-            id: 'rel_supplier_order',
-            sourceEntityId: 'entity_supplier',
-            targetEntityId: 'entity_order',
-            type: 'ONE_TO_MANY',
-            description: 'Supplier receives purchase orders',
-            label: 'receives'
-        },
-        {
-            id: 'rel_product_order',
-            sourceEntityId: 'entity_product',
-            targetEntityId: 'entity_order',
-            type: 'ONE_TO_MANY',
-            description: 'Product is ordered via purchase orders',
-            label: 'ordered in'
+        const sampleFiles = Array.from(files).filter((f: File) => SAMPLE_FILE_PATTERN.test(f.name));
+        if (sampleFiles.length > 0) {
+            // Sample files are profiled together so keys can be matched across them;
+            // detected relationships wait in the suggestion panel for review
+            try {
+                const samples = await Promise.all(sampleFiles.map(async (f: File) => ({ name: f.name, content: await f.text() })));
+                const { model: draft, relationshipCandidates } = samplesToModel(samples);
+                onCreate(draft);
+                relationshipCandidates.forEach(candidate => onAddSuggestion({
+                    modelId: draft.id,
+                    entityId: candidate.relationship.sourceEntityId,
+                    entityName: candidate.sourceEntityName,
+                    type: SuggestionType.NEW_RELATIONSHIP,
+                    source: SuggestionSource.DATA_SCAN,
+                    suggestedRelationship: candidate.relationship,
+                    reason: candidate.reason
+                }));
+            } catch (error) {
+                setImportError(`Could not import sample data: ${error instanceof Error ? error.message : String(error)}`);
+            } finally {
+                setIsLoading(false);
+            }
+            return;
         }
-    ];
+        const readModel = async (file: File): Promise<SemanticModel> => {
+            const text = await file.text();
+            if (/\.(ttl|turtle)$/i.test(file.name)) return turtleToModel(text, file.name);
+            if (/\.dbml$/i.test(file.name)) return dbmlToModel(text, file.name);
+            const imported = file.name.toLowerCase().endsWith('.json')
+                ? documentToModel(JSON.parse(text))
+                : parseModelYaml(text);
+            return { ...imported, gitFile: imported.gitFile || `models/${file.name}` };
+        };
+        // Every other file is a model of its own; nothing is created unless all of them read
+        try {
+            const models = await Promise.all(Array.from(files).map((file: File) => readModel(file).catch(error => {
+                throw new Error(`Could not import ${file.name}: ${error instanceof Error ? error.message : String(error)}`);
+            })));
+            // Importers stamp ids with the current time, so files read together can share one,
+            // and a re-imported YAML file keeps the id of the model it was saved from
+            const takenIds = new Set(existingModelIds);
+            models.forEach(model => {
+                let id = model.id;
+                for (let i = 2; takenIds.has(id); i++) id = `${model.id}_${i}`;
+                takenIds.add(id);
+                onCreate(id === model.id ? model : { ...model, id });
+            });
+        } catch (error) {
+            setImportError(error instanceof Error ? error.message : String(error));
+        } finally {
+            setIsLoading(false);
+        }
+    };
 
-    const handleImport = () => {
+    // LookML and dbt projects span several files that are converted together
+    const handleProjectImport = async (files: FileList, source: 'looker' | 'dbt') => {
         setIsLoading(true);
-        setTimeout(() => {
-            const modelName = importSource === 'looker' ? `Looker Model - ${projectName}` : 
-                      importSource === 'dbt' ? `DBT Model - ${projectName}` : 
-                      `Imported Model`;
-            
-            const importedModel: SemanticModel = {
-                id: `imported_${Date.now()}`,
-                name: modelName,
-                description: `Imported from ${importSource?.toUpperCase() || 'file'} on ${new Date().toLocaleDateString()}. Supply chain analytics model with suppliers, warehouses, inventory, shipments, and purchase orders.`,
-                domain: 'Supply Chain',
-                entities: getSupplyChainEntities(),
-                relationships: getSupplyChainRelationships(),
-                createdAt: new Date(),
-                updatedAt: new Date()
-            };
+        setImportError(null);
+        try {
+            const projectFiles = await Promise.all(
+                Array.from(files).map(async (file: File) => ({ name: file.name, content: await file.text() }))
+            );
+            onCreate(source === 'looker' ? lookmlToModel(projectFiles, projectName) : dbtToModel(projectFiles, projectName));
+        } catch (error) {
+            setImportError(`Could not import ${source === 'looker' ? 'LookML' : 'dbt project'}: ${error instanceof Error ? error.message : String(error)}`);
+        } finally {
             setIsLoading(false);
-            onCreate(importedModel);
-        }, 1500);
+        }
+    };
+
+    const handleImport = () => {
+        if (!selectedFiles || selectedFiles.length === 0) return;
+        if (importSource === 'file') {
+            handleFileImport(selectedFiles);
+        } else if (importSource === 'looker' || importSource === 'dbt') {
+            handleProjectImport(selectedFiles, importSource);
+        }
     };
 
     const addGitHubSource = () => {
@@ -5008,9 +5658,41 @@ const NewModelModal: React.FC<{
     const importSources = [
         { id: 'looker' as const, name: 'Looker', description: 'Import from Looker LookML models', icon: <Eye size={24} />, color: 'from-purple-500 to-indigo-600' },
         { id: 'dbt' as const, name: 'dbt', description: 'Import from dbt semantic layer', icon: <Database size={24} />, color: 'from-orange-500 to-red-600' },
-        { id: 'file' as const, name: 'File Upload', description: 'Upload YAML or JSON definition files', icon: <FileText size={24} />, color: 'from-green-500 to-teal-600' }
+        { id: 'file' as const, name: 'File Upload', description: 'Upload YAML, JSON, SQL DDL, DBML, OWL/Turtle or sample CSV/NDJSON files', icon: <FileText size={24} />, color: 'from-green-500 to-teal-600' }
     ];
 
+    const renderFileDropZone = (accept: string, hint: string) => (
+        <>
+            <div onClick={() => fileInputRef.current?.click()} className="border-2 border-dashed border-gray-300 rounded-xl p-8 text-center cursor-pointer hover:border-blue-400 hover:bg-blue-50/30 transition-all">
+                <input ref={fileInputRef} type="file" accept={accept} multiple className="hidden" onChange={(e) => { setSelectedFiles(e.target.files); setImportError(null); }} />
+                <div className="w-16 h-16 bg-gray-100 rounded-full flex items-center justify-center mx-auto mb-4">
+                    <Upload size={28} className="text-gray-400" />
+                </div>
+                {selectedFiles && selectedFiles.length > 0 ? (
+                    <div>
+                        <p className="font-medium text-gray-900 mb-2">{selectedFiles.length} file{selectedFiles.length > 1 ? 's' : ''} selected</p>
+                        <div className="text-sm text-gray-500 space-y-1">
+                            {Array.from(selectedFiles).map((file: File, idx: number) => (
+                                <div key={idx} className="flex items-center justify-center gap-2"><FileText size={14} /><span>{file.name}</span></div>
+                            ))}
+                        </div>
+                    </div>
+                ) : (
+                    <>
+                        <p className="font-medium text-gray-700 mb-1">Drop files here or click to browse</p>
+                        <p className="text-sm text-gray-500">{hint}</p>
+                    </>
+                )}
+            </div>
+            {importError && (
+                <div className="flex items-start gap-2 p-3 bg-red-50 border border-red-200 rounded-lg text-sm text-red-700">
+                    <AlertCircle size={16} className="shrink-0 mt-0.5" />
+                    <span>{importError}</span>
+                </div>
+            )}
+        </>
+    );
+
     const getTitle = () => {
         if (view === 'main') return 'New Semantic Model';
         if (view === 'create') return 'Create with AI';
@@ -5023,6 +5705,8 @@ const NewModelModal: React.FC<{
     const handleBack = () => {
         if (view === 'import' && importSource) {
             setImportSource(null);
+            setSelectedFiles(null);
+            setImportError(null);
         } else {
             setView('main');
             setImportSource(null);
@@ -5252,69 +5936,50 @@ const NewModelModal: React.FC<{
 
                     {view === 'import' && importSource === 'looker' && (
                         <div className="space-y-5">
-                            <div>
-                                <label className="block text-sm font-medium text-gray-700 mb-2">Looker Instance URL</label>
-                                <input type="url" value={connectionUrl} onChange={(e) => setConnectionUrl(e.target.value)} placeholder="https://your-instance.cloud.looker.com" className="w-full px-4 py-3 border border-gray-300 rounded-xl focus:ring-2 focus:ring-blue-500 focus:border-blue-500 outline-none transition-all" />
-                            </div>
                             <div>
                                 <label className="block text-sm font-medium text-gray-700 mb-2">Project Name</label>
-                                <input type="text" value={projectName} onChange={(e) => setProjectName(e.target.value)} placeholder="my_lookml_project" className="w-full px-4 py-3 border border-gray-300 rounded-xl focus:ring-2 focus:ring-blue-500 focus:border-blue-500 outline-none transition-all" />
+                                <input type="text" value={projectName} onChange={(e) => setProjectName(e.target.value)} placeholder="my_lookml_project (defaults to the .model.lkml file name)" className="w-full px-4 py-3 border border-gray-300 rounded-xl focus:ring-2 focus:ring-blue-500 focus:border-blue-500 outline-none transition-all" />
                             </div>
-                            <div>
-                                <label className="block text-sm font-medium text-gray-700 mb-2">API Key</label>
-                                <input type="password" value={apiKey} onChange={(e) => setApiKey(e.target.value)} placeholder="Enter your Looker API key" className="w-full px-4 py-3 border border-gray-300 rounded-xl focus:ring-2 focus:ring-blue-500 focus:border-blue-500 outline-none transition-all" />
-                                <p className="text-xs text-gray-500 mt-2">Your API key is encrypted and used only for this import.</p>
+                            {renderFileDropZone('.lkml', 'Select the project\'s .view.lkml and .model.lkml files')}
+                            <div className="bg-gray-50 rounded-xl p-4">
+                                <h4 className="font-medium text-gray-700 mb-2 text-sm">What gets imported</h4>
+                                <ul className="text-sm text-gray-500 space-y-1">
+                                    <li className="flex items-center gap-2"><div className="w-1.5 h-1.5 bg-purple-500 rounded-full"></div>Views become entities bound to their sql_table_name</li>
+                                    <li className="flex items-center gap-2"><div className="w-1.5 h-1.5 bg-purple-500 rounded-full"></div>Dimensions and dimension groups become dimension properties</li>
+                                    <li className="flex items-center gap-2"><div className="w-1.5 h-1.5 bg-purple-500 rounded-full"></div>Measures become computed measure properties</li>
+                                    <li className="flex items-center gap-2"><div className="w-1.5 h-1.5 bg-purple-500 rounded-full"></div>Explore joins become relationships</li>
+                                </ul>
                             </div>
                         </div>
                     )}
 
                     {view === 'import' && importSource === 'dbt' && (
                         <div className="space-y-5">
-                            <div>
-                                <label className="block text-sm font-medium text-gray-700 mb-2">dbt Cloud URL</label>
-                                <input type="url" value={connectionUrl} onChange={(e) => setConnectionUrl(e.target.value)} placeholder="https://cloud.getdbt.com" className="w-full px-4 py-3 border border-gray-300 rounded-xl focus:ring-2 focus:ring-blue-500 focus:border-blue-500 outline-none transition-all" />
-                            </div>
                             <div>
                                 <label className="block text-sm font-medium text-gray-700 mb-2">Project Name</label>
-                                <input type="text" value={projectName} onChange={(e) => setProjectName(e.target.value)} placeholder="my_dbt_project" className="w-full px-4 py-3 border border-gray-300 rounded-xl focus:ring-2 focus:ring-blue-500 focus:border-blue-500 outline-none transition-all" />
+                                <input type="text" value={projectName} onChange={(e) => setProjectName(e.target.value)} placeholder="my_dbt_project (defaults to the manifest's project name)" className="w-full px-4 py-3 border border-gray-300 rounded-xl focus:ring-2 focus:ring-blue-500 focus:border-blue-500 outline-none transition-all" />
                             </div>
-                            <div>
-                                <label className="block text-sm font-medium text-gray-700 mb-2">Service Token</label>
-                                <input type="password" value={apiKey} onChange={(e) => setApiKey(e.target.value)} placeholder="Enter your dbt Cloud service token" className="w-full px-4 py-3 border border-gray-300 rounded-xl focus:ring-2 focus:ring-blue-500 focus:border-blue-500 outline-none transition-all" />
-                                <p className="text-xs text-gray-500 mt-2">Service token with Semantic Layer access permissions.</p>
+                            {renderFileDropZone('.json,.yml,.yaml', 'Select target/manifest.json and/or semantic_models / metrics YAML')}
+                            <div className="bg-gray-50 rounded-xl p-4">
+                                <h4 className="font-medium text-gray-700 mb-2 text-sm">What gets imported</h4>
+                                <ul className="text-sm text-gray-500 space-y-1">
+                                    <li className="flex items-center gap-2"><div className="w-1.5 h-1.5 bg-orange-500 rounded-full"></div>Models become entities bound to their BigQuery relation</li>
+                                    <li className="flex items-center gap-2"><div className="w-1.5 h-1.5 bg-orange-500 rounded-full"></div>Columns become properties with their descriptions</li>
+                                    <li className="flex items-center gap-2"><div className="w-1.5 h-1.5 bg-orange-500 rounded-full"></div>Semantic model dimensions, measures and metrics set property types</li>
+                                    <li className="flex items-center gap-2"><div className="w-1.5 h-1.5 bg-orange-500 rounded-full"></div>relationships tests, foreign keys and foreign entities become relationships</li>
+                                </ul>
                             </div>
                         </div>
                     )}
 
                     {view === 'import' && importSource === 'file' && (
                         <div className="space-y-5">
-                            <div onClick={() => fileInputRef.current?.click()} className="border-2 border-dashed border-gray-300 rounded-xl p-8 text-center cursor-pointer hover:border-blue-400 hover:bg-blue-50/30 transition-all">
-                                <input ref={fileInputRef} type="file" accept=".yaml,.yml,.json" multiple className="hidden" onChange={(e) => setSelectedFiles(e.target.files)} />
-                                <div className="w-16 h-16 bg-gray-100 rounded-full flex items-center justify-center mx-auto mb-4">
-                                    <Upload size={28} className="text-gray-400" />
-                                </div>
-                                {selectedFiles && selectedFiles.length > 0 ? (
-                                    <div>
-                                        <p className="font-medium text-gray-900 mb-2">{selectedFiles.length} file{selectedFiles.length > 1 ? 's' : ''} selected</p>
-                                        <div className="text-sm text-gray-500 space-y-1">
-                                            {Array.from(selectedFiles).map((file: File, idx: number) => (
-                                                <div key={idx} className="flex items-center justify-center gap-2"><FileText size={14} /><span>{file.name}</span></div>
-                                            ))}
-                                        </div>
-                                    </div>
-                                ) : (
-                                    <>
-                                        <p className="font-medium text-gray-700 mb-1">Drop files here or click to browse</p>
-                                        <p className="text-sm text-gray-500">Supports YAML and JSON files</p>
-                                    </>
-                                )}
-                            </div>
+                            {renderFileDropZone('.yaml,.yml,.json,.sql,.ddl,.dbml,.ttl,.csv,.ndjson,.jsonl', 'Supports YAML, JSON, SQL DDL (including Spanner Graph schemas), DBML, OWL ontologies in Turtle and sample CSV or newline-delimited JSON data')}
                             <div className="bg-gray-50 rounded-xl p-4">
                                 <h4 className="font-medium text-gray-700 mb-2 text-sm">Supported Formats</h4>
                                 <ul className="text-sm text-gray-500 space-y-1">
                                     <li className="flex items-center gap-2"><div className="w-1.5 h-1.5 bg-green-500 rounded-full"></div>Dataplex Semantic Model YAML</li>
-                                    <li className="flex items-center gap-2"><div className="w-1.5 h-1.5 bg-green-500 rounded-full"></div>LookML view/model files (.lkml)</li>
-                                    <li className="flex items-center gap-2"><div className="w-1.5 h-1.5 bg-green-500 rounded-full"></div>dbt schema.yml files</li>
+                                    <li className="flex items-center gap-2"><div className="w-1.5 h-1.5 bg-green-500 rounded-full"></div>BigQuery or Spanner CREATE TABLE scripts (.sql)</li>
                                 </ul>
                             </div>
                         </div>
@@ -5340,7 +6005,7 @@ const NewModelModal: React.FC<{
                         ) : (
                             <button
                                 onClick={handleImport}
-                                disabled={isLoading || (importSource !== 'file' && (!connectionUrl || !projectName || !apiKey)) || (importSource === 'file' && !selectedFiles)}
+                                disabled={isLoading || !selectedFiles || selectedFiles.length === 0}
                                 className="px-6 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors font-medium disabled:opacity-50 disabled:cursor-not-allowed flex items-center gap-2"
                             >
                                 {isLoading ? (
@@ -5363,9 +6028,25 @@ const GitFileModal: React.FC<{
     onClose: () => void;
     onSave: (gitFile: string) => void;
 }> = ({ model, onClose, onSave }) => {
-    const [gitFile, setGitFile] = useState(model.gitFile || `models/${model.id}.yaml`);
+    const [gitFile, setGitFile] = useState(getModelFilePath(model));
     const [isValidating, setIsValidating] = useState(false);
 
+    const downloadFile = (content: string, filename: string, mimeType: string) => {
+        const blob = new Blob([content], { type: mimeType });
+        const url = URL.createObjectURL(blob);
+        const a = document.createElement('a');
+        a.href = url;
+        a.download = filename;
+        document.body.appendChild(a);
+        a.click();
+        document.body.removeChild(a);
+        URL.revokeObjectURL(url);
+    };
+
+    const handleDownloadYaml = () => {
+        downloadFile(serializeModelToYaml({ ...model, gitFile }), gitFile.split('/').pop() || `${model.id}.yaml`, 'application/yaml');
+    };
+
     const handleSave = () => {
         setIsValidating(true);
         setTimeout(() => {
@@ -5429,11 +6110,32 @@ const GitFileModal: React.FC<{
                                 <div className="w-1.5 h-1.5 bg-blue-500 rounded-full mt-1.5"></div>
                                 Supported formats: .yaml, .yml, .json
                             </li>
+                            <li className="flex items-start gap-2">
+                                <div className="w-1.5 h-1.5 bg-blue-500 rounded-full mt-1.5"></div>
+                                <span>
+                                    Files are validated against format v{CURRENT_FORMAT_VERSION}{' '}
+                                    <button
+                                        onClick={() => downloadFile(JSON.stringify(SEMANTIC_MODEL_JSON_SCHEMA, null, 2), `semantic-model.v${CURRENT_FORMAT_VERSION}.schema.json`, 'application/schema+json')}
+                                        className="text-blue-600 hover:underline"
+                                    >
+                                        (JSON Schema)
+                                    </button>
+                                </span>
+                            </li>
                         </ul>
                     </div>
                 </div>
 
                 <div className="px-6 py-4 border-t border-gray-200 flex items-center justify-end gap-3">
+                    <button
+                        onClick={handleDownloadYaml}
+                        disabled={!gitFile.trim()}
+                        className="mr-auto px-4 py-2 text-gray-700 hover:bg-gray-100 rounded-lg transition-colors font-medium flex items-center gap-2 disabled:opacity-50"
+                        title="Download the model as it would be committed to this path"
+                    >
+                        <Download size={16} />
+                        Download YAML
+                    </button>
                     <button
                         onClick={onClose}
                         className="px-4 py-2 text-gray-700 hover:bg-gray-100 rounded-lg transition-colors font-medium"
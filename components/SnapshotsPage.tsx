@@ -0,0 +1,190 @@
+import React, { useState, useEffect, useMemo } from 'react';
+import { ArrowLeft, Camera, History, Trash2, ArrowRight, AlertCircle } from 'lucide-react';
+import { SemanticModel, ModelSnapshot } from '../types';
+import { listSnapshots, saveSnapshot, deleteSnapshot, createSnapshot } from '../services/modelStorage';
+import { diffModels } from '../services/modelDiff';
+import { ModelDiffView } from './ModelDiffView';
+
+interface SnapshotsPageProps {
+    model: SemanticModel;
+    onBack: () => void;
+}
+
+// Sentinel id for the live, unsaved version of the model in the compare pickers
+const WORKING_COPY = 'working_copy';
+
+export const SnapshotsPage: React.FC<SnapshotsPageProps> = ({ model, onBack }) => {
+    const [snapshots, setSnapshots] = useState<ModelSnapshot[]>([]);
+    const [isLoading, setIsLoading] = useState(true);
+    const [error, setError] = useState<string | null>(null);
+    const [snapshotName, setSnapshotName] = useState('');
+    const [baseId, setBaseId] = useState<string>('');
+    const [compareId, setCompareId] = useState<string>(WORKING_COPY);
+
+    useEffect(() => {
+        let cancelled = false;
+        listSnapshots(model.id)
+            .then(list => {
+                if (cancelled) return;
+                setSnapshots(list);
+                if (list.length > 0) setBaseId(list[0].id);
+            })
+            .catch(err => !cancelled && setError(`Could not load snapshots: ${err.message}`))
+            .finally(() => !cancelled && setIsLoading(false));
+        return () => { cancelled = true; };
+    }, [model.id]);
+
+    const resolveVersion = (id: string): SemanticModel | undefined =>
+        id === WORKING_COPY ? model : snapshots.find(s => s.id === id)?.model;
+
+    const baseModel = resolveVersion(baseId);
+    const compareModel = resolveVersion(compareId);
+
+    const diff = useMemo(
+        () => (baseModel && compareModel ? diffModels(baseModel, compareModel) : null),
+        [baseModel, compareModel]
+    );
+
+    const handleSaveSnapshot = async () => {
+        const name = snapshotName.trim() || `Snapshot ${new Date().toLocaleString()}`;
+        const snapshot = createSnapshot(model, name);
+        try {
+            await saveSnapshot(snapshot);
+            setSnapshots(prev => [snapshot, ...prev]);
+            setBaseId(snapshot.id);
+            setSnapshotName('');
+            setError(null);
+        } catch (err: any) {
+            setError(`Could not save snapshot: ${err.message}`);
+        }
+    };
+
+    const handleDelete = async (snapshotId: string) => {
+        try {
+            await deleteSnapshot(snapshotId);
+            setSnapshots(prev => prev.filter(s => s.id !== snapshotId));
+            if (baseId === snapshotId) setBaseId('');
+            if (compareId === snapshotId) setCompareId(WORKING_COPY);
+        } catch (err: any) {
+            setError(`Could not delete snapshot: ${err.message}`);
+        }
+    };
+
+    const versionOptions = (
+        <>
+            <option value={WORKING_COPY}>Working copy (current)</option>
+            {snapshots.map(s => (
+                <option key={s.id} value={s.id}>{s.name} — {s.createdAt.toLocaleString()}</option>
+            ))}
+        </>
+    );
+
+    return (
+        <div className="flex flex-col h-full bg-gradient-to-br from-gray-50 to-gray-100">
+            {/* Header */}
+            <div className="h-14 border-b border-gray-200 bg-white flex items-center justify-between px-6">
+                <button onClick={onBack} className="flex items-center gap-2 text-gray-600 hover:text-gray-900 text-sm font-medium">
+                    <ArrowLeft size={18} />
+                    Back to Model
+                </button>
+                <div className="flex items-center gap-2">
+                    <History size={18} className="text-blue-600" />
+                    <span className="font-semibold text-gray-800">Snapshots: {model.name}</span>
+                </div>
+                <div className="w-32"></div>
+            </div>
+
+            <div className="flex-1 overflow-y-auto p-8">
+                <div className="max-w-6xl mx-auto flex gap-8">
+                    {/* Left: snapshot list */}
+                    <div className="w-80 shrink-0 space-y-4">
+                        <div className="bg-white rounded-2xl border border-gray-200 p-5">
+                            <label className="block text-sm font-medium text-gray-700 mb-2">New snapshot</label>
+                            <input
+                                type="text"
+                                value={snapshotName}
+                                onChange={(e) => setSnapshotName(e.target.value)}
+                                onKeyDown={(e) => e.key === 'Enter' && handleSaveSnapshot()}
+                                placeholder="e.g. Before Q3 release"
+                                className="w-full px-3 py-2 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-blue-500 focus:border-blue-500 outline-none"
+                            />
+                            <button
+                                onClick={handleSaveSnapshot}
+                                className="mt-3 w-full flex items-center justify-center gap-2 px-4 py-2 bg-blue-600 text-white rounded-lg text-sm font-medium hover:bg-blue-700 transition-colors"
+                            >
+                                <Camera size={16} />
+                                Save Snapshot
+                            </button>
+                        </div>
+
+                        <div className="bg-white rounded-2xl border border-gray-200 overflow-hidden">
+                            <div className="px-5 py-3 border-b border-gray-100 text-[11px] font-bold text-gray-500 uppercase tracking-wider">
+                                Saved Snapshots ({snapshots.length})
+                            </div>
+                            {isLoading ? (
+                                <div className="px-5 py-4 text-sm text-gray-400">Loading…</div>
+                            ) : snapshots.length === 0 ? (
+                                <div className="px-5 py-4 text-sm text-gray-400 italic">No snapshots yet.</div>
+                            ) : (
+                                snapshots.map(s => (
+                                    <div key={s.id} className="px-5 py-3 border-b border-gray-100 last:border-b-0 flex items-start justify-between gap-2 group">
+                                        <button onClick={() => setBaseId(s.id)} className="text-left min-w-0">
+                                            <div className={`text-sm font-medium truncate ${baseId === s.id ? 'text-blue-600' : 'text-gray-800'}`}>{s.name}</div>
+                                            <div className="text-xs text-gray-400">
+                                                {s.createdAt.toLocaleString()} · {s.model.entities.length} entities
+                                            </div>
+                                        </button>
+                                        <button
+                                            onClick={() => handleDelete(s.id)}
+                                            className="p-1 text-gray-300 hover:text-red-600 opacity-0 group-hover:opacity-100 transition-opacity"
+                                            title="Delete snapshot"
+                                        >
+                                            <Trash2 size={14} />
+                                        </button>
+                                    </div>
+                                ))
+                            )}
+                        </div>
+                    </div>
+
+                    {/* Right: comparison */}
+                    <div className="flex-1 min-w-0">
+                        <div className="flex items-center gap-3 mb-6">
+                            <select
+                                value={baseId}
+                                onChange={(e) => setBaseId(e.target.value)}
+                                className="flex-1 px-3 py-2 border border-gray-300 rounded-lg text-sm bg-white outline-none focus:ring-2 focus:ring-blue-500"
+                            >
+                                <option value="" disabled>Select base version…</option>
+                                {versionOptions}
+                            </select>
+                            <ArrowRight size={18} className="text-gray-400 shrink-0" />
+                            <select
+                                value={compareId}
+                                onChange={(e) => setCompareId(e.target.value)}
+                                className="flex-1 px-3 py-2 border border-gray-300 rounded-lg text-sm bg-white outline-none focus:ring-2 focus:ring-blue-500"
+                            >
+                                {versionOptions}
+                            </select>
+                        </div>
+
+                        {error && (
+                            <div className="mb-4 flex items-start gap-2 p-3 bg-red-50 border border-red-200 rounded-lg text-sm text-red-700">
+                                <AlertCircle size={16} className="shrink-0 mt-0.5" />
+                                <span>{error}</span>
+                            </div>
+                        )}
+
+                        {diff ? (
+                            <ModelDiffView diff={diff} />
+                        ) : (
+                            <div className="bg-white rounded-xl border border-dashed border-gray-300 p-8 text-center text-sm text-gray-500">
+                                Save a snapshot, then pick two versions to compare.
+                            </div>
+                        )}
+                    </div>
+                </div>
+            </div>
+        </div>
+    );
+};
@@ -1,5 +1,5 @@
 import React from 'react';
-import { Bell, Check, X, ChevronDown, ChevronUp, AlertCircle, Sparkles, Database, RefreshCw, FileText, Plus, Edit } from 'lucide-react';
+import { Bell, Check, X, ChevronDown, ChevronUp, AlertCircle, Sparkles, Database, RefreshCw, FileText, Plus, Edit, Link2 } from 'lucide-react';
 import { EntityUpdateSuggestion, SuggestionStatus, SuggestionSource, SuggestionType, Property } from '../types';
 
 interface SuggestionPanelProps {
@@ -50,6 +50,8 @@ const getTypeIcon = (type: SuggestionType) => {
             return <Plus size={14} className="text-purple-400" />;
         case SuggestionType.UPDATED_ENTITY:
             return <Edit size={14} className="text-orange-400" />;
+        case SuggestionType.NEW_RELATIONSHIP:
+            return <Link2 size={14} className="text-teal-400" />;
         default:
             return <AlertCircle size={14} className="text-gray-400" />;
     }
@@ -65,6 +67,8 @@ const getTypeLabel = (type: SuggestionType): string => {
             return 'New Entity';
         case SuggestionType.UPDATED_ENTITY:
             return 'Entity Update';
+        case SuggestionType.NEW_RELATIONSHIP:
+            return 'New Relationship';
         default:
             return 'Update';
     }
@@ -145,6 +149,18 @@ const SuggestionCard: React.FC<{
                         </div>
                     )}
 
+                    {suggestion.suggestedRelationship && (
+                        <div className="mt-2">
+                            <span className="text-xs text-gray-500 block mb-1">Suggested Relationship:</span>
+                            <div className="bg-gray-800/50 rounded px-2 py-1 text-xs">
+                                <span className="text-teal-300 font-medium">{suggestion.suggestedRelationship.type.replace(/_/g, ' ')}</span>
+                                {suggestion.suggestedRelationship.description && (
+                                    <p className="text-gray-400 mt-0.5">{suggestion.suggestedRelationship.description}</p>
+                                )}
+                            </div>
+                        </div>
+                    )}
+
                     {suggestion.suggestedProperties && suggestion.suggestedProperties.length > 0 && (
                         <div className="mt-2">
                             <span className="text-xs text-gray-500 block mb-1">Suggested Properties:</span>
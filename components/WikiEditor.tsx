@@ -1,6 +1,7 @@
 import React, { useState } from 'react';
 import { Pencil, Check, X, History, Eye, Edit3 } from 'lucide-react';
 import { DescriptionHistory } from '../types';
+import { renderWikiMarkdown } from '../services/wikiMarkdown';
 
 interface WikiEditorProps {
   content: string;
@@ -45,21 +46,6 @@ export const WikiEditor: React.FC<WikiEditorProps> = ({
     setPreviewMode(false);
   };
 
-  const escapeHtml = (text: string) => {
-    const div = document.createElement('div');
-    div.textContent = text;
-    return div.innerHTML;
-  };
-
-  const renderMarkdown = (text: string) => {
-    const escaped = escapeHtml(text);
-    return escaped
-      .replace(/\*\*(.*?)\*\*/g, '<strong>$1</strong>')
-      .replace(/\*(.*?)\*/g, '<em>$1</em>')
-      .replace(/`(.*?)`/g, '<code class="bg-gray-100 px-1 rounded text-sm">$1</code>')
-      .replace(/\n/g, '<br/>');
-  };
-
   if (!isEditing) {
     return (
       <div className="group">
@@ -98,7 +84,7 @@ export const WikiEditor: React.FC<WikiEditorProps> = ({
           {content ? (
             <div
               className="text-sm text-gray-700 prose prose-sm max-w-none"
-              dangerouslySetInnerHTML={{ __html: renderMarkdown(content) }}
+              dangerouslySetInnerHTML={{ __html: renderWikiMarkdown(content) }}
             />
           ) : (
             <span className="text-sm text-gray-400 italic">{placeholder}</span>
@@ -145,7 +131,7 @@ export const WikiEditor: React.FC<WikiEditorProps> = ({
         >
           <div
             className="text-sm text-gray-700 prose prose-sm max-w-none"
-            dangerouslySetInnerHTML={{ __html: renderMarkdown(editContent) }}
+            dangerouslySetInnerHTML={{ __html: renderWikiMarkdown(editContent) }}
           />
         </div>
       ) : (
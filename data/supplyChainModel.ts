@@ -1,4 +1,4 @@
-import { SemanticModel, EntityType, PropertyType } from '../types';
+import { SemanticModel, EntityType, PropertyType, Additivity } from '../types';
 
 export const comprehensiveSupplyChainModel: SemanticModel = {
   id: 'model_supply_chain',
@@ -292,8 +292,8 @@ export const comprehensiveSupplyChainModel: SemanticModel = {
       description: 'Current stock levels across locations',
       properties: [
         { id: 'inv_1', name: 'Inventory ID', dataType: 'STRING', description: 'Record identifier', isUniqueKey: true, propertyType: PropertyType.DIMENSION },
-        { id: 'inv_2', name: 'Quantity On Hand', dataType: 'INTEGER', description: 'Available stock', propertyType: PropertyType.MEASURE },
-        { id: 'inv_3', name: 'Reserved Quantity', dataType: 'INTEGER', description: 'Allocated stock', propertyType: PropertyType.MEASURE },
+        { id: 'inv_2', name: 'Quantity On Hand', dataType: 'INTEGER', description: 'Available stock', propertyType: PropertyType.MEASURE, additivity: Additivity.SEMI_ADDITIVE, snapshotPropertyId: 'inv_4' },
+        { id: 'inv_3', name: 'Reserved Quantity', dataType: 'INTEGER', description: 'Allocated stock', propertyType: PropertyType.MEASURE, additivity: Additivity.SEMI_ADDITIVE, snapshotPropertyId: 'inv_4' },
         { id: 'inv_4', name: 'Last Count Date', dataType: 'DATE', description: 'Last physical count', propertyType: PropertyType.DIMENSION }
       ]
     },
@@ -0,0 +1,239 @@
+import { SemanticModel, Entity, Property, PropertyType, Additivity } from '../types';
+import { AGGREGATION_LABELS, measureAggregation, measureAdditivity, snapshotPropertyOf } from './measures';
+import { buildDependencyGraph, inlineRowReferences, propertyKey, DependencyGraph } from './derivedMetrics';
+import { quoteBigQueryIdentifier } from './semanticQuery';
+
+// BigQuery deployment as semantic views. Each entity becomes a
+// CREATE OR REPLACE VIEW in the target dataset that selects its bound
+// columns from the source table under the property names, inlines
+// expression bindings and definitions (with ${...} references to the same
+// entity's row-level properties inlined), and carries descriptions in
+// OPTIONS. BigQuery only accepts key constraints on tables, so
+// relationships are recorded as NOT ENFORCED primary and foreign keys on the
+// bound source tables, where the optimizer can also use them for joins.
+// Views stay at row level: measure columns state their aggregation and
+// additivity in their descriptions, and entities with semi-additive measures
+// get a companion view holding only the latest snapshot.
+
+export interface BigQueryViewOptions {
+  project?: string;
+  dataset?: string;
+}
+
+const BIGQUERY_TYPES: Record<string, string> = {
+  STRING: 'STRING',
+  INTEGER: 'INT64',
+  FLOAT: 'FLOAT64',
+  BOOLEAN: 'BOOL',
+  TIMESTAMP: 'TIMESTAMP',
+  DATE: 'DATE',
+  DATETIME: 'DATETIME',
+  TIME: 'TIME',
+  BYTES: 'BYTES',
+  NUMERIC: 'NUMERIC',
+  BIGNUMERIC: 'BIGNUMERIC',
+  GEOGRAPHY: 'GEOGRAPHY',
+  JSON: 'JSON'
+};
+
+export const mapDataTypeToBigQuery = (dataType: string): string =>
+  BIGQUERY_TYPES[dataType?.toUpperCase()] || 'STRING';
+
+const toColumnName = (name: string) =>
+  name.trim().toLowerCase().replace(/[^a-z0-9]+/g, '_').replace(/^_+|_+$/g, '') || 'column';
+
+const q = quoteBigQueryIdentifier;
+
+const quoteString = (text: string) => `"${text.replace(/\\/g, '\\\\').replace(/"/g, '\\"').replace(/\n/g, '\\n')}"`;
+
+const isAggregate = (sql: string) => /\b(SUM|AVG|COUNT|MIN|MAX|ANY_VALUE|ARRAY_AGG|STRING_AGG|APPROX_\w+|COUNTIF)\s*\(/i.test(sql);
+
+// Spanner-bound properties live outside BigQuery and are not selectable here
+const sourceColumn = (property: Property): { table: string; column: string } | undefined => {
+  if (property.bindingType === 'expression' || property.isComputed || property.bindingSystem === 'spanner') return undefined;
+  if (!property.bindingTable || !property.bindingColumn) return undefined;
+  const table = [property.bindingProject, property.bindingDataset, property.bindingTable].filter(Boolean).join('.');
+  return { table, column: property.bindingColumn };
+};
+
+const expressionOf = (property: Property): string | undefined => {
+  if (property.isComputed && property.definition) return property.definition;
+  if (property.bindingType === 'expression' && property.binding) return property.binding;
+  return undefined;
+};
+
+const measureNote = (entity: Entity, property: Property, columns: ViewColumn[]): string | undefined => {
+  if (property.propertyType !== PropertyType.MEASURE) return undefined;
+  const aggregation = measureAggregation(property, expressionOf(property));
+  const additivity = measureAdditivity(property, aggregation);
+  const snapshot = snapshotPropertyOf(entity, property);
+  const combine = additivity === Additivity.ADDITIVE ? 'additive'
+    : additivity === Additivity.NON_ADDITIVE ? 'non-additive'
+    : `semi-additive, not summed across ${snapshot ? columns.find(c => c.property === snapshot)?.name || snapshot.name : 'snapshots'}`;
+  return `Measure: ${aggregation ? AGGREGATION_LABELS[aggregation].toLowerCase() : 'aggregate'}, ${combine}.`;
+};
+
+interface ViewColumn {
+  property: Property;
+  name: string;
+  // Select expression over the source table, undefined when not selectable
+  sql?: string;
+  note?: string;
+}
+
+interface ViewPlan {
+  entity: Entity;
+  name: string;
+  source?: string;
+  columns: ViewColumn[];
+}
+
+const sourceTableOf = (entity: Entity): string | undefined => {
+  // The table most of the entity's columns are bound to
+  const counts = new Map<string, number>();
+  entity.properties.forEach(p => {
+    const bound = sourceColumn(p);
+    if (bound) counts.set(bound.table, (counts.get(bound.table) || 0) + 1);
+  });
+  const [top] = [...counts.entries()].sort((a, b) => b[1] - a[1]);
+  return top?.[0] || entity.bindings?.find(b => b.type === 'BIGQUERY')?.resource;
+};
+
+const planView = (entity: Entity, graph: DependencyGraph): ViewPlan => {
+  const source = sourceTableOf(entity);
+  const used = new Set<string>();
+  const columnSql = (property: Property) => {
+    const bound = sourceColumn(property);
+    return bound && bound.table === source ? `\`${bound.column}\`` : undefined;
+  };
+  const columns = entity.properties.map(property => {
+    let name = toColumnName(property.name);
+    for (let n = 2; used.has(name); n++) name = `${toColumnName(property.name)}_${n}`;
+    used.add(name);
+
+    const bound = sourceColumn(property);
+    const expression = expressionOf(property);
+    if (bound && bound.table === source) return { property, name, sql: `\`${bound.column}\`` };
+    if (bound) return { property, name, note: `bound to ${bound.table}.${bound.column}, which is not this view's source table` };
+    const level = graph.nodes.get(propertyKey({ entity, property }))?.level;
+    if (level === 'metric') return { property, name, note: 'derived metric, evaluated at query time' };
+    if (expression && isAggregate(expression)) return { property, name, note: 'aggregate measure, evaluated at query time' };
+    const sql = expression && inlineRowReferences(graph, { entity, property }, columnSql);
+    if (sql) return { property, name, sql: `(${sql})` };
+    if (expression) return { property, name, note: 'references properties that are not columns of this view' };
+    if (property.bindingSystem === 'spanner') return { property, name, note: 'bound to Spanner' };
+    return { property, name, note: 'no binding' };
+  });
+  return { entity, name: toColumnName(entity.name), source, columns };
+};
+
+export const generateBigQueryViewDdl = (model: SemanticModel, options: BigQueryViewOptions = {}): string => {
+  const project = options.project || 'project';
+  const dataset = options.dataset || 'dataset';
+  const graph = buildDependencyGraph(model);
+  const plans = new Map(model.entities.map(entity => [entity.id, planView(entity, graph)]));
+
+  let ddl = `-- BigQuery semantic views for ${model.name}\n`;
+  ddl += `-- Generated: ${new Date().toISOString()}\n`;
+  ddl += `-- Project: ${project}\n`;
+  ddl += `-- Dataset: ${dataset}\n\n`;
+
+  ddl += `CREATE SCHEMA IF NOT EXISTS \`${project}.${dataset}\`\n`;
+  ddl += `OPTIONS (\n  description = ${quoteString(`${model.description || model.name} semantic model`)}\n);\n\n`;
+
+  plans.forEach(({ entity, name, source, columns }) => {
+    ddl += `-- ${entity.type || 'ENTITY'}: ${entity.name}\n`;
+    const selected = columns.filter(c => c.sql);
+    if (!source || selected.length === 0) {
+      ddl += `-- Skipped ${entity.name}: no properties are bound to a BigQuery source table\n\n`;
+      return;
+    }
+    columns.filter(c => c.note).forEach(c => {
+      ddl += `-- Omitted ${c.property.name}: ${c.note}\n`;
+    });
+    ddl += `CREATE OR REPLACE VIEW \`${project}.${dataset}.${name}\` (\n`;
+    ddl += selected.map(c => {
+      const note = measureNote(entity, c.property, columns);
+      const text = c.property.description?.trim();
+      const description = note && text ? `${/[.!?]$/.test(text) ? text : `${text}.`} ${note}` : note || c.property.description;
+      return description ? `  ${q(c.name)} OPTIONS (description = ${quoteString(description)})` : `  ${q(c.name)}`;
+    }).join(',\n');
+    ddl += `\n)\nOPTIONS (\n`;
+    ddl += `  description = ${quoteString(entity.description || entity.name)},\n`;
+    ddl += `  labels = [("semantic_model", ${quoteString(toColumnName(model.name))}), ("entity_type", ${quoteString((entity.type || 'ENTITY').toLowerCase())})]\n`;
+    ddl += `)\nAS\nSELECT\n`;
+    // Expressions are cast so the view column has the property's declared type
+    ddl += selected.map(c => c.sql!.startsWith('(')
+      ? `  CAST${c.sql!.slice(0, -1)} AS ${mapDataTypeToBigQuery(c.property.dataType)}) AS ${q(c.name)}`
+      : `  ${c.sql} AS ${q(c.name)}`).join(',\n');
+    ddl += `\nFROM \`${source}\`;\n\n`;
+
+    // Semi-additive measures read one snapshot at a time
+    const snapshots = new Set(selected.map(c => snapshotPropertyOf(entity, c.property)).filter(Boolean));
+    [...snapshots].forEach(snapshot => {
+      const time = selected.find(c => c.property === snapshot);
+      if (!time) {
+        ddl += `-- No latest-snapshot view for ${entity.name}: its snapshot time ${snapshot!.name} is not a view column\n\n`;
+        return;
+      }
+      const latest = snapshots.size > 1 ? `${name}_latest_${time.name}` : `${name}_latest`;
+      ddl += `CREATE OR REPLACE VIEW \`${project}.${dataset}.${latest}\`\n`;
+      ddl += `OPTIONS (\n  description = ${quoteString(`${entity.name} at the latest ${snapshot!.name}`)}\n)\nAS\nSELECT *\n`;
+      ddl += `FROM \`${project}.${dataset}.${name}\`\n`;
+      ddl += `WHERE ${q(time.name)} = (SELECT MAX(${q(time.name)}) FROM \`${project}.${dataset}.${name}\`);\n\n`;
+    });
+  });
+
+  // Keys and relationships as informational constraints on the source tables
+  const keyColumn = (entityId: string, propertyId?: string) => {
+    const plan = plans.get(entityId);
+    const property = plan?.entity.properties.find(p => p.id === propertyId);
+    const bound = property && sourceColumn(property);
+    return bound && bound.table === plan!.source ? bound : undefined;
+  };
+
+  const constraints: string[] = [];
+  plans.forEach(({ entity, source }) => {
+    if (!source) return;
+    const keys = entity.properties.filter(p => p.isUniqueKey).map(p => sourceColumn(p)).filter(k => k && k.table === source);
+    if (keys.length > 0) {
+      // A table has at most one primary key and ADD PRIMARY KEY has no IF NOT
+      // EXISTS, so the previous one is dropped to keep the script rerunnable
+      constraints.push(
+        `ALTER TABLE \`${source}\` DROP PRIMARY KEY IF EXISTS;\n` +
+        `ALTER TABLE \`${source}\` ADD PRIMARY KEY (${keys.map(k => `\`${k!.column}\``).join(', ')}) NOT ENFORCED;`
+      );
+    }
+  });
+  model.relationships.forEach(rel => {
+    const source = plans.get(rel.sourceEntityId);
+    const target = plans.get(rel.targetEntityId);
+    if (!source || !target) return;
+    if (rel.type === 'MANY_TO_MANY') {
+      constraints.push(`-- ${source.entity.name} <-> ${target.entity.name} (MANY_TO_MANY) has no foreign key; it needs a bridge table`);
+      return;
+    }
+    // The foreign key sits on the "many" side and references the "one" side
+    const [from, to] = rel.type === 'ONE_TO_MANY'
+      ? [keyColumn(rel.targetEntityId, rel.targetPropertyId), keyColumn(rel.sourceEntityId, rel.sourcePropertyId)]
+      : [keyColumn(rel.sourceEntityId, rel.sourcePropertyId), keyColumn(rel.targetEntityId, rel.targetPropertyId)];
+    if (!from || !to) {
+      constraints.push(`-- ${source.entity.name} -> ${target.entity.name} (${rel.type}): linked properties are not bound to source columns`);
+      return;
+    }
+    const constraintName = toColumnName(`fk_${from.table.split('.').pop()}_${from.column}_${to.table.split('.').pop()}`);
+    constraints.push(
+      `ALTER TABLE \`${from.table}\` ADD CONSTRAINT IF NOT EXISTS ${constraintName}\n` +
+      `  FOREIGN KEY (\`${from.column}\`) REFERENCES \`${to.table}\` (\`${to.column}\`) NOT ENFORCED;`
+    );
+  });
+
+  if (constraints.length > 0) {
+    ddl += `-- Key and relationship constraints (NOT ENFORCED) on the source tables\n`;
+    ddl += `-- Views cannot carry constraints; these document the model's joins for BigQuery\n\n`;
+    // A relationship and its inverse describe the same foreign key
+    ddl += [...new Set(constraints)].join('\n') + '\n';
+  }
+
+  return ddl;
+};
@@ -0,0 +1,164 @@
+import { SemanticModel } from '../types';
+import { diffModels, DiffEntry, DiffCategory } from './modelDiff';
+
+// Undo/redo history for edits to a single semantic model. Each step keeps the
+// model before and after the edit; models are immutable so this is cheap.
+
+export interface HistoryEntry {
+  id: string;
+  label: string;
+  before: SemanticModel;
+  after: SemanticModel;
+  timestamp: Date;
+}
+
+export interface CommandHistory {
+  // Applied steps, oldest first
+  past: HistoryEntry[];
+  // Undone steps, next redo first
+  future: HistoryEntry[];
+}
+
+export interface HistoryMove {
+  history: CommandHistory;
+  model: SemanticModel;
+}
+
+export const MAX_HISTORY_ENTRIES = 100;
+
+// Consecutive edits with the same label inside this window (typing into a
+// description, dragging a value) collapse into one step.
+export const COALESCE_WINDOW_MS = 1000;
+
+export const emptyHistory = (): CommandHistory => ({ past: [], future: [] });
+
+const PRIMARY_ORDER: DiffCategory[] = ['entity', 'property', 'binding', 'relationship', 'model', 'aspect', 'glossary'];
+
+const CATEGORY_NOUNS: Record<DiffCategory, [string, string]> = {
+  model: ['model', 'models'],
+  entity: ['entity', 'entities'],
+  property: ['property', 'properties'],
+  binding: ['binding', 'bindings'],
+  relationship: ['relationship', 'relationships'],
+  aspect: ['aspect', 'aspects'],
+  glossary: ['glossary term', 'glossary terms']
+};
+
+const lastSegment = (label: string) => label.split(' › ').pop() || label;
+
+const describeBinding = (entry: DiffEntry): string => {
+  const after = Object.fromEntries(entry.changes.map(c => [c.field, c.after]));
+  const before = Object.fromEntries(entry.changes.map(c => [c.field, c.before]));
+  const property = lastSegment(entry.label);
+  const target = after.bindingTable && after.bindingColumn
+    ? `${after.bindingTable}.${after.bindingColumn}`
+    : after.binding;
+  if (target) return `Bind ${property} to ${target}`;
+  if (before.binding || before.bindingColumn) return `Unbind ${property}`;
+  return `Edit binding of ${property}`;
+};
+
+const describeEntry = (entry: DiffEntry): string => {
+  const fields = entry.changes.map(c => c.field);
+  switch (entry.category) {
+    case 'binding':
+      return describeBinding(entry);
+    case 'entity':
+    case 'property': {
+      const noun = CATEGORY_NOUNS[entry.category][0];
+      if (entry.kind === 'added') return `Add ${noun} ${entry.label}`;
+      if (entry.kind === 'removed') return `Delete ${noun} ${entry.label}`;
+      if (fields.length === 1 && fields[0] === 'name') {
+        return `Rename ${noun} ${entry.changes[0].before} to ${entry.changes[0].after}`;
+      }
+      return `Edit ${entry.label} ${fields.join(', ')}`;
+    }
+    case 'relationship':
+      if (entry.kind === 'added') return `Link ${entry.label}`;
+      if (entry.kind === 'removed') return `Remove link ${entry.label}`;
+      return `Edit link ${entry.label}`;
+    case 'aspect': {
+      const owner = entry.label.slice(0, entry.label.lastIndexOf(' › '));
+      if (entry.kind === 'added') return `Add aspect ${entry.id} to ${owner}`;
+      if (entry.kind === 'removed') return `Remove aspect ${entry.id} from ${owner}`;
+      return `Edit aspect ${entry.id} on ${owner}`;
+    }
+    case 'glossary': {
+      const owner = entry.label.slice(0, entry.label.lastIndexOf(' › '));
+      const term = lastSegment(entry.label);
+      return entry.kind === 'added' ? `Link term ${term} to ${owner}` : `Unlink term ${term} from ${owner}`;
+    }
+    case 'model':
+    default:
+      return `Edit model ${fields.join(', ')}`;
+  }
+};
+
+// Human readable label for the edit that turned `before` into `after`, or null
+// when nothing the user can see changed.
+export const describeChange = (before: SemanticModel, after: SemanticModel): string | null => {
+  const { entries } = diffModels(before, after);
+  if (entries.length === 0) return null;
+  if (entries.length === 1) return describeEntry(entries[0]);
+
+  const first = entries[0];
+  if (entries.every(e => e.kind === first.kind && e.category === first.category)) {
+    const verb = first.kind === 'added' ? 'Add' : first.kind === 'removed' ? 'Delete' : 'Edit';
+    return `${verb} ${entries.length} ${CATEGORY_NOUNS[first.category][1]}`;
+  }
+
+  const primary = PRIMARY_ORDER
+    .map(category => entries.find(e => e.category === category))
+    .find(Boolean)!;
+  const others = entries.length - 1;
+  return `${describeEntry(primary)} (+${others} related ${others === 1 ? 'change' : 'changes'})`;
+};
+
+export const recordChange = (
+  history: CommandHistory,
+  before: SemanticModel,
+  after: SemanticModel,
+  label?: string
+): CommandHistory => {
+  const resolvedLabel = label || describeChange(before, after);
+  if (!resolvedLabel) return history;
+
+  const now = new Date();
+  const last = history.past[history.past.length - 1];
+  if (
+    last &&
+    history.future.length === 0 &&
+    last.label === resolvedLabel &&
+    now.getTime() - last.timestamp.getTime() < COALESCE_WINDOW_MS
+  ) {
+    return { past: [...history.past.slice(0, -1), { ...last, after, timestamp: now }], future: [] };
+  }
+
+  const entry: HistoryEntry = {
+    id: `step_${now.getTime()}_${Math.random().toString(36).substr(2, 6)}`,
+    label: resolvedLabel,
+    before,
+    after,
+    timestamp: now
+  };
+  return { past: [...history.past, entry].slice(-MAX_HISTORY_ENTRIES), future: [] };
+};
+
+// Move to the state after the first `position` steps of the combined timeline
+// (0 is the state before any recorded step).
+export const jumpTo = (history: CommandHistory, position: number): HistoryMove | null => {
+  const steps = [...history.past, ...history.future];
+  if (steps.length === 0 || position < 0 || position > steps.length || position === history.past.length) {
+    return null;
+  }
+  return {
+    history: { past: steps.slice(0, position), future: steps.slice(position) },
+    model: position === 0 ? steps[0].before : steps[position - 1].after
+  };
+};
+
+export const undo = (history: CommandHistory): HistoryMove | null =>
+  history.past.length > 0 ? jumpTo(history, history.past.length - 1) : null;
+
+export const redo = (history: CommandHistory): HistoryMove | null =>
+  history.future.length > 0 ? jumpTo(history, history.past.length + 1) : null;
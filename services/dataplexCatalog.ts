@@ -0,0 +1,361 @@
+import { SemanticModel, AspectType, AspectAssignment, GlossaryTerm, Entity, Property } from '../types';
+
+// Dataplex Catalog export. The model is published as REST request bodies in
+// dependency order:
+//   aspect types     one per aspect type the model assigns
+//   entry types      semantic-model, semantic-entity, semantic-property
+//   entry group      holding the model's entries
+//   glossaries       one per glossary term domain, with the linked terms
+//   entries          the model, its entities and their properties, each
+//                    carrying its aspect values
+//   entry links      "definition" links from entries to glossary terms
+// Requests are sent through a DataplexCatalogClient, so the same payloads can
+// go to the Dataplex API or to the local stub server (dataplexStubServer)
+// that records them during development.
+
+export interface DataplexCatalogOptions {
+  project: string;
+  location: string;
+  // Defaults to the model name
+  entryGroup?: string;
+}
+
+export type CatalogResourceKind = 'aspectType' | 'entryType' | 'entryGroup' | 'glossary' | 'glossaryTerm' | 'entry' | 'entryLink';
+
+export interface CatalogRequest {
+  kind: CatalogResourceKind;
+  method: 'POST';
+  // API path without host, e.g. /v1/projects/p/locations/l/aspectTypes
+  path: string;
+  query: Record<string, string>;
+  body: Record<string, any>;
+  // Full resource name the request creates
+  name: string;
+}
+
+export interface CatalogResponse {
+  status: 'created' | 'exists';
+  body?: any;
+}
+
+export interface DataplexCatalogClient {
+  send(request: CatalogRequest): Promise<CatalogResponse>;
+}
+
+export class DataplexApiError extends Error {
+  request: CatalogRequest;
+  status: number;
+
+  constructor(request: CatalogRequest, status: number, message: string) {
+    super(`${request.kind} ${request.name}: ${status} ${message}`);
+    this.name = 'DataplexApiError';
+    this.request = request;
+    this.status = status;
+  }
+}
+
+export const DATAPLEX_API_URL = 'https://dataplex.googleapis.com';
+// Served by the dataplexStubServer Vite plugin
+export const DATAPLEX_STUB_URL = '/dataplex-stub';
+
+const SYSTEM = 'Semantic Model';
+const PLATFORM = 'Dataplex Semantic Model';
+const DEFINITION_LINK_TYPE = 'projects/dataplex-types/locations/global/entryLinkTypes/definition';
+const DEFAULT_GLOSSARY = 'Business Glossary';
+
+const FIELD_TYPES: Record<string, string> = {
+  number: 'double',
+  boolean: 'bool',
+  string: 'string'
+};
+
+// Dataplex resource ids: lowercase letters, digits and hyphens, starting with a letter
+const resourceId = (name: string) => {
+  const id = name.trim().toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-+|-+$/g, '') || 'unnamed';
+  return (/^[a-z]/.test(id) ? id : `x-${id}`).slice(0, 63).replace(/-+$/, '');
+};
+
+const labelValue = (value: string) => value.toLowerCase().replace(/[^a-z0-9_-]+/g, '_').slice(0, 63);
+
+// FNV-1a, to keep derived ids short and stable
+const shortHash = (text: string) => {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) hash = Math.imul(hash ^ text.charCodeAt(i), 0x01000193);
+  return (hash >>> 0).toString(36);
+};
+
+const truncate = (text: string | undefined, max: number) => (text && text.length > max ? `${text.slice(0, max - 1)}…` : text || '');
+
+// Aspect types the model uses; unknown ids get string fields from their values
+const usedAspectTypes = (model: SemanticModel, known: AspectType[]): AspectType[] => {
+  const assignments = [
+    ...(model.aspects || []),
+    ...model.entities.flatMap(e => [...(e.aspects || []), ...e.properties.flatMap(p => p.aspects || [])])
+  ];
+  const types = new Map<string, AspectType>();
+  assignments.forEach(assignment => {
+    const existing = types.get(assignment.aspectTypeId) || known.find(t => t.id === assignment.aspectTypeId);
+    if (existing && known.includes(existing)) {
+      types.set(existing.id, existing);
+      return;
+    }
+    const fields = new Map((existing?.fields || []).map(f => [f.name, f]));
+    Object.keys(assignment.values || {}).forEach(name => {
+      if (!fields.has(name)) fields.set(name, { name, type: 'string' });
+    });
+    types.set(assignment.aspectTypeId, {
+      id: assignment.aspectTypeId,
+      name: existing?.name || assignment.aspectTypeId,
+      description: existing?.description || `Aspect ${assignment.aspectTypeId} from the semantic model`,
+      fields: [...fields.values()]
+    });
+  });
+  return [...types.values()];
+};
+
+const coerce = (value: any, type: string) => {
+  if (value === undefined || value === null || value === '') return undefined;
+  if (type === 'number') {
+    const number = typeof value === 'number' ? value : Number(value);
+    return Number.isFinite(number) ? number : undefined;
+  }
+  if (type === 'boolean') return value === true || value === 'true';
+  return String(value);
+};
+
+const collectTerms = (model: SemanticModel): GlossaryTerm[] => {
+  const terms = new Map<string, GlossaryTerm>();
+  [model.glossaryTerms, ...model.entities.flatMap(e => [e.glossaryTerms, ...e.properties.map(p => p.glossaryTerms)])]
+    .forEach(list => (list || []).forEach(term => terms.set(term.id, term)));
+  return [...terms.values()];
+};
+
+export const buildCatalogRequests = (
+  model: SemanticModel,
+  aspectTypes: AspectType[],
+  options: DataplexCatalogOptions
+): CatalogRequest[] => {
+  const location = `projects/${options.project}/locations/${options.location}`;
+  const groupId = resourceId(options.entryGroup || model.name);
+  const group = `${location}/entryGroups/${groupId}`;
+  const requests: CatalogRequest[] = [];
+  const create = (kind: CatalogResourceKind, collection: string, idParam: string, id: string, body: Record<string, any>) => {
+    requests.push({ kind, method: 'POST', path: `/v1/${collection}`, query: { [idParam]: id }, body, name: `${collection}/${id}` });
+    return `${collection}/${id}`;
+  };
+
+  // Aspect types
+  const types = usedAspectTypes(model, aspectTypes);
+  const aspectTypeIds = new Map(types.map(type => [type.id, resourceId(type.id)]));
+  types.forEach(type => {
+    create('aspectType', `${location}/aspectTypes`, 'aspectTypeId', aspectTypeIds.get(type.id)!, {
+      displayName: type.name,
+      description: type.description,
+      metadataTemplate: {
+        name: aspectTypeIds.get(type.id)!.replace(/-/g, '_'),
+        type: 'record',
+        recordFields: type.fields.map((field, index) => ({
+          name: field.name,
+          type: FIELD_TYPES[field.type] || 'string',
+          index: index + 1,
+          ...(field.required ? { constraints: { required: true } } : {})
+        }))
+      }
+    });
+  });
+
+  // Entry types and the entry group
+  const entryTypes = {
+    model: create('entryType', `${location}/entryTypes`, 'entryTypeId', 'semantic-model', {
+      displayName: 'Semantic Model', description: 'A semantic model of business entities and relationships', system: SYSTEM, platform: PLATFORM
+    }),
+    entity: create('entryType', `${location}/entryTypes`, 'entryTypeId', 'semantic-entity', {
+      displayName: 'Semantic Entity', description: 'A business entity in a semantic model', system: SYSTEM, platform: PLATFORM
+    }),
+    property: create('entryType', `${location}/entryTypes`, 'entryTypeId', 'semantic-property', {
+      displayName: 'Semantic Property', description: 'A property of a semantic model entity', system: SYSTEM, platform: PLATFORM
+    })
+  };
+  create('entryGroup', `${location}/entryGroups`, 'entryGroupId', groupId, {
+    displayName: options.entryGroup || model.name,
+    description: truncate(model.description || `Entries for the ${model.name} semantic model`, 1024)
+  });
+
+  // Glossaries per domain, with the terms the model links to
+  const terms = collectTerms(model);
+  const glossaries = new Map<string, string>();
+  const termNames = new Map<string, string>();
+  const usedTermIds = new Set<string>();
+  terms.forEach(term => {
+    const domain = term.domain || DEFAULT_GLOSSARY;
+    if (!glossaries.has(domain)) {
+      glossaries.set(domain, create('glossary', `${location}/glossaries`, 'glossaryId', resourceId(domain), {
+        displayName: domain,
+        description: `${domain} terms used by semantic models`
+      }));
+    }
+    let termId = resourceId(term.name);
+    if (usedTermIds.has(`${domain}/${termId}`)) termId = `${termId.slice(0, 55)}-${shortHash(term.id)}`;
+    usedTermIds.add(`${domain}/${termId}`);
+    termNames.set(term.id, create('glossaryTerm', `${glossaries.get(domain)}/terms`, 'termId', termId, {
+      displayName: term.name,
+      description: truncate(term.description, 1024),
+      parent: glossaries.get(domain)
+    }));
+  });
+
+  // Entries with their aspect values
+  const aspectMap = (assignments?: AspectAssignment[]) => Object.fromEntries((assignments || []).map(assignment => {
+    const type = types.find(t => t.id === assignment.aspectTypeId)!;
+    const data = Object.fromEntries(type.fields
+      .map(field => [field.name, coerce(assignment.values?.[field.name], field.type)])
+      .filter(([, value]) => value !== undefined));
+    return [`${options.project}.${options.location}.${aspectTypeIds.get(type.id)}`, { data }];
+  }));
+  const links: { source: string; terms?: GlossaryTerm[] }[] = [];
+  const entry = (entryId: string, body: Record<string, any>, glossaryTerms?: GlossaryTerm[]) => {
+    const name = create('entry', `${group}/entries`, 'entryId', entryId, body);
+    links.push({ source: name, terms: glossaryTerms });
+    return name;
+  };
+
+  const modelId = resourceId(model.name);
+  const modelEntry = entry(modelId, {
+    entryType: entryTypes.model,
+    entrySource: {
+      displayName: truncate(model.name, 500),
+      description: truncate(model.description, 2000),
+      system: SYSTEM,
+      platform: PLATFORM,
+      ...(model.domain ? { labels: { domain: labelValue(model.domain) } } : {})
+    },
+    aspects: aspectMap(model.aspects)
+  }, model.glossaryTerms);
+
+  const usedEntityIds = new Set<string>();
+  model.entities.forEach((entity: Entity) => {
+    let entityId = `${modelId}.${resourceId(entity.name)}`;
+    if (usedEntityIds.has(entityId)) entityId = `${entityId}-${shortHash(entity.id)}`;
+    usedEntityIds.add(entityId);
+    const resource = entity.bindings?.find(b => b.type === 'BIGQUERY')?.resource;
+    const entityEntry = entry(entityId, {
+      entryType: entryTypes.entity,
+      parentEntry: modelEntry,
+      entrySource: {
+        displayName: truncate(entity.name, 500),
+        description: truncate(entity.description, 2000),
+        system: SYSTEM,
+        platform: PLATFORM,
+        ...(resource ? { resource } : {}),
+        labels: { entity_type: labelValue(entity.type || 'ENTITY') },
+        ancestors: [{ name: modelEntry, type: entryTypes.model }]
+      },
+      aspects: aspectMap(entity.aspects)
+    }, entity.glossaryTerms);
+
+    const usedPropertyIds = new Set<string>();
+    entity.properties.forEach((property: Property) => {
+      let propertyId = `${entityId}.${resourceId(property.name)}`;
+      if (usedPropertyIds.has(propertyId)) propertyId = `${propertyId}-${shortHash(property.id)}`;
+      usedPropertyIds.add(propertyId);
+      const binding = property.bindingTable && property.bindingColumn
+        ? [property.bindingProject, property.bindingDataset, property.bindingTable, property.bindingColumn].filter(Boolean).join('.')
+        : property.binding;
+      entry(propertyId, {
+        entryType: entryTypes.property,
+        parentEntry: entityEntry,
+        entrySource: {
+          displayName: truncate(property.name, 500),
+          description: truncate(property.description, 2000),
+          system: SYSTEM,
+          platform: PLATFORM,
+          ...(binding ? { resource: truncate(binding, 1024) } : {}),
+          labels: {
+            data_type: labelValue(property.dataType || 'STRING'),
+            ...(property.propertyType ? { property_type: labelValue(property.propertyType) } : {}),
+            ...(property.isUniqueKey ? { unique_key: 'true' } : {})
+          },
+          ancestors: [{ name: modelEntry, type: entryTypes.model }, { name: entityEntry, type: entryTypes.entity }]
+        },
+        aspects: aspectMap(property.aspects)
+      }, property.glossaryTerms);
+    });
+  });
+
+  // Glossary term links; terms are addressed through their system entries
+  const termEntry = (term: string) => `${location}/entryGroups/@dataplex/entries/${term}`;
+  links.forEach(({ source, terms: linked }) => {
+    (linked || []).forEach(term => {
+      create('entryLink', `${group}/entryLinks`, 'entryLinkId', `definition-${shortHash(`${source}|${term.id}`)}`, {
+        entryLinkType: DEFINITION_LINK_TYPE,
+        entryReferences: [
+          { name: source, type: 'SOURCE' },
+          { name: termEntry(termNames.get(term.id)!), type: 'TARGET' }
+        ]
+      });
+    });
+  });
+
+  return requests;
+};
+
+export interface RestCatalogClientOptions {
+  baseUrl: string;
+  accessToken?: string;
+  // Polling interval for long-running operations
+  pollIntervalMs?: number;
+}
+
+// REST client for the Dataplex API and the local stub. Creating a resource
+// that already exists is reported rather than failing, so deployments can be
+// re-run; long-running operations are polled until they finish.
+export const createRestCatalogClient = ({ baseUrl, accessToken, pollIntervalMs = 1000 }: RestCatalogClientOptions): DataplexCatalogClient => {
+  const headers = {
+    'Content-Type': 'application/json',
+    ...(accessToken ? { Authorization: `Bearer ${accessToken}` } : {})
+  };
+  const call = async (request: CatalogRequest, url: string, init: RequestInit) => {
+    const response = await fetch(url, { ...init, headers });
+    const body = await response.json().catch(() => undefined);
+    if (response.status === 409) return { status: 409, body };
+    if (!response.ok) throw new DataplexApiError(request, response.status, body?.error?.message || response.statusText);
+    return { status: response.status, body };
+  };
+
+  return {
+    async send(request) {
+      const url = `${baseUrl.replace(/\/+$/, '')}${request.path}?${new URLSearchParams(request.query)}`;
+      const result = await call(request, url, { method: request.method, body: JSON.stringify(request.body) });
+      if (result.status === 409) return { status: 'exists' };
+
+      let operation = result.body;
+      while (operation?.name?.includes('/operations/') && !operation.done) {
+        await new Promise(resolve => setTimeout(resolve, pollIntervalMs));
+        operation = (await call(request, `${baseUrl.replace(/\/+$/, '')}/v1/${operation.name}`, { method: 'GET' })).body;
+      }
+      if (operation?.error) throw new DataplexApiError(request, operation.error.code || 500, operation.error.message || 'Operation failed');
+      return { status: 'created', body: operation?.response || operation };
+    }
+  };
+};
+
+export interface CatalogDeployResult {
+  created: number;
+  existing: number;
+}
+
+// Requests depend on earlier ones, so they are sent one at a time
+export const deployCatalog = async (
+  requests: CatalogRequest[],
+  client: DataplexCatalogClient,
+  onProgress?: (done: number, total: number) => void
+): Promise<CatalogDeployResult> => {
+  const result: CatalogDeployResult = { created: 0, existing: 0 };
+  for (const request of requests) {
+    const response = await client.send(request);
+    if (response.status === 'exists') result.existing++;
+    else result.created++;
+    onProgress?.(result.created + result.existing, requests.length);
+  }
+  return result;
+};
@@ -0,0 +1,189 @@
+import type { Plugin, Connect } from 'vite';
+import type { IncomingMessage, ServerResponse } from 'http';
+
+// Local stand-in for the Dataplex Catalog API, mounted on the Vite dev and
+// preview servers under /dataplex-stub. It accepts the create calls the
+// Dataplex deploy target makes, checks that each one refers to resources
+// created before it (parents, entry types, aspect types, linked entries)
+// and records every call, so a deployment can be verified offline:
+//   GET    /dataplex-stub/calls   recorded calls, in order
+//   DELETE /dataplex-stub/calls   forget calls and created resources
+
+const PREFIX = '/dataplex-stub';
+
+// Collection -> id query parameter and whether creation is a long-running operation
+const COLLECTIONS: Record<string, { idParam: string; longRunning: boolean }> = {
+  aspectTypes: { idParam: 'aspectTypeId', longRunning: true },
+  entryTypes: { idParam: 'entryTypeId', longRunning: true },
+  entryGroups: { idParam: 'entryGroupId', longRunning: true },
+  glossaries: { idParam: 'glossaryId', longRunning: true },
+  terms: { idParam: 'termId', longRunning: false },
+  entries: { idParam: 'entryId', longRunning: false },
+  entryLinks: { idParam: 'entryLinkId', longRunning: false }
+};
+
+const RESOURCE_ID = /^[a-z][a-z0-9-]{0,62}$/;
+
+export interface RecordedCall {
+  method: string;
+  path: string;
+  query: Record<string, string>;
+  body: any;
+  status: number;
+  error?: string;
+  receivedAt: string;
+}
+
+class StubError extends Error {
+  status: number;
+
+  constructor(status: number, message: string) {
+    super(message);
+    this.name = 'StubError';
+    this.status = status;
+  }
+}
+
+const readBody = (req: IncomingMessage): Promise<any> =>
+  new Promise((resolve, reject) => {
+    let text = '';
+    req.setEncoding('utf8');
+    req.on('data', chunk => { text += chunk; });
+    req.on('end', () => {
+      try {
+        resolve(text ? JSON.parse(text) : undefined);
+      } catch {
+        reject(new StubError(400, 'Request body is not valid JSON'));
+      }
+    });
+    req.on('error', reject);
+  });
+
+const send = (res: ServerResponse, status: number, body: unknown) => {
+  res.statusCode = status;
+  res.setHeader('Content-Type', 'application/json');
+  res.end(JSON.stringify(body));
+};
+
+export const createCatalogStub = () => {
+  const resources = new Map<string, any>();
+  const calls: RecordedCall[] = [];
+  let operations = 0;
+
+  const requireResource = (name: string | undefined, what: string) => {
+    if (!name) throw new StubError(400, `${what} is required`);
+    if (!resources.has(name)) throw new StubError(400, `${what} ${name} does not exist`);
+  };
+
+  const validate = (collection: string, parent: string, id: string, body: any) => {
+    const location = parent.match(/^projects\/[^/]+\/locations\/[^/]+/)?.[0];
+    if (!location) throw new StubError(400, `Malformed parent ${parent}`);
+    if (collection === 'entries') {
+      if (!/^[^\s]{1,4000}$/.test(id)) throw new StubError(400, `Invalid entry id ${id}`);
+    } else if (!RESOURCE_ID.test(id)) {
+      throw new StubError(400, `Invalid ${COLLECTIONS[collection].idParam} ${id}`);
+    }
+    if (parent !== location) requireResource(parent, 'Parent');
+
+    if (collection === 'aspectTypes') {
+      const template = body?.metadataTemplate;
+      if (template?.type !== 'record' || !Array.isArray(template.recordFields)) {
+        throw new StubError(400, 'metadataTemplate must be a record with recordFields');
+      }
+      template.recordFields.forEach((field: any) => {
+        if (!field.name || !field.type || !field.index) throw new StubError(400, 'recordFields need name, type and index');
+      });
+    }
+    if (collection === 'entries') {
+      requireResource(body?.entryType, 'entryType');
+      if (body.parentEntry) requireResource(body.parentEntry, 'parentEntry');
+      Object.keys(body.aspects || {}).forEach(key => {
+        const [project, loc, aspectType] = key.split('@')[0].split('.');
+        requireResource(`projects/${project}/locations/${loc}/aspectTypes/${aspectType}`, `Aspect type for ${key}`);
+      });
+    }
+    if (collection === 'terms') requireResource(body?.parent, 'parent');
+    if (collection === 'entryLinks') {
+      if (!body?.entryLinkType) throw new StubError(400, 'entryLinkType is required');
+      const references = body.entryReferences || [];
+      if (references.length !== 2) throw new StubError(400, 'entryReferences needs a SOURCE and a TARGET');
+      references.forEach((reference: any) => {
+        // Glossary terms are addressed through their @dataplex system entries
+        const term = reference.name?.match(/\/entryGroups\/@dataplex\/entries\/(.+)$/)?.[1];
+        requireResource(term || reference.name, `${reference.type} entry`);
+      });
+    }
+  };
+
+  const handle = async (req: IncomingMessage, res: ServerResponse) => {
+    const url = new URL(req.url || '/', 'http://localhost');
+    const path = url.pathname.slice(PREFIX.length);
+
+    if (path === '/calls') {
+      if (req.method === 'DELETE') {
+        calls.length = 0;
+        resources.clear();
+        return send(res, 200, {});
+      }
+      return send(res, 200, { calls });
+    }
+
+    const query = Object.fromEntries(url.searchParams);
+    const body = req.method === 'POST' ? await readBody(req).catch(error => error) : undefined;
+    const call: RecordedCall = { method: req.method || 'GET', path, query, body, status: 200, receivedAt: new Date().toISOString() };
+    calls.push(call);
+    const fail = (error: StubError) => {
+      call.status = error.status;
+      call.error = error.message;
+      send(res, error.status, { error: { code: error.status, message: error.message } });
+    };
+
+    const match = path.match(/^\/v1\/(.+)\/([A-Za-z]+)$/);
+    if (body instanceof StubError) return fail(body);
+    if (req.method === 'GET' && path.startsWith('/v1/')) {
+      const name = path.slice(4);
+      return resources.has(name) ? send(res, 200, resources.get(name)) : fail(new StubError(404, `${name} not found`));
+    }
+    if (req.method !== 'POST' || !match || !COLLECTIONS[match[2]]) {
+      return fail(new StubError(404, `${req.method} ${path} is not supported by the Dataplex stub`));
+    }
+
+    const [, parent, collection] = match;
+    const id = query[COLLECTIONS[collection].idParam];
+    const name = `${parent}/${collection}/${id}`;
+    try {
+      if (!id) throw new StubError(400, `${COLLECTIONS[collection].idParam} is required`);
+      if (resources.has(name)) throw new StubError(409, `${name} already exists`);
+      validate(collection, parent, id, body);
+    } catch (error) {
+      return fail(error instanceof StubError ? error : new StubError(500, String(error)));
+    }
+
+    const resource = { ...body, name, createTime: call.receivedAt };
+    resources.set(name, resource);
+    if (!COLLECTIONS[collection].longRunning) return send(res, 200, resource);
+    const operation = { name: `${parent.match(/^projects\/[^/]+\/locations\/[^/]+/)![0]}/operations/operation-${++operations}`, done: true, response: resource };
+    resources.set(operation.name, operation);
+    return send(res, 200, operation);
+  };
+
+  const middleware: Connect.NextHandleFunction = (req, res, next) => {
+    if (!req.url?.startsWith(`${PREFIX}/`)) return next();
+    handle(req, res).catch(error => send(res, 500, { error: { code: 500, message: String(error) } }));
+  };
+
+  return { middleware, calls, resources };
+};
+
+export const dataplexStubServer = (): Plugin => {
+  const stub = createCatalogStub();
+  return {
+    name: 'dataplex-stub-server',
+    configureServer(server) {
+      server.middlewares.use(stub.middleware);
+    },
+    configurePreviewServer(server) {
+      server.middlewares.use(stub.middleware);
+    }
+  };
+};
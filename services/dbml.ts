@@ -0,0 +1,526 @@
+import { SemanticModel, Entity, Property, Relationship, EntityType, AspectAssignment } from '../types';
+import { humanizeIdentifier, mapSqlTypeToDataType } from './importUtils';
+
+// DBML (dbdiagram.io) schemas. Tables become entities with one bound property
+// per column, notes become descriptions, Ref lines and inline `ref:` settings
+// become relationships and enum-typed columns carry their values in an
+// Allowed Values aspect. The relationship operator maps onto the cardinality:
+//   a.x > b.y   MANY_TO_ONE      a.x < b.y   ONE_TO_MANY
+//   a.x - b.y   ONE_TO_ONE       a.x <> b.y  MANY_TO_MANY
+// and export writes the same operator back, with the source on the left.
+
+export interface DbmlEndpoint {
+  table: string;
+  columns: string[];
+}
+
+export type DbmlRelation = '<' | '>' | '-' | '<>';
+
+export interface DbmlRef {
+  name?: string;
+  from: DbmlEndpoint;
+  relation: DbmlRelation;
+  to: DbmlEndpoint;
+}
+
+export interface DbmlColumn {
+  name: string;
+  type: string;
+  primaryKey: boolean;
+  unique: boolean;
+  note?: string;
+}
+
+export interface DbmlTable {
+  name: string;
+  schema?: string;
+  note?: string;
+  columns: DbmlColumn[];
+}
+
+export interface DbmlEnum {
+  name: string;
+  values: string[];
+}
+
+export interface DbmlDocument {
+  projectName?: string;
+  projectNote?: string;
+  tables: DbmlTable[];
+  enums: DbmlEnum[];
+  refs: DbmlRef[];
+}
+
+export class DbmlParseError extends Error {
+  file: string;
+  line: number;
+
+  constructor(file: string, line: number, message: string) {
+    super(`${file}:${line}: ${message}`);
+    this.name = 'DbmlParseError';
+    this.file = file;
+    this.line = line;
+  }
+}
+
+export const ALLOWED_VALUES_ASPECT = 'aspect_allowed_values';
+
+// --- Parser ---
+
+const NAME = '(?:"[^"]*"|[\\w]+)';
+const QUALIFIED = `${NAME}(?:\\.${NAME})*`;
+const ENDPOINT = `(${QUALIFIED})\\.(\\([^)]*\\)|${NAME})`;
+const REF_BODY = new RegExp(`^${ENDPOINT}\\s*(<>|<|>|-)\\s*${ENDPOINT}`);
+
+const unquoteName = (name: string) => name.trim().replace(/^"|"$/g, '');
+const splitQualified = (name: string) => (name.match(new RegExp(NAME, 'g')) || []).map(unquoteName);
+
+// Multi-line ''' notes drop the indentation they share
+const dedent = (text: string) => {
+  const lines = text.replace(/^\n/, '').replace(/\n\s*$/, '').split('\n');
+  const indent = Math.min(...lines.filter(l => l.trim()).map(l => l.match(/^\s*/)![0].length));
+  return lines.map(l => l.slice(Number.isFinite(indent) ? indent : 0)).join('\n');
+};
+
+export const parseDbml = (content: string, fileName = 'schema.dbml'): DbmlDocument => {
+  const doc: DbmlDocument = { tables: [], enums: [], refs: [] };
+  let pos = 0;
+  const lineAt = (at: number) => content.slice(0, at).split('\n').length;
+  const fail = (message: string, at = pos): never => {
+    throw new DbmlParseError(fileName, lineAt(at), message);
+  };
+
+  const skipSpace = (newlines = true) => {
+    while (pos < content.length) {
+      if (content.startsWith('//', pos)) {
+        while (pos < content.length && content[pos] !== '\n') pos++;
+      } else if (content.startsWith('/*', pos)) {
+        const end = content.indexOf('*/', pos + 2);
+        pos = end === -1 ? content.length : end + 2;
+      } else if (content[pos] === '\n' ? newlines : /\s/.test(content[pos])) {
+        pos++;
+      } else {
+        break;
+      }
+    }
+  };
+
+  const readString = (): string => {
+    const start = pos;
+    const quote = content.startsWith("'''", pos) ? "'''" : content[pos];
+    pos += quote.length;
+    let value = '';
+    while (!content.startsWith(quote, pos)) {
+      if (pos >= content.length) fail('Unterminated string', start);
+      if (content[pos] === '\\' && pos + 1 < content.length) {
+        const escaped = content[pos + 1];
+        value += escaped === 'n' ? '\n' : escaped === 't' ? '\t' : escaped;
+        pos += 2;
+      } else {
+        value += content[pos++];
+      }
+    }
+    pos += quote.length;
+    return quote === "'''" ? dedent(value) : value;
+  };
+
+  // Text up to the bracket that closes the one at `pos`, skipping strings
+  const readEnclosed = (open: string, close: string): string => {
+    const start = pos;
+    let depth = 0;
+    while (pos < content.length) {
+      const ch = content[pos];
+      if (ch === "'" || ch === '"' || ch === '`') {
+        readString();
+        continue;
+      }
+      if (content.startsWith('//', pos)) {
+        while (pos < content.length && content[pos] !== '\n') pos++;
+        continue;
+      }
+      if (ch === open) depth++;
+      if (ch === close && --depth === 0) {
+        pos++;
+        return content.slice(start + 1, pos - 1);
+      }
+      pos++;
+    }
+    return fail(`Missing "${close}"`, start);
+  };
+
+  const match = (pattern: RegExp): RegExpMatchArray | null => {
+    const result = content.slice(pos).match(pattern);
+    if (result) pos += result[0].length;
+    return result;
+  };
+  const expect = (pattern: RegExp, what: string): RegExpMatchArray => match(pattern) || fail(`Expected ${what}`);
+
+  // `key: value` settings inside [...], split on top-level commas
+  const parseSettings = (text: string): { key: string; value?: string }[] => {
+    const settings: { key: string; value?: string }[] = [];
+    let current = '';
+    let quote = '';
+    for (let i = 0; i <= text.length; i++) {
+      const ch = text[i];
+      if (quote) {
+        current += ch;
+        if (ch === '\\') current += text[++i];
+        else if (ch === quote) quote = '';
+        continue;
+      }
+      if (ch === undefined || ch === ',') {
+        const colon = current.indexOf(':');
+        const key = (colon === -1 ? current : current.slice(0, colon)).trim().toLowerCase().replace(/\s+/g, ' ');
+        if (key) settings.push({ key, value: colon === -1 ? undefined : current.slice(colon + 1).trim() });
+        current = '';
+        continue;
+      }
+      if (ch === "'" || ch === '"' || ch === '`') quote = ch;
+      current += ch;
+    }
+    return settings;
+  };
+  const settingString = (value?: string) => {
+    if (!value) return undefined;
+    const quoted = value.match(/^'''([\s\S]*)'''$|^'((?:[^'\\]|\\.)*)'$|^"((?:[^"\\]|\\.)*)"$/);
+    if (!quoted) return value;
+    return quoted[1] !== undefined ? dedent(quoted[1]) : (quoted[2] ?? quoted[3]).replace(/\\(.)/g, (_, c) => (c === 'n' ? '\n' : c));
+  };
+  const readSettings = () => {
+    skipSpace(false);
+    return content[pos] === '[' ? parseSettings(readEnclosed('[', ']')) : [];
+  };
+
+  const parseRefBody = (text: string, name?: string): DbmlRef => {
+    const body = text.trim().match(REF_BODY) || fail(`Malformed relationship "${text.trim()}"`);
+    const endpoint = (table: string, columns: string): DbmlEndpoint => {
+      const parts = splitQualified(table);
+      return {
+        table: parts[parts.length - 1],
+        columns: columns.startsWith('(') ? columns.slice(1, -1).split(',').map(unquoteName).filter(Boolean) : [unquoteName(columns)]
+      };
+    };
+    return { name, from: endpoint(body[1], body[2]), relation: body[3] as DbmlRelation, to: endpoint(body[4], body[5]) };
+  };
+
+  const readNote = (): string => {
+    skipSpace();
+    if (content[pos] === ':') {
+      pos++;
+      skipSpace(false);
+      return readString();
+    }
+    if (content[pos] === '{') {
+      const body = readEnclosed('{', '}').trim();
+      return settingString(body) || body;
+    }
+    return fail('Expected ":" or "{" after Note');
+  };
+
+  const parseTable = () => {
+    const header = expect(new RegExp(`^(${QUALIFIED})(?:\\s+as\\s+${NAME})?`, 'i'), 'a table name');
+    const parts = splitQualified(header[1]);
+    const table: DbmlTable = {
+      name: parts[parts.length - 1],
+      schema: parts.length > 1 ? parts[parts.length - 2] : undefined,
+      columns: []
+    };
+    const headerNote = readSettings().find(s => s.key === 'note');
+    if (headerNote) table.note = settingString(headerNote.value);
+    skipSpace();
+    if (content[pos] !== '{') fail(`Expected "{" after Table ${table.name}`);
+    pos++;
+
+    for (;;) {
+      skipSpace();
+      if (pos >= content.length) fail(`Missing "}" for Table ${table.name}`);
+      if (content[pos] === '}') {
+        pos++;
+        break;
+      }
+      if (match(/^note\b/i)) {
+        table.note = readNote();
+        continue;
+      }
+      if (match(/^indexes\b/i)) {
+        skipSpace();
+        readEnclosed('{', '}').split('\n').forEach(line => {
+          const index = line.replace(/\/\/.*$/, '').trim().match(/^(\([^)]*\)|"[^"]*"|\w+)\s*(?:\[(.*)\])?/);
+          if (!index) return;
+          const columns = index[1].startsWith('(') ? index[1].slice(1, -1).split(',').map(unquoteName) : [unquoteName(index[1])];
+          const settings = parseSettings(index[2] || '').map(s => s.key);
+          table.columns.forEach(column => {
+            if (!columns.includes(column.name)) return;
+            if (settings.includes('pk')) column.primaryKey = true;
+            // Only a single-column unique index makes that column a key on its own
+            if (settings.includes('unique') && columns.length === 1) column.unique = true;
+          });
+        });
+        continue;
+      }
+
+      const definition = expect(new RegExp(`^(${NAME})[ \\t]+("[^"]*"|[\\w.]+(?:\\s*\\([^)]*\\))?(?:\\[\\])*)`), 'a column definition');
+      const column: DbmlColumn = {
+        name: unquoteName(definition[1]),
+        type: unquoteName(definition[2]),
+        primaryKey: false,
+        unique: false
+      };
+      readSettings().forEach(({ key, value }) => {
+        if (key === 'pk' || key === 'primary key') column.primaryKey = true;
+        if (key === 'unique') column.unique = true;
+        if (key === 'note') column.note = settingString(value);
+        if (key === 'ref' && value) {
+          const inline = value.match(/^(<>|<|>|-)\s*(.+)$/) || fail(`Malformed ref on ${table.name}.${column.name}`);
+          doc.refs.push(parseRefBody(`"${table.name}".${definition[1]} ${inline[1]} ${inline[2]}`));
+        }
+      });
+      table.columns.push(column);
+    }
+    doc.tables.push(table);
+  };
+
+  const parseEnum = () => {
+    const header = expect(new RegExp(`^(${QUALIFIED})`), 'an enum name');
+    const parts = splitQualified(header[1]);
+    skipSpace();
+    if (content[pos] !== '{') fail('Expected "{" after Enum name');
+    const values = readEnclosed('{', '}')
+      .split('\n')
+      .map(line => line.replace(/\/\/.*$/, '').trim().match(/^("[^"]*"|[^\s\[]+)/))
+      .filter((value): value is RegExpMatchArray => !!value)
+      .map(value => unquoteName(value[1]));
+    doc.enums.push({ name: parts[parts.length - 1], values });
+  };
+
+  const parseRef = () => {
+    const name = match(new RegExp(`^[ \\t]*(${NAME})?\\s*(?=[:{])`));
+    const refName = name && name[1] ? unquoteName(name[1]) : undefined;
+    if (content[pos] === ':') {
+      pos++;
+      skipSpace(false);
+      const start = pos;
+      while (pos < content.length && content[pos] !== '\n') pos++;
+      doc.refs.push(parseRefBody(content.slice(start, pos).replace(/\/\/.*$/, ''), refName));
+    } else if (content[pos] === '{') {
+      readEnclosed('{', '}').split('\n').map(line => line.replace(/\/\/.*$/, '').trim()).filter(Boolean)
+        .forEach(line => doc.refs.push(parseRefBody(line, refName)));
+    } else {
+      fail('Expected ":" or "{" after Ref');
+    }
+  };
+
+  for (;;) {
+    skipSpace();
+    if (pos >= content.length) break;
+    const keyword = expect(/^(\w+)[ \t]*/, 'Table, Enum, Ref or Project')[1].toLowerCase();
+    if (keyword === 'table') {
+      parseTable();
+    } else if (keyword === 'enum') {
+      parseEnum();
+    } else if (keyword === 'ref') {
+      parseRef();
+    } else if (keyword === 'project') {
+      const name = match(new RegExp(`^(${NAME})`));
+      if (name) doc.projectName = unquoteName(name[1]);
+      skipSpace();
+      if (content[pos] !== '{') fail('Expected "{" after Project');
+      const body = readEnclosed('{', '}');
+      const note = body.match(/\bnote\s*:\s*('''[\s\S]*?'''|'(?:[^'\\]|\\.)*'|"(?:[^"\\]|\\.)*")/i);
+      if (note) doc.projectNote = settingString(note[1]);
+    } else if (keyword === 'tablegroup' || keyword === 'tablepartial' || keyword === 'note' || keyword === 'records') {
+      // Diagram-only constructs; skip the header and the block
+      while (pos < content.length && content[pos] !== '{') pos++;
+      readEnclosed('{', '}');
+    } else {
+      fail(`Unexpected "${keyword}"`);
+    }
+  }
+  return doc;
+};
+
+// --- Mapping to the semantic model ---
+
+const RELATION_TYPES: Record<DbmlRelation, Relationship['type']> = {
+  '>': 'MANY_TO_ONE',
+  '<': 'ONE_TO_MANY',
+  '-': 'ONE_TO_ONE',
+  '<>': 'MANY_TO_MANY'
+};
+
+const entityIdFor = (table: string) => `entity_${table}`;
+const propertyIdFor = (table: string, column: string) => `prop_${table}_${column}`;
+
+export const dbmlToModel = (content: string, fileName = 'schema.dbml'): SemanticModel => {
+  const doc = parseDbml(content, fileName);
+  if (doc.tables.length === 0) {
+    throw new Error('No Table definitions found.');
+  }
+  const enums = new Map(doc.enums.map(e => [e.name, e]));
+  const findTable = (name: string) => doc.tables.find(t => t.name === name);
+
+  const relationships: Relationship[] = [];
+  doc.refs.forEach(ref => {
+    const source = findTable(ref.from.table);
+    const target = findTable(ref.to.table);
+    if (!source || !target) return;
+    const id = `rel_${source.name}_${ref.from.columns.join('_')}_${target.name}`;
+    if (relationships.some(r => r.id === id)) return;
+    const relationship: Relationship = {
+      id,
+      sourceEntityId: entityIdFor(source.name),
+      targetEntityId: entityIdFor(target.name),
+      sourcePropertyId: source.columns.some(c => c.name === ref.from.columns[0]) ? propertyIdFor(source.name, ref.from.columns[0]) : undefined,
+      targetPropertyId: target.columns.some(c => c.name === ref.to.columns[0]) ? propertyIdFor(target.name, ref.to.columns[0]) : undefined,
+      type: RELATION_TYPES[ref.relation]
+    };
+    if (ref.name) relationship.label = ref.name;
+    relationships.push(relationship);
+  });
+
+  // The "many" end of a reference points at the "one" end
+  const referencing = new Set<string>();
+  const referenced = new Set<string>();
+  relationships.forEach(r => {
+    if (r.type === 'MANY_TO_ONE') { referencing.add(r.sourceEntityId); referenced.add(r.targetEntityId); }
+    if (r.type === 'ONE_TO_MANY') { referencing.add(r.targetEntityId); referenced.add(r.sourceEntityId); }
+  });
+
+  const entities: Entity[] = doc.tables.map(table => {
+    const id = entityIdFor(table.name);
+    return {
+      id,
+      name: humanizeIdentifier(table.name),
+      type: referencing.has(id) && !referenced.has(id)
+        ? EntityType.FACT
+        : referenced.has(id) && !referencing.has(id) ? EntityType.DIMENSION : EntityType.ENTITY,
+      description: table.note || '',
+      properties: table.columns.map(column => {
+        const enumType = enums.get(column.type);
+        const property: Property = {
+          id: propertyIdFor(table.name, column.name),
+          name: humanizeIdentifier(column.name),
+          dataType: enumType ? 'STRING' : mapSqlTypeToDataType(column.type),
+          description: column.note || '',
+          binding: `${table.name}.${column.name}`,
+          bindingType: 'column',
+          bindingDataset: table.schema,
+          bindingTable: table.name,
+          bindingColumn: column.name
+        };
+        if (column.primaryKey || column.unique) property.isUniqueKey = true;
+        if (enumType) {
+          property.aspects = [{
+            aspectTypeId: ALLOWED_VALUES_ASPECT,
+            values: { enum_name: enumType.name, values: enumType.values.join(', ') }
+          }];
+        }
+        return property;
+      })
+    };
+  });
+
+  return {
+    id: `dbml_${Date.now()}`,
+    name: doc.projectName || humanizeIdentifier(fileName.replace(/\.dbml$/i, '')),
+    description: doc.projectNote || `Imported from ${fileName} on ${new Date().toLocaleDateString()}.`,
+    entities,
+    relationships,
+    createdAt: new Date(),
+    updatedAt: new Date()
+  };
+};
+
+// --- Export ---
+
+const DBML_TYPES: Record<string, string> = {
+  STRING: 'varchar',
+  INTEGER: 'integer',
+  FLOAT: 'float',
+  BOOLEAN: 'boolean',
+  DATE: 'date',
+  TIMESTAMP: 'timestamp',
+  GEOGRAPHY: 'geography'
+};
+
+const snakeCase = (name: string) =>
+  name.trim().replace(/([a-z0-9])([A-Z])/g, '$1_$2').replace(/[^\w]+/g, '_').replace(/^_|_$/g, '').toLowerCase() || 'unnamed';
+
+const dbmlName = (name: string) => (/^\w+$/.test(name) ? name : `"${name.replace(/"/g, '')}"`);
+
+const dbmlString = (text: string) =>
+  text.includes('\n')
+    ? `'''\n${text.replace(/\\/g, '\\\\').replace(/'''/g, "\\'''")}\n'''`
+    : `'${text.replace(/\\/g, '\\\\').replace(/'/g, "\\'")}'`;
+
+const allowedValues = (aspects?: AspectAssignment[]) => aspects?.find(a => a.aspectTypeId === ALLOWED_VALUES_ASPECT)?.values;
+
+export const modelToDbml = (model: SemanticModel): string => {
+  const tables = new Map(model.entities.map(entity => {
+    // Keep the source table name when every bound column agrees on it
+    const boundTables = [...new Set(entity.properties.filter(p => p.bindingType !== 'expression' && p.bindingTable).map(p => p.bindingTable!))];
+    const name = boundTables.length === 1 ? boundTables[0] : snakeCase(entity.name);
+    // Measures and other computed properties have no column
+    const columns = entity.properties
+      .filter(p => !p.isComputed || (p.bindingColumn && p.bindingTable === name))
+      .map(property => ({
+        property,
+        name: property.bindingTable === name && property.bindingColumn ? property.bindingColumn : snakeCase(property.name)
+      }));
+    const schemas = [...new Set(columns.map(c => c.property.bindingTable === name ? c.property.bindingDataset : undefined))];
+    const qualifiedName = schemas.length === 1 && schemas[0] ? `${dbmlName(schemas[0])}.${dbmlName(name)}` : dbmlName(name);
+    return [entity.id, { entity, name, qualifiedName, columns }];
+  }));
+
+  const blocks: string[] = [];
+  blocks.push(`Project ${dbmlName(model.name)} {\n${model.description ? `  Note: ${dbmlString(model.description)}\n` : ''}}`);
+
+  const enums = new Map<string, string[]>();
+  tables.forEach(({ entity, name, qualifiedName, columns }) => {
+    // Several key columns form one composite primary key in an indexes block
+    const keys = columns.filter(c => c.property.isUniqueKey);
+    const lines = columns.map(({ property, name: column }) => {
+      const settings: string[] = [];
+      if (property.isUniqueKey && keys.length === 1) settings.push('pk');
+      if (property.description) settings.push(`note: ${dbmlString(property.description)}`);
+
+      let type = DBML_TYPES[property.dataType?.toUpperCase()] || property.dataType?.toLowerCase() || 'varchar';
+      const values = allowedValues(property.aspects);
+      if (values?.values) {
+        const enumName = values.enum_name || `${name}_${column}`;
+        type = dbmlName(enumName);
+        if (!enums.has(enumName)) enums.set(enumName, String(values.values).split(',').map(v => v.trim()).filter(Boolean));
+      }
+      return `  ${dbmlName(column)} ${type}${settings.length ? ` [${settings.join(', ')}]` : ''}`;
+    });
+    if (keys.length > 1) lines.push(`\n  indexes {\n    (${keys.map(k => dbmlName(k.name)).join(', ')}) [pk]\n  }`);
+    if (entity.description) lines.push(`\n  Note: ${dbmlString(entity.description).replace(/\n/g, '\n  ')}`);
+    blocks.push(`Table ${qualifiedName} {\n${lines.join('\n')}\n}`);
+  });
+
+  enums.forEach((values, name) => {
+    blocks.push(`Enum ${dbmlName(name)} {\n${values.map(v => `  ${dbmlName(v)}`).join('\n')}\n}`);
+  });
+
+  const operators: Record<Relationship['type'], DbmlRelation> = {
+    MANY_TO_ONE: '>',
+    ONE_TO_MANY: '<',
+    ONE_TO_ONE: '-',
+    MANY_TO_MANY: '<>'
+  };
+  const refs = model.relationships.flatMap(rel => {
+    const source = tables.get(rel.sourceEntityId);
+    const target = tables.get(rel.targetEntityId);
+    if (!source || !target) return [];
+    const sourceColumn = source.columns.find(c => c.property.id === rel.sourcePropertyId)?.name;
+    const targetColumn = target.columns.find(c => c.property.id === rel.targetPropertyId)?.name;
+    // Guessing the columns would pair the two primary keys, which re-imports
+    // as a wrong join
+    if (!sourceColumn || !targetColumn) return [`// Skipped ref ${source.qualifiedName} ${operators[rel.type]} ${target.qualifiedName}: relationship ${rel.id} has no linked properties`];
+    const name = rel.label && /^\w+$/.test(rel.label) ? ` ${rel.label}` : '';
+    return [`Ref${name}: ${source.qualifiedName}.${dbmlName(sourceColumn)} ${operators[rel.type]} ${target.qualifiedName}.${dbmlName(targetColumn)}`];
+  });
+  if (refs.length > 0) blocks.push(refs.join('\n'));
+
+  return `${blocks.join('\n\n')}\n`;
+};
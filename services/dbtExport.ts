@@ -0,0 +1,448 @@
+import { stringify } from 'yaml';
+import { SemanticModel, Entity, Property, Relationship, PropertyType, AggregationType } from '../types';
+import { DbtFile } from './dbtImport';
+import { ALLOWED_VALUES_ASPECT } from './dbml';
+import { defaultAggregation, parseAggregateCall, snapshotPropertyOf } from './measures';
+import { buildDependencyGraph, inlineRowReferences, propertyKey, referenceLabel, DependencyGraph, DependencyNode } from './derivedMetrics';
+import { quoteBigQueryIdentifier } from './semanticQuery';
+
+// dbt project generator, the counterpart of dbtImport. Every entity with
+// BigQuery-bound columns gets a staging model that selects and renames those
+// columns from a declared source and inlines row-level expressions. The
+// staging schema.yml carries descriptions plus unique / not_null tests for
+// keys, relationships tests for the model's relationships and
+// accepted_values tests from the Allowed Values aspect. Entities with keys or
+// measures also get a MetricFlow semantic model, and each measure a simple
+// metric, so the project works with the dbt Semantic Layer as generated.
+// Measures keep their aggregation, and semi-additive ones declare their
+// snapshot time as the non_additive_dimension. ${...} references are inlined
+// in staged expressions, and derived metrics become derived MetricFlow
+// metrics over the metrics of the measures they reference.
+
+export interface DbtExportOptions {
+  projectName?: string;
+  // Used for sources whose properties carry no project / dataset
+  project?: string;
+  dataset?: string;
+}
+
+const TIME_TYPES = new Set(['DATE', 'TIMESTAMP', 'DATETIME']);
+
+// MetricFlow has no approximate distinct count
+const AGGREGATIONS: Record<AggregationType, string> = {
+  [AggregationType.SUM]: 'sum',
+  [AggregationType.AVG]: 'average',
+  [AggregationType.MIN]: 'min',
+  [AggregationType.MAX]: 'max',
+  [AggregationType.COUNT]: 'count',
+  [AggregationType.COUNT_DISTINCT]: 'count_distinct',
+  [AggregationType.APPROX_COUNT_DISTINCT]: 'count_distinct'
+};
+
+const BIGQUERY_TYPES: Record<string, string> = {
+  INTEGER: 'int64',
+  FLOAT: 'float64',
+  BOOLEAN: 'bool',
+  TIMESTAMP: 'timestamp',
+  DATE: 'date',
+  NUMERIC: 'numeric',
+  GEOGRAPHY: 'geography',
+  JSON: 'json',
+  STRING: 'string'
+};
+
+const snake = (name: string) =>
+  name.trim().replace(/([a-z0-9])([A-Z])/g, '$1_$2').toLowerCase().replace(/[^a-z0-9]+/g, '_').replace(/^_+|_+$/g, '') || 'field';
+
+// Aliases are snake_cased names, which can still be reserved words
+const q = quoteBigQueryIdentifier;
+
+const singular = (name: string) => name.replace(/ies$/, 'y').replace(/(ss|[^s])s$/, '$1');
+
+const isAggregate = (sql: string) => /\b(SUM|AVG|COUNT|MIN|MAX|COUNTIF|APPROX_\w+|STRING_AGG|ARRAY_AGG)\s*\(/i.test(sql);
+
+// Definitions use source column names; staging models expose the aliases
+const renameColumns = (sql: string, aliases: Map<string, string>) =>
+  sql
+    .split(/('(?:[^'\\]|\\.)*'|"(?:[^"\\]|\\.)*")/)
+    .map((part, idx) => idx % 2 === 1 ? part : part.replace(
+      /(^|[^.\w$`])`?([A-Za-z_]\w*)`?(?![\w.(])/g,
+      (match, before: string, name: string) => (aliases.has(name) ? `${before}${q(aliases.get(name)!)}` : match)
+    ))
+    .join('');
+
+const sourceColumnOf = (property: Property) =>
+  property.bindingType !== 'expression' && !property.isComputed && property.bindingSystem !== 'spanner' && property.bindingTable && property.bindingColumn
+    ? property.bindingColumn
+    : undefined;
+
+interface StagedColumn {
+  property: Property;
+  alias: string;
+  // Select expression over the source, undefined for aggregate measures
+  sql?: string;
+  // Aggregate definition over the source, for aggregate measures
+  aggregate?: string;
+}
+
+interface StagingModel {
+  entity: Entity;
+  name: string;
+  source: { name: string; database?: string; schema: string; table: string };
+  columns: StagedColumn[];
+  // Source column -> staged alias, for translating expressions
+  aliases: Map<string, string>;
+  primaryEntity: string;
+}
+
+const planStaging = (entity: Entity, options: DbtExportOptions, graph: DependencyGraph): StagingModel | undefined => {
+  // The table most of the entity's columns are bound to
+  const counts = new Map<string, { property: Property; count: number }>();
+  entity.properties.forEach(p => {
+    if (!sourceColumnOf(p)) return;
+    const key = [p.bindingProject, p.bindingDataset, p.bindingTable].join('.');
+    counts.set(key, { property: counts.get(key)?.property || p, count: (counts.get(key)?.count || 0) + 1 });
+  });
+  const top = [...counts.values()].sort((a, b) => b.count - a.count)[0]?.property;
+  if (!top) return undefined;
+  const schema = top.bindingDataset || options.dataset || 'raw';
+  const database = top.bindingProject || options.project;
+  const inSource = (p: Property) =>
+    p.bindingTable === top.bindingTable && p.bindingDataset === top.bindingDataset && p.bindingProject === top.bindingProject;
+
+  const used = new Set<string>();
+  const aliases = new Map<string, string>();
+  const columns: StagedColumn[] = [];
+  entity.properties.forEach(property => {
+    let alias = snake(property.name);
+    for (let n = 2; used.has(alias); n++) alias = `${snake(property.name)}_${n}`;
+    const column = sourceColumnOf(property);
+    if (column && inSource(property)) {
+      used.add(alias);
+      aliases.set(column, alias);
+      columns.push({ property, alias, sql: column });
+      return;
+    }
+    const expression = property.isComputed ? property.definition : property.bindingType === 'expression' ? property.binding : undefined;
+    // Derived metrics are metrics, not columns
+    if (!expression || graph.nodes.get(propertyKey({ entity, property }))?.level === 'metric') return;
+    const inlined = inlineRowReferences(graph, { entity, property }, p => (inSource(p) ? sourceColumnOf(p) : undefined));
+    used.add(alias);
+    columns.push(inlined && isAggregate(inlined) ? { property, alias, aggregate: inlined } : { property, alias, sql: inlined });
+  });
+  // Row-level expressions keep source names: staging selects from the source
+  columns.forEach(c => {
+    if (c.sql && c.sql !== sourceColumnOf(c.property)) c.sql = `(${c.sql})`;
+  });
+
+  return {
+    entity,
+    name: `stg_${snake(entity.name)}`,
+    source: { name: schema, database, schema, table: top.bindingTable! },
+    columns,
+    aliases,
+    primaryEntity: singular(snake(entity.name))
+  };
+};
+
+const renderStagingSql = (model: StagingModel): string => {
+  const selected = model.columns.filter(c => c.sql);
+  return [
+    `-- Staging model for ${model.entity.name}`,
+    'with source as (',
+    '',
+    `    select * from {{ source('${model.source.name}', '${model.source.table}') }}`,
+    '',
+    '),',
+    '',
+    'renamed as (',
+    '',
+    '    select',
+    selected.map(c => {
+      const sql = c.sql === sourceColumnOf(c.property) ? q(c.sql!) : c.sql;
+      return `        ${c.sql === c.alias ? q(c.alias) : `${sql} as ${q(c.alias)}`}`;
+    }).join(',\n'),
+    '    from source',
+    '',
+    ')',
+    '',
+    'select * from renamed',
+    ''
+  ].join('\n');
+};
+
+const keyColumns = (model: StagingModel) => model.columns.filter(c => c.sql && c.property.isUniqueKey);
+
+// The staged column behind a relationship end, if it was staged
+const stagedColumn = (model: StagingModel | undefined, propertyId?: string) =>
+  model?.columns.find(c => c.sql && c.property.id === propertyId);
+
+const allowedValues = (property: Property): string[] | undefined => {
+  const values = property.aspects?.find(a => a.aspectTypeId === ALLOWED_VALUES_ASPECT)?.values?.values;
+  const list = typeof values === 'string' ? values.split(',').map(v => v.trim()).filter(Boolean) : [];
+  return list.length ? list : undefined;
+};
+
+// Foreign keys point from the "many" side; MANY_TO_MANY has no column-level test
+const foreignKeys = (relationships: Relationship[], staging: Map<string, StagingModel>) =>
+  relationships.flatMap(rel => {
+    if (rel.type === 'MANY_TO_MANY') return [];
+    const [fromId, fromProperty, toId, toProperty] = rel.type === 'ONE_TO_MANY'
+      ? [rel.targetEntityId, rel.targetPropertyId, rel.sourceEntityId, rel.sourcePropertyId]
+      : [rel.sourceEntityId, rel.sourcePropertyId, rel.targetEntityId, rel.targetPropertyId];
+    const from = staging.get(fromId);
+    const to = staging.get(toId);
+    const column = stagedColumn(from, fromProperty);
+    const field = stagedColumn(to, toProperty) || (to && keyColumns(to).length === 1 ? keyColumns(to)[0] : undefined);
+    return from && to && column && field ? [{ from, column, to, field }] : [];
+  });
+
+const renderSchemaYaml = (staging: StagingModel[], relationships: ReturnType<typeof foreignKeys>): string => {
+  const models = staging.map(model => {
+    const keys = keyColumns(model);
+    const columns = model.columns.filter(c => c.sql).map(c => {
+      const tests: any[] = [];
+      if (c.property.isUniqueKey) {
+        if (keys.length === 1) tests.push('unique');
+        tests.push('not_null');
+      }
+      relationships.filter(r => r.from === model && r.column === c).forEach(r => {
+        tests.push({ relationships: { to: `ref('${r.to.name}')`, field: r.field.alias } });
+      });
+      const values = allowedValues(c.property);
+      if (values) tests.push({ accepted_values: { values } });
+      return {
+        name: c.alias,
+        ...(c.property.description ? { description: c.property.description } : {}),
+        data_type: BIGQUERY_TYPES[c.property.dataType?.toUpperCase()] || 'string',
+        ...(tests.length ? { data_tests: tests } : {})
+      };
+    });
+    return {
+      name: model.name,
+      description: model.entity.description || model.entity.name,
+      ...(keys.length > 1
+        ? { data_tests: [{ 'dbt_utils.unique_combination_of_columns': { combination_of_columns: keys.map(k => k.alias) } }] }
+        : {}),
+      columns
+    };
+  });
+  return stringify({ version: 2, models }, { indent: 2, lineWidth: 0, sortMapEntries: false });
+};
+
+const renderSourcesYaml = (staging: StagingModel[]): string => {
+  const sources = new Map<string, { name: string; database?: string; schema: string; tables: Set<string> }>();
+  staging.forEach(({ source }) => {
+    const key = `${source.database}.${source.schema}`;
+    if (!sources.has(key)) sources.set(key, { name: source.name, database: source.database, schema: source.schema, tables: new Set() });
+    sources.get(key)!.tables.add(source.table);
+  });
+  return stringify({
+    version: 2,
+    sources: [...sources.values()].map(s => ({
+      name: s.name,
+      ...(s.database ? { database: s.database } : {}),
+      schema: s.schema,
+      tables: [...s.tables].map(name => ({ name }))
+    }))
+  }, { indent: 2, lineWidth: 0, sortMapEntries: false });
+};
+
+const renderSemanticYaml = (staging: StagingModel[], relationships: ReturnType<typeof foreignKeys>, graph: DependencyGraph): string => {
+  const notes: string[] = [];
+  const metrics: any[] = [];
+  const measureNames = new Set<string>();
+  // Metric name per property key
+  const metricNames = new Map<string, string>();
+
+  const semanticModels = staging.flatMap(model => {
+    const keys = keyColumns(model);
+    const measures = model.columns.filter(c => c.property.propertyType === PropertyType.MEASURE);
+    if (keys.length === 0 && measures.length === 0) return [];
+
+    const entities: any[] = [];
+    if (keys.length > 0) {
+      entities.push({
+        name: model.primaryEntity,
+        type: 'primary',
+        expr: keys.length === 1 ? q(keys[0].alias) : `concat(${keys.map(k => `cast(${q(k.alias)} as string)`).join(", '|', ")})`
+      });
+    }
+    relationships.filter(r => r.from === model && keyColumns(r.to).length > 0).forEach(r => {
+      if (entities.some(e => e.name === r.to.primaryEntity)) return;
+      entities.push({ name: r.to.primaryEntity, type: 'foreign', expr: q(r.column.alias) });
+    });
+
+    // Key columns are entities, except dates and times: a snapshot keyed on
+    // (product, day) still needs the day as its time dimension
+    const dimensions = model.columns
+      .filter(c => c.sql && (!c.property.isUniqueKey || TIME_TYPES.has(c.property.dataType)) && c.property.propertyType !== PropertyType.MEASURE)
+      .filter(c => !relationships.some(r => r.from === model && r.column === c))
+      .map(c => ({
+        name: c.alias,
+        ...(TIME_TYPES.has(c.property.dataType) ? { type: 'time', type_params: { time_granularity: 'day' } } : { type: 'categorical' }),
+        ...(q(c.alias) !== c.alias ? { expr: q(c.alias) } : {}),
+        ...(c.property.description ? { description: c.property.description } : {})
+      }));
+    const timeDimension = dimensions.find(d => d.type === 'time');
+
+    const semanticMeasures = measures.flatMap(c => {
+      let aggregation: AggregationType;
+      let expr: string;
+      if (c.sql) {
+        aggregation = defaultAggregation(c.property);
+        expr = q(c.alias);
+      } else {
+        const definition = c.property.isComputed ? c.property.definition : c.property.binding;
+        const aggregate = c.aggregate ? parseAggregateCall(c.aggregate) : undefined;
+        if (!aggregate) {
+          notes.push(`${model.entity.name}.${c.property.name}: "${definition}" is not a single aggregate over its own columns and has no MetricFlow measure`);
+          return [];
+        }
+        aggregation = aggregate.aggregation;
+        expr = aggregate.argument === '*' ? '1' : renameColumns(aggregate.argument, model.aliases);
+      }
+      if (aggregation === AggregationType.APPROX_COUNT_DISTINCT) {
+        notes.push(`${model.entity.name}.${c.property.name}: approximate distinct count is exported as an exact count_distinct`);
+      }
+      // Semi-additive measures take the latest value of their snapshot time
+      const snapshot = snapshotPropertyOf(model.entity, c.property);
+      const snapshotDimension = snapshot && dimensions.find(d => d.type === 'time' && model.columns.some(col => col.alias === d.name && col.property === snapshot));
+      if (snapshot && !snapshotDimension) {
+        notes.push(`${model.entity.name}.${c.property.name}: snapshot time ${snapshot.name} is not a time dimension, so the measure is exported as fully additive`);
+      }
+      let name = c.alias;
+      for (let n = 2; measureNames.has(name); n++) name = `${c.alias}_${n}`;
+      measureNames.add(name);
+      metricNames.set(propertyKey({ entity: model.entity, property: c.property }), name);
+      metrics.push({
+        name,
+        label: c.property.name,
+        ...(c.property.description ? { description: c.property.description } : {}),
+        type: 'simple',
+        type_params: { measure: name }
+      });
+      return [{
+        name,
+        ...(c.property.description ? { description: c.property.description } : {}),
+        agg: AGGREGATIONS[aggregation],
+        ...(expr !== name ? { expr } : {}),
+        ...(snapshotDimension ? { non_additive_dimension: { name: snapshotDimension.name, window_choice: 'max' } } : {})
+      }];
+    });
+    if (semanticMeasures.length > 0 && !timeDimension) {
+      notes.push(`${model.entity.name}: measures need a time dimension for agg_time_dimension; add a DATE or TIMESTAMP property`);
+    }
+
+    return [{
+      name: snake(model.entity.name),
+      description: model.entity.description || model.entity.name,
+      model: `ref('${model.name}')`,
+      ...(semanticMeasures.length > 0 && timeDimension ? { defaults: { agg_time_dimension: timeDimension.name } } : {}),
+      // Without a key column MetricFlow still needs the entity its dimensions belong to
+      ...(keys.length === 0 ? { primary_entity: model.primaryEntity } : {}),
+      ...(entities.length ? { entities } : {}),
+      ...(dimensions.length ? { dimensions } : {}),
+      ...(semanticMeasures.length ? { measures: semanticMeasures } : {})
+    }];
+  });
+
+  // Derived metrics, after the metrics they reference
+  const pending = new Set<string>();
+  const derive = (node: DependencyNode): string | undefined => {
+    if (metricNames.has(node.key)) return metricNames.get(node.key);
+    if (node.level !== 'metric' || pending.has(node.key)) return undefined;
+    pending.add(node.key);
+    const definition = (node.property.isComputed ? node.property.definition : node.property.binding) || '';
+    const inputs: string[] = [];
+    let expr = '';
+    let last = 0;
+    for (const reference of node.references) {
+      const target = reference.target && graph.nodes.get(propertyKey(reference.target));
+      const input = target && !reference.inAggregate ? derive(target) : undefined;
+      if (!input) {
+        notes.push(`${referenceLabel(node)}: \${${reference.text}} is not an exported metric, so this derived metric is not exported`);
+        return undefined;
+      }
+      inputs.push(input);
+      expr += definition.slice(last, reference.start) + input;
+      last = reference.end;
+    }
+    let name = snake(node.property.name);
+    for (let n = 2; measureNames.has(name); n++) name = `${snake(node.property.name)}_${n}`;
+    measureNames.add(name);
+    metricNames.set(node.key, name);
+    metrics.push({
+      name,
+      label: node.property.name,
+      ...(node.property.description ? { description: node.property.description } : {}),
+      type: 'derived',
+      type_params: { expr: expr + definition.slice(last), metrics: [...new Set(inputs)].map(input => ({ name: input })) }
+    });
+    return name;
+  };
+  graph.nodes.forEach(node => derive(node));
+
+  const header = notes.map(note => `# ${note}`).join('\n');
+  const body = stringify({ semantic_models: semanticModels, ...(metrics.length ? { metrics } : {}) }, { indent: 2, lineWidth: 0, sortMapEntries: false });
+  return header ? `${header}\n\n${body}` : body;
+};
+
+export const generateDbtProject = (model: SemanticModel, options: DbtExportOptions = {}): DbtFile[] => {
+  const graph = buildDependencyGraph(model);
+  const projectName = snake(options.projectName || model.name);
+  const staging = new Map<string, StagingModel>();
+  const unstaged: Entity[] = [];
+  model.entities.forEach(entity => {
+    const plan = planStaging(entity, options, graph);
+    if (plan) staging.set(entity.id, plan);
+    else unstaged.push(entity);
+  });
+  // Entity names can collide once snake_cased
+  const names = new Set<string>();
+  staging.forEach(plan => {
+    const base = plan.name;
+    for (let n = 2; names.has(plan.name); n++) plan.name = `${base}_${n}`;
+    names.add(plan.name);
+  });
+  const models = [...staging.values()];
+  const relationships = foreignKeys(model.relationships, staging);
+  const usesDbtUtils = models.some(m => keyColumns(m).length > 1);
+
+  const projectFile = stringify({
+    name: projectName,
+    version: '1.0.0',
+    'config-version': 2,
+    profile: projectName,
+    'model-paths': ['models'],
+    models: {
+      [projectName]: {
+        staging: { '+materialized': 'view' }
+      }
+    }
+  }, { indent: 2, lineWidth: 0, sortMapEntries: false });
+
+  const readme = [
+    `# ${model.name}`,
+    '',
+    ...(model.description ? [model.description, ''] : []),
+    `Generated from the "${model.name}" semantic model. Staging models rename the bound source`,
+    'columns; `models/semantic_models.yml` declares the MetricFlow semantic models and metrics.',
+    ...(unstaged.length
+      ? ['', 'Entities without BigQuery-bound columns were left out:', ...unstaged.map(e => `- ${e.name}`)]
+      : []),
+    ''
+  ].join('\n');
+
+  return [
+    { name: 'dbt_project.yml', content: projectFile },
+    ...(usesDbtUtils
+      ? [{ name: 'packages.yml', content: stringify({ packages: [{ package: 'dbt-labs/dbt_utils', version: ['>=1.0.0', '<2.0.0'] }] }, { indent: 2 }) }]
+      : []),
+    { name: 'README.md', content: readme },
+    { name: 'models/staging/_sources.yml', content: renderSourcesYaml(models) },
+    { name: 'models/staging/schema.yml', content: renderSchemaYaml(models, relationships) },
+    ...models.map(m => ({ name: `models/staging/${m.name}.sql`, content: renderStagingSql(m) })),
+    { name: 'models/semantic_models.yml', content: renderSemanticYaml(models, relationships, graph) }
+  ];
+};
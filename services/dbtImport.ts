@@ -0,0 +1,546 @@
+import { parse } from 'yaml';
+import { SemanticModel, Entity, Property, Relationship, EntityType, PropertyType, Additivity } from '../types';
+import { humanizeIdentifier, mapSqlTypeToDataType, parseDbtRef } from './importUtils';
+
+// Importer for dbt projects. Accepts a compiled manifest.json and/or the YAML
+// files that declare models (schema.yml), semantic_models and metrics. dbt
+// models become entities bound to their BigQuery relation; semantic model
+// entities, dimensions and measures set property types; relationships tests,
+// foreign key constraints and foreign entities become relationships.
+
+export interface DbtFile {
+  name: string;
+  content: string;
+}
+
+interface DbtColumn {
+  name: string;
+  description: string;
+  dataType?: string;
+  isUnique: boolean;
+  references?: { model: string; column?: string };
+}
+
+interface DbtModel {
+  name: string;
+  description: string;
+  database?: string;
+  schema?: string;
+  alias?: string;
+  columns: DbtColumn[];
+}
+
+interface DbtSemanticEntity {
+  name: string;
+  type: string;
+  expr?: string;
+}
+
+interface DbtSemanticField {
+  name: string;
+  description?: string;
+  label?: string;
+  type?: string;
+  expr?: string;
+  agg?: string;
+  percentile?: number;
+  // Time dimension a semi-additive measure is not summed across
+  nonAdditiveDimension?: string;
+}
+
+interface DbtSemanticModel {
+  name: string;
+  description: string;
+  model: string;
+  relation?: { database?: string; schema?: string; alias?: string };
+  entities: DbtSemanticEntity[];
+  dimensions: DbtSemanticField[];
+  measures: DbtSemanticField[];
+}
+
+interface DbtMetric {
+  name: string;
+  label?: string;
+  description?: string;
+  type: string;
+  measure?: string;
+  numerator?: string;
+  denominator?: string;
+  expr?: string;
+  inputs: string[];
+}
+
+interface DbtProject {
+  name?: string;
+  models: Map<string, DbtModel>;
+  semanticModels: DbtSemanticModel[];
+  metrics: DbtMetric[];
+}
+
+// --- Normalizing manifest.json and YAML into one shape ---
+
+const asArray = (value: any): any[] => (Array.isArray(value) ? value : value ? [value] : []);
+
+// type_params references are a name string in YAML and { name } in the manifest
+const refName = (value: any): string | undefined =>
+  typeof value === 'string' ? value : value?.name;
+
+const parseConstraintTarget = (constraint: any): DbtColumn['references'] | undefined => {
+  const model = parseDbtRef(constraint.to);
+  if (model) return { model, column: asArray(constraint.to_columns)[0] };
+  // Older dbt: expression: "analytics.customers (id)"
+  const match = typeof constraint.expression === 'string' && constraint.expression.match(/([\w.]+)\s*\(\s*(\w+)\s*\)/);
+  return match ? { model: match[1].split('.').pop()!, column: match[2] } : undefined;
+};
+
+const applyColumnTests = (column: DbtColumn, tests: any[]) => {
+  tests.forEach(test => {
+    if (test === 'unique') column.isUnique = true;
+    const relationships = test?.relationships;
+    if (relationships) {
+      // dbt 1.10 nests test arguments under `arguments`
+      const args = relationships.arguments || relationships;
+      const model = parseDbtRef(args.to);
+      if (model) column.references = { model, column: args.field };
+    }
+  });
+};
+
+const readYamlColumn = (raw: any): DbtColumn => {
+  const column: DbtColumn = {
+    name: String(raw.name),
+    description: raw.description || '',
+    dataType: raw.data_type,
+    isUnique: false
+  };
+  applyColumnTests(column, [...asArray(raw.tests), ...asArray(raw.data_tests)]);
+  asArray(raw.constraints).forEach(constraint => {
+    if (constraint.type === 'primary_key' || constraint.type === 'unique') column.isUnique = true;
+    if (constraint.type === 'foreign_key') column.references = parseConstraintTarget(constraint) || column.references;
+  });
+  return column;
+};
+
+const readSemanticModel = (raw: any): DbtSemanticModel => ({
+  name: raw.name,
+  description: raw.description || '',
+  model: parseDbtRef(raw.model) || raw.node_relation?.alias || raw.name,
+  relation: raw.node_relation
+    ? { database: raw.node_relation.database, schema: raw.node_relation.schema_name, alias: raw.node_relation.alias }
+    : undefined,
+  entities: asArray(raw.entities).map(e => ({ name: e.name, type: e.type, expr: e.expr })),
+  dimensions: asArray(raw.dimensions).map(d => ({
+    name: d.name,
+    description: d.description,
+    label: d.label,
+    type: d.type,
+    expr: d.expr
+  })),
+  measures: asArray(raw.measures).map(m => ({
+    name: m.name,
+    description: m.description,
+    label: m.label,
+    agg: m.agg,
+    expr: m.expr === undefined ? undefined : String(m.expr),
+    percentile: m.agg_params?.percentile,
+    nonAdditiveDimension: m.non_additive_dimension?.name
+  }))
+});
+
+const readMetric = (raw: any): DbtMetric => {
+  const params = raw.type_params || {};
+  return {
+    name: raw.name,
+    label: raw.label,
+    description: raw.description,
+    type: raw.type || 'simple',
+    measure: refName(params.measure),
+    numerator: refName(params.numerator),
+    denominator: refName(params.denominator),
+    expr: params.expr,
+    inputs: asArray(params.metrics).map(refName).filter(Boolean) as string[]
+  };
+};
+
+const readManifest = (manifest: any, project: DbtProject) => {
+  project.name = project.name || manifest.metadata?.project_name;
+  const nodes: Record<string, any> = manifest.nodes || {};
+
+  Object.values(nodes)
+    .filter(node => node.resource_type === 'model')
+    .forEach(node => {
+      const columns: DbtColumn[] = Object.values(node.columns || {}).map(readYamlColumn);
+      // Model-level constraints can name their columns explicitly
+      asArray(node.constraints).forEach(constraint => {
+        asArray(constraint.columns).forEach((name: string) => {
+          const column = columns.find(c => c.name === name);
+          if (!column) return;
+          if (constraint.type === 'primary_key' || constraint.type === 'unique') column.isUnique = true;
+          if (constraint.type === 'foreign_key') column.references = parseConstraintTarget(constraint) || column.references;
+        });
+      });
+      project.models.set(node.name, {
+        name: node.name,
+        description: node.description || '',
+        database: node.database,
+        schema: node.schema,
+        alias: node.alias,
+        columns
+      });
+    });
+
+  // Generic tests are separate nodes attached to the model they test
+  Object.values(nodes)
+    .filter(node => node.resource_type === 'test' && node.test_metadata)
+    .forEach(node => {
+      const modelName = node.attached_node
+        ? nodes[node.attached_node]?.name
+        : parseDbtRef(node.test_metadata.kwargs?.model);
+      const columnName = node.column_name || node.test_metadata.kwargs?.column_name;
+      const column = project.models.get(modelName)?.columns.find(c => c.name === columnName);
+      if (!column) return;
+      const { name, kwargs = {} } = node.test_metadata;
+      if (name === 'unique') column.isUnique = true;
+      if (name === 'relationships') {
+        const model = parseDbtRef(kwargs.to);
+        if (model) column.references = { model, column: kwargs.field };
+      }
+    });
+
+  Object.values(manifest.semantic_models || {}).forEach(raw => project.semanticModels.push(readSemanticModel(raw)));
+  Object.values(manifest.metrics || {}).forEach(raw => project.metrics.push(readMetric(raw)));
+};
+
+const readYaml = (doc: any, project: DbtProject) => {
+  // dbt_project.yml also has a models: key, holding folder configs rather than a list
+  asArray(doc?.models).filter(raw => typeof raw?.name === 'string').forEach(raw => {
+    const existing = project.models.get(raw.name);
+    const columns = asArray(raw.columns).map(readYamlColumn);
+    if (existing) {
+      // A manifest already supplied the relation; YAML only adds detail
+      existing.description = existing.description || raw.description || '';
+      columns.forEach(column => {
+        const match = existing.columns.find(c => c.name === column.name);
+        if (!match) existing.columns.push(column);
+        else Object.assign(match, {
+          description: match.description || column.description,
+          dataType: match.dataType || column.dataType,
+          isUnique: match.isUnique || column.isUnique,
+          references: match.references || column.references
+        });
+      });
+      return;
+    }
+    project.models.set(raw.name, {
+      name: raw.name,
+      description: raw.description || '',
+      database: raw.config?.database,
+      schema: raw.config?.schema,
+      alias: raw.config?.alias,
+      columns
+    });
+  });
+  asArray(doc?.semantic_models).forEach(raw => {
+    if (!project.semanticModels.some(sm => sm.name === raw.name)) project.semanticModels.push(readSemanticModel(raw));
+  });
+  asArray(doc?.metrics).forEach(raw => {
+    if (!project.metrics.some(m => m.name === raw.name)) project.metrics.push(readMetric(raw));
+  });
+};
+
+// --- Mapping to the semantic model ---
+
+const entityIdFor = (model: string) => `entity_${model}`;
+const propertyIdFor = (model: string, field: string) => `prop_${model}_${field}`;
+
+const MEASURE_AGGREGATIONS: Record<string, (expr: string, percentile?: number) => string> = {
+  sum: expr => `SUM(${expr})`,
+  count: expr => `COUNT(${expr})`,
+  count_distinct: expr => `COUNT(DISTINCT ${expr})`,
+  average: expr => `AVG(${expr})`,
+  min: expr => `MIN(${expr})`,
+  max: expr => `MAX(${expr})`,
+  sum_boolean: expr => `COUNTIF(${expr})`,
+  median: expr => `APPROX_QUANTILES(${expr}, 2)[OFFSET(1)]`,
+  percentile: (expr, percentile = 0.5) => `APPROX_QUANTILES(${expr}, 100)[OFFSET(${Math.round(percentile * 100)})]`
+};
+
+const isSimpleColumn = (expr: string) => /^\w+$/.test(expr);
+
+const entityTypeFor = (model: string, semanticModel?: DbtSemanticModel): EntityType => {
+  if (/^(fct|fact)_/.test(model)) return EntityType.FACT;
+  if (/^dim_/.test(model)) return EntityType.DIMENSION;
+  if (semanticModel && semanticModel.measures.length > 0) return EntityType.FACT;
+  return EntityType.ENTITY;
+};
+
+const columnToProperty = (model: DbtModel, column: DbtColumn): Property => {
+  const table = model.alias || model.name;
+  return {
+    id: propertyIdFor(model.name, column.name),
+    name: humanizeIdentifier(column.name),
+    dataType: mapSqlTypeToDataType(column.dataType),
+    description: column.description,
+    binding: `${table}.${column.name}`,
+    bindingType: 'column',
+    bindingSystem: 'bigquery',
+    bindingProject: model.database,
+    bindingDataset: model.schema,
+    bindingTable: table,
+    bindingColumn: column.name,
+    ...(column.isUnique ? { isUniqueKey: true } : {})
+  };
+};
+
+const uniquePropertyId = (entity: Entity, base: string, suffix: string) =>
+  entity.properties.some(p => p.id === base) ? `${base}_${suffix}` : base;
+
+interface MeasureRef {
+  entity: Entity;
+  property: Property;
+}
+
+// Returns the measure properties it created, keyed by dbt measure name
+const applySemanticModel = (entity: Entity, modelName: string, semanticModel: DbtSemanticModel): Map<string, MeasureRef> => {
+  const measures = new Map<string, MeasureRef>();
+  const findColumnProperty = (expr: string) => entity.properties.find(p => p.bindingColumn === expr);
+  if (!entity.description && semanticModel.description) entity.description = semanticModel.description;
+
+  semanticModel.entities.forEach(e => {
+    const expr = e.expr || e.name;
+    const property = findColumnProperty(expr);
+    if (property && (e.type === 'primary' || e.type === 'unique' || e.type === 'natural')) property.isUniqueKey = true;
+  });
+
+  const dimensionProperties = new Map<string, Property>();
+  semanticModel.dimensions.forEach(d => {
+    const expr = d.expr || d.name;
+    const existing = isSimpleColumn(expr) ? findColumnProperty(expr) : undefined;
+    if (existing) {
+      dimensionProperties.set(d.name, existing);
+      existing.propertyType = PropertyType.DIMENSION;
+      if (!existing.description && d.description) existing.description = d.description;
+      if (d.label) existing.name = d.label;
+      return;
+    }
+    const property: Property = {
+      id: uniquePropertyId(entity, propertyIdFor(modelName, d.name), 'dimension'),
+      name: d.label || humanizeIdentifier(d.name),
+      dataType: d.type === 'time' ? 'TIMESTAMP' : 'STRING',
+      description: d.description || '',
+      propertyType: PropertyType.DIMENSION,
+      isComputed: true,
+      bindingType: 'expression',
+      definition: expr
+    };
+    entity.properties.push(property);
+    dimensionProperties.set(d.name, property);
+  });
+
+  semanticModel.measures.forEach(m => {
+    const expr = m.expr || (m.agg === 'count' ? '1' : m.name);
+    const aggregate = MEASURE_AGGREGATIONS[m.agg || 'sum'] || MEASURE_AGGREGATIONS.sum;
+    const column = isSimpleColumn(expr) ? findColumnProperty(expr) : undefined;
+    const property: Property = {
+      id: uniquePropertyId(entity, propertyIdFor(modelName, m.name), 'measure'),
+      name: m.label || humanizeIdentifier(m.name),
+      dataType: m.agg === 'count' || m.agg === 'count_distinct' || m.agg === 'sum_boolean'
+        ? 'INTEGER'
+        : m.agg === 'min' || m.agg === 'max' ? column?.dataType || 'FLOAT' : 'FLOAT',
+      description: m.description || '',
+      propertyType: PropertyType.MEASURE,
+      isComputed: true,
+      bindingType: 'expression',
+      definition: aggregate(expr, m.percentile),
+      ...(m.nonAdditiveDimension
+        ? { additivity: Additivity.SEMI_ADDITIVE, snapshotPropertyId: dimensionProperties.get(m.nonAdditiveDimension)?.id }
+        : {})
+    };
+    entity.properties.push(property);
+    measures.set(m.name, { entity, property });
+  });
+  return measures;
+};
+
+// Metrics are attached to the entity that owns their (first) input measure and
+// defined in terms of those measures' SQL.
+const applyMetrics = (project: DbtProject, measures: Map<string, MeasureRef>) => {
+  const definitions = new Map<string, { entity: Entity; definition: string; dataType: string }>();
+  const resolveMeasure = (name: string) => {
+    const measure = measures.get(name);
+    return measure && { entity: measure.entity, definition: measure.property.definition || '', dataType: measure.property.dataType };
+  };
+  // Metric inputs name other metrics; a name with no metric falls back to the measure
+  const resolve = (name: string, stack: string[] = []): { entity: Entity; definition: string; dataType: string } | undefined => {
+    if (definitions.has(name)) return definitions.get(name);
+    const metric = project.metrics.find(m => m.name === name);
+    if (!metric) return resolveMeasure(name);
+    if (stack.includes(name)) return undefined;
+    const next = [...stack, name];
+    let resolved: { entity: Entity; definition: string; dataType: string } | undefined;
+    if (metric.type === 'ratio' && metric.numerator && metric.denominator) {
+      const numerator = resolve(metric.numerator, next);
+      const denominator = resolve(metric.denominator, next);
+      if (numerator && denominator) {
+        resolved = { entity: numerator.entity, definition: `SAFE_DIVIDE(${numerator.definition}, ${denominator.definition})`, dataType: 'FLOAT' };
+      }
+    } else if (metric.type === 'derived' && metric.expr) {
+      const inputs = metric.inputs.map(input => ({ input, resolved: resolve(input, next) }));
+      const first = inputs.find(i => i.resolved)?.resolved;
+      if (first) {
+        const definition = inputs.reduce(
+          (expr, { input, resolved: r }) => (r ? expr.replace(new RegExp(`\\b${input}\\b`, 'g'), `(${r.definition})`) : expr),
+          metric.expr
+        );
+        resolved = { entity: first.entity, definition, dataType: 'FLOAT' };
+      }
+    } else if (metric.measure) {
+      // simple and cumulative metrics aggregate a single measure
+      resolved = resolveMeasure(metric.measure);
+    }
+    if (resolved) definitions.set(name, resolved);
+    return resolved;
+  };
+
+  project.metrics.forEach(metric => {
+    const resolved = resolve(metric.name);
+    if (!resolved) return;
+    const { entity } = resolved;
+    const modelName = entity.id.replace(/^entity_/, '');
+    const sameNamedMeasure = measures.get(metric.name);
+    if (sameNamedMeasure && sameNamedMeasure.entity === entity) {
+      // A simple metric over its own measure just documents that measure
+      if (metric.label) sameNamedMeasure.property.name = metric.label;
+      if (metric.description) sameNamedMeasure.property.description = metric.description;
+      return;
+    }
+    entity.properties.push({
+      id: uniquePropertyId(entity, propertyIdFor(modelName, metric.name), 'metric'),
+      name: metric.label || humanizeIdentifier(metric.name),
+      dataType: resolved.dataType,
+      description: metric.description || `${humanizeIdentifier(metric.type)} metric`,
+      propertyType: PropertyType.MEASURE,
+      isComputed: true,
+      bindingType: 'expression',
+      definition: resolved.definition
+    });
+  });
+};
+
+const buildRelationships = (project: DbtProject, entities: Map<string, Entity>): Relationship[] => {
+  const relationships: Relationship[] = [];
+  const seen = new Set<string>();
+  const add = (sourceModel: string, sourceColumn: string | undefined, targetModel: string, targetColumn: string | undefined, type: Relationship['type'], description: string) => {
+    const source = entities.get(sourceModel);
+    const target = entities.get(targetModel);
+    if (!source || !target) return;
+    const sourcePropertyId = source.properties.find(p => p.bindingColumn === sourceColumn)?.id;
+    const targetPropertyId = target.properties.find(p => p.bindingColumn === targetColumn)?.id;
+    const key = `${source.id}|${sourcePropertyId}|${target.id}|${targetPropertyId}`;
+    if (seen.has(key)) return;
+    seen.add(key);
+    relationships.push({
+      id: `rel_${sourceModel}_${sourceColumn || 'ref'}_${targetModel}`,
+      sourceEntityId: source.id,
+      targetEntityId: target.id,
+      sourcePropertyId,
+      targetPropertyId,
+      type,
+      description
+    });
+  };
+
+  project.models.forEach(model => {
+    model.columns.forEach(column => {
+      if (!column.references) return;
+      add(model.name, column.name, column.references.model, column.references.column, column.isUnique ? 'ONE_TO_ONE' : 'MANY_TO_ONE', `dbt relationship from ${model.name}.${column.name}`);
+    });
+  });
+
+  // Foreign entities point at the semantic model whose primary entity shares their name
+  project.semanticModels.forEach(sm => {
+    sm.entities.filter(e => e.type === 'foreign').forEach(foreign => {
+      project.semanticModels.forEach(other => {
+        if (other === sm) return;
+        const primary = other.entities.find(e => e.name === foreign.name && ['primary', 'unique', 'natural'].includes(e.type));
+        if (!primary) return;
+        add(sm.model, foreign.expr || foreign.name, other.model, primary.expr || primary.name, 'MANY_TO_ONE', `dbt semantic entity ${foreign.name}`);
+      });
+    });
+  });
+
+  return relationships;
+};
+
+// --- Public entry point ---
+
+export const dbtToModel = (files: DbtFile[], projectName?: string): SemanticModel => {
+  const project: DbtProject = { models: new Map(), semanticModels: [], metrics: [] };
+
+  // Read the manifest first so YAML files only fill in what it lacks
+  const parsed = files.map(file => {
+    try {
+      return { file, doc: file.name.toLowerCase().endsWith('.json') ? JSON.parse(file.content) : parse(file.content) };
+    } catch (error) {
+      throw new Error(`${file.name}: ${error instanceof Error ? error.message : String(error)}`);
+    }
+  });
+  parsed.filter(({ doc }) => doc?.nodes && doc?.metadata).forEach(({ doc }) => readManifest(doc, project));
+  parsed.filter(({ doc }) => !(doc?.nodes && doc?.metadata)).forEach(({ doc }) => readYaml(doc, project));
+
+  // Semantic models over models we have no columns for still become entities
+  project.semanticModels.forEach(sm => {
+    if (project.models.has(sm.model)) return;
+    project.models.set(sm.model, {
+      name: sm.model,
+      description: sm.description,
+      database: sm.relation?.database,
+      schema: sm.relation?.schema,
+      alias: sm.relation?.alias,
+      columns: [
+        ...sm.entities.map(e => e.expr || e.name),
+        ...sm.dimensions.map(d => d.expr || d.name)
+      ]
+        .filter((name, index, all) => isSimpleColumn(name) && all.indexOf(name) === index)
+        .map(name => ({ name, description: '', isUnique: false }))
+    });
+  });
+
+  if (project.models.size === 0) {
+    throw new Error('No dbt models or semantic models found. Upload target/manifest.json or the YAML files that define them.');
+  }
+
+  const entities = new Map<string, Entity>();
+  const measures = new Map<string, MeasureRef>();
+  project.models.forEach(model => {
+    const semanticModel = project.semanticModels.find(sm => sm.model === model.name);
+    const table = model.alias || model.name;
+    const resource = [model.database, model.schema, table].filter(Boolean).join('.');
+    const entity: Entity = {
+      id: entityIdFor(model.name),
+      name: humanizeIdentifier(model.name),
+      type: entityTypeFor(model.name, semanticModel),
+      description: model.description,
+      properties: model.columns.map(column => columnToProperty(model, column)),
+      bindings: [{ type: 'BIGQUERY', resource }]
+    };
+    if (semanticModel) {
+      applySemanticModel(entity, model.name, semanticModel).forEach((ref, name) => measures.set(name, ref));
+    }
+    if (!entity.description) entity.description = `Imported from dbt model ${model.name}`;
+    entities.set(model.name, entity);
+  });
+  applyMetrics(project, measures);
+
+  const name = projectName?.trim() || project.name || 'dbt Project';
+  return {
+    id: `dbt_${Date.now()}`,
+    name: `DBT Model - ${name}`,
+    description: `Imported from ${files.map(f => f.name).join(', ')} on ${new Date().toLocaleDateString()}.`,
+    domain: 'dbt',
+    entities: [...entities.values()],
+    relationships: buildRelationships(project, entities),
+    createdAt: new Date(),
+    updatedAt: new Date()
+  };
+};
@@ -0,0 +1,403 @@
+import { SemanticModel, Entity, Property, Relationship, EntityType } from '../types';
+import { humanizeIdentifier, mapSqlTypeToDataType } from './importUtils';
+
+// Importer for BigQuery and Spanner CREATE TABLE scripts. Each table becomes
+// an entity with one bound property per column; PRIMARY KEY columns are
+// marked unique and FOREIGN KEY / INTERLEAVE IN PARENT clauses become
+// relationships between the matching properties. A relationship links one
+// property per side, so a composite key is linked by its first column and
+// its description says which columns are left out of the join.
+
+export interface DdlFile {
+  name: string;
+  content: string;
+}
+
+export type DdlDialect = 'bigquery' | 'spanner';
+
+export interface DdlColumn {
+  name: string;
+  type: string;
+  description?: string;
+  generatedAs?: string;
+}
+
+export interface DdlForeignKey {
+  columns: string[];
+  referencedTable: string;
+  referencedColumns: string[];
+  name?: string;
+}
+
+export interface DdlTable {
+  // Fully qualified name as written, without quotes
+  fullName: string;
+  name: string;
+  project?: string;
+  dataset?: string;
+  dialect: DdlDialect;
+  description?: string;
+  columns: DdlColumn[];
+  primaryKey: string[];
+  uniqueColumns: string[];
+  foreignKeys: DdlForeignKey[];
+  interleavedIn?: string;
+  file: string;
+}
+
+// --- Lexical helpers ---
+
+// Remove -- , # and /* */ comments while leaving string literals intact
+export const stripComments = (sql: string): string => {
+  let result = '';
+  let i = 0;
+  while (i < sql.length) {
+    const ch = sql[i];
+    if (ch === '"' || ch === "'" || ch === '`') {
+      const end = findStringEnd(sql, i);
+      result += sql.slice(i, end);
+      i = end;
+    } else if ((ch === '-' && sql[i + 1] === '-') || ch === '#') {
+      while (i < sql.length && sql[i] !== '\n') i++;
+    } else if (ch === '/' && sql[i + 1] === '*') {
+      const end = sql.indexOf('*/', i + 2);
+      i = end === -1 ? sql.length : end + 2;
+    } else {
+      result += ch;
+      i++;
+    }
+  }
+  return result;
+};
+
+// Index just past the closing quote of the literal starting at `start`
+const findStringEnd = (sql: string, start: number): number => {
+  const quote = sql[start];
+  let i = start + 1;
+  while (i < sql.length && sql[i] !== quote) {
+    if (sql[i] === '\\') i++;
+    i++;
+  }
+  return i + 1;
+};
+
+// Split on a separator character at nesting depth 0 (outside (), type <> and
+// quotes). Angle brackets only nest after ARRAY/STRUCT/RANGE so comparisons in
+// CHECK or DEFAULT expressions don't throw the depth off.
+export const splitTopLevel = (sql: string, separator: string): string[] => {
+  const parts: string[] = [];
+  let depth = 0;
+  let angleDepth = 0;
+  let current = '';
+  let i = 0;
+  while (i < sql.length) {
+    const ch = sql[i];
+    if (ch === '"' || ch === "'" || ch === '`') {
+      const end = findStringEnd(sql, i);
+      current += sql.slice(i, end);
+      i = end;
+      continue;
+    }
+    if (ch === '(') depth++;
+    if (ch === ')') depth--;
+    if (ch === '<' && /\b(ARRAY|STRUCT|RANGE)\s*$/i.test(current)) angleDepth++;
+    if (ch === '>' && angleDepth > 0) angleDepth--;
+    if (ch === separator && depth === 0 && angleDepth === 0) {
+      parts.push(current.trim());
+      current = '';
+    } else {
+      current += ch;
+    }
+    i++;
+  }
+  if (current.trim()) parts.push(current.trim());
+  return parts;
+};
+
+// Index of the parenthesis that closes the one at `open`
+export const findClosingParen = (sql: string, open: number): number => {
+  let depth = 0;
+  for (let i = open; i < sql.length; i++) {
+    const ch = sql[i];
+    if (ch === '"' || ch === "'" || ch === '`') {
+      i = findStringEnd(sql, i) - 1;
+      continue;
+    }
+    if (ch === '(') depth++;
+    if (ch === ')' && --depth === 0) return i;
+  }
+  return -1;
+};
+
+export const unquote = (identifier: string) => identifier.trim().replace(/^[`"]|[`"]$/g, '');
+
+export const IDENTIFIER = '(`[^`]+`|"[^"]+"|[\\w.\\-]+)';
+
+export const identifierList = (list: string) => list.split(',').map(unquote).filter(Boolean);
+
+export const lastSegment = (name: string) => name.split('.').pop()!;
+
+const readDescription = (options: string): string | undefined => {
+  const match = options.match(/description\s*=\s*(?:r|R)?("(?:[^"\\]|\\.)*"|'(?:[^'\\]|\\.)*')/);
+  return match ? match[1].slice(1, -1).replace(/\\(.)/g, '$1') : undefined;
+};
+
+// OPTIONS ( ... ) clause of a column or table definition, if any
+const readOptions = (sql: string): string | undefined => {
+  const match = /\bOPTIONS\s*\(/i.exec(sql);
+  if (!match) return undefined;
+  const open = match.index + match[0].length - 1;
+  const close = findClosingParen(sql, open);
+  return close === -1 ? undefined : sql.slice(open + 1, close);
+};
+
+// --- Statement parsing ---
+
+const parseColumn = (definition: string): { column: DdlColumn; inlinePrimaryKey: boolean; inlineReference?: DdlForeignKey } | undefined => {
+  const nameMatch = definition.match(new RegExp(`^${IDENTIFIER}\\s+`));
+  if (!nameMatch) return undefined;
+  const name = unquote(nameMatch[1]);
+  let rest = definition.slice(nameMatch[0].length);
+
+  // The type runs to the first whitespace outside <> and (), e.g. STRUCT<a INT64>
+  let depth = 0;
+  let typeEnd = 0;
+  while (typeEnd < rest.length && (depth > 0 || !/\s/.test(rest[typeEnd]))) {
+    if (rest[typeEnd] === '<' || rest[typeEnd] === '(') depth++;
+    if (rest[typeEnd] === '>' || rest[typeEnd] === ')') depth--;
+    typeEnd++;
+  }
+  const type = rest.slice(0, typeEnd);
+  rest = rest.slice(typeEnd);
+
+  const column: DdlColumn = { name, type };
+  const options = readOptions(rest);
+  if (options) column.description = readDescription(options);
+
+  const generated = /\bAS\s*\(/i.exec(rest);
+  if (generated) {
+    const open = generated.index + generated[0].length - 1;
+    const close = findClosingParen(rest, open);
+    if (close !== -1) column.generatedAs = rest.slice(open + 1, close).trim();
+  }
+
+  const reference = rest.match(new RegExp(`\\bREFERENCES\\s+${IDENTIFIER}\\s*\\(([^)]*)\\)`, 'i'));
+  return {
+    column,
+    inlinePrimaryKey: /\bPRIMARY\s+KEY\b/i.test(rest),
+    inlineReference: reference
+      ? { columns: [name], referencedTable: unquote(reference[1]), referencedColumns: identifierList(reference[2]) }
+      : undefined
+  };
+};
+
+const parseForeignKey = (clause: string): DdlForeignKey | undefined => {
+  const match = clause.match(new RegExp(
+    `^(?:CONSTRAINT\\s+${IDENTIFIER}\\s+)?FOREIGN\\s+KEY\\s*\\(([^)]*)\\)\\s*REFERENCES\\s+${IDENTIFIER}\\s*\\(([^)]*)\\)`, 'i'
+  ));
+  if (!match) return undefined;
+  return {
+    name: match[1] ? unquote(match[1]) : undefined,
+    columns: identifierList(match[2]),
+    referencedTable: unquote(match[3]),
+    referencedColumns: identifierList(match[4])
+  };
+};
+
+const CREATE_TABLE = new RegExp(
+  `^CREATE\\s+(?:OR\\s+REPLACE\\s+)?(?:TEMP(?:ORARY)?\\s+)?TABLE\\s+(?:IF\\s+NOT\\s+EXISTS\\s+)?${IDENTIFIER}\\s*\\(`, 'i'
+);
+const ALTER_ADD = new RegExp(`^ALTER\\s+TABLE\\s+(?:IF\\s+EXISTS\\s+)?${IDENTIFIER}\\s+ADD\\s+(.*)$`, 'is');
+const UNIQUE_INDEX = new RegExp(`^CREATE\\s+UNIQUE\\s+(?:NULL_FILTERED\\s+)?INDEX\\s+\\S+\\s+ON\\s+${IDENTIFIER}\\s*\\(([^)]*)\\)`, 'i');
+
+const parseCreateTable = (statement: string, file: string): DdlTable | undefined => {
+  const header = statement.match(CREATE_TABLE);
+  if (!header) return undefined;
+  const open = header[0].length - 1;
+  const close = findClosingParen(statement, open);
+  if (close === -1) throw new Error(`${file}: unbalanced parentheses in CREATE TABLE ${unquote(header[1])}`);
+
+  const fullName = unquote(header[1]);
+  const parts = fullName.split('.');
+  const trailer = statement.slice(close + 1);
+  // Spanner declares the key after the column list and never qualifies names
+  const trailerKey = trailer.match(/^\s*PRIMARY\s+KEY\s*\(([^)]*)\)/i);
+  const isSpanner = !!trailerKey || /\bINTERLEAVE\s+IN\b/i.test(trailer);
+
+  const table: DdlTable = {
+    fullName,
+    name: parts[parts.length - 1],
+    project: parts.length >= 3 ? parts[parts.length - 3] : undefined,
+    dataset: parts.length >= 2 ? parts[parts.length - 2] : undefined,
+    dialect: isSpanner ? 'spanner' : 'bigquery',
+    columns: [],
+    primaryKey: trailerKey ? identifierList(trailerKey[1].replace(/\b(ASC|DESC)\b/gi, '')) : [],
+    uniqueColumns: [],
+    foreignKeys: [],
+    file
+  };
+
+  const interleave = trailer.match(new RegExp(`INTERLEAVE\\s+IN\\s+(?:PARENT\\s+)?${IDENTIFIER}`, 'i'));
+  if (interleave) table.interleavedIn = unquote(interleave[1]);
+  const tableOptions = readOptions(trailer);
+  if (tableOptions) table.description = readDescription(tableOptions);
+
+  splitTopLevel(statement.slice(open + 1, close), ',').forEach(definition => {
+    const constraintKey = definition.match(/^(?:CONSTRAINT\s+\S+\s+)?PRIMARY\s+KEY\s*\(([^)]*)\)/i);
+    if (constraintKey) {
+      table.primaryKey = identifierList(constraintKey[1]);
+      return;
+    }
+    const foreignKey = parseForeignKey(definition);
+    if (foreignKey) {
+      table.foreignKeys.push(foreignKey);
+      return;
+    }
+    if (/^(CONSTRAINT|CHECK|UNIQUE|INDEX)\b/i.test(definition)) return;
+
+    const parsed = parseColumn(definition);
+    if (!parsed) return;
+    table.columns.push(parsed.column);
+    if (parsed.inlinePrimaryKey) table.primaryKey = [parsed.column.name];
+    if (parsed.inlineReference) table.foreignKeys.push(parsed.inlineReference);
+  });
+
+  return table;
+};
+
+export const parseDdl = (files: DdlFile[]): DdlTable[] => {
+  const tables: DdlTable[] = [];
+  const findTable = (name: string) =>
+    tables.find(t => t.fullName === name) || tables.find(t => t.name === lastSegment(name));
+
+  files.forEach(file => {
+    splitTopLevel(stripComments(file.content), ';').forEach(statement => {
+      const table = parseCreateTable(statement, file.name);
+      if (table) {
+        tables.push(table);
+        return;
+      }
+      const alter = statement.match(ALTER_ADD);
+      if (alter) {
+        const target = findTable(unquote(alter[1]));
+        if (!target) return;
+        splitTopLevel(alter[2], ',').forEach(clause => {
+          const foreignKey = parseForeignKey(clause);
+          if (foreignKey) target.foreignKeys.push(foreignKey);
+          const primaryKey = clause.match(/^PRIMARY\s+KEY\s*\(([^)]*)\)/i);
+          if (primaryKey) target.primaryKey = identifierList(primaryKey[1]);
+        });
+        return;
+      }
+      const unique = statement.match(UNIQUE_INDEX);
+      if (unique) {
+        const columns = identifierList(unique[2].replace(/\b(ASC|DESC)\b/gi, ''));
+        const target = findTable(unquote(unique[1]));
+        if (target && columns.length === 1) target.uniqueColumns.push(columns[0]);
+      }
+    });
+  });
+  return tables;
+};
+
+// --- Mapping to the semantic model ---
+
+export const entityIdFor = (table: DdlTable) => `entity_${table.name}`;
+export const propertyIdFor = (table: DdlTable, column: string) => `prop_${table.name}_${column}`;
+
+const columnToProperty = (table: DdlTable, column: DdlColumn): Property => {
+  const property: Property = {
+    id: propertyIdFor(table, column.name),
+    name: humanizeIdentifier(column.name),
+    dataType: mapSqlTypeToDataType(column.type),
+    description: column.description || '',
+    binding: `${table.name}.${column.name}`,
+    bindingType: 'column',
+    bindingSystem: table.dialect,
+    bindingProject: table.project,
+    bindingDataset: table.dataset,
+    bindingTable: table.name,
+    bindingColumn: column.name
+  };
+  if (table.primaryKey.includes(column.name) || table.uniqueColumns.includes(column.name)) property.isUniqueKey = true;
+  if (column.generatedAs) {
+    property.isComputed = true;
+    property.definition = column.generatedAs;
+  }
+  return property;
+};
+
+export const ddlToModel = (files: DdlFile[]): SemanticModel => {
+  const tables = parseDdl(files);
+  if (tables.length === 0) {
+    throw new Error('No CREATE TABLE statements found.');
+  }
+  const findTable = (name: string) =>
+    tables.find(t => t.fullName === name) || tables.find(t => t.name === lastSegment(name));
+
+  const relationships: Relationship[] = [];
+  const addRelationship = (source: DdlTable, sourceColumns: string[], target: DdlTable, targetColumns: string[], description: string) => {
+    const sourceColumn = sourceColumns[0];
+    const targetColumn = targetColumns[0] || target.primaryKey[0];
+    // A linked column that is also the table's whole primary key points at most
+    // one row per target; a composite key is only linked by its first column,
+    // which does not
+    const isOneToOne = source.primaryKey.length === 1 && source.primaryKey[0] === sourceColumn;
+    const id = `rel_${source.name}_${sourceColumns.join('_')}_${target.name}`;
+    if (relationships.some(r => r.id === id)) return;
+    if (sourceColumns.length > 1) {
+      description += `. Only ${sourceColumn} = ${target.name}.${targetColumn} is linked; ${sourceColumns.slice(1).join(', ')} ${sourceColumns.length > 2 ? 'are' : 'is'} not part of the join`;
+    }
+    relationships.push({
+      id,
+      sourceEntityId: entityIdFor(source),
+      targetEntityId: entityIdFor(target),
+      sourcePropertyId: source.columns.some(c => c.name === sourceColumn) ? propertyIdFor(source, sourceColumn) : undefined,
+      targetPropertyId: targetColumn && target.columns.some(c => c.name === targetColumn) ? propertyIdFor(target, targetColumn) : undefined,
+      type: isOneToOne ? 'ONE_TO_ONE' : 'MANY_TO_ONE',
+      description
+    });
+  };
+
+  tables.forEach(table => {
+    table.foreignKeys.forEach(fk => {
+      const target = findTable(fk.referencedTable);
+      if (!target) return;
+      addRelationship(table, fk.columns, target, fk.referencedColumns,
+        `Foreign key ${fk.name ? `${fk.name} ` : ''}(${fk.columns.join(', ')}) references ${target.name} (${fk.referencedColumns.join(', ')})`);
+    });
+    if (table.interleavedIn) {
+      const parent = findTable(table.interleavedIn);
+      if (parent) {
+        // Interleaved children share the parent's key prefix
+        addRelationship(table, parent.primaryKey, parent, parent.primaryKey, `Interleaved in parent ${parent.name}`);
+      }
+    }
+  });
+
+  const referenced = new Set(relationships.map(r => r.targetEntityId));
+  const referencing = new Set(relationships.map(r => r.sourceEntityId));
+
+  const entities: Entity[] = tables.map(table => ({
+    id: entityIdFor(table),
+    name: humanizeIdentifier(table.name),
+    // Tables that only point outward are facts; tables only pointed at are dimensions
+    type: referencing.has(entityIdFor(table)) && !referenced.has(entityIdFor(table))
+      ? EntityType.FACT
+      : referenced.has(entityIdFor(table)) && !referencing.has(entityIdFor(table)) ? EntityType.DIMENSION : EntityType.ENTITY,
+    description: table.description || `Imported from ${table.dialect === 'spanner' ? 'Spanner' : 'BigQuery'} table ${table.fullName} (${table.file})`,
+    properties: table.columns.map(column => columnToProperty(table, column)),
+    bindings: [{ type: table.dialect === 'spanner' ? 'SPANNER' : 'BIGQUERY', resource: table.fullName }]
+  }));
+
+  const baseName = files.length === 1 ? files[0].name.replace(/\.(sql|ddl)$/i, '') : 'DDL Import';
+  return {
+    id: `ddl_${Date.now()}`,
+    name: humanizeIdentifier(baseName),
+    description: `Imported from ${files.map(f => f.name).join(', ')} on ${new Date().toLocaleDateString()}.`,
+    entities,
+    relationships,
+    createdAt: new Date(),
+    updatedAt: new Date()
+  };
+};
@@ -0,0 +1,357 @@
+import { SemanticModel, Entity, Property, PropertyType, AggregationType } from '../types';
+import { buildJoinGraph, enumerateJoinPaths, JoinEdge, JoinPath } from './joinPlanner';
+import { measureAggregation } from './measures';
+
+// References between properties. A computed property's definition can name
+// other properties as ${Property} on its own entity, ${Entity.Property} on
+// another one, or a bare ${Property} found on the nearest entity the
+// relationships connect it to. A reference to a measure outside an
+// aggregate makes the property a derived metric, computed from the
+// aggregated values (${Total Amount} / ${Trip Distance}); a reference to a
+// row-level property inlines its column or expression, so it can be
+// aggregated like any column (SUM(${Quantity} * ${Product.Unit Price})).
+// Inside an aggregate a column-bound measure is its column, a row value too.
+// The dependency graph is checked for:
+//   missing      unknown or ambiguous names
+//   unreachable  properties on entities no relationship path connects
+//   cycle        properties that end up depending on themselves
+//   type         arithmetic on non-numbers, aggregates of measures, row-level
+//                values next to aggregates, and declared types a plain
+//                reference does not have
+
+export interface PropertyRef {
+  entity: Entity;
+  property: Property;
+}
+
+export interface DefinitionReference {
+  // Text between ${ and }
+  text: string;
+  // Offsets of the whole ${...} in the definition
+  start: number;
+  end: number;
+  // Inside an aggregate call such as SUM(...)
+  inAggregate: boolean;
+  // Operand of + - * /
+  arithmetic: boolean;
+  target?: PropertyRef;
+  // Join path to the target's entity when that is another entity
+  path?: JoinPath;
+}
+
+export type DependencyLevel = 'row' | 'measure' | 'metric';
+
+export interface DependencyNode extends PropertyRef {
+  key: string;
+  references: DefinitionReference[];
+  // row: a value per row; measure: aggregates rows; metric: combines the
+  // aggregated values of other measures
+  level: DependencyLevel;
+}
+
+export const DEPENDENCY_LEVEL_LABELS: Record<DependencyLevel, string> = {
+  row: 'Row-level',
+  measure: 'Measure',
+  metric: 'Derived metric'
+};
+
+export type DependencyIssueKind = 'missing' | 'unreachable' | 'cycle' | 'type';
+
+export interface DependencyIssue extends PropertyRef {
+  kind: DependencyIssueKind;
+  message: string;
+}
+
+export interface DependencyGraph {
+  // Every property of the model by propertyKey
+  nodes: Map<string, DependencyNode>;
+  // Keys of the properties each property references, and is referenced by
+  dependsOn: Map<string, string[]>;
+  usedBy: Map<string, string[]>;
+  // Each cycle once, as keys in reference order
+  cycles: string[][];
+  issues: DependencyIssue[];
+}
+
+const NUMERIC_TYPES = new Set(['INTEGER', 'FLOAT', 'NUMERIC', 'BIGNUMERIC']);
+const TIME_TYPES = new Set(['DATE', 'TIMESTAMP', 'DATETIME', 'TIME']);
+const COUNTS = new Set([AggregationType.COUNT, AggregationType.COUNT_DISTINCT, AggregationType.APPROX_COUNT_DISTINCT]);
+
+const AGGREGATE_FUNCTION = /^(SUM|AVG|COUNT|COUNTIF|MIN|MAX|ANY_VALUE|ARRAY_AGG|STRING_AGG|APPROX_\w+|LOGICAL_AND|LOGICAL_OR|STDDEV\w*|VAR\w*)$/i;
+
+const isAggregate = (sql: string) => /\b(SUM|AVG|COUNT|MIN|MAX|COUNTIF|APPROX_\w+|STRING_AGG|ARRAY_AGG|ANY_VALUE)\s*\(/i.test(sql);
+
+const expressionOf = (property: Property): string | undefined => {
+  if (property.isComputed && property.definition) return property.definition;
+  if (property.bindingType === 'expression' && property.binding) return property.binding;
+  return undefined;
+};
+
+const findEntity = (model: SemanticModel, key: string) => {
+  const lower = key.trim().toLowerCase();
+  return model.entities.find(e => e.id === key) || model.entities.find(e => e.name.toLowerCase() === lower);
+};
+
+const findProperty = (entity: Entity, key: string) => {
+  const lower = key.trim().toLowerCase();
+  return entity.properties.find(p => p.id === key) || entity.properties.find(p => p.name.toLowerCase() === lower);
+};
+
+export const propertyKey = (ref: PropertyRef) => `${ref.entity.id}:${ref.property.id}`;
+
+export const referenceLabel = (ref: PropertyRef) => `${ref.entity.name}.${ref.property.name}`;
+
+// The ${...} references of a definition, skipping string literals
+export const parseReferences = (definition: string): DefinitionReference[] => {
+  const references: DefinitionReference[] = [];
+  // Function name, or '' for a plain parenthesis, per open parenthesis
+  const calls: string[] = [];
+  for (let i = 0; i < definition.length; i++) {
+    const ch = definition[i];
+    if (ch === "'" || ch === '"') {
+      for (i++; i < definition.length && definition[i] !== ch; i++) {
+        if (definition[i] === '\\') i++;
+      }
+      continue;
+    }
+    if (ch === '$' && definition[i + 1] === '{') {
+      const close = definition.indexOf('}', i + 2);
+      if (close < 0) break;
+      const before = definition.slice(0, i).trimEnd().slice(-1);
+      const after = definition.slice(close + 1).trimStart().charAt(0);
+      references.push({
+        text: definition.slice(i + 2, close).trim(),
+        start: i,
+        end: close + 1,
+        inAggregate: calls.some(fn => AGGREGATE_FUNCTION.test(fn)),
+        arithmetic: /[-+*/]/.test(before) || /[-+*/]/.test(after)
+      });
+      i = close;
+      continue;
+    }
+    if (ch === '(') calls.push(definition.slice(0, i).match(/([A-Za-z_]\w*)\s*$/)?.[1] || '');
+    if (ch === ')') calls.pop();
+  }
+  return references;
+};
+
+interface Resolution {
+  target?: PropertyRef;
+  path?: JoinPath;
+  problem?: { kind: DependencyIssueKind; message: string };
+}
+
+const resolveReference = (model: SemanticModel, entity: Entity, text: string, joinGraph: Map<string, JoinEdge[]>): Resolution => {
+  const reach = (other: Entity, property: Property): Resolution => {
+    const target = { entity: other, property };
+    if (other.id === entity.id) return { target };
+    const [path] = enumerateJoinPaths(model, entity.id, other.id, 0, joinGraph);
+    if (path) return { target, path };
+    return { target, problem: { kind: 'unreachable', message: `\${${text}} is on ${other.name}, which no relationship connects to ${entity.name}` } };
+  };
+
+  const own = findProperty(entity, text);
+  if (own) return { target: { entity, property: own } };
+
+  // Entity.Property, trying every split since names may contain dots
+  let named: { entity: Entity; property: string } | undefined;
+  for (let i = text.indexOf('.'); i > 0; i = text.indexOf('.', i + 1)) {
+    const other = findEntity(model, text.slice(0, i));
+    const property = other && findProperty(other, text.slice(i + 1));
+    if (property) return reach(other!, property);
+    if (other && !named) named = { entity: other, property: text.slice(i + 1).trim() };
+  }
+  if (named) return { problem: { kind: 'missing', message: `${named.entity.name} has no property "${named.property}"` } };
+
+  // A bare name on the nearest entity that has it
+  const matches = model.entities
+    .filter(e => e.id !== entity.id && findProperty(e, text))
+    .map(e => ({ entity: e, property: findProperty(e, text)!, path: enumerateJoinPaths(model, entity.id, e.id, 0, joinGraph)[0] }));
+  const reachable = matches.filter(m => m.path).sort((a, b) => a.path.edges.length - b.path.edges.length);
+  if (reachable.length > 1 && reachable[1].path.edges.length === reachable[0].path.edges.length) {
+    const names = reachable.filter(m => m.path.edges.length === reachable[0].path.edges.length).map(m => m.entity.name);
+    return { problem: { kind: 'missing', message: `\${${text}} is ambiguous between ${names.join(' and ')}; write \${${names[0]}.${reachable[0].property.name}}` } };
+  }
+  if (reachable.length > 0) return { target: { entity: reachable[0].entity, property: reachable[0].property }, path: reachable[0].path };
+  if (matches.length > 0) return reach(matches[0].entity, matches[0].property);
+  return { problem: { kind: 'missing', message: `No property "${text}" on ${entity.name} or a related entity` } };
+};
+
+export const buildDependencyGraph = (model: SemanticModel): DependencyGraph => {
+  const joinGraph = buildJoinGraph(model);
+  const nodes = new Map<string, DependencyNode>();
+  const dependsOn = new Map<string, string[]>();
+  const usedBy = new Map<string, string[]>();
+  const issues: DependencyIssue[] = [];
+
+  model.entities.forEach(entity => entity.properties.forEach(property => {
+    const key = propertyKey({ entity, property });
+    const references = parseReferences(expressionOf(property) || '').map(reference => {
+      const { target, path, problem } = resolveReference(model, entity, reference.text, joinGraph);
+      if (problem) issues.push({ entity, property, ...problem });
+      return { ...reference, target, path };
+    });
+    nodes.set(key, { entity, property, key, references, level: 'row' });
+    usedBy.set(key, usedBy.get(key) || []);
+  }));
+  nodes.forEach(node => {
+    const targets = [...new Set(node.references.filter(r => r.target).map(r => propertyKey(r.target!)))];
+    dependsOn.set(node.key, targets);
+    targets.forEach(target => usedBy.get(target)!.push(node.key));
+  });
+
+  // Cycles, found as back edges of a depth-first walk
+  const cycles: string[][] = [];
+  const seen = new Set<string>();
+  const state = new Map<string, 'open' | 'done'>();
+  const stack: string[] = [];
+  const walk = (key: string) => {
+    state.set(key, 'open');
+    stack.push(key);
+    dependsOn.get(key)!.forEach(next => {
+      if (state.get(next) === 'open') {
+        const cycle = stack.slice(stack.indexOf(next));
+        const signature = [...cycle].sort().join(' ');
+        if (!seen.has(signature)) {
+          seen.add(signature);
+          cycles.push(cycle);
+        }
+      } else if (!state.has(next)) {
+        walk(next);
+      }
+    });
+    stack.pop();
+    state.set(key, 'done');
+  };
+  nodes.forEach((_, key) => state.has(key) || walk(key));
+  const inCycle = new Set(cycles.flat());
+  cycles.forEach(cycle => {
+    const path = [...cycle, cycle[0]].map(key => referenceLabel(nodes.get(key)!)).join(' → ');
+    cycle.forEach(key => issues.push({ ...nodes.get(key)!, kind: 'cycle', message: `Circular reference: ${path}` }));
+  });
+
+  // Levels follow the references; properties in cycles keep their own
+  const settled = new Set<string>();
+  const levelOf = (key: string): DependencyLevel => {
+    const node = nodes.get(key)!;
+    if (settled.has(key)) return node.level;
+    settled.add(key);
+    const expression = expressionOf(node.property);
+    const aggregates = node.property.propertyType === PropertyType.MEASURE || (!!expression && isAggregate(expression));
+    const combines = !inCycle.has(key) && node.references.some(r => r.target && !r.inAggregate && levelOf(propertyKey(r.target)) !== 'row');
+    node.level = combines ? 'metric' : aggregates ? 'measure' : 'row';
+    return node.level;
+  };
+  nodes.forEach((_, key) => levelOf(key));
+
+  // Column-bound measures have a value per row as well as an aggregated one
+  const isColumnMeasure = (ref: PropertyRef) => nodes.get(propertyKey(ref))!.level === 'measure' && !expressionOf(ref.property);
+  // Type of the value a reference stands for: counts are numbers whatever
+  // the counted property's type
+  const valueType = (ref: PropertyRef, inAggregate = false) => {
+    const node = nodes.get(propertyKey(ref))!;
+    const aggregation = node.level === 'measure' && !(inAggregate && isColumnMeasure(ref))
+      ? measureAggregation(ref.property, expressionOf(ref.property))
+      : undefined;
+    return aggregation && COUNTS.has(aggregation) ? 'INTEGER' : ref.property.dataType?.toUpperCase() || '';
+  };
+
+  nodes.forEach(node => {
+    const { entity, property, references, level } = node;
+    const resolved = references.filter(r => r.target);
+    resolved.forEach(r => {
+      const label = `\${${r.text}}`;
+      const type = valueType(r.target!, r.inAggregate);
+      const targetLevel = nodes.get(propertyKey(r.target!))!.level;
+      if (r.arithmetic && type && !NUMERIC_TYPES.has(type) && !TIME_TYPES.has(type)) {
+        issues.push({ entity, property, kind: 'type', message: `${label} is ${type}; arithmetic needs a number` });
+      }
+      if (r.inAggregate && targetLevel !== 'row' && !isColumnMeasure(r.target!)) {
+        issues.push({ entity, property, kind: 'type', message: `${label} is already aggregated and cannot be aggregated again` });
+      }
+      if (level === 'metric' && !r.inAggregate && targetLevel === 'row') {
+        issues.push({ entity, property, kind: 'type', message: `${label} is a row-level value next to aggregated measures; wrap it in an aggregate` });
+      }
+    });
+    if (level === 'metric' && property.propertyType === PropertyType.DIMENSION) {
+      issues.push({ entity, property, kind: 'type', message: `Dimension ${property.name} references measures; make it a measure` });
+    }
+    // A plain alias of another property has that property's type
+    const single = resolved.length === 1 && /^\$\{[^}]+\}$/.test(expressionOf(property)!.trim());
+    const declared = property.dataType?.toUpperCase();
+    const actual = single ? valueType(resolved[0].target!) : '';
+    if (single && declared && actual && declared !== actual && !(NUMERIC_TYPES.has(declared) && NUMERIC_TYPES.has(actual))) {
+      issues.push({ entity, property, kind: 'type', message: `${property.name} is declared ${declared} but \${${resolved[0].text}} is ${actual}` });
+    }
+  });
+
+  return { nodes, dependsOn, usedBy, cycles, issues };
+};
+
+// Keys of every property a property depends on, directly or not
+export const upstreamOf = (graph: DependencyGraph, key: string): string[] => {
+  const found = new Set<string>();
+  const visit = (current: string) => (graph.dependsOn.get(current) || []).forEach(next => {
+    if (found.has(next) || next === key) return;
+    found.add(next);
+    visit(next);
+  });
+  visit(key);
+  return [...found];
+};
+
+export const downstreamOf = (graph: DependencyGraph, key: string): string[] => {
+  const found = new Set<string>();
+  const visit = (current: string) => (graph.usedBy.get(current) || []).forEach(next => {
+    if (found.has(next) || next === key) return;
+    found.add(next);
+    visit(next);
+  });
+  visit(key);
+  return [...found];
+};
+
+export const issuesOf = (graph: DependencyGraph, ref: PropertyRef): DependencyIssue[] =>
+  graph.issues.filter(issue => issue.entity.id === ref.entity.id && issue.property.id === ref.property.id);
+
+// The model with one property's definition replaced, to check a definition
+// while it is being edited
+export const withDefinition = (model: SemanticModel, entityId: string, propertyId: string, definition: string): SemanticModel => ({
+  ...model,
+  entities: model.entities.map(entity => entity.id !== entityId ? entity : {
+    ...entity,
+    properties: entity.properties.map(p => p.id !== propertyId ? p : { ...p, isComputed: true, definition })
+  })
+});
+
+// A property's definition with its references to row-level properties of the
+// same entity inlined, for generators that evaluate definitions on their own
+// tables: columns as given by `columnOf` (also for column-bound measures
+// inside an aggregate), expressions recursively and in parentheses. Undefined when a reference cannot be inlined that way.
+export const inlineRowReferences = (
+  graph: DependencyGraph,
+  ref: PropertyRef,
+  columnOf: (property: Property) => string | undefined,
+  visiting = new Set<string>()
+): string | undefined => {
+  const key = propertyKey(ref);
+  const expression = expressionOf(ref.property);
+  if (!expression || visiting.has(key)) return undefined;
+  visiting.add(key);
+  let sql = '';
+  let last = 0;
+  for (const reference of graph.nodes.get(key)?.references || []) {
+    const target = reference.target;
+    if (!target || target.entity.id !== ref.entity.id) return undefined;
+    // Inside an aggregate a column-bound measure stands for its column
+    const level = graph.nodes.get(propertyKey(target))?.level;
+    if (level !== 'row' && !(reference.inAggregate && level === 'measure' && !expressionOf(target.property))) return undefined;
+    const column = columnOf(target.property);
+    const nested = column ? undefined : inlineRowReferences(graph, target, columnOf, visiting);
+    if (!column && !nested) return undefined;
+    sql += expression.slice(last, reference.start) + (column || `(${nested})`);
+    last = reference.end;
+  }
+  visiting.delete(key);
+  return sql + expression.slice(last);
+};
@@ -0,0 +1,442 @@
+import { SemanticModel, Entity, Property, Relationship, AspectType, AspectAssignment, GlossaryTerm, EntityType, PropertyType, Additivity } from '../types';
+import { ArchiveFile } from './zipArchive';
+import { escapeHtml, renderWikiMarkdown } from './wikiMarkdown';
+import { modelToMermaid, subgraphAround, ENTITY_TYPE_COLORS } from './erDiagram';
+import { AGGREGATION_LABELS, ADDITIVITY_LABELS, measureAggregation, measureAdditivity, snapshotPropertyOf } from './measures';
+
+// Static data dictionary for a model, as a self-contained HTML site or as
+// Markdown for a repository wiki:
+//   index      overview, model diagram, entity and relationship tables
+//   entities/  a page per entity with its description and overview, a
+//              diagram of its neighbourhood, properties with bindings,
+//              aspects and glossary terms, and links to related entities
+//   glossary   the glossary terms in use and where they are used
+// HTML pages embed SVG diagrams so the site works offline; Markdown pages use
+// Mermaid blocks, which GitHub and GitLab render in place.
+
+export type DocsFormat = 'html' | 'markdown';
+
+export interface DocsSiteOptions {
+  format?: DocsFormat;
+  // Display names for aspect types; unknown aspects show their id
+  aspectTypes?: AspectType[];
+}
+
+const CARDINALITY: Record<Relationship['type'], string> = {
+  ONE_TO_ONE: 'one-to-one',
+  ONE_TO_MANY: 'one-to-many',
+  MANY_TO_ONE: 'many-to-one',
+  MANY_TO_MANY: 'many-to-many'
+};
+
+const INVERSE: Record<Relationship['type'], Relationship['type']> = {
+  ONE_TO_ONE: 'ONE_TO_ONE',
+  ONE_TO_MANY: 'MANY_TO_ONE',
+  MANY_TO_ONE: 'ONE_TO_MANY',
+  MANY_TO_MANY: 'MANY_TO_MANY'
+};
+
+const SHORT_CARDINALITY: Record<Relationship['type'], string> = {
+  ONE_TO_ONE: '1:1',
+  ONE_TO_MANY: '1:N',
+  MANY_TO_ONE: 'N:1',
+  MANY_TO_MANY: 'N:M'
+};
+
+// Beyond this the overview circle gets too large to read
+const MAX_OVERVIEW_DIAGRAM = 40;
+
+const slugify = (name: string) => name.trim().toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-+|-+$/g, '') || 'item';
+
+interface EntityLink {
+  rel: Relationship;
+  other: Entity;
+  // Cardinality read from this entity's side
+  type: Relationship['type'];
+  from?: Property;
+  to?: Property;
+}
+
+interface TermUsage {
+  term: GlossaryTerm;
+  slug: string;
+  usedBy: { entity?: Entity; property?: Property }[];
+}
+
+interface DocsPlan {
+  model: SemanticModel;
+  slugs: Map<string, string>;
+  links: Map<string, EntityLink[]>;
+  terms: Map<string, TermUsage>;
+  aspectName: (assignment: AspectAssignment) => string;
+}
+
+const plan = (model: SemanticModel, options: DocsSiteOptions): DocsPlan => {
+  const used = new Set<string>();
+  const slugs = new Map(model.entities.map(entity => {
+    let slug = slugify(entity.name);
+    for (let n = 2; used.has(slug); n++) slug = `${slugify(entity.name)}-${n}`;
+    used.add(slug);
+    return [entity.id, slug];
+  }));
+
+  const byId = new Map(model.entities.map(e => [e.id, e]));
+  const links = new Map<string, EntityLink[]>(model.entities.map(e => [e.id, []]));
+  model.relationships.forEach(rel => {
+    const source = byId.get(rel.sourceEntityId);
+    const target = byId.get(rel.targetEntityId);
+    if (!source || !target) return;
+    const sourceProperty = source.properties.find(p => p.id === rel.sourcePropertyId);
+    const targetProperty = target.properties.find(p => p.id === rel.targetPropertyId);
+    links.get(source.id)!.push({ rel, other: target, type: rel.type, from: sourceProperty, to: targetProperty });
+    if (source.id !== target.id) links.get(target.id)!.push({ rel, other: source, type: INVERSE[rel.type], from: targetProperty, to: sourceProperty });
+  });
+
+  const terms = new Map<string, TermUsage>();
+  const termSlugs = new Set<string>();
+  const addTerms = (list: GlossaryTerm[] | undefined, usage: TermUsage['usedBy'][number]) => (list || []).forEach(term => {
+    if (!terms.has(term.id)) {
+      let slug = slugify(term.name);
+      for (let n = 2; termSlugs.has(slug); n++) slug = `${slugify(term.name)}-${n}`;
+      termSlugs.add(slug);
+      terms.set(term.id, { term, slug, usedBy: [] });
+    }
+    terms.get(term.id)!.usedBy.push(usage);
+  });
+  addTerms(model.glossaryTerms, {});
+  model.entities.forEach(entity => {
+    addTerms(entity.glossaryTerms, { entity });
+    entity.properties.forEach(property => addTerms(property.glossaryTerms, { entity, property }));
+  });
+
+  const aspectName = (assignment: AspectAssignment) =>
+    options.aspectTypes?.find(t => t.id === assignment.aspectTypeId)?.name || assignment.aspectTypeId;
+
+  return { model, slugs, links, terms, aspectName };
+};
+
+const bindingOf = (property: Property): { kind: 'column' | 'expression'; text: string } | undefined => {
+  if (property.isComputed && property.definition) return { kind: 'expression', text: property.definition };
+  if (property.bindingType === 'expression' && property.binding) return { kind: 'expression', text: property.binding };
+  if (property.bindingTable && property.bindingColumn) {
+    return { kind: 'column', text: [property.bindingProject, property.bindingDataset, property.bindingTable, property.bindingColumn].filter(Boolean).join('.') };
+  }
+  return property.binding ? { kind: 'column', text: property.binding } : undefined;
+};
+
+// "sum · semi-additive over Snapshot Date" for measures
+const measureSummary = (entity: Entity, property: Property): string | undefined => {
+  if (property.propertyType !== PropertyType.MEASURE) return undefined;
+  const binding = bindingOf(property);
+  const aggregation = measureAggregation(property, binding?.kind === 'expression' ? binding.text : undefined);
+  const additivity = measureAdditivity(property, aggregation);
+  const snapshot = snapshotPropertyOf(entity, property);
+  return [
+    aggregation && AGGREGATION_LABELS[aggregation].toLowerCase(),
+    additivity === Additivity.SEMI_ADDITIVE && snapshot ? `semi-additive over ${snapshot.name}` : ADDITIVITY_LABELS[additivity].toLowerCase()
+  ].filter(Boolean).join(' · ');
+};
+
+const aspectValues = (assignment: AspectAssignment) =>
+  Object.entries(assignment.values || {}).filter(([, value]) => value !== undefined && value !== null && value !== '');
+
+const sortedTerms = (docs: DocsPlan) =>
+  [...docs.terms.values()].sort((a, b) => (a.term.domain || '').localeCompare(b.term.domain || '') || a.term.name.localeCompare(b.term.name));
+
+// --- HTML ---
+
+const STYLE = `:root { --border: #e5e7eb; --muted: #6b7280; --accent: #2563eb; }
+* { box-sizing: border-box; }
+body { margin: 0; font: 15px/1.55 -apple-system, BlinkMacSystemFont, "Segoe UI", Roboto, Helvetica, Arial, sans-serif; color: #111827; background: #f9fafb; }
+header { background: #fff; border-bottom: 1px solid var(--border); padding: 14px 32px; display: flex; gap: 24px; align-items: baseline; }
+header .brand { font-weight: 600; color: #111827; text-decoration: none; }
+header nav a { color: var(--muted); text-decoration: none; margin-right: 16px; }
+main { max-width: 1120px; margin: 0 auto; padding: 32px; }
+footer { max-width: 1120px; margin: 0 auto; padding: 16px 32px 48px; color: var(--muted); font-size: 13px; }
+a { color: var(--accent); }
+h1 { margin: 0 0 8px; font-size: 28px; }
+h2 { margin: 36px 0 12px; font-size: 19px; border-bottom: 1px solid var(--border); padding-bottom: 6px; }
+.lead { font-size: 16px; color: #374151; }
+.muted { color: var(--muted); }
+.badge { display: inline-block; font-size: 11px; font-weight: 600; letter-spacing: .04em; padding: 2px 8px; border-radius: 999px; border: 1px solid var(--border); vertical-align: middle; margin-left: 6px; }
+.badge.key { background: #fef3c7; border-color: #fcd34d; }
+table { width: 100%; border-collapse: collapse; background: #fff; border: 1px solid var(--border); font-size: 14px; }
+th, td { text-align: left; vertical-align: top; padding: 8px 10px; border-bottom: 1px solid var(--border); }
+th { background: #f3f4f6; font-weight: 600; }
+code { font: 12.5px ui-monospace, SFMono-Regular, Menlo, monospace; background: #f3f4f6; padding: 1px 4px; border-radius: 4px; word-break: break-word; }
+dl { margin: 0; } dt { font-weight: 600; font-size: 12px; color: var(--muted); } dd { margin: 0 0 4px; }
+.card { background: #fff; border: 1px solid var(--border); border-radius: 10px; padding: 16px 20px; }
+.diagram { background: #fff; border: 1px solid var(--border); border-radius: 10px; padding: 12px; overflow-x: auto; }
+.terms a { margin-right: 8px; }
+`;
+
+const page = (docs: DocsPlan, title: string, depth: number, body: string) => {
+  const root = depth ? '../'.repeat(depth) : '';
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<meta name="viewport" content="width=device-width, initial-scale=1">
+<title>${escapeHtml(title)} · ${escapeHtml(docs.model.name)}</title>
+<link rel="stylesheet" href="${root}style.css">
+</head>
+<body>
+<header>
+<a class="brand" href="${root}index.html">${escapeHtml(docs.model.name)}</a>
+<nav><a href="${root}index.html#entities">Entities</a><a href="${root}index.html#relationships">Relationships</a><a href="${root}glossary.html">Glossary</a></nav>
+</header>
+<main>
+${body}
+</main>
+<footer>Data dictionary generated ${new Date().toISOString().slice(0, 10)}</footer>
+</body>
+</html>
+`;
+};
+
+const entityHref = (docs: DocsPlan, entity: Entity, depth: number) => `${depth ? '' : 'entities/'}${docs.slugs.get(entity.id)}.html`;
+
+// Neighbourhood diagram: the focus entity in the middle, everything else on a circle
+const diagramSvg = (docs: DocsPlan, entityIds: string[], depth: number, focusId?: string) => {
+  const entities = docs.model.entities.filter(e => entityIds.includes(e.id));
+  const ring = entities.filter(e => e.id !== focusId);
+  const boxWidth = 170;
+  const boxHeight = 46;
+  const radius = ring.length <= 1 && !focusId ? 0 : Math.max(150, ring.length * 34);
+  const width = radius * 2 + boxWidth + 80;
+  const height = radius * 2 + boxHeight + 80;
+  const cx = width / 2;
+  const cy = height / 2;
+  const positions = new Map<string, { x: number; y: number }>();
+  if (focusId) positions.set(focusId, { x: cx, y: cy });
+  ring.forEach((entity, index) => {
+    const angle = (2 * Math.PI * index) / ring.length - Math.PI / 2;
+    positions.set(entity.id, { x: cx + radius * Math.cos(angle), y: cy + radius * Math.sin(angle) });
+  });
+
+  const edges = docs.model.relationships
+    .filter(rel => rel.sourceEntityId !== rel.targetEntityId && positions.has(rel.sourceEntityId) && positions.has(rel.targetEntityId))
+    .map(rel => {
+      const a = positions.get(rel.sourceEntityId)!;
+      const b = positions.get(rel.targetEntityId)!;
+      const label = `${SHORT_CARDINALITY[rel.type]}${rel.label ? ` ${rel.label}` : ''}`;
+      return `<line x1="${a.x}" y1="${a.y}" x2="${b.x}" y2="${b.y}" stroke="#9ca3af" stroke-width="1.5"/>` +
+        `<text x="${(a.x + b.x) / 2}" y="${(a.y + b.y) / 2 - 4}" text-anchor="middle" font-size="11" fill="#4b5563" paint-order="stroke" stroke="#fff" stroke-width="4">${escapeHtml(label)}</text>`;
+    });
+  const nodes = entities.map(entity => {
+    const { x, y } = positions.get(entity.id)!;
+    const type = entity.type || EntityType.ENTITY;
+    const name = entity.name.length > 24 ? `${entity.name.slice(0, 23)}…` : entity.name;
+    return `<a href="${entityHref(docs, entity, depth)}"><g>` +
+      `<rect x="${x - boxWidth / 2}" y="${y - boxHeight / 2}" width="${boxWidth}" height="${boxHeight}" rx="8" fill="${ENTITY_TYPE_COLORS[type]}" stroke="${entity.id === focusId ? '#2563eb' : '#d1d5db'}" stroke-width="${entity.id === focusId ? 2 : 1}"/>` +
+      `<text x="${x}" y="${y - 3}" text-anchor="middle" font-size="13" font-weight="600" fill="#111827">${escapeHtml(name)}</text>` +
+      `<text x="${x}" y="${y + 13}" text-anchor="middle" font-size="10" fill="#6b7280">${type}</text></g></a>`;
+  });
+  return `<div class="diagram"><svg xmlns="http://www.w3.org/2000/svg" width="${width}" height="${height}" viewBox="0 0 ${width} ${height}" font-family="Helvetica, Arial, sans-serif" role="img" aria-label="Entity relationship diagram">${edges.join('')}${nodes.join('')}</svg></div>`;
+};
+
+const aspectsHtml = (docs: DocsPlan, aspects?: AspectAssignment[]) =>
+  (aspects || []).map(assignment => `<dl><dt>${escapeHtml(docs.aspectName(assignment))}</dt>${aspectValues(assignment)
+    .map(([key, value]) => `<dd>${escapeHtml(key)}: ${escapeHtml(String(value))}</dd>`).join('')}</dl>`).join('');
+
+const termsHtml = (docs: DocsPlan, terms: GlossaryTerm[] | undefined, depth: number) =>
+  (terms || []).map(term => `<a href="${depth ? '../' : ''}glossary.html#${docs.terms.get(term.id)!.slug}">${escapeHtml(term.name)}</a>`).join(' ');
+
+const descriptionHtml = (description?: string, overview?: string) => {
+  const parts: string[] = [];
+  if (description) parts.push(`<p class="lead">${renderWikiMarkdown(description)}</p>`);
+  if (overview && overview !== description) parts.push(`<h2>Overview</h2><div class="card">${renderWikiMarkdown(overview)}</div>`);
+  return parts.join('\n');
+};
+
+const entityPageHtml = (docs: DocsPlan, entity: Entity) => {
+  const links = docs.links.get(entity.id)!;
+  const sections = [
+    `<h1>${escapeHtml(entity.name)}<span class="badge">${entity.type || EntityType.ENTITY}</span></h1>`,
+    descriptionHtml(entity.description, entity.overview) || '<p class="muted">No description.</p>'
+  ];
+  if (entity.bindings?.length) {
+    sections.push(`<h2>Bindings</h2><ul>${entity.bindings.map(b => `<li>${b.type}: <code>${escapeHtml(b.resource)}</code></li>`).join('')}</ul>`);
+  }
+  sections.push(`<h2>Diagram</h2>${diagramSvg(docs, subgraphAround(docs.model, entity.id), 1, entity.id)}`);
+  sections.push(`<h2>Properties</h2><table><thead><tr><th>Property</th><th>Type</th><th>Binding</th><th>Description</th><th>Aspects</th><th>Glossary</th></tr></thead><tbody>${
+    entity.properties.map(property => {
+      const binding = bindingOf(property);
+      const summary = measureSummary(entity, property);
+      return `<tr id="${slugify(property.name)}"><td><strong>${escapeHtml(property.name)}</strong>${property.isUniqueKey ? '<span class="badge key">KEY</span>' : ''}` +
+        `${property.propertyType ? `<div class="muted">${property.propertyType.toLowerCase()}</div>` : ''}` +
+        `${summary ? `<div class="muted">${escapeHtml(summary)}</div>` : ''}</td>` +
+        `<td><code>${escapeHtml(property.dataType || 'STRING')}</code></td>` +
+        `<td>${binding ? `${binding.kind === 'expression' ? '<span class="muted">expression</span><br>' : ''}<code>${escapeHtml(binding.text)}</code>` : '<span class="muted">unbound</span>'}</td>` +
+        `<td>${renderWikiMarkdown(property.overview || property.description || '')}</td>` +
+        `<td>${aspectsHtml(docs, property.aspects)}</td><td class="terms">${termsHtml(docs, property.glossaryTerms, 1)}</td></tr>`;
+    }).join('')
+  }</tbody></table>`);
+  if (links.length) {
+    sections.push(`<h2>Relationships</h2><table><thead><tr><th>Related entity</th><th>Cardinality</th><th>Label</th><th>Join</th><th>Description</th></tr></thead><tbody>${
+      links.map(link => `<tr><td><a href="${entityHref(docs, link.other, 1)}">${escapeHtml(link.other.name)}</a></td>` +
+        `<td>${CARDINALITY[link.type]}</td><td>${escapeHtml(link.rel.label || link.rel.title || '')}</td>` +
+        `<td>${link.from && link.to ? `<code>${escapeHtml(link.from.name)}</code> → <a href="${entityHref(docs, link.other, 1)}#${slugify(link.to.name)}"><code>${escapeHtml(link.to.name)}</code></a>` : ''}</td>` +
+        `<td>${escapeHtml(link.rel.description || '')}</td></tr>`).join('')
+    }</tbody></table>`);
+  }
+  if (entity.aspects?.length) sections.push(`<h2>Aspects</h2><div class="card">${aspectsHtml(docs, entity.aspects)}</div>`);
+  if (entity.glossaryTerms?.length) sections.push(`<h2>Glossary terms</h2><p class="terms">${termsHtml(docs, entity.glossaryTerms, 1)}</p>`);
+  return page(docs, entity.name, 1, sections.join('\n'));
+};
+
+const indexHtml = (docs: DocsPlan) => {
+  const { model } = docs;
+  const byId = new Map(model.entities.map(e => [e.id, e]));
+  const sections = [
+    `<h1>${escapeHtml(model.name)}</h1>`,
+    model.domain ? `<p class="muted">Domain: ${escapeHtml(model.domain)}</p>` : '',
+    descriptionHtml(model.description, model.overview),
+    `<h2>Diagram</h2>${model.entities.length <= MAX_OVERVIEW_DIAGRAM
+      ? diagramSvg(docs, model.entities.map(e => e.id), 0)
+      : `<p class="muted">The model has ${model.entities.length} entities; each entity page shows its neighbourhood.</p>`}`,
+    `<h2 id="entities">Entities</h2><table><thead><tr><th>Entity</th><th>Type</th><th>Properties</th><th>Description</th></tr></thead><tbody>${
+      model.entities.map(entity => `<tr><td><a href="${entityHref(docs, entity, 0)}">${escapeHtml(entity.name)}</a></td><td>${entity.type || EntityType.ENTITY}</td>` +
+        `<td>${entity.properties.length}</td><td>${renderWikiMarkdown((entity.description || '').split('\n')[0])}</td></tr>`).join('')
+    }</tbody></table>`
+  ];
+  if (model.relationships.length) {
+    sections.push(`<h2 id="relationships">Relationships</h2><table><thead><tr><th>From</th><th>Cardinality</th><th>To</th><th>Label</th><th>Description</th></tr></thead><tbody>${
+      model.relationships.filter(rel => byId.has(rel.sourceEntityId) && byId.has(rel.targetEntityId)).map(rel => {
+        const source = byId.get(rel.sourceEntityId)!;
+        const target = byId.get(rel.targetEntityId)!;
+        return `<tr><td><a href="${entityHref(docs, source, 0)}">${escapeHtml(source.name)}</a></td><td>${CARDINALITY[rel.type]}</td>` +
+          `<td><a href="${entityHref(docs, target, 0)}">${escapeHtml(target.name)}</a></td><td>${escapeHtml(rel.label || rel.title || '')}</td><td>${escapeHtml(rel.description || '')}</td></tr>`;
+      }).join('')
+    }</tbody></table>`);
+  }
+  if (model.aspects?.length) sections.push(`<h2>Aspects</h2><div class="card">${aspectsHtml(docs, model.aspects)}</div>`);
+  if (model.glossaryTerms?.length) sections.push(`<h2>Glossary terms</h2><p class="terms">${termsHtml(docs, model.glossaryTerms, 0)}</p>`);
+  return page(docs, 'Overview', 0, sections.filter(Boolean).join('\n'));
+};
+
+const glossaryHtml = (docs: DocsPlan) => {
+  const terms = sortedTerms(docs);
+  const body = terms.length === 0
+    ? '<p class="muted">The model links no glossary terms.</p>'
+    : `<table><thead><tr><th>Term</th><th>Domain</th><th>Definition</th><th>Used by</th></tr></thead><tbody>${terms.map(({ term, slug, usedBy }) =>
+      `<tr id="${slug}"><td><strong>${escapeHtml(term.name)}</strong></td><td>${escapeHtml(term.domain || '')}</td><td>${renderWikiMarkdown(term.description || '')}</td><td>${
+        usedBy.map(({ entity, property }) => !entity
+          ? 'the model'
+          : `<a href="${entityHref(docs, entity, 0)}${property ? `#${slugify(property.name)}` : ''}">${escapeHtml(property ? `${entity.name}.${property.name}` : entity.name)}</a>`).join(', ')
+      }</td></tr>`).join('')}</tbody></table>`;
+  return page(docs, 'Glossary', 0, `<h1>Glossary</h1>\n${body}`);
+};
+
+// --- Markdown ---
+
+const cell = (text: string | undefined) => (text || '').replace(/\|/g, '\\|').replace(/\r?\n/g, '<br>');
+
+const mermaidBlock = (model: SemanticModel, entityIds?: string[]) =>
+  `\`\`\`mermaid\n${modelToMermaid(model, { entityIds })}\`\`\``;
+
+const aspectsMarkdown = (docs: DocsPlan, aspects?: AspectAssignment[]) =>
+  (aspects || []).map(assignment => `${docs.aspectName(assignment)} (${aspectValues(assignment).map(([key, value]) => `${key}: ${value}`).join(', ')})`).join('; ');
+
+const termsMarkdown = (docs: DocsPlan, terms: GlossaryTerm[] | undefined, depth: number) =>
+  (terms || []).map(term => `[${term.name}](${depth ? '../' : ''}glossary.md#${docs.terms.get(term.id)!.slug})`).join(', ');
+
+const entityMdHref = (docs: DocsPlan, entity: Entity, depth: number) => `${depth ? '' : 'entities/'}${docs.slugs.get(entity.id)}.md`;
+
+const descriptionMarkdown = (description?: string, overview?: string) => [
+  ...(description ? [description, ''] : []),
+  ...(overview && overview !== description ? ['## Overview', '', overview, ''] : [])
+];
+
+const entityPageMarkdown = (docs: DocsPlan, entity: Entity) => {
+  const links = docs.links.get(entity.id)!;
+  const lines = [
+    `[${docs.model.name}](../README.md) › ${entity.name}`,
+    '',
+    `# ${entity.name}`,
+    '',
+    `**Type:** ${entity.type || EntityType.ENTITY}`,
+    '',
+    ...descriptionMarkdown(entity.description, entity.overview)
+  ];
+  if (entity.bindings?.length) lines.push('## Bindings', '', ...entity.bindings.map(b => `- ${b.type}: \`${b.resource}\``), '');
+  lines.push('## Diagram', '', mermaidBlock(docs.model, subgraphAround(docs.model, entity.id)), '');
+  lines.push('## Properties', '', '| Property | Type | Binding | Description | Aspects | Glossary |', '| --- | --- | --- | --- | --- | --- |');
+  entity.properties.forEach(property => {
+    const binding = bindingOf(property);
+    const summary = measureSummary(entity, property);
+    lines.push(`| **${cell(property.name)}**${property.isUniqueKey ? ' 🔑' : ''}${property.propertyType ? ` <br>_${property.propertyType.toLowerCase()}_` : ''}${summary ? ` <br>_${cell(summary)}_` : ''} ` +
+      `| \`${cell(property.dataType || 'STRING')}\` | ${binding ? `${binding.kind === 'expression' ? 'expression: ' : ''}\`${cell(binding.text)}\`` : '_unbound_'} ` +
+      `| ${cell(property.overview || property.description)} | ${cell(aspectsMarkdown(docs, property.aspects))} | ${termsMarkdown(docs, property.glossaryTerms, 1)} |`);
+  });
+  lines.push('');
+  if (links.length) {
+    lines.push('## Relationships', '', '| Related entity | Cardinality | Label | Join | Description |', '| --- | --- | --- | --- | --- |');
+    links.forEach(link => lines.push(`| [${cell(link.other.name)}](${entityMdHref(docs, link.other, 1)}) | ${CARDINALITY[link.type]} ` +
+      `| ${cell(link.rel.label || link.rel.title)} | ${link.from && link.to ? `\`${cell(link.from.name)}\` → \`${cell(link.to.name)}\`` : ''} | ${cell(link.rel.description)} |`));
+    lines.push('');
+  }
+  if (entity.aspects?.length) lines.push('## Aspects', '', ...entity.aspects.map(a => `- ${aspectsMarkdown(docs, [a])}`), '');
+  if (entity.glossaryTerms?.length) lines.push('## Glossary terms', '', termsMarkdown(docs, entity.glossaryTerms, 1), '');
+  return lines.join('\n');
+};
+
+const indexMarkdown = (docs: DocsPlan) => {
+  const { model } = docs;
+  const byId = new Map(model.entities.map(e => [e.id, e]));
+  const lines = [
+    `# ${model.name}`,
+    '',
+    ...(model.domain ? [`**Domain:** ${model.domain}`, ''] : []),
+    ...descriptionMarkdown(model.description, model.overview),
+    '## Diagram', '', mermaidBlock(model), '',
+    '## Entities', '', '| Entity | Type | Properties | Description |', '| --- | --- | --- | --- |',
+    ...model.entities.map(entity => `| [${cell(entity.name)}](${entityMdHref(docs, entity, 0)}) | ${entity.type || EntityType.ENTITY} | ${entity.properties.length} | ${cell((entity.description || '').split('\n')[0])} |`),
+    ''
+  ];
+  const relationships = model.relationships.filter(rel => byId.has(rel.sourceEntityId) && byId.has(rel.targetEntityId));
+  if (relationships.length) {
+    lines.push('## Relationships', '', '| From | Cardinality | To | Label | Description |', '| --- | --- | --- | --- | --- |');
+    relationships.forEach(rel => {
+      const source = byId.get(rel.sourceEntityId)!;
+      const target = byId.get(rel.targetEntityId)!;
+      lines.push(`| [${cell(source.name)}](${entityMdHref(docs, source, 0)}) | ${CARDINALITY[rel.type]} | [${cell(target.name)}](${entityMdHref(docs, target, 0)}) | ${cell(rel.label || rel.title)} | ${cell(rel.description)} |`);
+    });
+    lines.push('');
+  }
+  if (model.aspects?.length) lines.push('## Aspects', '', ...model.aspects.map(a => `- ${aspectsMarkdown(docs, [a])}`), '');
+  lines.push(`See also the [glossary](glossary.md).`, '');
+  return lines.join('\n');
+};
+
+const glossaryMarkdown = (docs: DocsPlan) => {
+  const terms = sortedTerms(docs);
+  const lines = [`[${docs.model.name}](README.md) › Glossary`, '', '# Glossary', ''];
+  if (terms.length === 0) lines.push('The model links no glossary terms.', '');
+  terms.forEach(({ term, slug, usedBy }) => {
+    lines.push(`<a id="${slug}"></a>`, `## ${term.name}`, '');
+    if (term.domain) lines.push(`**Domain:** ${term.domain}`, '');
+    if (term.description) lines.push(term.description, '');
+    lines.push(`Used by: ${usedBy.map(({ entity, property }) => !entity
+      ? 'the model'
+      : `[${property ? `${entity.name}.${property.name}` : entity.name}](${entityMdHref(docs, entity, 0)})`).join(', ')}`, '');
+  });
+  return lines.join('\n');
+};
+
+export const generateDocsSite = (model: SemanticModel, options: DocsSiteOptions = {}): ArchiveFile[] => {
+  const docs = plan(model, options);
+  if (options.format === 'markdown') {
+    return [
+      { name: 'README.md', content: indexMarkdown(docs) },
+      { name: 'glossary.md', content: glossaryMarkdown(docs) },
+      ...model.entities.map(entity => ({ name: `entities/${docs.slugs.get(entity.id)}.md`, content: entityPageMarkdown(docs, entity) }))
+    ];
+  }
+  return [
+    { name: 'index.html', content: indexHtml(docs) },
+    { name: 'glossary.html', content: glossaryHtml(docs) },
+    { name: 'style.css', content: STYLE },
+    ...model.entities.map(entity => ({ name: `entities/${docs.slugs.get(entity.id)}.html`, content: entityPageHtml(docs, entity) }))
+  ];
+};
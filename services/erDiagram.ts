@@ -0,0 +1,198 @@
+import { SemanticModel, Entity, Property, Relationship, EntityType } from '../types';
+
+// ER diagram text for design docs and READMEs: Mermaid erDiagram, PlantUML
+// (information engineering notation) and Graphviz DOT. Each entity shows its
+// type and its key properties (primary keys and the properties relationships
+// join on); relationships are drawn with crow's foot cardinalities:
+//   ONE_TO_ONE   ||--||    ONE_TO_MANY   ||--o{
+//   MANY_TO_ONE  }o--||    MANY_TO_MANY  }o--o{
+// Diagrams cover the whole model or a subgraph of selected entities.
+
+export type DiagramFormat = 'mermaid' | 'plantuml' | 'dot';
+
+export const DIAGRAM_FORMATS: Record<DiagramFormat, { label: string; extension: string }> = {
+  mermaid: { label: 'Mermaid', extension: 'mmd' },
+  plantuml: { label: 'PlantUML', extension: 'puml' },
+  dot: { label: 'Graphviz DOT', extension: 'dot' }
+};
+
+export interface DiagramOptions {
+  // Restrict the diagram to these entities and the relationships among them
+  entityIds?: string[];
+}
+
+const CROWS_FOOT: Record<Relationship['type'], string> = {
+  ONE_TO_ONE: '||--||',
+  ONE_TO_MANY: '||--o{',
+  MANY_TO_ONE: '}o--||',
+  MANY_TO_MANY: '}o--o{'
+};
+
+export const ENTITY_TYPE_COLORS: Record<EntityType, string> = {
+  [EntityType.ENTITY]: '#DBEAFE',
+  [EntityType.DIMENSION]: '#DCFCE7',
+  [EntityType.FACT]: '#FFEDD5'
+};
+
+// Entities within `depth` relationships of the given entity
+export const subgraphAround = (model: SemanticModel, entityId: string, depth = 1): string[] => {
+  const reached = new Set([entityId]);
+  let frontier = [entityId];
+  for (let step = 0; step < depth; step++) {
+    const next: string[] = [];
+    model.relationships.forEach(rel => {
+      [[rel.sourceEntityId, rel.targetEntityId], [rel.targetEntityId, rel.sourceEntityId]].forEach(([from, to]) => {
+        if (frontier.includes(from) && !reached.has(to)) {
+          reached.add(to);
+          next.push(to);
+        }
+      });
+    });
+    frontier = next;
+  }
+  return model.entities.filter(e => reached.has(e.id)).map(e => e.id);
+};
+
+interface DiagramEntity {
+  entity: Entity;
+  id: string;
+  keys: { property: Property; role: 'PK' | 'FK' | 'PK, FK' }[];
+}
+
+interface DiagramGraph {
+  entities: DiagramEntity[];
+  relationships: { rel: Relationship; source: DiagramEntity; target: DiagramEntity; label: string }[];
+}
+
+// The "many" end of a relationship holds the foreign key; ONE_TO_ONE keeps it on the source
+const isForeignKeyEnd = (rel: Relationship, entityId: string, propertyId: string) =>
+  (rel.sourceEntityId === entityId && rel.sourcePropertyId === propertyId && rel.type !== 'ONE_TO_MANY') ||
+  (rel.targetEntityId === entityId && rel.targetPropertyId === propertyId && (rel.type === 'ONE_TO_MANY' || rel.type === 'MANY_TO_MANY'));
+
+const buildGraph = (model: SemanticModel, options: DiagramOptions, identifier: (name: string) => string): DiagramGraph => {
+  const included = options.entityIds ? new Set(options.entityIds) : undefined;
+  const entities = model.entities.filter(e => !included || included.has(e.id));
+  const relationships = model.relationships.filter(rel =>
+    entities.some(e => e.id === rel.sourceEntityId) && entities.some(e => e.id === rel.targetEntityId));
+
+  const joinProperties = new Set(relationships.flatMap(rel => [rel.sourcePropertyId, rel.targetPropertyId]).filter(Boolean));
+  const used = new Set<string>();
+  const nodes = new Map(entities.map(entity => {
+    let id = identifier(entity.name);
+    for (let n = 2; used.has(id); n++) id = `${identifier(entity.name)}_${n}`;
+    used.add(id);
+    const keys = entity.properties
+      .filter(p => p.isUniqueKey || joinProperties.has(p.id))
+      .map(property => ({
+        property,
+        // Keys that also reference another entity (e.g. ONE_TO_ONE extensions) are both
+        role: (property.isUniqueKey
+          ? (relationships.some(rel => isForeignKeyEnd(rel, entity.id, property.id)) ? 'PK, FK' : 'PK')
+          : 'FK') as DiagramEntity['keys'][number]['role']
+      }));
+    return [entity.id, { entity, id, keys }];
+  }));
+
+  return {
+    entities: [...nodes.values()],
+    relationships: relationships.map(rel => ({
+      rel,
+      source: nodes.get(rel.sourceEntityId)!,
+      target: nodes.get(rel.targetEntityId)!,
+      label: rel.label || rel.title || ''
+    }))
+  };
+};
+
+const word = (text: string, fallback: string) => text.replace(/[^A-Za-z0-9_]+/g, '_').replace(/^_+|_+$/g, '') || fallback;
+
+export const modelToMermaid = (model: SemanticModel, options: DiagramOptions = {}): string => {
+  const graph = buildGraph(model, options, name => word(name, 'entity').toUpperCase());
+  const quote = (text: string) => `"${text.replace(/"/g, "'")}"`;
+  const lines = ['---', `title: ${model.name.replace(/\n/g, ' ')}`, '---', 'erDiagram'];
+  graph.entities.forEach(({ entity, id, keys }) => {
+    const label = `${entity.name} (${entity.type || EntityType.ENTITY})`;
+    if (keys.length === 0) {
+      lines.push(`    ${id}[${quote(label)}]`);
+      return;
+    }
+    lines.push(`    ${id}[${quote(label)}] {`);
+    keys.forEach(({ property, role }) => {
+      lines.push(`        ${word(property.dataType || 'STRING', 'STRING')} ${word(property.name, 'field')} ${role} ${quote(property.name)}`);
+    });
+    lines.push('    }');
+  });
+  graph.relationships.forEach(({ rel, source, target, label }) => {
+    lines.push(`    ${source.id} ${CROWS_FOOT[rel.type]} ${target.id} : ${quote(label)}`);
+  });
+  return `${lines.join('\n')}\n`;
+};
+
+export const modelToPlantUml = (model: SemanticModel, options: DiagramOptions = {}): string => {
+  const graph = buildGraph(model, options, name => word(name, 'entity').toLowerCase());
+  const quote = (text: string) => `"${text.replace(/"/g, "'")}"`;
+  const lines = ['@startuml', `title ${model.name.replace(/\n/g, ' ')}`, 'hide circle', 'hide empty members', 'skinparam linetype ortho', ''];
+  graph.entities.forEach(({ entity, id, keys }) => {
+    const type = entity.type || EntityType.ENTITY;
+    lines.push(`entity ${quote(entity.name)} as ${id} <<${type}>> ${ENTITY_TYPE_COLORS[type]} {`);
+    const primary = keys.filter(k => k.role !== 'FK');
+    const foreign = keys.filter(k => k.role === 'FK');
+    primary.forEach(({ property, role }) => lines.push(`  * ${property.name} : ${property.dataType || 'STRING'} <<${role}>>`));
+    if (primary.length && foreign.length) lines.push('  --');
+    foreign.forEach(({ property }) => lines.push(`  ${property.name} : ${property.dataType || 'STRING'} <<FK>>`));
+    lines.push('}', '');
+  });
+  graph.relationships.forEach(({ rel, source, target, label }) => {
+    lines.push(`${source.id} ${CROWS_FOOT[rel.type]} ${target.id}${label ? ` : ${label.replace(/\n/g, ' ')}` : ''}`);
+  });
+  lines.push('@enduml');
+  return `${lines.join('\n')}\n`;
+};
+
+const html = (text: string) =>
+  text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+// Crow's foot arrows for each end: "one" is a bar, "many" a crow's foot
+const DOT_ENDS: Record<Relationship['type'], [string, string]> = {
+  ONE_TO_ONE: ['tee', 'tee'],
+  ONE_TO_MANY: ['tee', 'crow'],
+  MANY_TO_ONE: ['crow', 'tee'],
+  MANY_TO_MANY: ['crow', 'crow']
+};
+
+export const modelToDot = (model: SemanticModel, options: DiagramOptions = {}): string => {
+  const graph = buildGraph(model, options, name => word(name, 'entity').toLowerCase());
+  const lines = [
+    `digraph "${model.name.replace(/"/g, '\\"')}" {`,
+    '  graph [rankdir=LR, fontname="Helvetica", nodesep=0.6, ranksep=1.2];',
+    '  node [shape=plain, fontname="Helvetica", fontsize=11];',
+    '  edge [fontname="Helvetica", fontsize=9, dir=both];',
+    ''
+  ];
+  const ports = new Map<string, string>();
+  graph.entities.forEach(({ entity, id, keys }) => {
+    const type = entity.type || EntityType.ENTITY;
+    const rows = keys.map(({ property, role }, index) => {
+      ports.set(`${entity.id}:${property.id}`, `k${index}`);
+      return `<tr><td align="left" port="k${index}">${html(property.name)} : ${html(property.dataType || 'STRING')}</td><td align="left">${role}</td></tr>`;
+    });
+    lines.push(
+      `  ${id} [label=<<table border="0" cellborder="1" cellspacing="0" cellpadding="4">` +
+      `<tr><td colspan="2" bgcolor="${ENTITY_TYPE_COLORS[type]}"><b>${html(entity.name)}</b><br/><font point-size="9">${type}</font></td></tr>` +
+      `${rows.join('')}</table>>];`
+    );
+  });
+  lines.push('');
+  graph.relationships.forEach(({ rel, source, target, label }) => {
+    const sourcePort = ports.get(`${source.entity.id}:${rel.sourcePropertyId}`);
+    const targetPort = ports.get(`${target.entity.id}:${rel.targetPropertyId}`);
+    const [tail, head] = DOT_ENDS[rel.type];
+    const attributes = [`arrowtail=${tail}`, `arrowhead=${head}`, ...(label ? [`label="${label.replace(/"/g, '\\"')}"`] : [])];
+    lines.push(`  ${source.id}${sourcePort ? `:${sourcePort}` : ''} -> ${target.id}${targetPort ? `:${targetPort}` : ''} [${attributes.join(', ')}];`);
+  });
+  lines.push('}');
+  return `${lines.join('\n')}\n`;
+};
+
+export const generateErDiagram = (model: SemanticModel, format: DiagramFormat, options: DiagramOptions = {}): string =>
+  format === 'mermaid' ? modelToMermaid(model, options) : format === 'plantuml' ? modelToPlantUml(model, options) : modelToDot(model, options);
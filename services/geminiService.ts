@@ -1,5 +1,7 @@
 import { GoogleGenAI, Type } from "@google/genai";
-import { Entity, SemanticModel } from "../types";
+import { Entity, SemanticModel, Property, PropertyType, Additivity } from "../types";
+import { SemanticQuery, FILTER_OPERATORS } from "./semanticQuery";
+import { AGGREGATION_LABELS, measureAggregation } from "./measures";
 
 const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
 
@@ -74,4 +76,53 @@ export const suggestEntitiesFromDescription = async (description: string): Promi
         console.error(e);
         return [];
     }
-}
\ No newline at end of file
+}
+
+// "sum" or "sum, latest snapshot" for semi-additive measures
+const measureLabel = (property: Property) => {
+    const expression = property.isComputed ? property.definition : property.bindingType === 'expression' ? property.binding : undefined;
+    const aggregation = measureAggregation(property, expression);
+    const label = aggregation ? AGGREGATION_LABELS[aggregation].toLowerCase() : 'calculated';
+    return property.additivity === Additivity.SEMI_ADDITIVE ? `${label}, latest snapshot` : label;
+};
+
+// Asks for the question as a semantic query over the model's fields, for
+// compileSemanticQuery to turn into SQL. Null when it is not a data question.
+export const generateSemanticQuery = async (question: string, model: SemanticModel): Promise<SemanticQuery | null> => {
+    const fields = model.entities.map(entity =>
+        `${entity.name}: ${entity.properties.map(p => `${p.name} (${p.dataType}${p.propertyType === PropertyType.MEASURE ? `, ${measureLabel(p)} measure` : ''})`).join(', ')}`
+    ).join('\n');
+    const relationships = model.relationships.map(rel => {
+        const source = model.entities.find(e => e.id === rel.sourceEntityId)?.name;
+        const target = model.entities.find(e => e.id === rel.targetEntityId)?.name;
+        return `${source} ${rel.type} ${target}`;
+    }).join('\n');
+
+    try {
+        const response = await ai.models.generateContent({
+            model: MODEL_NAME,
+            contents: `Translate the question into a query over this semantic model.
+
+Entities and their fields:
+${fields}
+
+Relationships:
+${relationships}
+
+Question: "${question}"
+
+Return JSON: { "fields": string[], "filters"?: Array<{ "field": string, "operator": string, "value"?: string | number | boolean | null | Array<string | number> }>, "sorts"?: Array<{ "field": string, "direction": "ASC" | "DESC" }>, "limit"?: number }
+Fields are written "Entity.Field" using the names above. Operators: ${FILTER_OPERATORS.join(', ')}.
+If the question cannot be answered from these fields, return { "fields": [] }.`,
+            config: {
+                responseMimeType: "application/json",
+            }
+        });
+
+        const query = response.text ? JSON.parse(response.text) : null;
+        return Array.isArray(query?.fields) && query.fields.length > 0 ? query : null;
+    } catch (e) {
+        console.error(e);
+        return null;
+    }
+}
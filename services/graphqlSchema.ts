@@ -0,0 +1,480 @@
+import { SemanticModel, Entity, Property, PropertyType, AggregationType } from '../types';
+import { ArchiveFile } from './zipArchive';
+import { defaultAggregation, aggregateSql, parseAggregateCall, snapshotPropertyOf } from './measures';
+import { buildDependencyGraph, inlineRowReferences, propertyKey } from './derivedMetrics';
+
+// GraphQL API generator. Every entity becomes an object type with a scalar
+// field per row-level property and connection fields for its relationships,
+// in both directions:
+//   MANY_TO_ONE   source.target: Target      target.sources: [Source!]!
+//   ONE_TO_MANY   source.targets: [Target!]! target.source: Source
+//   ONE_TO_ONE    source.target: Target      target.source: Source
+//   MANY_TO_MANY  lists on both sides
+// Query gets a list field per entity, a lookup by key when the entity has a
+// single key and an aggregate field over its measures and derived metrics;
+// ${...} references to the entity's own properties are inlined. The resolver
+// skeleton carries the bindings as a table and compiles each request's
+// selection set into one GoogleSQL statement; relationships become correlated
+// STRUCT and ARRAY subqueries, so result rows already have the shape of the
+// response. Properties it cannot compile, such as references to another
+// entity, are left out of the type with a comment.
+
+export interface GraphqlExportOptions {
+  // Used for tables whose properties carry no project / dataset
+  project?: string;
+  dataset?: string;
+}
+
+// Prefix of the aggregate field of a column measure
+const AGGREGATE_PREFIXES: Record<AggregationType, string> = {
+  [AggregationType.SUM]: 'sum',
+  [AggregationType.AVG]: 'avg',
+  [AggregationType.MIN]: 'min',
+  [AggregationType.MAX]: 'max',
+  [AggregationType.COUNT]: 'count',
+  [AggregationType.COUNT_DISTINCT]: 'distinct',
+  [AggregationType.APPROX_COUNT_DISTINCT]: 'approxDistinct'
+};
+
+const SCALARS: Record<string, string> = {
+  STRING: 'String',
+  INTEGER: 'Int',
+  FLOAT: 'Float',
+  NUMERIC: 'Float',
+  BIGNUMERIC: 'Float',
+  BOOLEAN: 'Boolean',
+  DATE: 'Date',
+  DATETIME: 'DateTime',
+  TIMESTAMP: 'DateTime',
+  JSON: 'JSON'
+};
+
+const CUSTOM_SCALARS: Record<string, string> = {
+  Date: 'Calendar date, serialized as YYYY-MM-DD',
+  DateTime: 'Timestamp, serialized as an ISO 8601 string',
+  JSON: 'Arbitrary JSON value'
+};
+
+const RESERVED_TYPES = new Set(['Query', 'Mutation', 'Subscription', 'String', 'Int', 'Float', 'Boolean', 'ID', ...Object.keys(CUSTOM_SCALARS)]);
+
+const words = (name: string) =>
+  name.trim().replace(/([a-z0-9])([A-Z])/g, '$1 $2').split(/[^A-Za-z0-9]+/).filter(Boolean);
+
+const pascalCase = (name: string) => {
+  const result = words(name).map(w => w.charAt(0).toUpperCase() + w.slice(1).toLowerCase()).join('') || 'Field';
+  return /^[0-9]/.test(result) ? `_${result}` : result;
+};
+
+const camelCase = (name: string) => {
+  const pascal = pascalCase(name);
+  return pascal.startsWith('_') ? pascal : pascal.charAt(0).toLowerCase() + pascal.slice(1);
+};
+
+const singular = (name: string) => name.replace(/ies$/, 'y').replace(/(ss|[^s])s$/, '$1');
+
+const plural = (name: string) =>
+  /[^aeiou]y$/.test(name) ? name.replace(/y$/, 'ies') : /(s|x|ch|sh)$/.test(name) ? `${name}es` : `${name}s`;
+
+const unique = (name: string, used: Set<string>) => {
+  let result = name;
+  for (let n = 2; used.has(result); n++) result = `${name}${n}`;
+  used.add(result);
+  return result;
+};
+
+const describe = (text: string | undefined, indent = '') =>
+  text?.trim() ? `${indent}"""\n${text.trim().split('\n').map(line => `${indent}${line.replace(/"""/g, '\\"""')}`).join('\n')}\n${indent}"""\n` : '';
+
+const isAggregate = (sql: string) => /\b(SUM|AVG|COUNT|MIN|MAX|COUNTIF|APPROX_\w+|STRING_AGG|ARRAY_AGG|ANY_VALUE)\s*\(/i.test(sql);
+
+const expressionOf = (property: Property) =>
+  property.isComputed ? property.definition : property.bindingType === 'expression' ? property.binding : undefined;
+
+const sourceColumnOf = (property: Property) =>
+  !expressionOf(property) && property.bindingSystem !== 'spanner' && property.bindingTable && property.bindingColumn
+    ? property.bindingColumn
+    : undefined;
+
+type FieldBinding = { column: string } | { expression: string };
+
+interface FieldPlan {
+  property: Property;
+  name: string;
+  scalar: string;
+  binding?: FieldBinding;
+}
+
+interface RelationPlan {
+  name: string;
+  description: string;
+  target: string;
+  list: boolean;
+  from?: string;
+  to?: string;
+}
+
+interface TypePlan {
+  entity: Entity;
+  name: string;
+  listField: string;
+  lookupField: string;
+  table?: string;
+  fields: FieldPlan[];
+  // Properties the resolver cannot select, left out of the type
+  omitted: { property: Property; note: string }[];
+  relations: RelationPlan[];
+  // Aggregate field name -> GoogleSQL aggregate over the source table
+  aggregates: { name: string; sql: string; property: Property }[];
+  key?: FieldPlan;
+}
+
+const planTypes = (model: SemanticModel, options: GraphqlExportOptions): Map<string, TypePlan> => {
+  const typeNames = new Set<string>(RESERVED_TYPES);
+  const queryFields = new Set<string>();
+  const plans = new Map<string, TypePlan>();
+  const graph = buildDependencyGraph(model);
+
+  model.entities.forEach(entity => {
+    let name = singular(pascalCase(entity.name));
+    if (RESERVED_TYPES.has(name)) name = `${name}Record`;
+    name = unique(name, typeNames);
+    // Filter and aggregate companions share the type namespace
+    typeNames.add(`${name}Filter`);
+    typeNames.add(`${name}Aggregate`);
+    const lookup = name.charAt(0).toLowerCase() + name.slice(1);
+
+    // The table most of the entity's columns are bound to
+    const counts = new Map<string, number>();
+    entity.properties.forEach(p => {
+      if (!sourceColumnOf(p)) return;
+      const table = [p.bindingProject || options.project, p.bindingDataset || options.dataset, p.bindingTable].filter(Boolean).join('.');
+      counts.set(table, (counts.get(table) || 0) + 1);
+    });
+    const table = [...counts.entries()].sort((a, b) => b[1] - a[1])[0]?.[0];
+    const inTable = (p: Property) =>
+      [p.bindingProject || options.project, p.bindingDataset || options.dataset, p.bindingTable].filter(Boolean).join('.') === table;
+
+    const used = new Set<string>();
+    const fields: FieldPlan[] = [];
+    const omitted: TypePlan['omitted'] = [];
+    const aggregates: TypePlan['aggregates'] = [{ name: 'count', sql: 'COUNT(*)', property: undefined }];
+    const aggregateNames = new Set(['count']);
+    entity.properties.forEach(property => {
+      // Derived metrics are added once the aggregates they combine are known
+      if (graph.nodes.get(propertyKey({ entity, property }))?.level === 'metric') return;
+      const expression = expressionOf(property)
+        && inlineRowReferences(graph, { entity, property }, p => (inTable(p) ? sourceColumnOf(p) : undefined));
+      const column = sourceColumnOf(property);
+      if (expression && isAggregate(expression)) {
+        aggregates.push({ name: unique(camelCase(property.name), aggregateNames), sql: expression, property });
+        return;
+      }
+      const binding: FieldBinding | undefined = column && inTable(property) ? { column } : expression ? { expression } : undefined;
+      // Types without a table stay a plain schema; otherwise every field must compile
+      if (!binding && table) {
+        omitted.push({
+          property,
+          note: expressionOf(property) ? 'references properties that are not columns of this table' : 'not bound to a column of this table'
+        });
+        return;
+      }
+      const field: FieldPlan = {
+        property,
+        name: unique(camelCase(property.name), used),
+        scalar: SCALARS[property.dataType?.toUpperCase()] || 'String',
+        binding
+      };
+      fields.push(field);
+      // Column-bound measures are row values that also roll up; semi-additive
+      // ones over the latest snapshot only
+      if (property.propertyType === PropertyType.MEASURE && column && inTable(property)) {
+        const aggregation = defaultAggregation(property);
+        const snapshot = snapshotPropertyOf(entity, property);
+        const time = snapshot && inTable(snapshot) && sourceColumnOf(snapshot);
+        const value = time
+          ? `IF(\`${time}\` = (SELECT MAX(\`${time}\`) FROM \`${table}\`), \`${column}\`, NULL)`
+          : `\`${column}\``;
+        aggregates.push({
+          name: unique(`${AGGREGATE_PREFIXES[aggregation]}${field.name.charAt(0).toUpperCase()}${field.name.slice(1)}`, aggregateNames),
+          sql: aggregateSql(aggregation, value),
+          property
+        });
+      }
+    });
+    // Derived metrics over the entity's own aggregates
+    entity.properties.forEach(property => {
+      const node = graph.nodes.get(propertyKey({ entity, property }))!;
+      if (node.level !== 'metric') return;
+      const definition = expressionOf(property)!;
+      let sql = '';
+      let last = 0;
+      for (const reference of node.references) {
+        const input = !reference.inAggregate && reference.target?.entity.id === entity.id
+          && aggregates.find(a => a.property === reference.target!.property);
+        if (!input) return;
+        sql += definition.slice(last, reference.start) + (parseAggregateCall(input.sql) ? input.sql : `(${input.sql})`);
+        last = reference.end;
+      }
+      aggregates.push({ name: unique(camelCase(property.name), aggregateNames), sql: sql + definition.slice(last), property });
+    });
+    const keys = fields.filter(f => f.property.isUniqueKey);
+    const lookupField = unique(lookup, queryFields);
+    // Aggregate fields are named after the lookup field
+    queryFields.add(`${lookupField}Aggregate`);
+
+    plans.set(entity.id, {
+      entity,
+      name,
+      listField: unique(plural(lookup), queryFields),
+      lookupField,
+      table,
+      fields,
+      omitted,
+      relations: [],
+      aggregates,
+      key: keys.length === 1 ? keys[0] : undefined
+    });
+  });
+
+  const fieldNames = new Map([...plans.values()].map(plan => [plan, new Set(plan.fields.map(f => f.name))]));
+  const columnOf = (plan: TypePlan, propertyId?: string) => {
+    const binding = plan.fields.find(f => f.property.id === propertyId)?.binding;
+    return binding && 'column' in binding ? binding.column : undefined;
+  };
+  const addRelation = (from: TypePlan, to: TypePlan, list: boolean, fromProperty: string | undefined, toProperty: string | undefined, description: string) => {
+    const base = to.name.charAt(0).toLowerCase() + to.name.slice(1);
+    let name = list ? plural(base) : base;
+    const via = from.fields.find(f => f.property.id === fromProperty);
+    const names = fieldNames.get(from)!;
+    if (names.has(name) && via?.name === name && !via.property.isUniqueKey) {
+      // A foreign key named after the target: the connection takes the name, the scalar becomes <name>Id
+      names.delete(name);
+      via.name = unique(`${name}Id`, names);
+    } else if (names.has(name) && via) {
+      name = `${name}By${via.name.charAt(0).toUpperCase()}${via.name.slice(1)}`;
+    }
+    from.relations.push({
+      name: unique(name, names),
+      description,
+      target: to.name,
+      list,
+      from: columnOf(from, fromProperty),
+      to: columnOf(to, toProperty)
+    });
+  };
+
+  model.relationships.forEach(rel => {
+    const source = plans.get(rel.sourceEntityId);
+    const target = plans.get(rel.targetEntityId);
+    if (!source || !target) return;
+    const text = rel.description || rel.title;
+    addRelation(source, target, rel.type === 'ONE_TO_MANY' || rel.type === 'MANY_TO_MANY', rel.sourcePropertyId, rel.targetPropertyId,
+      text || `${rel.type} relationship to ${target.entity.name}`);
+    addRelation(target, source, rel.type === 'MANY_TO_ONE' || rel.type === 'MANY_TO_MANY', rel.targetPropertyId, rel.sourcePropertyId,
+      text || `Inverse of the ${rel.type} relationship from ${source.entity.name}`);
+  });
+
+  return plans;
+};
+
+const filterable = (plan: TypePlan) => plan.fields.filter(f => f.binding && f.scalar !== 'JSON');
+
+export const generateGraphqlSdl = (model: SemanticModel, options: GraphqlExportOptions = {}): string => {
+  const plans = [...planTypes(model, options).values()];
+  const scalars = new Set(plans.flatMap(p => p.fields.map(f => f.scalar)).filter(s => CUSTOM_SCALARS[s]));
+
+  let sdl = `# GraphQL schema for ${model.name}\n`;
+  sdl += `# Generated: ${new Date().toISOString()}\n\n`;
+  if (model.description) sdl += describe(model.description);
+  sdl += 'schema {\n  query: Query\n}\n\n';
+  scalars.forEach(scalar => {
+    sdl += describe(CUSTOM_SCALARS[scalar]) + `scalar ${scalar}\n\n`;
+  });
+
+  plans.forEach(plan => {
+    sdl += describe(plan.entity.description || plan.entity.name);
+    sdl += `type ${plan.name} {\n`;
+    plan.fields.forEach(f => {
+      sdl += describe(f.property.description, '  ');
+      sdl += `  ${f.name}: ${f.scalar}${f.property.isUniqueKey ? '!' : ''}\n`;
+    });
+    plan.omitted.forEach(o => {
+      sdl += `  # Omitted ${o.property.name}: ${o.note}\n`;
+    });
+    plan.relations.forEach(r => {
+      sdl += describe(r.description, '  ');
+      sdl += `  ${r.name}: ${r.list ? `[${r.target}!]!` : r.target}\n`;
+    });
+    sdl += '}\n\n';
+
+    const filters = filterable(plan);
+    if (filters.length > 0) {
+      sdl += describe(`Equality filters on ${plan.entity.name}; all given fields must match`);
+      sdl += `input ${plan.name}Filter {\n${filters.map(f => `  ${f.name}: ${f.scalar}`).join('\n')}\n}\n\n`;
+    }
+
+    sdl += describe(`Aggregates over ${plan.entity.name}`);
+    sdl += `type ${plan.name}Aggregate {\n`;
+    plan.aggregates.forEach(a => {
+      sdl += describe(a.property?.description || (a.property ? a.sql : `Number of ${plan.entity.name} rows`), '  ');
+      sdl += `  ${a.name}: ${a.name === 'count' ? 'Int!' : 'Float'}\n`;
+    });
+    sdl += '}\n\n';
+  });
+
+  sdl += 'type Query {\n';
+  plans.forEach(plan => {
+    const where = filterable(plan).length > 0 ? `where: ${plan.name}Filter, ` : '';
+    sdl += describe(`List ${plan.entity.name}`, '  ');
+    sdl += `  ${plan.listField}(${where}limit: Int = 100, offset: Int = 0): [${plan.name}!]!\n`;
+    if (plan.key) {
+      sdl += describe(`Look up one ${plan.name} by ${plan.key.property.name}`, '  ');
+      sdl += `  ${plan.lookupField}(${plan.key.name}: ${plan.key.scalar}!): ${plan.name}\n`;
+    }
+    sdl += describe(`Aggregate ${plan.entity.name}`, '  ');
+    sdl += `  ${plan.lookupField}Aggregate${where ? `(${where.slice(0, -2)})` : ''}: ${plan.name}Aggregate!\n`;
+  });
+  sdl += '}\n';
+  return sdl;
+};
+
+// Runtime half of the resolver skeleton, emitted verbatim
+const RESOLVER_RUNTIME = `export interface CompiledQuery {
+  sql: string;
+  params: Record<string, unknown>;
+}
+
+export interface ResolverContext {
+  // Run a GoogleSQL query with named parameters, e.g.
+  //   (await bigquery.query({ query: sql, params }))[0]
+  runQuery(query: CompiledQuery): Promise<Record<string, unknown>[]>;
+}
+
+interface ListArgs {
+  where?: Record<string, unknown>;
+  limit?: number;
+  offset?: number;
+}
+
+// Field selections, with fragments flattened and introspection fields dropped
+const fieldSelections = (selections: readonly SelectionNode[], info: GraphQLResolveInfo): FieldNode[] =>
+  selections.flatMap(selection => {
+    if (selection.kind === Kind.FIELD) return selection.name.value.startsWith('__') ? [] : [selection];
+    const fragment = selection.kind === Kind.FRAGMENT_SPREAD ? info.fragments[selection.name.value] : selection;
+    return fieldSelections(fragment.selectionSet.selections, info);
+  });
+
+const typeBinding = (typeName: string): TypeBinding => {
+  const type = TYPES[typeName];
+  if (!type.table) throw new Error(\`\${typeName} has no BigQuery table binding\`);
+  return type;
+};
+
+// Expressions use bare column names, which resolve against the innermost table
+const columnSql = (typeName: string, field: string, alias: string) => {
+  const binding = TYPES[typeName].fields[field];
+  if (!binding) throw new Error(\`\${typeName}.\${field} is not bound to a column\`);
+  return 'column' in binding ? \`\${alias}.\\\`\${binding.column}\\\`\` : \`(\${binding.expression})\`;
+};
+
+// SELECT list for a selection set; relationships become correlated subqueries
+const selectList = (typeName: string, selections: readonly SelectionNode[], alias: string, info: GraphQLResolveInfo, depth = 0): string[] =>
+  fieldSelections(selections, info).map(field => {
+    const name = field.name.value;
+    const relation = TYPES[typeName].relations[name];
+    if (!relation) return \`\${columnSql(typeName, name, alias)} AS \${name}\`;
+    if (!relation.from || !relation.to) throw new Error(\`\${typeName}.\${name} links properties that are not bound to columns\`);
+    const inner = \`t\${depth + 1}\`;
+    const columns = selectList(relation.type, field.selectionSet?.selections ?? [], inner, info, depth + 1);
+    const subquery = \`SELECT AS STRUCT \${columns.join(', ')} FROM \\\`\${typeBinding(relation.type).table}\\\` AS \${inner} \` +
+      \`WHERE \${inner}.\\\`\${relation.to}\\\` = \${alias}.\\\`\${relation.from}\\\`\`;
+    return relation.list ? \`ARRAY(\${subquery}) AS \${name}\` : \`(\${subquery} LIMIT 1) AS \${name}\`;
+  });
+
+const whereClause = (typeName: string, where: Record<string, unknown> | undefined, params: Record<string, unknown>) => {
+  const conditions = Object.entries(where ?? {}).filter(([, value]) => value !== undefined).map(([field, value]) => {
+    if (value === null) return \`\${columnSql(typeName, field, 't0')} IS NULL\`;
+    const param = \`p\${Object.keys(params).length}\`;
+    params[param] = value;
+    return \`\${columnSql(typeName, field, 't0')} = @\${param}\`;
+  });
+  return conditions.length ? \` WHERE \${conditions.join(' AND ')}\` : '';
+};
+
+export const compileList = (typeName: string, info: GraphQLResolveInfo, args: ListArgs): CompiledQuery => {
+  const params: Record<string, unknown> = {};
+  const columns = selectList(typeName, info.fieldNodes[0].selectionSet?.selections ?? [], 't0', info);
+  const where = whereClause(typeName, args.where, params);
+  params.limit = args.limit ?? 100;
+  params.offset = args.offset ?? 0;
+  return {
+    sql: \`SELECT \${columns.join(', ')} FROM \\\`\${typeBinding(typeName).table}\\\` AS t0\${where} LIMIT @limit OFFSET @offset\`,
+    params
+  };
+};
+
+export const compileAggregate = (typeName: string, info: GraphQLResolveInfo, args: ListArgs): CompiledQuery => {
+  const params: Record<string, unknown> = {};
+  const columns = fieldSelections(info.fieldNodes[0].selectionSet?.selections ?? [], info)
+    .map(field => \`\${TYPES[typeName].aggregates[field.name.value]} AS \${field.name.value}\`);
+  const where = whereClause(typeName, args.where, params);
+  return { sql: \`SELECT \${columns.join(', ')} FROM \\\`\${typeBinding(typeName).table}\\\` AS t0\${where}\`, params };
+};
+`;
+
+export const generateGraphqlResolvers = (model: SemanticModel, options: GraphqlExportOptions = {}): string => {
+  const plans = [...planTypes(model, options).values()];
+  const bindings = Object.fromEntries(plans.map(plan => [plan.name, {
+    table: plan.table || null,
+    fields: Object.fromEntries(plan.fields.filter(f => f.binding).map(f => [f.name, f.binding])),
+    relations: Object.fromEntries(plan.relations.map(r => [r.name, { type: r.target, list: r.list, from: r.from || null, to: r.to || null }])),
+    aggregates: Object.fromEntries(plan.aggregates.map(a => [a.name, a.sql]))
+  }]));
+
+  const queryResolvers = plans.flatMap(plan => [
+    `    ${plan.listField}: (_parent: unknown, args: ListArgs, context: ResolverContext, info: GraphQLResolveInfo) =>`,
+    `      context.runQuery(compileList('${plan.name}', info, args)),`,
+    ...(plan.key ? [
+      `    ${plan.lookupField}: async (_parent: unknown, args: { ${plan.key.name}: unknown }, context: ResolverContext, info: GraphQLResolveInfo) =>`,
+      `      (await context.runQuery(compileList('${plan.name}', info, { where: { ${plan.key.name}: args.${plan.key.name} }, limit: 1 })))[0] ?? null,`
+    ] : []),
+    `    ${plan.lookupField}Aggregate: async (_parent: unknown, args: ListArgs, context: ResolverContext, info: GraphQLResolveInfo) =>`,
+    `      (await context.runQuery(compileAggregate('${plan.name}', info, args)))[0],`
+  ]);
+
+  return [
+    `// Resolver skeleton for the ${model.name} GraphQL schema`,
+    `// Generated: ${new Date().toISOString()}`,
+    '//',
+    '// Each Query field compiles its selection set into a single GoogleSQL',
+    '// statement over the bound BigQuery tables; provide context.runQuery and',
+    '// serializers for the Date, DateTime and JSON scalars to serve it.',
+    `import { Kind } from 'graphql';`,
+    `import type { FieldNode, GraphQLResolveInfo, SelectionNode } from 'graphql';`,
+    '',
+    'type FieldBinding = { column: string } | { expression: string };',
+    '',
+    'interface TypeBinding {',
+    '  table: string | null;',
+    '  fields: Record<string, FieldBinding>;',
+    '  // Join columns are null when the linked properties are not column-bound',
+    '  relations: Record<string, { type: string; list: boolean; from: string | null; to: string | null }>;',
+    '  aggregates: Record<string, string>;',
+    '}',
+    '',
+    `const TYPES: Record<string, TypeBinding> = ${JSON.stringify(bindings, null, 2)};`,
+    '',
+    RESOLVER_RUNTIME,
+    'export const resolvers = {',
+    '  Query: {',
+    queryResolvers.join('\n'),
+    '  }',
+    '};',
+    ''
+  ].join('\n');
+};
+
+export const generateGraphqlApi = (model: SemanticModel, options: GraphqlExportOptions = {}): ArchiveFile[] => [
+  { name: 'schema.graphql', content: generateGraphqlSdl(model, options) },
+  { name: 'resolvers.ts', content: generateGraphqlResolvers(model, options) }
+];
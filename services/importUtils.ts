@@ -0,0 +1,39 @@
+// Helpers shared by the source importers (LookML, dbt, DDL, ...).
+
+const ACRONYMS = new Set(['id', 'sku', 'url', 'ip', 'utm']);
+
+// snake_case or PascalCase source identifiers to the display names used in
+// the builder, e.g. "customer_id" or "CustomerId" -> "Customer ID"
+export const humanizeIdentifier = (name: string) =>
+  name
+    .replace(/([a-z0-9])([A-Z])/g, '$1_$2')
+    .split('_')
+    .filter(Boolean)
+    .map(word => (ACRONYMS.has(word.toLowerCase()) ? word.toUpperCase() : word.charAt(0).toUpperCase() + word.slice(1)))
+    .join(' ');
+
+const SQL_TYPE_PREFIXES: [RegExp, string][] = [
+  [/^(INT64|INT|INTEGER|BIGINT|SMALLINT|TINYINT|BYTEINT)\b/, 'INTEGER'],
+  [/^(FLOAT64|FLOAT|DOUBLE|REAL|NUMERIC|BIGNUMERIC|DECIMAL|BIGDECIMAL|NUMBER)\b/, 'FLOAT'],
+  [/^(BOOL|BOOLEAN)\b/, 'BOOLEAN'],
+  [/^(TIMESTAMP|DATETIME)\b/, 'TIMESTAMP'],
+  [/^DATE\b/, 'DATE'],
+  [/^GEOGRAPHY\b/, 'GEOGRAPHY'],
+  [/^(STRING|VARCHAR|CHAR|TEXT|BYTES|JSON)\b/, 'STRING']
+];
+
+// Physical column type (BigQuery, Spanner or generic SQL) to the logical data
+// types properties use. Unknown and structured types fall back to STRING.
+export const mapSqlTypeToDataType = (sqlType?: string): string => {
+  if (!sqlType) return 'STRING';
+  const normalized = sqlType.trim().toUpperCase();
+  const match = SQL_TYPE_PREFIXES.find(([pattern]) => pattern.test(normalized));
+  return match ? match[1] : 'STRING';
+};
+
+// `ref('orders')`, `ref("pkg", "orders")` or `{{ ref('orders') }}` -> "orders"
+export const parseDbtRef = (value?: string): string | undefined => {
+  if (!value) return undefined;
+  const match = value.match(/ref\(\s*(?:['"][^'"]+['"]\s*,\s*)?['"]([^'"]+)['"]/);
+  return match ? match[1] : undefined;
+};
@@ -0,0 +1,311 @@
+import { SemanticModel, Entity, Property, Relationship, PropertyType } from '../types';
+
+// Join planning over the relationship graph. For each entity a query needs,
+// the planner enumerates the join paths from the query's base entity, ranks
+// them (short paths first; paths that fan out, join many-to-many or rely on
+// guessed join columns rank lower) and reports a tie for the best rank as an
+// ambiguity the user can resolve by choosing a path.
+//
+// The chosen join tree is then checked for traps that overcount measures:
+//   fan trap    a measure's entity is joined to its "many" side
+//               (Order -< Line Item), repeating each order per line
+//   chasm trap  two entities join the same entity from their "many" sides
+//               (Sale >- Product -< Inventory), pairing every sale of a
+//               product with every inventory row of it
+// and a safe plan is suggested:
+//   preaggregate  aggregate each measure entity to the grain of the selected
+//                 dimensions on its own, then join the results
+//   symmetric     aggregate over distinct keys of the measure entity, which
+//                 ignores the repeated rows
+
+export interface JoinEdge {
+  relationship: Relationship;
+  from: Entity;
+  to: Entity;
+  // Cardinality read from the `from` side
+  type: Relationship['type'];
+  fromProperty: Property;
+  toProperty: Property;
+  // The relationship links no properties; the join columns were guessed from names
+  inferred: boolean;
+}
+
+export interface JoinPath {
+  target: Entity;
+  edges: JoinEdge[];
+  // Lower is better
+  score: number;
+}
+
+export interface JoinAmbiguity {
+  target: Entity;
+  // The equally ranked best paths
+  paths: JoinPath[];
+}
+
+export interface JoinTrap {
+  kind: 'fan' | 'chasm';
+  // Entity the repeated rows fan out from
+  pivot: Entity;
+  // Entities whose measures are overcounted
+  measureEntities: Entity[];
+  // Entities on the "many" side of the pivot causing the repetition
+  fannedEntities: Entity[];
+  message: string;
+}
+
+export type FanTrapStrategy = 'preaggregate' | 'symmetric' | 'none';
+
+export interface JoinPlan {
+  base: Entity;
+  // Join tree in join order; each edge's `from` is already joined
+  steps: JoinEdge[];
+  // Ranked candidate paths per required entity id
+  candidates: Record<string, JoinPath[]>;
+  ambiguities: JoinAmbiguity[];
+  traps: JoinTrap[];
+  suggestion: { strategy: FanTrapStrategy; reason: string };
+}
+
+export interface JoinPlanOptions {
+  // Entities whose measures the query aggregates
+  measureEntityIds?: string[];
+  // Entities of the query's dimensions and dimension filters
+  dimensionEntityIds?: string[];
+  // Chosen path per entity id, as relationship ids from the base entity
+  preferredPaths?: Record<string, string[]>;
+  // Also consider paths this many joins longer than the shortest
+  maxExtraLength?: number;
+}
+
+export class JoinPlanError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'JoinPlanError';
+  }
+}
+
+const INVERSE: Record<Relationship['type'], Relationship['type']> = {
+  ONE_TO_ONE: 'ONE_TO_ONE',
+  ONE_TO_MANY: 'MANY_TO_ONE',
+  MANY_TO_ONE: 'ONE_TO_MANY',
+  MANY_TO_MANY: 'MANY_TO_MANY'
+};
+
+const MAX_CANDIDATES = 10;
+
+const fansOut = (type: Relationship['type']) => type === 'ONE_TO_MANY' || type === 'MANY_TO_MANY';
+
+// Join columns of a relationship. Without linked properties, a property with
+// the same name on both ends (keys first) is assumed to be the join column,
+// and failing that the "one" side's key is assumed to be repeated under the
+// same name on the "many" side.
+const joinProperties = (source: Entity, target: Entity, rel: Relationship) => {
+  const sourceProperty = source.properties.find(p => p.id === rel.sourcePropertyId);
+  const targetProperty = target.properties.find(p => p.id === rel.targetPropertyId);
+  if (sourceProperty && targetProperty) return { sourceProperty, targetProperty, inferred: false };
+  // Measures that happen to share a name (Unit Price) are not join columns
+  const pairs = source.properties.filter(s => s.propertyType !== PropertyType.MEASURE).flatMap(s => target.properties
+    .filter(t => t.propertyType !== PropertyType.MEASURE && t.name.toLowerCase() === s.name.toLowerCase())
+    .map(t => ({ sourceProperty: s, targetProperty: t, inferred: true })));
+  const pair = pairs.find(p => p.sourceProperty.isUniqueKey || p.targetProperty.isUniqueKey) || pairs[0];
+  if (pair || rel.type === 'MANY_TO_MANY') return pair;
+
+  const [one, many] = rel.type === 'ONE_TO_MANY' ? [source, target] : [target, source];
+  const keys = one.properties.filter(p => p.isUniqueKey);
+  if (keys.length !== 1) return undefined;
+  const foreignKey: Property = { id: `${keys[0].id}:${many.id}`, name: keys[0].name, dataType: keys[0].dataType, description: '' };
+  return one === source
+    ? { sourceProperty: keys[0], targetProperty: foreignKey, inferred: true }
+    : { sourceProperty: foreignKey, targetProperty: keys[0], inferred: true };
+};
+
+// Joinable edges leaving each entity, in both directions of every relationship
+export const buildJoinGraph = (model: SemanticModel): Map<string, JoinEdge[]> => {
+  const graph = new Map<string, JoinEdge[]>(model.entities.map(e => [e.id, []]));
+  model.relationships.forEach(relationship => {
+    const source = model.entities.find(e => e.id === relationship.sourceEntityId);
+    const target = model.entities.find(e => e.id === relationship.targetEntityId);
+    if (!source || !target || source.id === target.id) return;
+    const join = joinProperties(source, target, relationship);
+    if (!join) return;
+    graph.get(source.id)!.push({ relationship, from: source, to: target, type: relationship.type, fromProperty: join.sourceProperty, toProperty: join.targetProperty, inferred: join.inferred });
+    graph.get(target.id)!.push({ relationship, from: target, to: source, type: INVERSE[relationship.type], fromProperty: join.targetProperty, toProperty: join.sourceProperty, inferred: join.inferred });
+  });
+  return graph;
+};
+
+const scorePath = (edges: JoinEdge[]) => edges.reduce((score, edge) =>
+  score + 10 + (edge.inferred ? 3 : 0) + (edge.type === 'MANY_TO_MANY' ? 8 : edge.type === 'ONE_TO_MANY' ? 4 : 0), 0);
+
+const distancesFrom = (graph: Map<string, JoinEdge[]>, startId: string) => {
+  const distance = new Map([[startId, 0]]);
+  const queue = [startId];
+  while (queue.length > 0) {
+    const current = queue.shift()!;
+    (graph.get(current) || []).forEach(edge => {
+      if (distance.has(edge.to.id)) return;
+      distance.set(edge.to.id, distance.get(current)! + 1);
+      queue.push(edge.to.id);
+    });
+  }
+  return distance;
+};
+
+// Simple paths from one entity to another, at most `maxExtraLength` joins
+// longer than the shortest, best ranked first
+export const enumerateJoinPaths = (
+  model: SemanticModel,
+  fromId: string,
+  toId: string,
+  maxExtraLength = 1,
+  graph = buildJoinGraph(model)
+): JoinPath[] => {
+  const target = model.entities.find(e => e.id === toId);
+  if (!target || fromId === toId) return [];
+  const toTarget = distancesFrom(graph, toId);
+  if (!toTarget.has(fromId)) return [];
+  const limit = toTarget.get(fromId)! + maxExtraLength;
+
+  const paths: JoinPath[] = [];
+  const visited = new Set([fromId]);
+  const walk = (entityId: string, edges: JoinEdge[]) => {
+    if (entityId === toId) {
+      paths.push({ target, edges: [...edges], score: scorePath(edges) });
+      return;
+    }
+    graph.get(entityId)!.forEach(edge => {
+      const remaining = toTarget.get(edge.to.id);
+      if (visited.has(edge.to.id) || remaining === undefined || edges.length + 1 + remaining > limit) return;
+      visited.add(edge.to.id);
+      edges.push(edge);
+      walk(edge.to.id, edges);
+      edges.pop();
+      visited.delete(edge.to.id);
+    });
+  };
+  walk(fromId, []);
+  return paths.sort((a, b) => a.score - b.score || a.edges.length - b.edges.length).slice(0, MAX_CANDIDATES);
+};
+
+export const describeJoinPath = (path: JoinPath): string =>
+  [path.edges[0]?.from.name, ...path.edges.map(edge => {
+    const label = edge.relationship.label || edge.relationship.title;
+    return `${label ? `(${label}) ` : ''}${edge.to.name}`;
+  })].filter(Boolean).join(' → ');
+
+// Walks the join tree outward from each measure entity. Going towards a
+// "many" side repeats that entity's rows: directly it is a fan trap, after
+// first going up to a "one" side it is a chasm trap at that entity.
+export const detectJoinTraps = (steps: JoinEdge[], measureEntities: Entity[]): JoinTrap[] => {
+  const adjacent = new Map<string, JoinEdge[]>();
+  steps.forEach(edge => {
+    adjacent.set(edge.from.id, [...(adjacent.get(edge.from.id) || []), edge]);
+    adjacent.set(edge.to.id, [...(adjacent.get(edge.to.id) || []), edge]);
+  });
+
+  const traps = new Map<string, Omit<JoinTrap, 'message'>>();
+  const record = (kind: JoinTrap['kind'], pivot: Entity, measure: Entity, fanned: Entity) => {
+    const key = `${kind}:${pivot.id}`;
+    const trap = traps.get(key) || { kind, pivot, measureEntities: [], fannedEntities: [] };
+    if (!trap.measureEntities.includes(measure)) trap.measureEntities.push(measure);
+    if (!trap.fannedEntities.includes(fanned)) trap.fannedEntities.push(fanned);
+    traps.set(key, trap);
+  };
+
+  measureEntities.forEach(measure => {
+    const walk = (entity: Entity, cameBy: JoinEdge | undefined, wentUp: boolean) => {
+      (adjacent.get(entity.id) || []).forEach(edge => {
+        if (edge === cameBy) return;
+        const forward = edge.from.id === entity.id;
+        const next = forward ? edge.to : edge.from;
+        const type = forward ? edge.type : INVERSE[edge.type];
+        if (fansOut(type)) record(wentUp ? 'chasm' : 'fan', entity, measure, next);
+        else walk(next, edge, wentUp || type === 'MANY_TO_ONE');
+      });
+    };
+    walk(measure, undefined, false);
+  });
+
+  return [...traps.values()].map(trap => {
+    const measures = trap.measureEntities.map(e => e.name).join(', ');
+    const fanned = trap.fannedEntities.map(e => e.name).join(', ');
+    const message = trap.kind === 'fan'
+      ? `Fan trap: ${trap.pivot.name} is joined to its many ${fanned} rows, so ${measures} measures are repeated and overcounted`
+      : `Chasm trap: ${[...new Set([...trap.measureEntities, ...trap.fannedEntities])].map(e => e.name).join(', ')} all join ${trap.pivot.name} from their many side, so ${measures} measures are multiplied by the matching rows of the others`;
+    return { ...trap, message };
+  });
+};
+
+const findPreferred = (candidates: JoinPath[], relationshipIds?: string[]) =>
+  relationshipIds && candidates.find(path =>
+    path.edges.length === relationshipIds.length && path.edges.every((edge, idx) => edge.relationship.id === relationshipIds[idx]));
+
+export const planJoinPaths = (model: SemanticModel, base: Entity, required: Entity[], options: JoinPlanOptions = {}): JoinPlan => {
+  const graph = buildJoinGraph(model);
+  const candidates: Record<string, JoinPath[]> = {};
+  const ambiguities: JoinAmbiguity[] = [];
+  const steps: JoinEdge[] = [];
+  const joined = new Set([base.id]);
+
+  required.filter(entity => entity.id !== base.id).forEach(entity => {
+    const paths = enumerateJoinPaths(model, base.id, entity.id, options.maxExtraLength ?? 1, graph);
+    if (paths.length === 0) throw new JoinPlanError(`No relationship path connects ${base.name} to ${entity.name}`);
+    candidates[entity.id] = paths;
+
+    const preferred = findPreferred(paths, options.preferredPaths?.[entity.id]);
+    if (options.preferredPaths?.[entity.id] && !preferred) {
+      throw new JoinPlanError(`The chosen join path to ${entity.name} (${options.preferredPaths[entity.id].join(', ')}) is not one of the ${paths.length} candidate path${paths.length === 1 ? '' : 's'} from ${base.name}`);
+    }
+    const best = paths.filter(path => path.score === paths[0].score);
+    if (!preferred && best.length > 1 && !joined.has(entity.id)) ambiguities.push({ target: entity, paths: best });
+
+    // Entities already joined by an earlier path keep that join
+    (preferred || paths[0]).edges.forEach(edge => {
+      if (joined.has(edge.to.id)) return;
+      joined.add(edge.to.id);
+      steps.push(edge);
+    });
+  });
+
+  const byId = new Map(model.entities.map(e => [e.id, e]));
+  const measureEntities = (options.measureEntityIds || []).map(id => byId.get(id)).filter((e): e is Entity => !!e);
+  const traps = detectJoinTraps(steps, measureEntities);
+  return { base, steps, candidates, ambiguities, traps, suggestion: suggestStrategy(model, traps, measureEntities, options) };
+};
+
+const suggestStrategy = (model: SemanticModel, traps: JoinTrap[], measureEntities: Entity[], options: JoinPlanOptions): JoinPlan['suggestion'] => {
+  if (traps.length === 0) return { strategy: 'none', reason: 'No join repeats the rows of a measured entity' };
+
+  // Pre-aggregation needs every measure entity to reach the dimensions without fanning out
+  const dimensions = (options.dimensionEntityIds || [])
+    .map(id => model.entities.find(e => e.id === id))
+    .filter((e): e is Entity => !!e);
+  const unsafe = measureEntities.filter(measure => {
+    try {
+      const plan = planJoinPaths(model, measure, dimensions, { measureEntityIds: [measure.id] });
+      return plan.traps.length > 0;
+    } catch {
+      return true;
+    }
+  });
+  if (unsafe.length === 0) {
+    return {
+      strategy: 'preaggregate',
+      reason: `Aggregate ${measureEntities.map(e => e.name).join(', ')} separately to the grain of the selected dimensions, then join the results`
+    };
+  }
+
+  const repeated = [...new Set(traps.flatMap(t => t.measureEntities))];
+  const keyless = repeated.filter(entity => !entity.properties.some(p => p.isUniqueKey));
+  if (keyless.length === 0) {
+    return {
+      strategy: 'symmetric',
+      reason: `${unsafe.map(e => e.name).join(', ')} cannot reach the dimensions without fanning out; aggregate ${repeated.map(e => e.name).join(', ')} over their distinct keys instead`
+    };
+  }
+  return {
+    strategy: 'none',
+    reason: `No safe rewrite: ${keyless.map(e => e.name).join(', ')} ${keyless.length === 1 ? 'has' : 'have'} no unique key for symmetric aggregates and cannot be pre-aggregated to the selected dimensions`
+  };
+};
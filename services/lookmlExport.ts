@@ -0,0 +1,370 @@
+import { SemanticModel, Entity, Property, Relationship, EntityType, PropertyType, AggregationType } from '../types';
+import { humanizeIdentifier } from './importUtils';
+import { LookmlFile } from './lookmlImport';
+import { defaultAggregation, parseAggregateCall, snapshotPropertyOf } from './measures';
+import { buildDependencyGraph, downstreamOf, propertyKey, referenceLabel, DependencyGraph } from './derivedMetrics';
+
+// LookML project generator, the counterpart of lookmlImport. Every entity
+// becomes a view file under views/ with dimensions for its properties,
+// dimension_groups for dates and timestamps, measures for measure properties
+// and derived metrics, and a primary key from its unique key columns.
+// ${...} references in definitions become LookML field references; properties
+// with missing, circular or mistyped references, and those built on them, are
+// left out with a comment. Semi-additive measures are filtered to the latest
+// snapshot through a hidden yesno dimension unless the snapshot time is
+// selected. The model file includes the views and declares an explore per fact
+// entity whose joins follow the model's relationships:
+//   MANY_TO_ONE  many_to_one     ONE_TO_MANY   one_to_many
+//   ONE_TO_ONE   one_to_one      MANY_TO_MANY  many_to_many
+// with the direction flipped when a relationship is walked target to source.
+
+export interface LookmlExportOptions {
+  // Looker database connection named in the model file
+  connection?: string;
+  // Model file name; defaults to the semantic model's name
+  modelName?: string;
+  // Used to qualify tables for entities without BigQuery bindings
+  project?: string;
+  dataset?: string;
+}
+
+const TIMESTAMP_TIMEFRAMES = ['raw', 'time', 'date', 'week', 'month', 'quarter', 'year'];
+const DATE_TIMEFRAMES = ['raw', 'date', 'week', 'month', 'quarter', 'year'];
+const NUMERIC_TYPES = new Set(['INTEGER', 'FLOAT', 'NUMERIC', 'BIGNUMERIC']);
+
+const MEASURE_TYPES: Record<AggregationType, string> = {
+  [AggregationType.SUM]: 'sum',
+  [AggregationType.AVG]: 'average',
+  [AggregationType.MIN]: 'min',
+  [AggregationType.MAX]: 'max',
+  [AggregationType.COUNT]: 'count',
+  [AggregationType.COUNT_DISTINCT]: 'count_distinct',
+  [AggregationType.APPROX_COUNT_DISTINCT]: 'count_distinct'
+};
+
+// LookML object names are lowercase snake_case
+const lookmlName = (name: string) =>
+  name.trim().toLowerCase().replace(/[^a-z0-9]+/g, '_').replace(/^_+|_+$/g, '') || 'field';
+
+const quote = (text: string) => `"${text.replace(/\\/g, '\\\\').replace(/"/g, '\\"').replace(/\s*\n\s*/g, ' ')}"`;
+
+const viewNameFor = (entity: Entity) =>
+  lookmlName(entity.bindings?.find(b => b.type === 'LOOKER')?.resource || entity.name);
+
+const columnOf = (property: Property): string | undefined => {
+  if (property.bindingType === 'expression' || property.isComputed) return undefined;
+  return property.bindingColumn || (property.binding?.includes('.') ? property.binding.split('.').pop() : undefined);
+};
+
+const sqlTableName = (entity: Entity, viewName: string, options: LookmlExportOptions): string => {
+  const bigquery = entity.bindings?.find(b => b.type === 'BIGQUERY');
+  if (bigquery) return bigquery.resource;
+  const bound = entity.properties.find(p => columnOf(p) && p.bindingTable);
+  const table = bound?.bindingTable
+    || entity.bindings?.find(b => b.type === 'SPANNER')?.resource.split('.').pop()
+    || viewName;
+  const dataset = bound?.bindingTable ? bound.bindingDataset || options.dataset : options.dataset;
+  const project = bound?.bindingTable ? bound.bindingProject || options.project : options.project;
+  return [dataset && project, dataset, table].filter(Boolean).join('.');
+};
+
+// Definitions are GoogleSQL over the entity's own columns; LookML wants
+// those columns as ${TABLE}.column. String literals are left alone.
+const qualifyColumns = (sql: string, columns: Set<string>) =>
+  sql
+    .split(/('(?:[^'\\]|\\.)*'|"(?:[^"\\]|\\.)*")/)
+    .map((part, idx) => idx % 2 === 1 ? part : part.replace(
+      /(^|[^.\w$`])`?([A-Za-z_]\w*)`?(?![\w.(])/g,
+      (match, before: string, name: string) => (columns.has(name) ? `${before}\${TABLE}.${name}` : match)
+    ))
+    .join('');
+
+// ${...} references to other properties become LookML field references,
+// ${view.field}, which Looker resolves itself; the rest is qualified as above.
+// Inside an aggregate a column-bound measure is its column instead, as a
+// measure reference there would aggregate twice: ${TABLE}.column on the
+// view itself, view.column (the join alias) on another one.
+const definitionSql = (entity: Entity, property: Property, columns: Set<string>, graph: DependencyGraph,
+  fieldRefs: Map<string, string>, viewNames: Map<string, string>) => {
+  const definition = property.definition || '';
+  const references = graph.nodes.get(propertyKey({ entity, property }))?.references || [];
+  let sql = '';
+  let last = 0;
+  references.forEach(reference => {
+    sql += qualifyColumns(definition.slice(last, reference.start), columns);
+    const target = reference.target;
+    const column = target && reference.inAggregate && graph.nodes.get(propertyKey(target))?.level === 'measure'
+      && (columnOf(target.property) || lookmlName(target.property.name));
+    sql += column
+      ? `${target.entity.id === entity.id ? '${TABLE}' : viewNames.get(target.entity.id)}.${column}`
+      : (target && fieldRefs.get(propertyKey(target))) || definition.slice(reference.start, reference.end);
+    last = reference.end;
+  });
+  return sql + qualifyColumns(definition.slice(last), columns);
+};
+
+interface ViewField {
+  property: Property;
+  kind: 'dimension' | 'dimension_group' | 'measure';
+  name: string;
+}
+
+interface ViewPlan {
+  entity: Entity;
+  name: string;
+  fields: ViewField[];
+  omitted: { property: Property; note: string }[];
+  // `${view.field}` reference for each property id, used by joins
+  refs: Map<string, string>;
+}
+
+// `omit` maps the property keys left out of the project to the reason
+const planView = (entity: Entity, name: string, graph: DependencyGraph, omit: Map<string, string>): ViewPlan => {
+  const used = new Set<string>();
+  const unique = (base: string) => {
+    let candidate = base;
+    for (let n = 2; used.has(candidate); n++) candidate = `${base}_${n}`;
+    used.add(candidate);
+    return candidate;
+  };
+
+  const omitted: ViewPlan['omitted'] = [];
+  const fields: ViewField[] = entity.properties.flatMap(property => {
+    const note = omit.get(propertyKey({ entity, property }));
+    if (note) {
+      omitted.push({ property, note });
+      return [];
+    }
+    const base = lookmlName(columnOf(property) || property.name);
+    const level = graph.nodes.get(propertyKey({ entity, property }))?.level;
+    if (property.propertyType === PropertyType.MEASURE || level === 'metric') {
+      return { property, kind: 'measure' as const, name: unique(base) };
+    }
+    if (property.dataType === 'TIMESTAMP' || property.dataType === 'DATE') {
+      // created_at -> created, with ${created_raw} etc. generated by Looker
+      const stem = base.replace(/_(at|on|date|time|timestamp|ts)$/, '');
+      return { property, kind: 'dimension_group' as const, name: unique(stem && !used.has(stem) ? stem : base) };
+    }
+    return { property, kind: 'dimension' as const, name: unique(base) };
+  });
+
+  const refs = new Map<string, string>();
+  fields.forEach(field => {
+    if (field.kind === 'measure') return;
+    refs.set(field.property.id, `\${${name}.${field.name}${field.kind === 'dimension_group' ? '_raw' : ''}}`);
+  });
+  return { entity, name, fields, omitted, refs };
+};
+
+const dimensionType = (dataType: string) =>
+  NUMERIC_TYPES.has(dataType) ? 'number' : dataType === 'BOOLEAN' ? 'yesno' : 'string';
+
+// `definition` is the property's definition as LookML SQL
+const renderField = (field: ViewField, definition: string, isPrimaryKey: boolean, latestFilter?: string): string[] => {
+  const { property, kind, name } = field;
+  const column = columnOf(property);
+  const lines = [`  ${kind}: ${name} {`];
+  if (property.name !== humanizeIdentifier(name)) lines.push(`    label: ${quote(property.name)}`);
+  if (property.description) lines.push(`    description: ${quote(property.description)}`);
+
+  if (kind === 'measure') {
+    const aggregate = column
+      ? { aggregation: defaultAggregation(property), argument: `\${TABLE}.${column}` }
+      : definition && parseAggregateCall(definition);
+    if (!aggregate && definition) {
+      lines.push('    type: number');
+      lines.push(`    sql: ${definition} ;;`);
+    } else {
+      const argument = aggregate && aggregate.argument;
+      if (!aggregate || (aggregate.aggregation === AggregationType.COUNT && aggregate.argument === '*')) {
+        lines.push('    type: count');
+      } else if (aggregate.aggregation === AggregationType.COUNT) {
+        // type: count ignores sql; count the non-null values as a sum
+        lines.push('    type: sum');
+        lines.push(`    sql: CASE WHEN ${argument} IS NOT NULL THEN 1 ELSE 0 END ;;`);
+      } else {
+        lines.push(`    type: ${MEASURE_TYPES[aggregate.aggregation]}`);
+        if (aggregate.aggregation === AggregationType.APPROX_COUNT_DISTINCT) lines.push('    approximate: yes');
+        lines.push(`    sql: ${argument} ;;`);
+      }
+      if (latestFilter) lines.push(`    filters: [${latestFilter}: "yes"]`);
+    }
+    lines.push('  }');
+    return lines;
+  }
+
+  const sql = column ? `\${TABLE}.${column}` : definition || 'NULL';
+  if (kind === 'dimension_group') {
+    const isDate = property.dataType === 'DATE';
+    lines.push('    type: time');
+    lines.push(`    timeframes: [${(isDate ? DATE_TIMEFRAMES : TIMESTAMP_TIMEFRAMES).join(', ')}]`);
+    if (isDate) {
+      lines.push('    datatype: date');
+      lines.push('    convert_tz: no');
+    }
+  } else {
+    if (isPrimaryKey) lines.push('    primary_key: yes');
+    lines.push(`    type: ${dimensionType(property.dataType)}`);
+  }
+  lines.push(`    sql: ${sql} ;;`);
+  lines.push('  }');
+  return lines;
+};
+
+const renderView = (plan: ViewPlan, model: SemanticModel, options: LookmlExportOptions, graph: DependencyGraph,
+  fieldRefs: Map<string, string>, viewNames: Map<string, string>): string => {
+  const { entity, name, fields } = plan;
+  const columns = new Set(entity.properties.map(columnOf).filter((c): c is string => !!c));
+  const definitionOf = (property: Property) => definitionSql(entity, property, columns, graph, fieldRefs, viewNames);
+  const keys = fields.filter(f => f.kind !== 'measure' && f.property.isUniqueKey);
+  // Dimension groups cannot be primary keys, so a date or time key always
+  // goes through the compound key
+  const singleKey = keys.length === 1 && keys[0].kind === 'dimension' ? keys[0] : undefined;
+  const lines = [`# Generated from semantic model "${model.name}"`, '', `view: ${name} {`];
+  lines.push(`  sql_table_name: \`${sqlTableName(entity, name, options)}\` ;;`);
+  if (entity.name !== humanizeIdentifier(name)) lines.push(`  label: ${quote(entity.name)}`);
+  if (entity.description) lines.push(`  description: ${quote(entity.description)}`);
+
+  // A single key column is the primary key; several form a hidden compound key
+  if (keys.length > 0 && !singleKey) {
+    const used = new Set(fields.map(f => f.name));
+    let pkName = 'primary_key';
+    for (let n = 2; used.has(pkName); n++) pkName = `primary_key_${n}`;
+    const parts = keys.map(k => `CAST(\${${k.name}${k.kind === 'dimension_group' ? '_raw' : ''}} AS STRING)`).join(", '|', ");
+    lines.push('', `  dimension: ${pkName} {`, '    primary_key: yes', '    hidden: yes', '    type: string',
+      `    sql: CONCAT(${parts}) ;;`, '  }');
+  }
+  // One latest-snapshot flag per snapshot time of a semi-additive measure;
+  // it is always true while the snapshot time itself is selected
+  const used = new Set(fields.map(f => f.name));
+  const latestFilters = new Map<string, string>();
+  fields.forEach(field => {
+    const snapshot = field.kind === 'measure' ? snapshotPropertyOf(entity, field.property) : undefined;
+    const time = snapshot && fields.find(f => f.property === snapshot);
+    const column = time && columnOf(time.property);
+    if (!time || !(column || time.property.definition) || latestFilters.has(time.property.id)) return;
+    let flag = `is_latest_${time.name}`;
+    for (let n = 2; used.has(flag); n++) flag = `is_latest_${time.name}_${n}`;
+    used.add(flag);
+    latestFilters.set(time.property.id, flag);
+
+    const outer = column ? `\${TABLE}.${column}` : definitionOf(time.property);
+    const selected = (time.kind === 'dimension_group' ? (time.property.dataType === 'DATE' ? ['raw', 'date'] : ['raw', 'time', 'date']).map(tf => `${time.name}_${tf}`) : [time.name])
+      .map(f => `${name}.${f}._is_selected`).join(' or ');
+    lines.push('', `  dimension: ${flag} {`, '    hidden: yes', '    type: yesno',
+      `    sql: {% if ${selected} %}TRUE{% else %}${outer} = (SELECT MAX(${column || time.property.definition}) FROM \`${sqlTableName(entity, name, options)}\`){% endif %} ;;`,
+      '  }');
+  });
+
+  fields.forEach(field => {
+    const snapshot = field.kind === 'measure' ? snapshotPropertyOf(entity, field.property) : undefined;
+    lines.push('', ...renderField(field, definitionOf(field.property), field === singleKey, snapshot && latestFilters.get(snapshot.id)));
+  });
+  if (plan.omitted.length > 0) lines.push('', ...plan.omitted.map(o => `  # Omitted ${o.property.name}: ${o.note}`));
+  lines.push('}', '');
+  return lines.join('\n');
+};
+
+const INVERSE: Record<Relationship['type'], Relationship['type']> = {
+  ONE_TO_ONE: 'ONE_TO_ONE',
+  ONE_TO_MANY: 'MANY_TO_ONE',
+  MANY_TO_ONE: 'ONE_TO_MANY',
+  MANY_TO_MANY: 'MANY_TO_MANY'
+};
+
+const isToOne = (type: Relationship['type']) => type === 'MANY_TO_ONE' || type === 'ONE_TO_ONE';
+
+// Joins reachable from the explore's base view. Lookups on the "one" side
+// are followed transitively (star and snowflake schemas); fan-out joins are
+// only taken directly from the base so the explore does not chain them.
+// Views already in the explore are not joined a second time.
+const renderExplore = (base: ViewPlan, plans: Map<string, ViewPlan>, model: SemanticModel): string => {
+  const lines = [`explore: ${base.name} {`];
+  if (base.entity.description) lines.push(`  description: ${quote(base.entity.description)}`);
+  const joined = new Set([base.entity.id]);
+  const queue = [base.entity.id];
+
+  while (queue.length > 0) {
+    const current = queue.shift()!;
+    const from = plans.get(current)!;
+    model.relationships.forEach(rel => {
+      const forward = rel.sourceEntityId === current;
+      if (!forward && rel.targetEntityId !== current) return;
+      const otherId = forward ? rel.targetEntityId : rel.sourceEntityId;
+      const to = plans.get(otherId);
+      if (!to || joined.has(otherId)) return;
+      const type = forward ? rel.type : INVERSE[rel.type];
+      if (!isToOne(type) && current !== base.entity.id) return;
+
+      const fromPropertyId = forward ? rel.sourcePropertyId : rel.targetPropertyId;
+      const toPropertyId = forward ? rel.targetPropertyId : rel.sourcePropertyId;
+      const left = fromPropertyId && from.refs.get(fromPropertyId);
+      const right = toPropertyId && to.refs.get(toPropertyId);
+      if (!left || !right) {
+        lines.push(`  # Skipped join ${to.name}: relationship ${rel.id} has no linked properties`);
+        return;
+      }
+
+      joined.add(otherId);
+      queue.push(otherId);
+      lines.push(`  join: ${to.name} {`);
+      if (rel.description) lines.push(`    # ${rel.description.replace(/\s*\n\s*/g, ' ')}`);
+      lines.push('    type: left_outer');
+      lines.push(`    sql_on: ${left} = ${right} ;;`);
+      lines.push(`    relationship: ${type.toLowerCase()}`);
+      lines.push('  }');
+    });
+  }
+  lines.push('}');
+  return lines.join('\n');
+};
+
+export const generateLookmlProject = (model: SemanticModel, options: LookmlExportOptions = {}): LookmlFile[] => {
+  const graph = buildDependencyGraph(model);
+  // References that cannot resolve or do not type check would be broken
+  // LookML, and so would the fields built on them
+  const omit = new Map<string, string>();
+  const unresolved = graph.issues.filter(issue => issue.kind !== 'unreachable');
+  unresolved.forEach(issue => {
+    if (!omit.has(propertyKey(issue))) omit.set(propertyKey(issue), issue.message);
+  });
+  unresolved.forEach(issue => downstreamOf(graph, propertyKey(issue)).forEach(key => {
+    if (!omit.has(key)) omit.set(key, `depends on ${referenceLabel(issue)}, which is omitted`);
+  }));
+  const names = new Set<string>();
+  const plans = new Map<string, ViewPlan>();
+  model.entities.forEach(entity => {
+    let name = viewNameFor(entity);
+    for (let n = 2; names.has(name); n++) name = `${viewNameFor(entity)}_${n}`;
+    names.add(name);
+    plans.set(entity.id, planView(entity, name, graph, omit));
+  });
+  const viewNames = new Map([...plans.values()].map(plan => [plan.entity.id, plan.name]));
+  // LookML reference of every field, measures included
+  const fieldRefs = new Map<string, string>();
+  plans.forEach(plan => plan.fields.forEach(field => {
+    fieldRefs.set(propertyKey({ entity: plan.entity, property: field.property }), plan.refs.get(field.property.id) || `\${${plan.name}.${field.name}}`);
+  }));
+
+  const viewFiles = [...plans.values()].map(plan => ({
+    name: `views/${plan.name}.view.lkml`,
+    content: renderView(plan, model, options, graph, fieldRefs, viewNames)
+  }));
+
+  // Facts anchor the explores; a model without facts gets one per entity
+  const facts = model.entities.filter(e => e.type === EntityType.FACT);
+  const explores = (facts.length > 0 ? facts : model.entities).map(e => renderExplore(plans.get(e.id)!, plans, model));
+
+  const modelName = lookmlName(options.modelName || model.name);
+  const modelFile = [
+    `# Generated from semantic model "${model.name}"`,
+    '',
+    `connection: ${quote(options.connection || 'bigquery_connection')}`,
+    '',
+    'include: "/views/*.view.lkml"',
+    '',
+    ...explores.flatMap(explore => [explore, '']),
+  ].join('\n');
+
+  return [{ name: `${modelName}.model.lkml`, content: modelFile }, ...viewFiles];
+};
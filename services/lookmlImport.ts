@@ -0,0 +1,642 @@
+import { SemanticModel, Entity, Property, Relationship, EntityType, PropertyType } from '../types';
+import { humanizeIdentifier } from './importUtils';
+
+// Importer for LookML projects. Parses the .lkml block syntax into a generic
+// node tree, then maps views to entities, dimensions / dimension groups /
+// measures to properties and explore joins to relationships. Ids are derived
+// from LookML names so re-importing the same project lines up with an earlier
+// import in the diff and merge views.
+
+export interface LookmlNode {
+  key: string;
+  // Block name, e.g. "orders" in `view: orders { ... }`
+  name?: string;
+  value?: string | string[];
+  children?: LookmlNode[];
+  line: number;
+}
+
+export interface LookmlFile {
+  name: string;
+  content: string;
+}
+
+export class LookmlParseError extends Error {
+  file: string;
+  line: number;
+
+  constructor(file: string, line: number, message: string) {
+    super(`${file}:${line}: ${message}`);
+    this.name = 'LookmlParseError';
+    this.file = file;
+    this.line = line;
+  }
+}
+
+// Keys whose values are raw SQL/HTML terminated by ";;" rather than a token
+const isSqlKey = (key: string) => /^(sql|html)|_sql$|^expression$/.test(key);
+
+// --- Parser ---
+
+export const parseLookml = (content: string, fileName = 'input.lkml'): LookmlNode[] => {
+  let pos = 0;
+  const length = content.length;
+
+  const lineAt = (at: number) => content.slice(0, at).split('\n').length;
+  const fail = (message: string, at = pos): never => {
+    throw new LookmlParseError(fileName, lineAt(at), message);
+  };
+
+  const skipWhitespace = () => {
+    while (pos < length) {
+      const ch = content[pos];
+      if (ch === '#') {
+        while (pos < length && content[pos] !== '\n') pos++;
+      } else if (/\s/.test(ch)) {
+        pos++;
+      } else {
+        break;
+      }
+    }
+  };
+
+  const readQuoted = (): string => {
+    const start = pos;
+    pos++; // opening quote
+    let result = '';
+    while (pos < length && content[pos] !== '"') {
+      if (content[pos] === '\\' && pos + 1 < length) {
+        result += content[pos + 1];
+        pos += 2;
+      } else {
+        result += content[pos++];
+      }
+    }
+    if (pos >= length) fail('Unterminated string', start);
+    pos++; // closing quote
+    return result;
+  };
+
+  const readBare = (stop: RegExp): string => {
+    const start = pos;
+    while (pos < length && !stop.test(content[pos])) pos++;
+    return content.slice(start, pos);
+  };
+
+  const readSql = (): string => {
+    const end = content.indexOf(';;', pos);
+    if (end === -1) fail('Expected ";;" to close SQL value');
+    const sql = content.slice(pos, end).trim();
+    pos = end + 2;
+    return sql;
+  };
+
+  const readList = (): string[] => {
+    const start = pos;
+    pos++; // [
+    const items: string[] = [];
+    let current = '';
+    while (pos < length && content[pos] !== ']') {
+      const ch = content[pos];
+      if (ch === '"') {
+        current += readQuoted();
+      } else if (ch === ',') {
+        if (current.trim()) items.push(current.trim());
+        current = '';
+        pos++;
+      } else if (ch === '#') {
+        skipWhitespace();
+      } else {
+        current += ch;
+        pos++;
+      }
+    }
+    if (pos >= length) fail('Unterminated list', start);
+    pos++; // ]
+    if (current.trim()) items.push(current.trim());
+    return items;
+  };
+
+  const parseStatements = (inBlock: boolean): LookmlNode[] => {
+    const nodes: LookmlNode[] = [];
+    while (true) {
+      skipWhitespace();
+      if (pos >= length) {
+        if (inBlock) fail('Unexpected end of file, expected "}"');
+        return nodes;
+      }
+      if (content[pos] === '}') {
+        if (!inBlock) fail('Unexpected "}"');
+        pos++;
+        return nodes;
+      }
+      const line = lineAt(pos);
+      const key = readBare(/[\s:{}]/);
+      if (!key) fail(`Unexpected character "${content[pos]}"`);
+      skipWhitespace();
+      if (content[pos] !== ':') fail(`Expected ":" after "${key}"`);
+      pos++;
+      nodes.push(parseValue(key, line));
+    }
+  };
+
+  const parseValue = (key: string, line: number): LookmlNode => {
+    if (isSqlKey(key)) return { key, value: readSql(), line };
+    skipWhitespace();
+    const ch = content[pos];
+    if (ch === '{') {
+      pos++;
+      return { key, children: parseStatements(true), line };
+    }
+    if (ch === '[') return { key, value: readList(), line };
+
+    const token = ch === '"' ? readQuoted() : readBare(/[\s{}]/);
+    if (!token && ch !== '"') fail(`Missing value for "${key}"`);
+    const afterToken = pos;
+    skipWhitespace();
+    if (content[pos] === '{') {
+      pos++;
+      return { key, name: token, children: parseStatements(true), line };
+    }
+    pos = afterToken;
+    return { key, value: token, line };
+  };
+
+  return parseStatements(false);
+};
+
+// --- Mapping helpers ---
+
+const child = (node: LookmlNode, key: string): LookmlNode | undefined =>
+  node.children?.find(c => c.key === key);
+
+const childValue = (node: LookmlNode, key: string): string | undefined => {
+  const value = child(node, key)?.value;
+  return Array.isArray(value) ? value.join(', ') : value;
+};
+
+const childList = (node: LookmlNode, key: string): string[] => {
+  const value = child(node, key)?.value;
+  return Array.isArray(value) ? value : value ? [value] : [];
+};
+
+const childrenOf = (node: LookmlNode, ...keys: string[]): LookmlNode[] =>
+  (node.children || []).filter(c => keys.includes(c.key));
+
+const isYes = (value?: string) => value === 'yes';
+
+const DIMENSION_TYPES: Record<string, string> = {
+  string: 'STRING',
+  number: 'FLOAT',
+  yesno: 'BOOLEAN',
+  date: 'DATE',
+  date_time: 'TIMESTAMP',
+  time: 'TIMESTAMP',
+  zipcode: 'STRING',
+  tier: 'STRING',
+  location: 'GEOGRAPHY',
+  distance: 'FLOAT'
+};
+
+const MEASURE_TYPES: Record<string, string> = {
+  count: 'INTEGER',
+  count_distinct: 'INTEGER',
+  sum: 'FLOAT',
+  sum_distinct: 'FLOAT',
+  average: 'FLOAT',
+  average_distinct: 'FLOAT',
+  median: 'FLOAT',
+  median_distinct: 'FLOAT',
+  percentile: 'FLOAT',
+  percentile_distinct: 'FLOAT',
+  number: 'FLOAT',
+  string: 'STRING',
+  list: 'STRING',
+  yesno: 'BOOLEAN',
+  date: 'DATE'
+};
+
+const JOIN_RELATIONSHIPS: Record<string, Relationship['type']> = {
+  many_to_one: 'MANY_TO_ONE',
+  one_to_many: 'ONE_TO_MANY',
+  one_to_one: 'ONE_TO_ONE',
+  many_to_many: 'MANY_TO_MANY'
+};
+
+const entityIdFor = (view: string) => `entity_${view}`;
+const propertyIdFor = (view: string, field: string) => `prop_${view}_${field}`;
+
+interface ViewInfo {
+  name: string;
+  node: LookmlNode;
+  fields: Map<string, LookmlNode>;
+}
+
+interface TableRef {
+  project?: string;
+  dataset?: string;
+  table: string;
+  full: string;
+}
+
+const parseTableName = (sqlTableName?: string): TableRef | undefined => {
+  if (!sqlTableName) return undefined;
+  const full = sqlTableName.replace(/[`"]/g, '').trim();
+  const parts = full.split('.');
+  const table = parts[parts.length - 1];
+  if (!table || /\s/.test(full)) return undefined;
+  return {
+    project: parts.length >= 3 ? parts[parts.length - 3] : undefined,
+    dataset: parts.length >= 2 ? parts[parts.length - 2] : undefined,
+    table,
+    full
+  };
+};
+
+// Refinements (`view: +orders`) add to or override fields of the base view
+const collectViews = (nodes: LookmlNode[]): Map<string, ViewInfo> => {
+  const views = new Map<string, ViewInfo>();
+  const refinements: LookmlNode[] = [];
+  nodes.filter(n => n.key === 'view' && n.name).forEach(node => {
+    if (node.name!.startsWith('+')) {
+      refinements.push(node);
+      return;
+    }
+    const fields = new Map<string, LookmlNode>();
+    childrenOf(node, 'dimension', 'dimension_group', 'measure')
+      .filter(f => f.name)
+      .forEach(f => fields.set(f.name!, f));
+    views.set(node.name!, { name: node.name!, node, fields });
+  });
+  refinements.forEach(node => {
+    const base = views.get(node.name!.slice(1));
+    if (!base) return;
+    const overrides = (node.children || []).filter(c => !['dimension', 'dimension_group', 'measure'].includes(c.key));
+    base.node = {
+      ...base.node,
+      children: [...(base.node.children || []).filter(c => !overrides.some(o => o.key === c.key)), ...overrides]
+    };
+    childrenOf(node, 'dimension', 'dimension_group', 'measure')
+      .filter(f => f.name)
+      .forEach(f => base.fields.set(f.name!, f));
+  });
+  return views;
+};
+
+// Column a field reads directly, when its SQL is just ${TABLE}.column
+const directColumn = (field: LookmlNode): string | undefined => {
+  const sql = childValue(field, 'sql');
+  if (field.key === 'measure') return undefined;
+  if (!sql) return field.key === 'dimension_group' ? undefined : field.name;
+  const match = sql.match(/^\$\{TABLE\}\.`?(\w+)`?$/);
+  return match ? match[1] : undefined;
+};
+
+// Rewrite LookML substitutions into plain GoogleSQL: ${TABLE}.col becomes col,
+// ${field} inlines the referenced field and ${view.field} is qualified by view.
+const resolveSql = (sql: string, view: ViewInfo, views: Map<string, ViewInfo>, seen: Set<string> = new Set()): string =>
+  sql
+    .replace(/\$\{TABLE\}\./g, '')
+    .replace(/\$\{TABLE\}/g, parseTableName(childValue(view.node, 'sql_table_name'))?.table || view.name)
+    .replace(/\$\{(\w+)\.SQL_TABLE_NAME\}/g, (_m, viewName) =>
+      parseTableName(childValue(views.get(viewName)?.node || view.node, 'sql_table_name'))?.full || viewName)
+    .replace(/\$\{(?:(\w+)\.)?(\w+)\}/g, (match, viewName: string | undefined, fieldName: string) => {
+      const target = viewName ? views.get(viewName) : view;
+      if (!target) return match;
+      const field = target.fields.get(fieldName);
+      if (!field) {
+        const timeframe = timeframeExpression(fieldName, target);
+        if (!timeframe) return match;
+        return viewName && viewName !== view.name ? timeframe.replace(/^(\w+\()?/, `$1${target.name}.`) : timeframe;
+      }
+      const key = `${target.name}.${fieldName}`;
+      const column = directColumn(field);
+      if (column) return viewName && viewName !== view.name ? `${target.name}.${column}` : column;
+      if (seen.has(key)) return match;
+      const inner = fieldExpression(field, target, views, new Set([...seen, key]));
+      return inner ? `(${inner})` : match;
+    });
+
+const TIMEFRAME_TRUNCATIONS: Record<string, string> = {
+  week: 'WEEK',
+  month: 'MONTH',
+  quarter: 'QUARTER',
+  year: 'YEAR'
+};
+
+// ${created_date} and friends refer to a timeframe of dimension_group "created"
+const timeframeExpression = (fieldName: string, view: ViewInfo): string | undefined => {
+  const separator = fieldName.lastIndexOf('_');
+  if (separator === -1) return undefined;
+  const group = view.fields.get(fieldName.slice(0, separator));
+  const timeframe = fieldName.slice(separator + 1);
+  if (!group || group.key !== 'dimension_group') return undefined;
+  const column = childValue(group, 'sql')?.match(/^\$\{TABLE\}\.`?(\w+)`?$/)?.[1];
+  if (!column) return undefined;
+  if (timeframe === 'date') return `DATE(${column})`;
+  if (TIMEFRAME_TRUNCATIONS[timeframe]) return `DATE_TRUNC(DATE(${column}), ${TIMEFRAME_TRUNCATIONS[timeframe]})`;
+  return column;
+};
+
+const fieldExpression = (field: LookmlNode, view: ViewInfo, views: Map<string, ViewInfo>, seen: Set<string>): string | undefined => {
+  if (field.key === 'measure') return measureDefinition(field, view, views, seen);
+  const sql = childValue(field, 'sql') || (field.key === 'dimension' ? `\${TABLE}.${field.name}` : undefined);
+  return sql ? resolveSql(sql, view, views, seen) : undefined;
+};
+
+const sqlLiteral = (value: string) =>
+  /^-?\d+(\.\d+)?$/.test(value) ? value : `'${value.replace(/'/g, "\\'")}'`;
+
+// Measure filters such as [status: "complete", amount: ">100"] become a
+// boolean condition over the referenced dimensions.
+const filterCondition = (filters: string[], view: ViewInfo, views: Map<string, ViewInfo>, seen: Set<string>): string | undefined => {
+  const conditions = filters
+    .map(filter => {
+      const separator = filter.indexOf(':');
+      if (separator === -1) return undefined;
+      const fieldRef = filter.slice(0, separator).trim();
+      const value = filter.slice(separator + 1).trim().replace(/^"|"$/g, '');
+      const column = resolveSql(`\${${fieldRef}}`, view, views, seen);
+      if (value === 'NULL') return `${column} IS NULL`;
+      if (value === '-NULL') return `${column} IS NOT NULL`;
+      if (value.startsWith('-')) return `${column} != ${sqlLiteral(value.slice(1))}`;
+      const comparison = value.match(/^(>=|<=|>|<)\s*(.+)$/);
+      if (comparison) return `${column} ${comparison[1]} ${sqlLiteral(comparison[2])}`;
+      const options = value.split(',').map(v => v.trim()).filter(Boolean);
+      return options.length > 1
+        ? `${column} IN (${options.map(sqlLiteral).join(', ')})`
+        : `${column} = ${sqlLiteral(value)}`;
+    })
+    .filter(Boolean);
+  return conditions.length ? conditions.join(' AND ') : undefined;
+};
+
+const measureDefinition = (field: LookmlNode, view: ViewInfo, views: Map<string, ViewInfo>, seen: Set<string>): string => {
+  const type = childValue(field, 'type') || 'string';
+  const rawSql = childValue(field, 'sql');
+  const expression = rawSql ? resolveSql(rawSql, view, views, seen) : undefined;
+  const condition = filterCondition(childList(field, 'filters'), view, views, seen);
+  const filtered = (expr: string) => (condition ? `CASE WHEN ${condition} THEN ${expr} END` : expr);
+  const percentile = childValue(field, 'percentile') || '50';
+
+  switch (type) {
+    case 'count':
+      return condition ? `COUNTIF(${condition})` : 'COUNT(*)';
+    case 'count_distinct':
+      return `COUNT(DISTINCT ${filtered(expression || field.name!)})`;
+    case 'sum':
+      return `SUM(${filtered(expression || field.name!)})`;
+    case 'sum_distinct':
+      return `SUM(DISTINCT ${filtered(expression || field.name!)})`;
+    case 'average':
+      return `AVG(${filtered(expression || field.name!)})`;
+    case 'average_distinct':
+      return `AVG(DISTINCT ${filtered(expression || field.name!)})`;
+    case 'min':
+    case 'max':
+      return `${type.toUpperCase()}(${filtered(expression || field.name!)})`;
+    case 'median':
+    case 'median_distinct':
+      return `APPROX_QUANTILES(${filtered(expression || field.name!)}, 2)[OFFSET(1)]`;
+    case 'percentile':
+    case 'percentile_distinct':
+      return `APPROX_QUANTILES(${filtered(expression || field.name!)}, 100)[OFFSET(${percentile})]`;
+    case 'list':
+      return `STRING_AGG(DISTINCT ${childValue(field, 'list_field') ? resolveSql(`\${${childValue(field, 'list_field')}}`, view, views, seen) : expression || field.name})`;
+    default:
+      // number, string, yesno, date: the SQL already aggregates
+      return expression || field.name!;
+  }
+};
+
+const dimensionDataType = (field: LookmlNode): string => {
+  const type = childValue(field, 'type') || 'string';
+  if (field.key === 'dimension_group') {
+    if (type === 'duration') return 'INTEGER';
+    return childValue(field, 'datatype') === 'date' ? 'DATE' : 'TIMESTAMP';
+  }
+  if (type.startsWith('duration')) return 'INTEGER';
+  if (type === 'number' && (isYes(childValue(field, 'primary_key')) || /(^|_)(id|count|qty|quantity)$/.test(field.name || ''))) {
+    return 'INTEGER';
+  }
+  return DIMENSION_TYPES[type] || 'STRING';
+};
+
+const measureDataType = (field: LookmlNode, view: ViewInfo): string => {
+  const type = childValue(field, 'type') || 'string';
+  if (type === 'min' || type === 'max') {
+    const ref = childValue(field, 'sql')?.match(/^\$\{(\w+)\}$/);
+    const target = ref && view.fields.get(ref[1]);
+    if (target && target.key !== 'measure') return dimensionDataType(target);
+  }
+  return MEASURE_TYPES[type] || 'FLOAT';
+};
+
+const describeField = (field: LookmlNode): string => {
+  const description = childValue(field, 'description');
+  if (description) return description;
+  if (field.key === 'dimension_group') {
+    const timeframes = childList(field, childValue(field, 'type') === 'duration' ? 'intervals' : 'timeframes');
+    return timeframes.length ? `Time dimension group (${timeframes.join(', ')})` : '';
+  }
+  return '';
+};
+
+const fieldToProperty = (field: LookmlNode, view: ViewInfo, views: Map<string, ViewInfo>, table?: TableRef): Property => {
+  const name = field.name!;
+  const property: Property = {
+    id: propertyIdFor(view.name, name),
+    name: childValue(field, 'label') || humanizeIdentifier(name),
+    dataType: field.key === 'measure' ? measureDataType(field, view) : dimensionDataType(field),
+    description: describeField(field),
+    propertyType: field.key === 'measure' ? PropertyType.MEASURE : PropertyType.DIMENSION
+  };
+  if (isYes(childValue(field, 'primary_key'))) property.isUniqueKey = true;
+
+  if (field.key === 'dimension_group' && childValue(field, 'type') === 'duration') {
+    const start = childValue(field, 'sql_start');
+    const end = childValue(field, 'sql_end');
+    const interval = (childList(field, 'intervals')[0] || 'day').toUpperCase();
+    property.isComputed = true;
+    property.bindingType = 'expression';
+    if (start && end) {
+      property.definition = `TIMESTAMP_DIFF(${resolveSql(end, view, views)}, ${resolveSql(start, view, views)}, ${interval})`;
+    }
+    return property;
+  }
+
+  const column = directColumn(field) || (field.key === 'dimension_group' ? childValue(field, 'sql')?.match(/^\$\{TABLE\}\.`?(\w+)`?$/)?.[1] : undefined);
+  if (column && table) {
+    return {
+      ...property,
+      binding: `${table.table}.${column}`,
+      bindingType: 'column',
+      bindingSystem: 'bigquery',
+      bindingProject: table.project,
+      bindingDataset: table.dataset,
+      bindingTable: table.table,
+      bindingColumn: column
+    };
+  }
+
+  const expression = fieldExpression(field, view, views, new Set([`${view.name}.${name}`]));
+  if (field.key === 'measure' || !column) {
+    property.isComputed = true;
+    property.bindingType = 'expression';
+    if (expression) property.definition = expression;
+  }
+  return property;
+};
+
+// Fact views are explore bases that join out to dimensions; views only ever
+// joined in on the "one" side are dimensions.
+const classifyViews = (explores: LookmlNode[], viewForAlias: (explore: LookmlNode, alias: string) => string) => {
+  const facts = new Set<string>();
+  const dimensions = new Set<string>();
+  explores.forEach(explore => {
+    const base = viewForAlias(explore, explore.name!);
+    childrenOf(explore, 'join').forEach(join => {
+      const type = childValue(join, 'relationship') || 'many_to_one';
+      if (type === 'many_to_one') {
+        facts.add(base);
+        dimensions.add(viewForAlias(explore, join.name!));
+      }
+    });
+  });
+  return (view: string): EntityType =>
+    facts.has(view) ? EntityType.FACT : dimensions.has(view) ? EntityType.DIMENSION : EntityType.ENTITY;
+};
+
+const joinRelationships = (
+  explores: LookmlNode[],
+  views: Map<string, ViewInfo>,
+  viewForAlias: (explore: LookmlNode, alias: string) => string
+): Relationship[] => {
+  const relationships: Relationship[] = [];
+  const seen = new Set<string>();
+
+  explores.forEach(explore => {
+    const baseAlias = explore.name!;
+    childrenOf(explore, 'join').forEach(join => {
+      const joinAlias = join.name!;
+      const targetView = viewForAlias(explore, joinAlias);
+      const type = JOIN_RELATIONSHIPS[childValue(join, 'relationship') || 'many_to_one'] || 'MANY_TO_ONE';
+
+      // Pick the first equality in sql_on that ties the joined view to another one
+      let source: { view: string; field: string } | undefined;
+      let target: { view: string; field: string } | undefined;
+      const sqlOn = childValue(join, 'sql_on');
+      const foreignKey = childValue(join, 'foreign_key');
+      if (sqlOn) {
+        const pairs = [...sqlOn.matchAll(/\$\{(\w+)\.(\w+)\}\s*=\s*\$\{(\w+)\.(\w+)\}/g)];
+        for (const [, leftAlias, leftField, rightAlias, rightField] of pairs) {
+          const left = { view: viewForAlias(explore, leftAlias), field: leftField, alias: leftAlias };
+          const right = { view: viewForAlias(explore, rightAlias), field: rightField, alias: rightAlias };
+          if (right.alias === joinAlias && left.alias !== joinAlias) {
+            source = left;
+            target = right;
+            break;
+          }
+          if (left.alias === joinAlias && right.alias !== joinAlias) {
+            source = right;
+            target = left;
+            break;
+          }
+        }
+      } else if (foreignKey) {
+        const baseView = viewForAlias(explore, baseAlias);
+        const [fkView, fkField] = foreignKey.includes('.') ? foreignKey.split('.') : [baseView, foreignKey];
+        const primaryKey = [...(views.get(targetView)?.fields.values() || [])]
+          .find(f => isYes(childValue(f, 'primary_key')));
+        source = { view: viewForAlias(explore, fkView), field: fkField };
+        if (primaryKey) target = { view: targetView, field: primaryKey.name! };
+      }
+
+      const sourceView = source?.view || viewForAlias(explore, baseAlias);
+      if (!views.has(sourceView) || !views.has(targetView)) return;
+      const sourcePropertyId = source && views.get(sourceView)!.fields.has(source.field) ? propertyIdFor(sourceView, source.field) : undefined;
+      const targetPropertyId = target && views.get(targetView)!.fields.has(target.field) ? propertyIdFor(targetView, target.field) : undefined;
+
+      const key = [sourceView, sourcePropertyId, targetView, targetPropertyId, type].join('|');
+      if (seen.has(key)) return;
+      seen.add(key);
+      relationships.push({
+        id: `rel_${sourceView}_${joinAlias}${sourcePropertyId ? '' : `_${explore.name}`}`,
+        sourceEntityId: entityIdFor(sourceView),
+        targetEntityId: entityIdFor(targetView),
+        sourcePropertyId,
+        targetPropertyId,
+        type,
+        description: childValue(join, 'description') || `Joined in explore ${explore.name}`,
+        label: joinAlias !== targetView ? humanizeIdentifier(joinAlias) : undefined
+      });
+    });
+  });
+
+  // Aliases can produce the same id twice for different join conditions
+  const ids = new Map<string, number>();
+  return relationships.map(rel => {
+    const count = ids.get(rel.id) || 0;
+    ids.set(rel.id, count + 1);
+    return count ? { ...rel, id: `${rel.id}_${count + 1}` } : rel;
+  });
+};
+
+// --- Public entry point ---
+
+export const lookmlToModel = (files: LookmlFile[], projectName?: string): SemanticModel => {
+  const nodes = files.flatMap(file => parseLookml(file.content, file.name));
+  const views = collectViews(nodes);
+  if (views.size === 0) {
+    throw new Error('No LookML views found. Upload the project\'s .view.lkml files along with its model files.');
+  }
+  const explores = nodes.filter(n => n.key === 'explore' && n.name);
+
+  // Explores and joins may alias a view with `from:` or `view_name:`
+  const viewForAlias = (explore: LookmlNode, alias: string): string => {
+    if (alias === explore.name) return childValue(explore, 'from') || childValue(explore, 'view_name') || alias;
+    const join = childrenOf(explore, 'join').find(j => j.name === alias);
+    return (join && childValue(join, 'from')) || alias;
+  };
+
+  const entityTypeFor = classifyViews(explores, viewForAlias);
+
+  const entities: Entity[] = [...views.values()].map(view => {
+    const table = parseTableName(childValue(view.node, 'sql_table_name'));
+    const derivedSql = child(view.node, 'derived_table') && childValue(child(view.node, 'derived_table')!, 'sql');
+    const entity: Entity = {
+      id: entityIdFor(view.name),
+      name: childValue(view.node, 'label') || humanizeIdentifier(view.name),
+      type: entityTypeFor(view.name),
+      description: childValue(view.node, 'description') || `Imported from LookML view ${view.name}`,
+      properties: [...view.fields.values()].map(field => fieldToProperty(field, view, views, table)),
+      bindings: [
+        ...(table ? [{ type: 'BIGQUERY' as const, resource: table.full }] : []),
+        { type: 'LOOKER' as const, resource: view.name }
+      ]
+    };
+    if (derivedSql) {
+      entity.aspects = [{
+        aspectTypeId: 'aspect_lineage',
+        values: { source_system: 'Looker derived table', transformation_logic: derivedSql }
+      }];
+    }
+    return entity;
+  });
+
+  const modelFile = files.find(f => f.name.endsWith('.model.lkml'));
+  const name = projectName?.trim() || (modelFile ? modelFile.name.replace(/\.model\.lkml$/, '') : 'LookML Project');
+  const connection = nodes.find(n => n.key === 'connection')?.value;
+
+  return {
+    id: `looker_${Date.now()}`,
+    name: `Looker Model - ${name}`,
+    description: `Imported from ${files.length} LookML file${files.length === 1 ? '' : 's'} on ${new Date().toLocaleDateString()}` +
+      (connection ? ` (connection: ${connection}).` : '.'),
+    domain: 'Looker',
+    entities,
+    relationships: joinRelationships(explores, views, viewForAlias),
+    createdAt: new Date(),
+    updatedAt: new Date()
+  };
+};
@@ -0,0 +1,84 @@
+import { Entity, Property, PropertyType, AggregationType, Additivity } from '../types';
+
+// Aggregation semantics of measure properties, shared by the generators. A
+// measure bound to a column or a row-level expression is aggregated with its
+// declared aggregation, or SUM for numbers and COUNT DISTINCT otherwise; a
+// measure whose definition already aggregates keeps that aggregate.
+// Additivity says across which dimensions the aggregated values may be
+// combined:
+//   ADDITIVE       all of them (sums and counts)
+//   SEMI_ADDITIVE  all but the snapshot time: stock levels and balances are
+//                  read from the latest snapshot instead of summed over days
+//   NON_ADDITIVE   none (averages, distinct counts, ratios)
+
+export const AGGREGATION_LABELS: Record<AggregationType, string> = {
+  [AggregationType.SUM]: 'Sum',
+  [AggregationType.AVG]: 'Average',
+  [AggregationType.MIN]: 'Minimum',
+  [AggregationType.MAX]: 'Maximum',
+  [AggregationType.COUNT]: 'Count',
+  [AggregationType.COUNT_DISTINCT]: 'Count distinct',
+  [AggregationType.APPROX_COUNT_DISTINCT]: 'Approximate distinct count'
+};
+
+export const ADDITIVITY_LABELS: Record<Additivity, string> = {
+  [Additivity.ADDITIVE]: 'Additive',
+  [Additivity.SEMI_ADDITIVE]: 'Semi-additive over time',
+  [Additivity.NON_ADDITIVE]: 'Non-additive'
+};
+
+const NUMERIC_TYPES = new Set(['INTEGER', 'FLOAT', 'NUMERIC', 'BIGNUMERIC']);
+const TIME_TYPES = new Set(['DATE', 'TIMESTAMP', 'DATETIME']);
+
+const isAggregate = (sql: string) => /\b(SUM|AVG|COUNT|MIN|MAX|COUNTIF|APPROX_\w+|STRING_AGG|ARRAY_AGG|ANY_VALUE)\s*\(/i.test(sql);
+
+export interface AggregateCall {
+  aggregation: AggregationType;
+  argument: string;
+}
+
+// SUM(x), COUNT(DISTINCT x), APPROX_COUNT_DISTINCT(x), ... when the whole
+// expression is one aggregate of a known type
+export const parseAggregateCall = (sql: string): AggregateCall | undefined => {
+  const match = sql.trim().match(/^(SUM|AVG|MIN|MAX|COUNT|APPROX_COUNT_DISTINCT)\s*\(\s*(DISTINCT\s+)?([\s\S]*)\)$/i);
+  if (!match) return undefined;
+  // Reject SUM(a) / SUM(b): the opening paren must close at the very end
+  let depth = 0;
+  for (const ch of match[3]) {
+    if (ch === '(') depth++;
+    if (ch === ')' && --depth < 0) return undefined;
+  }
+  const fn = match[1].toUpperCase();
+  if (depth !== 0 || (match[2] && fn !== 'COUNT')) return undefined;
+  return { aggregation: match[2] ? AggregationType.COUNT_DISTINCT : fn as AggregationType, argument: match[3].trim() };
+};
+
+export const aggregateSql = (aggregation: AggregationType, sql: string) => {
+  if (aggregation === AggregationType.COUNT_DISTINCT) return `COUNT(DISTINCT ${sql})`;
+  return `${aggregation}(${sql})`;
+};
+
+// Aggregation applied to a measure's row-level column or expression
+export const defaultAggregation = (property: Property): AggregationType =>
+  property.aggregation
+  || (NUMERIC_TYPES.has(property.dataType?.toUpperCase()) ? AggregationType.SUM : AggregationType.COUNT_DISTINCT);
+
+// Aggregation of a measure given its SQL expression, if any: the aggregate
+// the expression already applies, else the declared or default one.
+// Undefined when the expression combines aggregates (SUM(a) / SUM(b)).
+export const measureAggregation = (property: Property, expression?: string): AggregationType | undefined => {
+  if (expression && isAggregate(expression)) return parseAggregateCall(expression)?.aggregation;
+  return defaultAggregation(property);
+};
+
+export const measureAdditivity = (property: Property, aggregation: AggregationType | undefined): Additivity =>
+  property.additivity
+  || (aggregation === AggregationType.SUM || aggregation === AggregationType.COUNT ? Additivity.ADDITIVE : Additivity.NON_ADDITIVE);
+
+// Snapshot time of a semi-additive measure: the declared property, else the
+// entity's first date or time dimension
+export const snapshotPropertyOf = (entity: Entity, property: Property): Property | undefined => {
+  if (property.additivity !== Additivity.SEMI_ADDITIVE) return undefined;
+  return entity.properties.find(p => p.id === property.snapshotPropertyId)
+    || entity.properties.find(p => p.propertyType !== PropertyType.MEASURE && TIME_TYPES.has(p.dataType?.toUpperCase()));
+};
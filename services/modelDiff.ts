@@ -0,0 +1,185 @@
+import { SemanticModel, Entity, Property, Relationship, AspectAssignment, GlossaryTerm } from '../types';
+
+// Structural comparison of two semantic models. Objects are matched by id so a
+// rename shows up as a change rather than a remove + add.
+
+export type ChangeKind = 'added' | 'removed' | 'changed';
+
+export type DiffCategory = 'model' | 'entity' | 'property' | 'binding' | 'relationship' | 'aspect' | 'glossary';
+
+export interface FieldChange {
+  field: string;
+  before: any;
+  after: any;
+}
+
+export interface DiffEntry {
+  kind: ChangeKind;
+  category: DiffCategory;
+  id: string;
+  // Human readable path, e.g. "Product › Product SKU"
+  label: string;
+  entityId?: string;
+  propertyId?: string;
+  changes: FieldChange[];
+}
+
+export interface ModelDiff {
+  entries: DiffEntry[];
+  summary: Record<DiffCategory, Record<ChangeKind, number>>;
+}
+
+const MODEL_FIELDS: (keyof SemanticModel)[] = ['name', 'description', 'overview', 'domain', 'gitFile', 'queryRouting'];
+const ENTITY_FIELDS: (keyof Entity)[] = ['name', 'type', 'description', 'overview'];
+const PROPERTY_FIELDS: (keyof Property)[] = ['name', 'dataType', 'propertyType', 'description', 'overview', 'isUniqueKey', 'isComputed', 'definition', 'aggregation', 'additivity', 'snapshotPropertyId'];
+const BINDING_FIELDS: (keyof Property)[] = ['binding', 'bindingType', 'bindingSystem', 'bindingProject', 'bindingDataset', 'bindingTable', 'bindingColumn'];
+const RELATIONSHIP_FIELDS: (keyof Relationship)[] = ['type', 'sourceEntityId', 'sourcePropertyId', 'targetEntityId', 'targetPropertyId', 'title', 'label', 'description'];
+
+// Treat undefined, null and '' as the same "unset" value so clearing a field in
+// the editor and never setting it compare equal.
+const normalize = (value: any): any => {
+  if (value === undefined || value === null || value === '') return undefined;
+  if (value instanceof Date) return value.toISOString();
+  if (Array.isArray(value)) return value.map(normalize);
+  if (typeof value === 'object') {
+    return Object.keys(value).sort().reduce((acc, key) => {
+      const v = normalize(value[key]);
+      if (v !== undefined) acc[key] = v;
+      return acc;
+    }, {} as Record<string, any>);
+  }
+  return value;
+};
+
+export const valuesEqual = (a: any, b: any): boolean =>
+  JSON.stringify(normalize(a)) === JSON.stringify(normalize(b));
+
+const compareFields = <T>(before: T, after: T, fields: (keyof T)[]): FieldChange[] =>
+  fields
+    .filter(field => !valuesEqual(before[field], after[field]))
+    .map(field => ({ field: String(field), before: before[field], after: after[field] }));
+
+// Walk two id-keyed lists and report adds, removes and matched pairs
+const matchById = <T extends { id: string }>(
+  before: T[],
+  after: T[],
+  onAdded: (item: T) => void,
+  onRemoved: (item: T) => void,
+  onMatched: (before: T, after: T) => void
+) => {
+  const beforeById = new Map(before.map(item => [item.id, item]));
+  const afterIds = new Set(after.map(item => item.id));
+  before.forEach(item => {
+    if (!afterIds.has(item.id)) onRemoved(item);
+  });
+  after.forEach(item => {
+    const prev = beforeById.get(item.id);
+    if (prev) onMatched(prev, item);
+    else onAdded(item);
+  });
+};
+
+interface AnnotationOwner {
+  aspects?: AspectAssignment[];
+  glossaryTerms?: GlossaryTerm[];
+}
+
+const diffAnnotations = (
+  before: AnnotationOwner,
+  after: AnnotationOwner,
+  ownerLabel: string,
+  ids: { entityId?: string; propertyId?: string },
+  entries: DiffEntry[]
+) => {
+  const toKeyed = (aspects?: AspectAssignment[]) => (aspects || []).map(a => ({ ...a, id: a.aspectTypeId }));
+  matchById(
+    toKeyed(before.aspects),
+    toKeyed(after.aspects),
+    a => entries.push({ kind: 'added', category: 'aspect', id: a.id, label: `${ownerLabel} › ${a.id}`, ...ids, changes: [{ field: 'values', before: undefined, after: a.values }] }),
+    a => entries.push({ kind: 'removed', category: 'aspect', id: a.id, label: `${ownerLabel} › ${a.id}`, ...ids, changes: [{ field: 'values', before: a.values, after: undefined }] }),
+    (a, b) => {
+      const changes = Object.keys({ ...a.values, ...b.values }).sort()
+        .filter(key => !valuesEqual(a.values?.[key], b.values?.[key]))
+        .map(key => ({ field: key, before: a.values?.[key], after: b.values?.[key] }));
+      if (changes.length) entries.push({ kind: 'changed', category: 'aspect', id: a.id, label: `${ownerLabel} › ${a.id}`, ...ids, changes });
+    }
+  );
+  matchById(
+    before.glossaryTerms || [],
+    after.glossaryTerms || [],
+    t => entries.push({ kind: 'added', category: 'glossary', id: t.id, label: `${ownerLabel} › ${t.name}`, ...ids, changes: [] }),
+    t => entries.push({ kind: 'removed', category: 'glossary', id: t.id, label: `${ownerLabel} › ${t.name}`, ...ids, changes: [] }),
+    () => {}
+  );
+};
+
+const describeRelationship = (rel: Relationship, model: SemanticModel) => {
+  const source = model.entities.find(e => e.id === rel.sourceEntityId)?.name || rel.sourceEntityId;
+  const target = model.entities.find(e => e.id === rel.targetEntityId)?.name || rel.targetEntityId;
+  return `${source} → ${target}${rel.label ? ` (${rel.label})` : ''}`;
+};
+
+const diffEntityBody = (before: Entity, after: Entity, entries: DiffEntry[]) => {
+  const entityChanges = compareFields(before, after, ENTITY_FIELDS);
+  if (!valuesEqual(before.bindings, after.bindings)) {
+    entityChanges.push({ field: 'bindings', before: before.bindings, after: after.bindings });
+  }
+  if (entityChanges.length) {
+    entries.push({ kind: 'changed', category: 'entity', id: after.id, label: after.name, entityId: after.id, changes: entityChanges });
+  }
+  diffAnnotations(before, after, after.name, { entityId: after.id }, entries);
+
+  matchById(
+    before.properties,
+    after.properties,
+    p => entries.push({ kind: 'added', category: 'property', id: p.id, label: `${after.name} › ${p.name}`, entityId: after.id, propertyId: p.id, changes: [] }),
+    p => entries.push({ kind: 'removed', category: 'property', id: p.id, label: `${after.name} › ${p.name}`, entityId: after.id, propertyId: p.id, changes: [] }),
+    (a, b) => {
+      const label = `${after.name} › ${b.name}`;
+      const ids = { entityId: after.id, propertyId: b.id };
+      const propChanges = compareFields(a, b, PROPERTY_FIELDS);
+      if (propChanges.length) entries.push({ kind: 'changed', category: 'property', id: b.id, label, ...ids, changes: propChanges });
+      const bindingChanges = compareFields(a, b, BINDING_FIELDS);
+      if (bindingChanges.length) entries.push({ kind: 'changed', category: 'binding', id: b.id, label, ...ids, changes: bindingChanges });
+      diffAnnotations(a, b, label, ids, entries);
+    }
+  );
+};
+
+const emptySummary = (): ModelDiff['summary'] => {
+  const kinds = (): Record<ChangeKind, number> => ({ added: 0, removed: 0, changed: 0 });
+  return { model: kinds(), entity: kinds(), property: kinds(), binding: kinds(), relationship: kinds(), aspect: kinds(), glossary: kinds() };
+};
+
+export const diffModels = (before: SemanticModel, after: SemanticModel): ModelDiff => {
+  const entries: DiffEntry[] = [];
+
+  const modelChanges = compareFields(before, after, MODEL_FIELDS);
+  if (modelChanges.length) entries.push({ kind: 'changed', category: 'model', id: after.id, label: after.name, changes: modelChanges });
+  diffAnnotations(before, after, 'Model', {}, entries);
+
+  matchById(
+    before.entities,
+    after.entities,
+    e => entries.push({ kind: 'added', category: 'entity', id: e.id, label: e.name, entityId: e.id, changes: [] }),
+    e => entries.push({ kind: 'removed', category: 'entity', id: e.id, label: e.name, entityId: e.id, changes: [] }),
+    (a, b) => diffEntityBody(a, b, entries)
+  );
+
+  matchById(
+    before.relationships,
+    after.relationships,
+    r => entries.push({ kind: 'added', category: 'relationship', id: r.id, label: describeRelationship(r, after), changes: [] }),
+    r => entries.push({ kind: 'removed', category: 'relationship', id: r.id, label: describeRelationship(r, before), changes: [] }),
+    (a, b) => {
+      const changes = compareFields(a, b, RELATIONSHIP_FIELDS);
+      if (changes.length) entries.push({ kind: 'changed', category: 'relationship', id: b.id, label: describeRelationship(b, after), changes });
+    }
+  );
+
+  const summary = emptySummary();
+  entries.forEach(entry => { summary[entry.category][entry.kind] += 1; });
+  return { entries, summary };
+};
+
+export const isEmptyDiff = (diff: ModelDiff) => diff.entries.length === 0;
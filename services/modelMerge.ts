@@ -0,0 +1,242 @@
+import { SemanticModel, Entity, Property, Relationship } from '../types';
+import { valuesEqual } from './modelDiff';
+
+// Three-way merge of semantic models keyed by entity, property and relationship
+// id. Non-overlapping edits are combined automatically; overlapping edits are
+// reported as conflicts and resolved with the caller's per-conflict choice.
+
+export type ConflictSide = 'ours' | 'theirs';
+
+export type ConflictCategory = 'model' | 'entity' | 'property' | 'relationship';
+
+export interface MergeConflict {
+  // Stable across repeated merges of the same inputs, used to key resolutions
+  id: string;
+  category: ConflictCategory;
+  label: string;
+  // The field group that conflicts, or "(exists)" when one side deleted the object
+  field: string;
+  base: any;
+  ours: any;
+  theirs: any;
+}
+
+export interface MergeResult {
+  merged: SemanticModel;
+  conflicts: MergeConflict[];
+}
+
+export const EXISTS_FIELD = '(exists)';
+
+interface FieldGroup {
+  name: string;
+  fields: string[];
+}
+
+// Fields that must change together are merged as one unit, so a binding edited
+// on both sides is a single conflict rather than a mix of both.
+const PROPERTY_GROUPS: FieldGroup[] = [
+  { name: 'binding', fields: ['binding', 'bindingType', 'bindingSystem', 'bindingProject', 'bindingDataset', 'bindingTable', 'bindingColumn'] },
+  { name: 'definition', fields: ['isComputed', 'definition'] }
+];
+const RELATIONSHIP_GROUPS: FieldGroup[] = [
+  { name: 'source', fields: ['sourceEntityId', 'sourcePropertyId'] },
+  { name: 'target', fields: ['targetEntityId', 'targetPropertyId'] }
+];
+
+interface MergeContext {
+  conflicts: MergeConflict[];
+  resolutions: Record<string, ConflictSide>;
+}
+
+const pickFields = (obj: any, fields: string[]) =>
+  obj ? fields.reduce((acc, f) => ({ ...acc, [f]: obj[f] }), {} as Record<string, any>) : undefined;
+
+// Record a conflict and return the side chosen for it (ours unless resolved otherwise)
+const resolveConflict = (ctx: MergeContext, conflict: MergeConflict): ConflictSide => {
+  ctx.conflicts.push(conflict);
+  return ctx.resolutions[conflict.id] || 'ours';
+};
+
+const mergeFields = (
+  base: any,
+  ours: any,
+  theirs: any,
+  groups: FieldGroup[],
+  skip: string[],
+  conflictPrefix: string,
+  category: ConflictCategory,
+  label: string,
+  ctx: MergeContext
+): Record<string, any> => {
+  const keys = new Set([...Object.keys(base || {}), ...Object.keys(ours), ...Object.keys(theirs)]);
+  skip.forEach(k => keys.delete(k));
+
+  const units: FieldGroup[] = [];
+  const grouped = new Set<string>();
+  groups.forEach(group => {
+    if (group.fields.some(f => keys.has(f))) {
+      units.push(group);
+      group.fields.forEach(f => grouped.add(f));
+    }
+  });
+  [...keys].filter(k => !grouped.has(k)).sort().forEach(k => units.push({ name: k, fields: [k] }));
+
+  const result: Record<string, any> = {};
+  units.forEach(unit => {
+    const b = pickFields(base, unit.fields);
+    const o = pickFields(ours, unit.fields)!;
+    const t = pickFields(theirs, unit.fields)!;
+    let chosen = o;
+    if (valuesEqual(o, t) || valuesEqual(t, b)) {
+      chosen = o;
+    } else if (valuesEqual(o, b)) {
+      chosen = t;
+    } else {
+      const side = resolveConflict(ctx, {
+        id: `${conflictPrefix}:${unit.name}`,
+        category,
+        label,
+        field: unit.name,
+        base: unit.fields.length === 1 ? b?.[unit.name] : b,
+        ours: unit.fields.length === 1 ? o[unit.name] : o,
+        theirs: unit.fields.length === 1 ? t[unit.name] : t
+      });
+      chosen = side === 'ours' ? o : t;
+    }
+    unit.fields.forEach(f => {
+      if (chosen[f] !== undefined) result[f] = chosen[f];
+    });
+  });
+  return result;
+};
+
+const mergeCollection = <T extends { id: string }>(
+  base: T[],
+  ours: T[],
+  theirs: T[],
+  mergeItem: (b: T | undefined, o: T, t: T) => T,
+  describe: (item: T) => { prefix: string; category: ConflictCategory; label: string },
+  ctx: MergeContext
+): T[] => {
+  const baseById = new Map(base.map(i => [i.id, i]));
+  const oursById = new Map(ours.map(i => [i.id, i]));
+  const theirsById = new Map(theirs.map(i => [i.id, i]));
+  // Keep our ordering and append items only the other side introduced
+  const ids = [...ours.map(i => i.id), ...theirs.filter(i => !oursById.has(i.id)).map(i => i.id)];
+
+  const result: T[] = [];
+  ids.forEach(id => {
+    const b = baseById.get(id);
+    const o = oursById.get(id);
+    const t = theirsById.get(id);
+    if (o && t) {
+      result.push(mergeItem(b, o, t));
+      return;
+    }
+    const present = (o || t)!;
+    if (!b) {
+      // Added on one side only
+      result.push(present);
+      return;
+    }
+    if (valuesEqual(b, present)) {
+      // Deleted on one side and untouched on the other
+      return;
+    }
+    const { prefix, category, label } = describe(present);
+    const side = resolveConflict(ctx, {
+      id: `${prefix}:${EXISTS_FIELD}`,
+      category,
+      label,
+      field: EXISTS_FIELD,
+      base: b,
+      ours: o,
+      theirs: t
+    });
+    const chosen = side === 'ours' ? o : t;
+    if (chosen) result.push(chosen);
+  });
+  return result;
+};
+
+const mergeProperty = (entityName: string, entityId: string, ctx: MergeContext) =>
+  (b: Property | undefined, o: Property, t: Property): Property => mergeFields(
+    b, o, t, PROPERTY_GROUPS, [], `property:${entityId}:${o.id}`, 'property', `${entityName} › ${o.name}`, ctx
+  ) as Property;
+
+const mergeEntity = (ctx: MergeContext) => (b: Entity | undefined, o: Entity, t: Entity): Entity => {
+  const fields = mergeFields(b, o, t, [], ['properties'], `entity:${o.id}`, 'entity', o.name, ctx) as Entity;
+  const name = fields.name || o.name;
+  return {
+    ...fields,
+    properties: mergeCollection(
+      b?.properties || [],
+      o.properties,
+      t.properties,
+      mergeProperty(name, o.id, ctx),
+      p => ({ prefix: `property:${o.id}:${p.id}`, category: 'property', label: `${name} › ${p.name}` }),
+      ctx
+    )
+  };
+};
+
+const describeRelationship = (rel: Relationship, models: SemanticModel[]) => {
+  const nameOf = (id: string) => models.map(m => m.entities.find(e => e.id === id)?.name).find(Boolean) || id;
+  return `${nameOf(rel.sourceEntityId)} → ${nameOf(rel.targetEntityId)}${rel.label ? ` (${rel.label})` : ''}`;
+};
+
+export const mergeModels = (
+  base: SemanticModel,
+  ours: SemanticModel,
+  theirs: SemanticModel,
+  resolutions: Record<string, ConflictSide> = {}
+): MergeResult => {
+  const ctx: MergeContext = { conflicts: [], resolutions };
+  const models = [ours, theirs, base];
+
+  const fields = mergeFields(
+    base, ours, theirs, [], ['entities', 'relationships', 'createdAt', 'updatedAt', 'formatVersion'],
+    'model', 'model', ours.name, ctx
+  );
+
+  const entities = mergeCollection(
+    base.entities,
+    ours.entities,
+    theirs.entities,
+    mergeEntity(ctx),
+    e => ({ prefix: `entity:${e.id}`, category: 'entity', label: e.name }),
+    ctx
+  );
+
+  const relationships = mergeCollection(
+    base.relationships,
+    ours.relationships,
+    theirs.relationships,
+    (b, o, t) => mergeFields(b, o, t, RELATIONSHIP_GROUPS, [], `relationship:${o.id}`, 'relationship', describeRelationship(o, models), ctx) as Relationship,
+    r => ({ prefix: `relationship:${r.id}`, category: 'relationship', label: describeRelationship(r, models) }),
+    ctx
+  );
+
+  const merged: SemanticModel = {
+    ...(fields as SemanticModel),
+    id: ours.id,
+    entities,
+    relationships,
+    createdAt: ours.createdAt,
+    updatedAt: new Date()
+  };
+  return { merged, conflicts: ctx.conflicts };
+};
+
+// Relationships can survive a merge while the entity or property they point at
+// was deleted on the other side; list those so the UI can warn before applying.
+export const findDanglingRelationships = (model: SemanticModel): Relationship[] =>
+  model.relationships.filter(rel => {
+    const source = model.entities.find(e => e.id === rel.sourceEntityId);
+    const target = model.entities.find(e => e.id === rel.targetEntityId);
+    if (!source || !target) return true;
+    if (rel.sourcePropertyId && !source.properties.some(p => p.id === rel.sourcePropertyId)) return true;
+    if (rel.targetPropertyId && !target.properties.some(p => p.id === rel.targetPropertyId)) return true;
+    return false;
+  });
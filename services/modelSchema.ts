@@ -0,0 +1,324 @@
+// Format versioning for serialized semantic models (YAML files, JSON uploads and
+// the IndexedDB store). Older documents are upgraded step by step on load and
+// then validated against the published JSON Schema.
+
+export const CURRENT_FORMAT_VERSION = 2;
+
+// Documents written before versioning was introduced carry no formatVersion
+const LEGACY_FORMAT_VERSION = 1;
+
+const stringField = { type: 'string' };
+const booleanField = { type: 'boolean' };
+const dateField = { type: 'string', format: 'date-time' };
+
+const descriptionHistorySchema = {
+  type: 'array',
+  items: {
+    type: 'object',
+    required: ['content', 'timestamp'],
+    properties: { content: stringField, timestamp: dateField, author: stringField }
+  }
+};
+
+const aspectsSchema = {
+  type: 'array',
+  items: {
+    type: 'object',
+    required: ['aspectTypeId', 'values'],
+    properties: { aspectTypeId: stringField, values: { type: 'object' } }
+  }
+};
+
+const glossaryTermsSchema = {
+  type: 'array',
+  items: {
+    type: 'object',
+    required: ['id', 'name'],
+    properties: { id: stringField, name: stringField, description: stringField, domain: stringField }
+  }
+};
+
+const propertySchema = {
+  type: 'object',
+  required: ['id', 'name', 'dataType'],
+  properties: {
+    id: { type: 'string', minLength: 1 },
+    name: stringField,
+    dataType: { type: 'string', minLength: 1 },
+    description: stringField,
+    overview: stringField,
+    descriptionHistory: descriptionHistorySchema,
+    aspects: aspectsSchema,
+    glossaryTerms: glossaryTermsSchema,
+    binding: stringField,
+    bindingType: { enum: ['column', 'expression'] },
+    bindingSystem: { enum: ['bigquery', 'spanner'] },
+    bindingProject: stringField,
+    bindingDataset: stringField,
+    bindingTable: stringField,
+    bindingColumn: stringField,
+    isComputed: booleanField,
+    isUniqueKey: booleanField,
+    propertyType: { enum: ['DIMENSION', 'MEASURE', 'OTHER'] },
+    definition: stringField,
+    aggregation: { enum: ['SUM', 'AVG', 'MIN', 'MAX', 'COUNT', 'COUNT_DISTINCT', 'APPROX_COUNT_DISTINCT'] },
+    additivity: { enum: ['ADDITIVE', 'SEMI_ADDITIVE', 'NON_ADDITIVE'] },
+    snapshotPropertyId: stringField
+  }
+};
+
+const entitySchema = {
+  type: 'object',
+  required: ['id', 'name', 'type', 'properties'],
+  properties: {
+    id: { type: 'string', minLength: 1 },
+    name: stringField,
+    type: { enum: ['ENTITY', 'DIMENSION', 'FACT'] },
+    description: stringField,
+    overview: stringField,
+    descriptionHistory: descriptionHistorySchema,
+    aspects: aspectsSchema,
+    glossaryTerms: glossaryTermsSchema,
+    properties: { type: 'array', items: propertySchema },
+    bindings: {
+      type: 'array',
+      items: {
+        type: 'object',
+        required: ['type', 'resource'],
+        properties: { type: { enum: ['BIGQUERY', 'SPANNER', 'LOOKER'] }, resource: stringField }
+      }
+    }
+  }
+};
+
+const relationshipSchema = {
+  type: 'object',
+  required: ['id', 'sourceEntityId', 'targetEntityId', 'type'],
+  properties: {
+    id: { type: 'string', minLength: 1 },
+    sourceEntityId: stringField,
+    targetEntityId: stringField,
+    sourcePropertyId: stringField,
+    targetPropertyId: stringField,
+    type: { enum: ['ONE_TO_ONE', 'ONE_TO_MANY', 'MANY_TO_ONE', 'MANY_TO_MANY'] },
+    description: stringField,
+    title: stringField,
+    label: stringField
+  }
+};
+
+export const SEMANTIC_MODEL_JSON_SCHEMA = {
+  $schema: 'http://json-schema.org/draft-07/schema#',
+  $id: `https://dataplex.semantic-model/schema/v${CURRENT_FORMAT_VERSION}.json`,
+  title: 'Dataplex Semantic Model',
+  type: 'object',
+  required: ['formatVersion', 'id', 'name', 'entities', 'relationships'],
+  properties: {
+    formatVersion: { type: 'integer', enum: [CURRENT_FORMAT_VERSION] },
+    id: { type: 'string', minLength: 1 },
+    name: stringField,
+    description: stringField,
+    overview: stringField,
+    domain: stringField,
+    gitFile: stringField,
+    createdAt: dateField,
+    updatedAt: dateField,
+    descriptionHistory: descriptionHistorySchema,
+    aspects: aspectsSchema,
+    glossaryTerms: glossaryTermsSchema,
+    queryRouting: {
+      type: 'object',
+      required: ['engine', 'projectId'],
+      properties: {
+        engine: { enum: ['bigquery', 'spanner'] },
+        projectId: stringField,
+        dataset: stringField,
+        instance: stringField
+      }
+    },
+    entities: { type: 'array', items: entitySchema },
+    relationships: { type: 'array', items: relationshipSchema }
+  }
+};
+
+export interface SchemaIssue {
+  path: string;
+  message: string;
+}
+
+export class ModelValidationError extends Error {
+  issues: SchemaIssue[];
+
+  constructor(issues: SchemaIssue[]) {
+    const summary = issues.slice(0, 5).map(i => `${i.path}: ${i.message}`).join('; ');
+    const more = issues.length > 5 ? ` (and ${issues.length - 5} more)` : '';
+    super(`Invalid semantic model: ${summary}${more}`);
+    this.name = 'ModelValidationError';
+    this.issues = issues;
+  }
+}
+
+const joinPath = (base: string, key: string | number) =>
+  typeof key === 'number' ? `${base}[${key}]` : base ? `${base}.${key}` : key;
+
+const typeOf = (value: any): string => {
+  if (value === null) return 'null';
+  if (Array.isArray(value)) return 'array';
+  if (typeof value === 'number' && Number.isInteger(value)) return 'integer';
+  return typeof value;
+};
+
+const matchesType = (value: any, expected: string) => {
+  const actual = typeOf(value);
+  return actual === expected || (expected === 'number' && actual === 'integer');
+};
+
+// Validates the subset of JSON Schema used above: type, enum, required,
+// properties, items, minLength and the date-time format.
+const validateNode = (value: any, schema: any, path: string, issues: SchemaIssue[]) => {
+  if (schema.type && !matchesType(value, schema.type)) {
+    issues.push({ path: path || '(root)', message: `expected ${schema.type} but found ${typeOf(value)}` });
+    return;
+  }
+  if (schema.enum && !schema.enum.includes(value)) {
+    issues.push({ path, message: `must be one of ${schema.enum.map((v: any) => JSON.stringify(v)).join(', ')} (found ${JSON.stringify(value)})` });
+    return;
+  }
+  if (typeof value === 'string') {
+    if (schema.minLength && value.length < schema.minLength) {
+      issues.push({ path, message: 'must not be empty' });
+    }
+    if (schema.format === 'date-time' && isNaN(Date.parse(value))) {
+      issues.push({ path, message: `is not a valid date-time (found ${JSON.stringify(value)})` });
+    }
+  }
+  if (schema.type === 'object' && value) {
+    (schema.required || []).forEach((key: string) => {
+      if (value[key] === undefined || value[key] === null) {
+        issues.push({ path: joinPath(path, key), message: 'is required' });
+      }
+    });
+    Object.entries(schema.properties || {}).forEach(([key, child]) => {
+      if (value[key] !== undefined && value[key] !== null) validateNode(value[key], child, joinPath(path, key), issues);
+    });
+  }
+  if (schema.type === 'array' && schema.items) {
+    (value as any[]).forEach((item, idx) => validateNode(item, schema.items, joinPath(path, idx), issues));
+  }
+};
+
+// Referential checks the schema cannot express: unique ids and dangling references
+const validateReferences = (doc: any, issues: SchemaIssue[]) => {
+  const entityIds = new Map<string, Set<string>>();
+  const seenEntities = new Set<string>();
+  (doc.entities || []).forEach((entity: any, eIdx: number) => {
+    if (seenEntities.has(entity.id)) issues.push({ path: `entities[${eIdx}].id`, message: `duplicate entity id "${entity.id}"` });
+    seenEntities.add(entity.id);
+    const propIds = new Set<string>();
+    (entity.properties || []).forEach((prop: any, pIdx: number) => {
+      if (propIds.has(prop.id)) issues.push({ path: `entities[${eIdx}].properties[${pIdx}].id`, message: `duplicate property id "${prop.id}"` });
+      propIds.add(prop.id);
+    });
+    // Snapshot dimensions belong to the measure's own entity
+    (entity.properties || []).forEach((prop: any, pIdx: number) => {
+      if (prop.snapshotPropertyId && !propIds.has(prop.snapshotPropertyId)) {
+        issues.push({ path: `entities[${eIdx}].properties[${pIdx}].snapshotPropertyId`, message: `references unknown property "${prop.snapshotPropertyId}" on entity "${entity.id}"` });
+      }
+    });
+    entityIds.set(entity.id, propIds);
+  });
+
+  const seenRels = new Set<string>();
+  (doc.relationships || []).forEach((rel: any, rIdx: number) => {
+    const base = `relationships[${rIdx}]`;
+    if (seenRels.has(rel.id)) issues.push({ path: `${base}.id`, message: `duplicate relationship id "${rel.id}"` });
+    seenRels.add(rel.id);
+    (['source', 'target'] as const).forEach(side => {
+      const entityId = rel[`${side}EntityId`];
+      const propId = rel[`${side}PropertyId`];
+      const props = entityIds.get(entityId);
+      if (entityId && !props) {
+        issues.push({ path: `${base}.${side}EntityId`, message: `references unknown entity "${entityId}"` });
+      } else if (props && propId && !props.has(propId)) {
+        issues.push({ path: `${base}.${side}PropertyId`, message: `references unknown property "${propId}" on entity "${entityId}"` });
+      }
+    });
+  });
+};
+
+export const validateModelDocument = (doc: any): SchemaIssue[] => {
+  const issues: SchemaIssue[] = [];
+  validateNode(doc, SEMANTIC_MODEL_JSON_SCHEMA, '', issues);
+  if (issues.length === 0) validateReferences(doc, issues);
+  return issues;
+};
+
+interface Migration {
+  from: number;
+  description: string;
+  migrate: (doc: any) => any;
+}
+
+const mapEntities = (doc: any, fn: (entity: any) => any) => ({
+  ...doc,
+  entities: Array.isArray(doc.entities) ? doc.entities.map(fn) : doc.entities
+});
+
+const MIGRATIONS: Migration[] = [
+  {
+    from: 1,
+    description: 'Fix SPANNNER entity binding typo, infer bindingSystem and normalize legacy aspect/glossary fields',
+    migrate: (doc) => {
+      const normalizeAnnotations = (obj: any) => ({
+        ...obj,
+        ...(Array.isArray(obj.aspects) && {
+          aspects: obj.aspects.map(({ type, ...a }: any) => ({ ...a, aspectTypeId: a.aspectTypeId ?? type, values: a.values ?? {} }))
+        }),
+        ...(Array.isArray(obj.glossaryTerms) && {
+          glossaryTerms: obj.glossaryTerms.map(({ term, ...t }: any) => ({ ...t, name: t.name ?? term, id: t.id ?? term }))
+        })
+      });
+      return normalizeAnnotations(mapEntities(doc, entity => normalizeAnnotations({
+        ...entity,
+        bindings: Array.isArray(entity.bindings)
+          ? entity.bindings.map((b: any) => (b.type === 'SPANNNER' ? { ...b, type: 'SPANNER' } : b))
+          : entity.bindings,
+        properties: Array.isArray(entity.properties)
+          ? entity.properties.map((p: any) => normalizeAnnotations(
+              !p.bindingSystem && (p.bindingProject || p.bindingTable) ? { ...p, bindingSystem: 'bigquery' } : p
+            ))
+          : entity.properties
+      })));
+    }
+  }
+];
+
+// Upgrade a parsed document of any known version to CURRENT_FORMAT_VERSION
+export const migrateModelDocument = (doc: any): any => {
+  if (!doc || typeof doc !== 'object' || Array.isArray(doc)) {
+    throw new ModelValidationError([{ path: '(root)', message: 'expected a mapping at the top level' }]);
+  }
+  let version = doc.formatVersion ?? LEGACY_FORMAT_VERSION;
+  if (!Number.isInteger(version) || version < LEGACY_FORMAT_VERSION) {
+    throw new ModelValidationError([{ path: 'formatVersion', message: `unsupported value ${JSON.stringify(version)}` }]);
+  }
+  if (version > CURRENT_FORMAT_VERSION) {
+    throw new ModelValidationError([{
+      path: 'formatVersion',
+      message: `version ${version} was written by a newer release (this app reads up to ${CURRENT_FORMAT_VERSION})`
+    }]);
+  }
+  let current = doc;
+  while (version < CURRENT_FORMAT_VERSION) {
+    const step = MIGRATIONS.find(m => m.from === version);
+    if (!step) throw new Error(`No migration registered from format version ${version}`);
+    current = step.migrate(current);
+    version += 1;
+  }
+  return { ...current, formatVersion: CURRENT_FORMAT_VERSION };
+};
+
+export const assertValidModelDocument = (doc: any): void => {
+  const issues = validateModelDocument(doc);
+  if (issues.length > 0) throw new ModelValidationError(issues);
+};
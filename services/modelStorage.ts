@@ -0,0 +1,268 @@
+import { SemanticModel, EntityUpdateSuggestion, ModelSnapshot } from '../types';
+import { modelToDocument, documentToModel } from './modelYaml';
+
+// Browser-local persistence for the model collection. Models are stored in the
+// same document shape as the YAML files so both paths share one rehydration step.
+
+const DB_NAME = 'dataplex-semantic-models';
+const DB_VERSION = 2;
+const MODELS_STORE = 'models';
+const META_STORE = 'meta';
+const SNAPSHOTS_STORE = 'snapshots';
+const WORKSPACE_KEY = 'workspace';
+const CHANNEL_NAME = 'dataplex-semantic-models';
+
+export interface PersistedWorkspace {
+  models: SemanticModel[];
+  suggestions: EntityUpdateSuggestion[];
+  revision: number;
+}
+
+export interface WorkspaceChanges {
+  upserts: SemanticModel[];
+  deletes: string[];
+  modelOrder: string[];
+  suggestions: EntityUpdateSuggestion[];
+}
+
+interface WorkspaceMeta {
+  revision: number;
+  modelOrder: string[];
+  suggestions: EntityUpdateSuggestion[];
+  savedAt: string;
+}
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openDatabase = (): Promise<IDBDatabase> => {
+  if (dbPromise) return dbPromise;
+  dbPromise = new Promise((resolve, reject) => {
+    if (typeof indexedDB === 'undefined') {
+      reject(new Error('IndexedDB is not available in this environment'));
+      return;
+    }
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+    request.onupgradeneeded = () => {
+      const db = request.result;
+      if (!db.objectStoreNames.contains(MODELS_STORE)) db.createObjectStore(MODELS_STORE, { keyPath: 'id' });
+      if (!db.objectStoreNames.contains(META_STORE)) db.createObjectStore(META_STORE);
+      if (!db.objectStoreNames.contains(SNAPSHOTS_STORE)) {
+        db.createObjectStore(SNAPSHOTS_STORE, { keyPath: 'id' }).createIndex('modelId', 'modelId');
+      }
+    };
+    request.onsuccess = () => {
+      const db = request.result;
+      // Another tab upgraded the schema; drop our handle so it can proceed
+      db.onversionchange = () => {
+        db.close();
+        dbPromise = null;
+      };
+      resolve(db);
+    };
+    request.onerror = () => reject(request.error);
+    request.onblocked = () => reject(new Error('Model storage is blocked by another open tab'));
+  });
+  dbPromise.catch(() => { dbPromise = null; });
+  return dbPromise;
+};
+
+const requestToPromise = <T>(request: IDBRequest<T>): Promise<T> =>
+  new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+const transactionDone = (tx: IDBTransaction): Promise<void> =>
+  new Promise((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error || new Error('Model storage transaction was aborted'));
+  });
+
+const reviveSuggestion = (s: EntityUpdateSuggestion): EntityUpdateSuggestion => ({
+  ...s,
+  createdAt: new Date(s.createdAt),
+  reviewedAt: s.reviewedAt ? new Date(s.reviewedAt) : undefined
+});
+
+// Returns null when nothing has been saved yet so callers can seed defaults
+export const loadWorkspace = async (): Promise<PersistedWorkspace | null> => {
+  const db = await openDatabase();
+  const tx = db.transaction([MODELS_STORE, META_STORE], 'readonly');
+  const [docs, meta] = await Promise.all([
+    requestToPromise(tx.objectStore(MODELS_STORE).getAll()),
+    requestToPromise(tx.objectStore(META_STORE).get(WORKSPACE_KEY)) as Promise<WorkspaceMeta | undefined>
+  ]);
+  if (!meta) return null;
+
+  const models: SemanticModel[] = [];
+  docs.forEach(doc => {
+    try {
+      models.push(documentToModel(doc));
+    } catch (error) {
+      console.error(`[Storage] Skipping unreadable model "${doc?.id}":`, error);
+    }
+  });
+  const position = new Map(meta.modelOrder.map((id, idx) => [id, idx]));
+  models.sort((a, b) => (position.get(a.id) ?? Infinity) - (position.get(b.id) ?? Infinity));
+
+  return {
+    models,
+    suggestions: (meta.suggestions || []).map(reviveSuggestion),
+    revision: meta.revision
+  };
+};
+
+// All writes land in a single transaction: if the tab closes or the write fails
+// part-way, IndexedDB rolls back and the previous revision stays intact.
+export const saveWorkspaceChanges = async (changes: WorkspaceChanges): Promise<number> => {
+  const db = await openDatabase();
+  const tx = db.transaction([MODELS_STORE, META_STORE], 'readwrite');
+  const done = transactionDone(tx);
+  const modelsStore = tx.objectStore(MODELS_STORE);
+  const metaStore = tx.objectStore(META_STORE);
+
+  const previous = await requestToPromise(metaStore.get(WORKSPACE_KEY)) as WorkspaceMeta | undefined;
+  const revision = (previous?.revision ?? 0) + 1;
+
+  changes.upserts.forEach(model => modelsStore.put(modelToDocument(model)));
+  changes.deletes.forEach(id => modelsStore.delete(id));
+  const meta: WorkspaceMeta = {
+    revision,
+    modelOrder: changes.modelOrder,
+    suggestions: changes.suggestions,
+    savedAt: new Date().toISOString()
+  };
+  metaStore.put(meta, WORKSPACE_KEY);
+
+  await done;
+  broadcast({ type: 'saved', revision });
+  return revision;
+};
+
+// Named snapshots are immutable copies of a model kept alongside the workspace
+export const listSnapshots = async (modelId: string): Promise<ModelSnapshot[]> => {
+  const db = await openDatabase();
+  const tx = db.transaction(SNAPSHOTS_STORE, 'readonly');
+  const records = await requestToPromise(tx.objectStore(SNAPSHOTS_STORE).index('modelId').getAll(modelId));
+  const snapshots: ModelSnapshot[] = [];
+  records.forEach(record => {
+    try {
+      snapshots.push({ ...record, createdAt: new Date(record.createdAt), model: documentToModel(record.model) });
+    } catch (error) {
+      console.error(`[Storage] Skipping unreadable snapshot "${record?.name}":`, error);
+    }
+  });
+  return snapshots.sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime());
+};
+
+export const saveSnapshot = async (snapshot: ModelSnapshot): Promise<void> => {
+  const db = await openDatabase();
+  const tx = db.transaction(SNAPSHOTS_STORE, 'readwrite');
+  const done = transactionDone(tx);
+  tx.objectStore(SNAPSHOTS_STORE).put({
+    ...snapshot,
+    createdAt: snapshot.createdAt.toISOString(),
+    model: modelToDocument(snapshot.model)
+  });
+  await done;
+};
+
+export const deleteSnapshot = async (snapshotId: string): Promise<void> => {
+  const db = await openDatabase();
+  const tx = db.transaction(SNAPSHOTS_STORE, 'readwrite');
+  const done = transactionDone(tx);
+  tx.objectStore(SNAPSHOTS_STORE).delete(snapshotId);
+  await done;
+};
+
+export const createSnapshot = (model: SemanticModel, name: string, author?: string): ModelSnapshot => ({
+  id: `snapshot_${Date.now()}_${Math.random().toString(36).substr(2, 6)}`,
+  modelId: model.id,
+  name,
+  createdAt: new Date(),
+  author,
+  model
+});
+
+// Cross-tab notifications
+type WorkspaceMessage = { type: 'saved'; revision: number };
+
+let channel: BroadcastChannel | null = null;
+
+const getChannel = (): BroadcastChannel | null => {
+  if (typeof BroadcastChannel === 'undefined') return null;
+  if (!channel) channel = new BroadcastChannel(CHANNEL_NAME);
+  return channel;
+};
+
+const broadcast = (message: WorkspaceMessage) => {
+  getChannel()?.postMessage(message);
+};
+
+export const subscribeToWorkspaceChanges = (listener: (revision: number) => void): (() => void) => {
+  const ch = getChannel();
+  if (!ch) return () => {};
+  const handler = (event: MessageEvent<WorkspaceMessage>) => {
+    if (event.data?.type === 'saved') listener(event.data.revision);
+  };
+  ch.addEventListener('message', handler);
+  return () => ch.removeEventListener('message', handler);
+};
+
+// Compute what changed since the last successful save. Models are immutable in
+// the app, so reference equality is enough to detect edits.
+export const diffWorkspace = (
+  lastSaved: SemanticModel[],
+  current: SemanticModel[],
+  suggestions: EntityUpdateSuggestion[]
+): WorkspaceChanges => {
+  const savedById = new Map(lastSaved.map(m => [m.id, m]));
+  const currentIds = new Set(current.map(m => m.id));
+  return {
+    upserts: current.filter(m => savedById.get(m.id) !== m),
+    deletes: lastSaved.filter(m => !currentIds.has(m.id)).map(m => m.id),
+    modelOrder: current.map(m => m.id),
+    suggestions
+  };
+};
+
+// Fold another tab's saved state into ours without discarding local edits that
+// have not been written yet.
+export const mergeExternalModels = (
+  local: SemanticModel[],
+  lastSaved: SemanticModel[],
+  incoming: SemanticModel[]
+): SemanticModel[] => {
+  const savedById = new Map(lastSaved.map(m => [m.id, m]));
+  const incomingById = new Map(incoming.map(m => [m.id, m]));
+  const localIds = new Set(local.map(m => m.id));
+
+  const merged: SemanticModel[] = [];
+  local.forEach(m => {
+    const isDirty = savedById.get(m.id) !== m;
+    if (isDirty) merged.push(m);
+    else if (incomingById.has(m.id)) merged.push(incomingById.get(m.id)!);
+    // otherwise it was deleted in the other tab
+  });
+  incoming.forEach(m => {
+    const deletedLocally = savedById.has(m.id) && !localIds.has(m.id);
+    if (!localIds.has(m.id) && !deletedLocally) merged.push(m);
+  });
+  return merged;
+};
+
+// Suggestions only ever move from PENDING to a reviewed state, so a reviewed
+// copy from either side wins.
+export const mergeExternalSuggestions = (
+  local: EntityUpdateSuggestion[],
+  incoming: EntityUpdateSuggestion[]
+): EntityUpdateSuggestion[] => {
+  const incomingById = new Map(incoming.map(s => [s.id, s]));
+  const merged = local.map(s => {
+    const other = incomingById.get(s.id);
+    return other && !s.reviewedAt && other.reviewedAt ? other : s;
+  });
+  const localIds = new Set(local.map(s => s.id));
+  return [...merged, ...incoming.filter(s => !localIds.has(s.id))];
+};
@@ -0,0 +1,117 @@
+import { parse, stringify } from 'yaml';
+import { SemanticModel, Entity, Property, Relationship, AspectAssignment, GlossaryTerm, DescriptionHistory, QueryRoutingConfig } from '../types';
+import { CURRENT_FORMAT_VERSION, migrateModelDocument, assertValidModelDocument } from './modelSchema';
+
+// Key order for every object written to YAML. Keeping this fixed (rather than
+// relying on object insertion order) is what makes the files diff cleanly.
+const MODEL_KEYS = ['formatVersion', 'id', 'name', 'description', 'domain', 'overview', 'gitFile', 'queryRouting', 'createdAt', 'updatedAt', 'descriptionHistory', 'aspects', 'glossaryTerms', 'entities', 'relationships'];
+const ROUTING_KEYS = ['engine', 'projectId', 'dataset', 'instance'];
+const ENTITY_KEYS = ['id', 'name', 'type', 'description', 'overview', 'bindings', 'descriptionHistory', 'aspects', 'glossaryTerms', 'properties'];
+const ENTITY_BINDING_KEYS = ['type', 'resource'];
+const PROPERTY_KEYS = [
+  'id', 'name', 'dataType', 'propertyType', 'description', 'overview',
+  'isUniqueKey', 'isComputed', 'definition', 'aggregation', 'additivity', 'snapshotPropertyId',
+  'binding', 'bindingType', 'bindingSystem', 'bindingProject', 'bindingDataset', 'bindingTable', 'bindingColumn',
+  'descriptionHistory', 'aspects', 'glossaryTerms'
+];
+const RELATIONSHIP_KEYS = ['id', 'type', 'sourceEntityId', 'sourcePropertyId', 'targetEntityId', 'targetPropertyId', 'title', 'label', 'description'];
+const ASPECT_KEYS = ['aspectTypeId', 'values'];
+const GLOSSARY_KEYS = ['id', 'name', 'domain', 'description'];
+const HISTORY_KEYS = ['timestamp', 'author', 'content'];
+
+export const getModelFilePath = (model: Pick<SemanticModel, 'id' | 'gitFile'>): string =>
+  model.gitFile || `models/${model.id}.yaml`;
+
+const toIsoString = (value: Date | string): string =>
+  value instanceof Date ? value.toISOString() : new Date(value).toISOString();
+
+// Sort plain-object keys recursively so free-form aspect values are stable too
+const sortDeep = (value: any): any => {
+  if (Array.isArray(value)) return value.map(sortDeep);
+  if (value instanceof Date) return value.toISOString();
+  if (value && typeof value === 'object') {
+    return Object.keys(value).sort().reduce((acc, key) => {
+      if (value[key] !== undefined) acc[key] = sortDeep(value[key]);
+      return acc;
+    }, {} as Record<string, any>);
+  }
+  return value;
+};
+
+// Pick known keys in declared order, then append any unknown keys alphabetically
+// so fields added by newer app versions survive a round trip.
+const orderKeys = (obj: Record<string, any>, keys: string[], transform: Record<string, (v: any) => any> = {}) => {
+  const out: Record<string, any> = {};
+  const extra = Object.keys(obj).filter(k => !keys.includes(k)).sort();
+  [...keys, ...extra].forEach(key => {
+    const value = obj[key];
+    if (value === undefined || value === null) return;
+    out[key] = transform[key] ? transform[key](value) : (keys.includes(key) ? value : sortDeep(value));
+  });
+  return out;
+};
+
+const writeHistory = (history: DescriptionHistory[]) =>
+  history.map(h => orderKeys(h, HISTORY_KEYS, { timestamp: toIsoString }));
+
+const writeAspects = (aspects: AspectAssignment[]) =>
+  aspects.map(a => orderKeys(a, ASPECT_KEYS, { values: sortDeep }));
+
+const writeGlossary = (terms: GlossaryTerm[]) =>
+  terms.map(t => orderKeys(t, GLOSSARY_KEYS));
+
+const annotationTransforms = {
+  descriptionHistory: writeHistory,
+  aspects: writeAspects,
+  glossaryTerms: writeGlossary
+};
+
+const writeProperty = (prop: Property) => orderKeys(prop, PROPERTY_KEYS, annotationTransforms);
+
+const writeEntity = (entity: Entity) => orderKeys(entity, ENTITY_KEYS, {
+  ...annotationTransforms,
+  bindings: (bindings: Entity['bindings']) => bindings!.map(b => orderKeys(b, ENTITY_BINDING_KEYS)),
+  properties: (props: Property[]) => props.map(writeProperty)
+});
+
+const writeRelationship = (rel: Relationship) => orderKeys(rel, RELATIONSHIP_KEYS);
+
+export const modelToDocument = (model: SemanticModel): Record<string, any> =>
+  orderKeys({ ...model, formatVersion: CURRENT_FORMAT_VERSION }, MODEL_KEYS, {
+    ...annotationTransforms,
+    queryRouting: (routing: QueryRoutingConfig) => orderKeys(routing, ROUTING_KEYS),
+    createdAt: toIsoString,
+    updatedAt: toIsoString,
+    entities: (entities: Entity[]) => entities.map(writeEntity),
+    relationships: (rels: Relationship[]) => rels.map(writeRelationship)
+  });
+
+export const serializeModelToYaml = (model: SemanticModel): string =>
+  stringify(modelToDocument(model), { indent: 2, lineWidth: 0, sortMapEntries: false });
+
+const reviveHistory = (history?: any[]): DescriptionHistory[] | undefined =>
+  history?.map(h => ({ ...h, timestamp: new Date(h.timestamp) }));
+
+const reviveAnnotated = <T extends { descriptionHistory?: DescriptionHistory[] }>(obj: T): T =>
+  obj.descriptionHistory ? { ...obj, descriptionHistory: reviveHistory(obj.descriptionHistory) } : obj;
+
+// Turn a parsed document (from YAML or JSON) back into runtime objects with real
+// Dates. Older format versions are migrated first; invalid documents throw a
+// ModelValidationError listing the offending paths.
+export const documentToModel = (input: any): SemanticModel => {
+  const doc = migrateModelDocument(input);
+  assertValidModelDocument(doc);
+  const model: SemanticModel = {
+    ...doc,
+    entities: (doc.entities || []).map((e: Entity) => ({
+      ...reviveAnnotated(e),
+      properties: (e.properties || []).map(p => reviveAnnotated(p))
+    })),
+    relationships: doc.relationships || []
+  };
+  if (doc.createdAt) model.createdAt = new Date(doc.createdAt);
+  if (doc.updatedAt) model.updatedAt = new Date(doc.updatedAt);
+  return reviveAnnotated(model);
+};
+
+export const parseModelYaml = (text: string): SemanticModel => documentToModel(parse(text));
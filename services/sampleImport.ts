@@ -0,0 +1,398 @@
+import { SemanticModel, Entity, Property, Relationship, EntityType } from '../types';
+import { humanizeIdentifier } from './importUtils';
+
+// Draft models from sample data when no warehouse tables exist yet. Each CSV
+// or newline-delimited JSON file becomes an entity and each column a
+// property whose data type is inferred from the values. Columns whose values
+// are all present and distinct are marked as candidate unique keys. Columns
+// whose values are (almost) all found in another file's key column become
+// relationship candidates; they are returned separately so the caller can
+// offer them for review instead of adding them to the model.
+
+export interface SampleFile {
+  name: string;
+  content: string;
+}
+
+export type SampleFormat = 'csv' | 'ndjson';
+
+export interface SampleColumn {
+  name: string;
+  dataType: string;
+  nonNullCount: number;
+  distinctValues: Set<string>;
+  isCandidateKey: boolean;
+}
+
+export interface SampleTable {
+  name: string;
+  file: string;
+  format: SampleFormat;
+  rowCount: number;
+  columns: SampleColumn[];
+}
+
+export interface RelationshipCandidate {
+  relationship: Relationship;
+  sourceEntityName: string;
+  targetEntityName: string;
+  // Share of the source column's distinct values found in the target key
+  containment: number;
+  reason: string;
+}
+
+export interface SampleImportResult {
+  model: SemanticModel;
+  relationshipCandidates: RelationshipCandidate[];
+}
+
+export class SampleParseError extends Error {
+  file: string;
+  line: number;
+
+  constructor(file: string, line: number, message: string) {
+    super(`${file}:${line}: ${message}`);
+    this.name = 'SampleParseError';
+    this.file = file;
+    this.line = line;
+  }
+}
+
+export const SAMPLE_FILE_PATTERN = /\.(csv|ndjson|jsonl)$/i;
+
+// A foreign key column may hold a few values the sample of the target misses
+const MIN_CONTAINMENT = 0.9;
+const MIN_KEY_ROWS = 2;
+const KEY_TYPES = new Set(['INTEGER', 'STRING']);
+const NULL_TOKENS = new Set(['', 'null', 'NULL', 'NA', 'N/A', '\\N']);
+
+// --- Parsing ---
+
+// RFC 4180 CSV: quoted fields may contain separators, newlines and doubled
+// quotes. Blank lines are skipped.
+export const parseCsv = (content: string, fileName = 'sample.csv'): string[][] => {
+  const rows: string[][] = [];
+  const text = content.replace(/^﻿/, '');
+  let row: string[] = [];
+  let field = '';
+  let quoted = false;
+  let line = 1;
+  let quoteLine = 1;
+
+  const endRow = () => {
+    row.push(field);
+    if (row.length > 1 || row[0] !== '') rows.push(row);
+    row = [];
+    field = '';
+  };
+
+  for (let i = 0; i < text.length; i++) {
+    const ch = text[i];
+    if (quoted) {
+      if (ch === '"') {
+        if (text[i + 1] === '"') {
+          field += '"';
+          i++;
+        } else {
+          quoted = false;
+        }
+      } else {
+        if (ch === '\n') line++;
+        field += ch;
+      }
+      continue;
+    }
+    if (ch === '"' && field === '') {
+      quoted = true;
+      quoteLine = line;
+    } else if (ch === ',') {
+      row.push(field);
+      field = '';
+    } else if (ch === '\n' || ch === '\r') {
+      if (ch === '\r' && text[i + 1] === '\n') i++;
+      endRow();
+      line++;
+    } else {
+      field += ch;
+    }
+  }
+  if (quoted) {
+    throw new SampleParseError(fileName, quoteLine, 'Unterminated quoted field');
+  }
+  if (field !== '' || row.length > 0) endRow();
+  return rows;
+};
+
+const csvRecords = (file: SampleFile): { columns: string[]; records: Record<string, unknown>[] } => {
+  const [header, ...rows] = parseCsv(file.content, file.name);
+  if (!header) {
+    throw new SampleParseError(file.name, 1, 'Missing header row');
+  }
+  const columns = header.map((name, idx) => name.trim() || `column_${idx + 1}`);
+  const records = rows.map(row => {
+    const record: Record<string, unknown> = {};
+    columns.forEach((column, idx) => {
+      const value = row[idx];
+      record[column] = value === undefined || NULL_TOKENS.has(value.trim()) ? null : value;
+    });
+    return record;
+  });
+  return { columns, records };
+};
+
+const ndjsonRecords = (file: SampleFile): { columns: string[]; records: Record<string, unknown>[] } => {
+  const columns: string[] = [];
+  const seen = new Set<string>();
+  const records: Record<string, unknown>[] = [];
+  file.content.split(/\r?\n/).forEach((text, idx) => {
+    if (!text.trim()) return;
+    let value: unknown;
+    try {
+      value = JSON.parse(text);
+    } catch (error) {
+      throw new SampleParseError(file.name, idx + 1, error instanceof Error ? error.message : 'Invalid JSON');
+    }
+    if (!value || typeof value !== 'object' || Array.isArray(value)) {
+      throw new SampleParseError(file.name, idx + 1, 'Each line must be a JSON object');
+    }
+    Object.keys(value).forEach(key => {
+      if (!seen.has(key)) {
+        seen.add(key);
+        columns.push(key);
+      }
+    });
+    records.push(value as Record<string, unknown>);
+  });
+  return { columns, records };
+};
+
+// --- Type inference ---
+
+const INTEGER_PATTERN = /^[+-]?(0|[1-9]\d*)$/;
+const FLOAT_PATTERN = /^[+-]?(\d+\.\d*|\.\d+|\d+(\.\d*)?[eE][+-]?\d+)$/;
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+const TIMESTAMP_PATTERN = /^\d{4}-\d{2}-\d{2}[T ]\d{2}:\d{2}(:\d{2}(\.\d+)?)?\s*(Z|UTC|[+-]\d{2}(:?\d{2})?)?$/i;
+
+const isValidDate = (text: string) => !Number.isNaN(Date.parse(text.slice(0, 10)));
+
+const classifyTemporal = (text: string): string | undefined => {
+  if (DATE_PATTERN.test(text) && isValidDate(text)) return 'DATE';
+  if (TIMESTAMP_PATTERN.test(text) && isValidDate(text)) return 'TIMESTAMP';
+  return undefined;
+};
+
+// Text from a CSV cell. Integers with leading zeros stay strings so codes such
+// as "00501" keep their padding.
+const classifyText = (text: string): string => {
+  const value = text.trim();
+  if (/^(true|false)$/i.test(value)) return 'BOOLEAN';
+  if (INTEGER_PATTERN.test(value)) return 'INTEGER';
+  if (FLOAT_PATTERN.test(value)) return 'FLOAT';
+  const temporal = classifyTemporal(value);
+  if (temporal) return temporal;
+  if (/^[[{]/.test(value)) {
+    try {
+      JSON.parse(value);
+      return 'JSON';
+    } catch {
+      return 'STRING';
+    }
+  }
+  return 'STRING';
+};
+
+// Values from a JSON line keep their JSON type; only strings are inspected
+// further, for dates and timestamps.
+const classifyValue = (value: unknown, format: SampleFormat): string => {
+  if (format === 'csv') return classifyText(String(value));
+  if (typeof value === 'boolean') return 'BOOLEAN';
+  if (typeof value === 'number') return Number.isInteger(value) ? 'INTEGER' : 'FLOAT';
+  if (typeof value === 'object') return 'JSON';
+  return classifyTemporal(String(value)) || 'STRING';
+};
+
+// Mixed columns widen to the narrowest type that holds every value
+const widen = (types: Set<string>): string => {
+  if (types.size === 0) return 'STRING';
+  if (types.size === 1) return [...types][0];
+  if ([...types].every(t => t === 'INTEGER' || t === 'FLOAT')) return 'FLOAT';
+  if ([...types].every(t => t === 'DATE' || t === 'TIMESTAMP')) return 'TIMESTAMP';
+  return 'STRING';
+};
+
+const keyOf = (value: unknown) => (typeof value === 'object' ? JSON.stringify(value) : String(value).trim());
+
+// --- Profiling ---
+
+const toTableName = (fileName: string) =>
+  fileName
+    .replace(/^.*[\\/]/, '')
+    .replace(SAMPLE_FILE_PATTERN, '')
+    .replace(/[^A-Za-z0-9_]+/g, '_')
+    .replace(/^_+|_+$/g, '') || 'sample';
+
+export const readSample = (file: SampleFile): SampleTable => {
+  const format: SampleFormat = /\.csv$/i.test(file.name) ? 'csv' : 'ndjson';
+  const { columns, records } = format === 'csv' ? csvRecords(file) : ndjsonRecords(file);
+  if (columns.length === 0) {
+    throw new SampleParseError(file.name, 1, 'No columns found');
+  }
+
+  return {
+    name: toTableName(file.name),
+    file: file.name,
+    format,
+    rowCount: records.length,
+    columns: columns.map(name => {
+      const types = new Set<string>();
+      const distinctValues = new Set<string>();
+      let nonNullCount = 0;
+      records.forEach(record => {
+        const value = record[name];
+        if (value === null || value === undefined) return;
+        nonNullCount++;
+        types.add(classifyValue(value, format));
+        distinctValues.add(keyOf(value));
+      });
+      const dataType = widen(types);
+      return {
+        name,
+        dataType,
+        nonNullCount,
+        distinctValues,
+        isCandidateKey: KEY_TYPES.has(dataType)
+          && records.length >= MIN_KEY_ROWS
+          && nonNullCount === records.length
+          && distinctValues.size === records.length
+      };
+    })
+  };
+};
+
+// --- Relationship candidates ---
+
+const normalize = (name: string) => name.toLowerCase().replace(/[^a-z0-9]/g, '');
+const singular = (name: string) => name.replace(/(ies)$/, 'y').replace(/(ses|xes)$/, s => s.slice(0, -2)).replace(/s$/, '');
+
+// A table's own identifier: "id" or "<table>_id" / "<table>id"
+const isOwnIdentifier = (table: SampleTable, column: SampleColumn) => {
+  const name = normalize(column.name);
+  const stem = singular(normalize(table.name));
+  return name === 'id' || name === `${stem}id` || name === `${stem}key`;
+};
+
+// Overlapping values alone match too much (small integers overlap any id
+// range), so the referencing column must also be named like a reference.
+const looksLikeReference = (column: SampleColumn, target: SampleTable, targetKey: SampleColumn) => {
+  const name = normalize(column.name);
+  return name === normalize(targetKey.name)
+    || name.startsWith(singular(normalize(target.name)))
+    || /(id|key|code)$/.test(name);
+};
+
+const containment = (values: Set<string>, key: Set<string>) => {
+  let found = 0;
+  values.forEach(value => {
+    if (key.has(value)) found++;
+  });
+  return found / values.size;
+};
+
+const entityIdFor = (table: SampleTable) => `entity_${table.name}`;
+const propertyIdFor = (table: SampleTable, column: string) => `prop_${table.name}_${column}`;
+
+const findRelationshipCandidates = (tables: SampleTable[]): RelationshipCandidate[] => {
+  const candidates: RelationshipCandidate[] = [];
+  tables.forEach(source => {
+    source.columns.forEach(column => {
+      if (column.distinctValues.size === 0 || !KEY_TYPES.has(column.dataType)) return;
+      if (column.isCandidateKey && isOwnIdentifier(source, column)) return;
+
+      let best: { target: SampleTable; key: SampleColumn; ratio: number } | undefined;
+      tables.forEach(target => {
+        if (target === source) return;
+        target.columns.forEach(key => {
+          if (!key.isCandidateKey || key.dataType !== column.dataType) return;
+          if (!looksLikeReference(column, target, key)) return;
+          const ratio = containment(column.distinctValues, key.distinctValues);
+          if (ratio < MIN_CONTAINMENT) return;
+          // Prefer the closest match, then the target's own identifier
+          if (!best || ratio > best.ratio || (ratio === best.ratio && isOwnIdentifier(target, key) && !isOwnIdentifier(best.target, best.key))) {
+            best = { target, key, ratio };
+          }
+        });
+      });
+      if (!best) return;
+
+      const { target, key, ratio } = best;
+      const percent = Math.round(ratio * 100);
+      const relationshipType = column.isCandidateKey ? 'ONE_TO_ONE' : 'MANY_TO_ONE';
+      candidates.push({
+        relationship: {
+          id: `rel_${source.name}_${column.name}_${target.name}`,
+          sourceEntityId: entityIdFor(source),
+          targetEntityId: entityIdFor(target),
+          sourcePropertyId: propertyIdFor(source, column.name),
+          targetPropertyId: propertyIdFor(target, key.name),
+          type: relationshipType,
+          description: `${source.name}.${column.name} references ${target.name}.${key.name}`
+        },
+        sourceEntityName: humanizeIdentifier(source.name),
+        targetEntityName: humanizeIdentifier(target.name),
+        containment: ratio,
+        reason: `${percent}% of the ${column.distinctValues.size} distinct ${column.name} values in ${source.file} appear in ${target.file} ${key.name}`
+      });
+    });
+  });
+  return candidates;
+};
+
+// --- Mapping to the semantic model ---
+
+const columnToProperty = (table: SampleTable, column: SampleColumn): Property => {
+  const property: Property = {
+    id: propertyIdFor(table, column.name),
+    name: humanizeIdentifier(column.name),
+    dataType: column.dataType,
+    description: '',
+    binding: `${table.name}.${column.name}`,
+    bindingType: 'column',
+    bindingTable: table.name,
+    bindingColumn: column.name
+  };
+  if (column.isCandidateKey) property.isUniqueKey = true;
+  return property;
+};
+
+export const samplesToModel = (files: SampleFile[]): SampleImportResult => {
+  const tables = files.map(readSample);
+  const names = new Set<string>();
+  tables.forEach(table => {
+    if (names.has(table.name)) {
+      throw new SampleParseError(table.file, 1, `Another sample file also maps to table "${table.name}"`);
+    }
+    names.add(table.name);
+  });
+
+  const entities: Entity[] = tables.map(table => ({
+    id: entityIdFor(table),
+    name: humanizeIdentifier(table.name),
+    type: EntityType.ENTITY,
+    description: `Drafted from sample file ${table.file} (${table.rowCount} row${table.rowCount === 1 ? '' : 's'})`,
+    properties: table.columns.map(column => columnToProperty(table, column))
+  }));
+
+  const baseName = files.length === 1 ? toTableName(files[0].name) : 'Sample Import';
+  return {
+    model: {
+      id: `sample_${Date.now()}`,
+      name: humanizeIdentifier(baseName),
+      description: `Drafted from sample data ${files.map(f => f.name).join(', ')} on ${new Date().toLocaleDateString()}.`,
+      entities,
+      relationships: [],
+      createdAt: new Date(),
+      updatedAt: new Date()
+    },
+    relationshipCandidates: findRelationshipCandidates(tables)
+  };
+};
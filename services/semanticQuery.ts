@@ -0,0 +1,604 @@
+import { SemanticModel, Entity, Property, AggregationType, Additivity } from '../types';
+import { planJoinPaths, describeJoinPath, JoinPlanError, JoinPlan, JoinEdge, FanTrapStrategy } from './joinPlanner';
+import { defaultAggregation, snapshotPropertyOf } from './measures';
+import { buildDependencyGraph, upstreamOf, referenceLabel, DependencyNode } from './derivedMetrics';
+
+// Semantic query compiler: turns a request over the model ("Revenue by
+// Product Category") into GoogleSQL against the bound source tables.
+//   fields   properties to return; measures are aggregated and the other
+//            fields become the GROUP BY
+//   filters  WHERE on dimensions, HAVING on measures
+//   sorts    ORDER BY, limit  LIMIT
+// The query starts from one entity (the given one, else the entity of the
+// first measure) and LEFT JOINs every other entity it needs along the path
+// the join planner ranks best. When those joins repeat the rows of a measured
+// entity (fan and chasm traps), measures are pre-aggregated per entity and
+// joined on the dimensions, or computed as symmetric aggregates over the
+// entity's keys. Properties resolve to their bound column, their expression
+// binding or their definition, with ${...} references to other properties
+// expanded; derived metrics combine the aggregates of the measures they
+// reference. Unbound properties and relationships without linked properties
+// fall back to naming conventions and are reported as warnings.
+
+export type QueryValue = string | number | boolean | null;
+
+export type FilterOperator = '=' | '!=' | '<' | '<=' | '>' | '>=' | 'IN' | 'NOT IN' | 'LIKE' | 'BETWEEN' | 'IS NULL' | 'IS NOT NULL';
+
+export const FILTER_OPERATORS: FilterOperator[] = ['=', '!=', '<', '<=', '>', '>=', 'IN', 'NOT IN', 'LIKE', 'BETWEEN', 'IS NULL', 'IS NOT NULL'];
+
+// Entity and property by id or name; "Entity.Property" as a shorthand
+export type FieldRef = { entity: string; property: string } | string;
+
+export interface QueryFilter {
+  field: FieldRef;
+  operator: FilterOperator;
+  value?: QueryValue | QueryValue[];
+}
+
+export interface QuerySort {
+  field: FieldRef;
+  direction?: 'ASC' | 'DESC';
+}
+
+export interface SemanticQuery {
+  // Entity the query starts from
+  entity?: string;
+  fields: FieldRef[];
+  filters?: QueryFilter[];
+  sorts?: QuerySort[];
+  limit?: number;
+  // Chosen join path per entity id or name, as relationship ids from the base entity
+  joinPaths?: Record<string, string[]>;
+  // How to keep measures correct when joins repeat their rows; 'auto' follows the planner
+  fanTrapStrategy?: 'auto' | FanTrapStrategy;
+}
+
+export interface SemanticQueryOptions {
+  // Qualify unqualified tables; defaults to the model's query routing
+  project?: string;
+  dataset?: string;
+}
+
+export interface CompiledColumn {
+  name: string;
+  entity: Entity;
+  property: Property;
+  kind: 'dimension' | 'measure';
+}
+
+export interface CompiledQuery {
+  sql: string;
+  columns: CompiledColumn[];
+  joins: JoinEdge[];
+  plan: JoinPlan;
+  // Rewrite applied against fan and chasm traps
+  strategy: FanTrapStrategy;
+  warnings: string[];
+}
+
+export class SemanticQueryError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'SemanticQueryError';
+  }
+}
+
+const NUMERIC_TYPES = new Set(['INTEGER', 'FLOAT', 'NUMERIC', 'BIGNUMERIC']);
+
+// GoogleSQL reserved keywords; as identifiers they must be quoted
+const RESERVED = new Set([
+  'all', 'and', 'any', 'array', 'as', 'asc', 'assert_rows_modified', 'at', 'between', 'by', 'case', 'cast', 'collate',
+  'contains', 'create', 'cross', 'cube', 'current', 'default', 'define', 'desc', 'distinct', 'else', 'end', 'enum',
+  'escape', 'except', 'exclude', 'exists', 'extract', 'false', 'fetch', 'following', 'for', 'from', 'full', 'group',
+  'grouping', 'groups', 'hash', 'having', 'if', 'ignore', 'in', 'inner', 'intersect', 'interval', 'into', 'is', 'join',
+  'lateral', 'left', 'like', 'limit', 'lookup', 'merge', 'natural', 'new', 'no', 'not', 'null', 'nulls', 'of', 'on',
+  'or', 'order', 'outer', 'over', 'partition', 'preceding', 'proto', 'qualify', 'range', 'recursive', 'respect',
+  'right', 'rollup', 'rows', 'select', 'set', 'some', 'struct', 'tablesample', 'then', 'to', 'treat', 'true',
+  'unbounded', 'union', 'unnest', 'using', 'when', 'where', 'window', 'with', 'within'
+]);
+
+const toColumnName = (name: string) =>
+  name.trim().toLowerCase().replace(/[^a-z0-9]+/g, '_').replace(/^_+|_+$/g, '') || 'column';
+
+// Backtick-quotes generated names that are reserved or start with a digit
+export const quoteBigQueryIdentifier = (name: string) => (RESERVED.has(name.toLowerCase()) || /^\d/.test(name) ? `\`${name}\`` : name);
+
+const identifier = quoteBigQueryIdentifier;
+
+const isAggregate = (sql: string) => /\b(SUM|AVG|COUNT|MIN|MAX|ANY_VALUE|ARRAY_AGG|STRING_AGG|APPROX_\w+|COUNTIF)\s*\(/i.test(sql);
+
+const lastSegment = (table: string) => table.split('.').pop()!;
+
+interface Aggregate {
+  fn: string;
+  distinct: boolean;
+  argument: string;
+}
+
+// SUM(x), COUNT(DISTINCT x), ... when the whole expression is one aggregate
+const parseAggregate = (sql: string): Aggregate | undefined => {
+  const match = sql.trim().match(/^(SUM|AVG|MIN|MAX|COUNT|APPROX_COUNT_DISTINCT)\s*\(\s*(DISTINCT\s+)?([\s\S]*)\)$/i);
+  if (!match) return undefined;
+  // Reject SUM(a) / SUM(b): the opening paren must close at the very end
+  let depth = 0;
+  for (const ch of match[3]) {
+    if (ch === '(') depth++;
+    if (ch === ')' && --depth < 0) return undefined;
+  }
+  return depth === 0 ? { fn: match[1].toUpperCase(), distinct: !!match[2], argument: match[3].trim() } : undefined;
+};
+
+// Aggregates that give the same result however often each row of the
+// measured entity is repeated: values are summed and counted once per
+// distinct key, with the key's fingerprint added to keep equal values apart
+const symmetricAggregate = ({ fn, distinct, argument }: Aggregate, key: string, dataType: string) => {
+  if (distinct || fn === 'MIN' || fn === 'MAX' || fn === 'APPROX_COUNT_DISTINCT') return `${fn}(${distinct ? 'DISTINCT ' : ''}${argument})`;
+  const present = `IF(${argument} IS NOT NULL, ${key}, NULL)`;
+  if (fn === 'COUNT') return argument === '*' ? `COUNT(DISTINCT ${key})` : `COUNT(DISTINCT ${present})`;
+  const hash = `CAST(FARM_FINGERPRINT(${key}) AS BIGNUMERIC)`;
+  const sum = `(SUM(DISTINCT CAST(COALESCE(${argument}, 0) AS BIGNUMERIC) + ${hash}) - SUM(DISTINCT ${hash}))`;
+  if (fn === 'SUM') return `CAST(${sum} AS ${dataType?.toUpperCase() === 'INTEGER' ? 'INT64' : 'FLOAT64'})`;
+  return `CAST(${sum} / NULLIF(COUNT(DISTINCT ${present}), 0) AS FLOAT64)`;
+};
+
+// SQL inlined for a reference, in parentheses unless it is a column, a
+// single aggregate or all of a function argument
+const inline = (sql: string, definition: string, { start, end }: { start: number; end: number }) =>
+  /^[\w.`]+$/.test(sql) || parseAggregate(sql)
+  || (/(^|[(,])\s*$/.test(definition.slice(0, start)) && /^\s*([),]|$)/.test(definition.slice(end)))
+    ? sql
+    : `(${sql})`;
+
+interface SelectColumn {
+  name: string;
+  sql: string;
+  dimension: boolean;
+}
+
+const buildSelect = (columns: SelectColumn[], from: string[], where: string[], having: string[], orderBy: string[], limit?: number) => {
+  const lines = ['SELECT', columns.map(c => `  ${c.sql} AS ${identifier(c.name)}`).join(',\n'), ...from];
+  if (where.length) lines.push(`WHERE ${where.join('\n  AND ')}`);
+  if (columns.some(c => !c.dimension)) {
+    const groups = columns.map((c, idx) => (c.dimension ? idx + 1 : 0)).filter(Boolean);
+    if (groups.length) lines.push(`GROUP BY ${groups.join(', ')}`);
+  }
+  if (having.length) lines.push(`HAVING ${having.join('\n  AND ')}`);
+  if (orderBy.length) lines.push(`ORDER BY ${orderBy.join(', ')}`);
+  if (limit !== undefined) lines.push(`LIMIT ${limit}`);
+  return lines;
+};
+
+const expressionOf = (property: Property): string | undefined => {
+  if (property.isComputed && property.definition) return property.definition;
+  if (property.bindingType === 'expression' && property.binding) return property.binding;
+  return undefined;
+};
+
+// Bound table and column, from the structured binding or a "table.column" binding
+const boundColumn = (property: Property): { table: string; column: string } | undefined => {
+  if (expressionOf(property)) return undefined;
+  if (property.bindingTable && property.bindingColumn) {
+    return { table: [property.bindingProject, property.bindingDataset, property.bindingTable].filter(Boolean).join('.'), column: property.bindingColumn };
+  }
+  const parts = property.binding?.split('.');
+  return parts && parts.length > 1 ? { table: parts.slice(0, -1).join('.'), column: parts[parts.length - 1] } : undefined;
+};
+
+// Identifiers in an expression that name one of the entity's columns get the
+// table alias; string literals are left alone
+const qualifyColumns = (sql: string, alias: string, columns: Set<string>) =>
+  sql
+    .split(/('(?:[^'\\]|\\.)*'|"(?:[^"\\]|\\.)*")/)
+    .map((part, idx) => idx % 2 === 1 ? part : part.replace(
+      /(^|[^.\w$`])`?([A-Za-z_]\w*)`?(?![\w.(])/g,
+      (match, before: string, name: string) => (columns.has(name) ? `${before}${alias}.\`${name}\`` : match)
+    ))
+    .join('');
+
+interface EntitySource {
+  entity: Entity;
+  table: string;
+  alias: string;
+  columns: Set<string>;
+}
+
+interface ResolvedField {
+  entity: Entity;
+  property: Property;
+  isMeasure: boolean;
+  // Computed from other measures' aggregates
+  isMetric: boolean;
+}
+
+const findEntity = (model: SemanticModel, key: string) => {
+  const lower = key.trim().toLowerCase();
+  return model.entities.find(e => e.id === key) || model.entities.find(e => e.name.toLowerCase() === lower);
+};
+
+const findProperty = (entity: Entity, key: string) => {
+  const lower = key.trim().toLowerCase();
+  return entity.properties.find(p => p.id === key) || entity.properties.find(p => p.name.toLowerCase() === lower);
+};
+
+export const resolveField = (model: SemanticModel, ref: FieldRef): { entity: Entity; property: Property } => {
+  if (typeof ref !== 'string') {
+    const entity = findEntity(model, ref.entity);
+    if (!entity) throw new SemanticQueryError(`Unknown entity "${ref.entity}"`);
+    const property = findProperty(entity, ref.property);
+    if (!property) throw new SemanticQueryError(`${entity.name} has no property "${ref.property}"`);
+    return { entity, property };
+  }
+  // Entity names may contain dots themselves, so try every split
+  for (let i = ref.indexOf('.'); i > 0; i = ref.indexOf('.', i + 1)) {
+    const entity = findEntity(model, ref.slice(0, i));
+    const property = entity && findProperty(entity, ref.slice(i + 1));
+    if (property) return { entity: entity!, property };
+  }
+  throw new SemanticQueryError(`Unknown field "${ref}"; expected "Entity.Property"`);
+};
+
+const fieldKey = (field: { entity: Entity; property: Property }) => `${field.entity.id}:${field.property.id}`;
+
+const sourceOf = (entity: Entity, options: SemanticQueryOptions, warnings: string[]): Omit<EntitySource, 'alias'> => {
+  // The table most of the entity's columns are bound to
+  const counts = new Map<string, number>();
+  entity.properties.forEach(p => {
+    const bound = boundColumn(p);
+    if (bound) counts.set(bound.table, (counts.get(bound.table) || 0) + 1);
+  });
+  const [top] = [...counts.entries()].sort((a, b) => b[1] - a[1]);
+  const resource = entity.bindings?.find(b => b.type === 'BIGQUERY')?.resource;
+
+  let table = top?.[0] || resource;
+  if (top && resource && lastSegment(resource) === lastSegment(top[0]) && resource.length > top[0].length) table = resource;
+  if (!table) {
+    table = toColumnName(entity.name);
+    warnings.push(`${entity.name} is not bound to a table; assuming ${table}`);
+  }
+  const depth = table.split('.').length;
+  if (depth === 1 && options.dataset) table = `${options.dataset}.${table}`;
+  if (depth <= 2 && options.project && (depth === 2 || options.dataset)) table = `${options.project}.${table}`;
+
+  const columns = new Set(entity.properties
+    .map(boundColumn)
+    .filter(b => b && lastSegment(b.table) === lastSegment(table!))
+    .map(b => b!.column));
+  return { entity, table, columns };
+};
+
+const formatLiteral = (value: QueryValue, property: Property): string => {
+  if (value === null) return 'NULL';
+  if (typeof value === 'boolean') return value ? 'TRUE' : 'FALSE';
+  if (typeof value === 'number') {
+    if (!Number.isFinite(value)) throw new SemanticQueryError(`${property.name}: ${value} is not a valid number`);
+    return String(value);
+  }
+  const dataType = property.dataType?.toUpperCase();
+  if (NUMERIC_TYPES.has(dataType) && value.trim() !== '' && Number.isFinite(Number(value))) return String(Number(value));
+  const quoted = `'${value.replace(/\\/g, '\\\\').replace(/'/g, "\\'").replace(/\n/g, '\\n')}'`;
+  if (dataType === 'DATE' || dataType === 'TIMESTAMP' || dataType === 'DATETIME') return `${dataType} ${quoted}`;
+  return quoted;
+};
+
+const filterSql = (sql: string, filter: QueryFilter, property: Property): string => {
+  const { operator, value } = filter;
+  if (operator === 'IS NULL' || operator === 'IS NOT NULL') return `${sql} ${operator}`;
+  if (operator === 'IN' || operator === 'NOT IN') {
+    const values = Array.isArray(value) ? value : [value];
+    if (values.length === 0 || values.some(v => v === undefined)) throw new SemanticQueryError(`${operator} on ${property.name} needs at least one value`);
+    return `${sql} ${operator} (${values.map(v => formatLiteral(v, property)).join(', ')})`;
+  }
+  if (operator === 'BETWEEN') {
+    if (!Array.isArray(value) || value.length !== 2) throw new SemanticQueryError(`BETWEEN on ${property.name} needs two values`);
+    return `${sql} BETWEEN ${formatLiteral(value[0], property)} AND ${formatLiteral(value[1], property)}`;
+  }
+  if (!FILTER_OPERATORS.includes(operator)) throw new SemanticQueryError(`Unsupported operator ${operator}`);
+  if (value === undefined || Array.isArray(value)) throw new SemanticQueryError(`${operator} on ${property.name} needs a single value`);
+  // = NULL never matches; compare with IS [NOT] NULL instead
+  if (value === null && (operator === '=' || operator === '!=')) return `${sql} ${operator === '=' ? 'IS NULL' : 'IS NOT NULL'}`;
+  return `${sql} ${operator} ${formatLiteral(value, property)}`;
+};
+
+export const compileSemanticQuery = (model: SemanticModel, query: SemanticQuery, options: SemanticQueryOptions = {}): CompiledQuery => {
+  const warnings: string[] = [];
+  const settings: SemanticQueryOptions = {
+    project: options.project ?? model.queryRouting?.projectId,
+    dataset: options.dataset ?? model.queryRouting?.dataset
+  };
+  if (!query.fields?.length) throw new SemanticQueryError('Select at least one field');
+  if (query.limit !== undefined && (!Number.isInteger(query.limit) || query.limit < 1)) {
+    throw new SemanticQueryError(`Limit must be a positive whole number, got ${query.limit}`);
+  }
+
+  const graph = buildDependencyGraph(model);
+  const fieldOf = ({ entity, property, level }: DependencyNode): ResolvedField =>
+    ({ entity, property, isMeasure: level !== 'row', isMetric: level === 'metric' });
+  const resolve = (ref: FieldRef): ResolvedField => fieldOf(graph.nodes.get(fieldKey(resolveField(model, ref)))!);
+  // Properties the given ones reference, directly or not
+  const upstream = (list: ResolvedField[]) =>
+    [...new Set(list.flatMap(f => upstreamOf(graph, fieldKey(f))))].map(key => fieldOf(graph.nodes.get(key)!));
+  const fields = query.fields.map(resolve);
+  const filters = (query.filters || []).map(filter => ({ filter, field: resolve(filter.field) }));
+  const sorts = (query.sorts || []).map(sort => ({ sort, field: resolve(sort.field) }));
+
+  const base = query.entity
+    ? findEntity(model, query.entity)
+    : (fields.find(f => f.isMeasure) || fields[0]).entity;
+  if (!base) throw new SemanticQueryError(`Unknown entity "${query.entity}"`);
+
+  const referenced = [...fields, ...filters.map(f => f.field), ...sorts.map(s => s.field)];
+  const dependencies = upstream(referenced);
+  // Unresolved and circular references cannot be compiled; type mismatches may still run
+  const checked = new Set([...referenced, ...dependencies].map(fieldKey));
+  graph.issues.filter(issue => checked.has(fieldKey(issue))).forEach(issue => {
+    const message = `${referenceLabel(issue)}: ${issue.message}`;
+    if (issue.kind !== 'type') throw new SemanticQueryError(message);
+    warnings.push(message);
+  });
+
+  const entitiesOf = (list: ResolvedField[]) => [...new Map(list.map(f => [f.entity.id, f.entity])).values()];
+  // Metrics aggregate nothing themselves; the measures they reference do
+  const measureEntities = entitiesOf([...referenced, ...dependencies].filter(f => f.isMeasure && !f.isMetric));
+  const dimensionFields = referenced.filter(f => !f.isMeasure);
+  const dimensionEntities = entitiesOf([...dimensionFields, ...upstream(dimensionFields)]);
+  const aggregated = fields.some(f => f.isMeasure);
+  if (!aggregated && filters.some(f => f.field.isMeasure)) {
+    throw new SemanticQueryError('Filtering on a measure requires selecting at least one measure');
+  }
+
+  const preferredPaths: Record<string, string[]> = {};
+  Object.entries(query.joinPaths || {}).forEach(([key, path]) => {
+    const entity = findEntity(model, key);
+    if (!entity) throw new SemanticQueryError(`Unknown entity "${key}" in joinPaths`);
+    preferredPaths[entity.id] = path;
+  });
+  const planFrom = (from: Entity, required: Entity[], measured: Entity[]) => {
+    let plan: JoinPlan;
+    try {
+      plan = planJoinPaths(model, from, required, {
+        measureEntityIds: measured.map(e => e.id),
+        dimensionEntityIds: dimensionEntities.map(e => e.id),
+        preferredPaths: from === base ? preferredPaths : undefined
+      });
+    } catch (error) {
+      throw error instanceof JoinPlanError ? new SemanticQueryError(error.message) : error;
+    }
+    plan.ambiguities.forEach(a => {
+      warnings.push(`${a.paths.length} equally ranked join paths reach ${a.target.name}; using ${describeJoinPath(a.paths[0])}`);
+    });
+    plan.steps.filter(s => s.inferred).forEach(s => {
+      warnings.push(`${s.from.name} -> ${s.to.name} has no linked properties; joining on ${s.fromProperty.name}`);
+    });
+    return plan;
+  };
+  const plan = planFrom(base, entitiesOf([...referenced, ...dependencies]), aggregated ? measureEntities : []);
+  Object.keys(preferredPaths).forEach(id => {
+    if (!plan.candidates[id]) throw new SemanticQueryError(`joinPaths chooses a path to ${model.entities.find(e => e.id === id)!.name}, which the query does not join`);
+  });
+
+  const requested = query.fanTrapStrategy || 'auto';
+  const strategy: FanTrapStrategy = plan.traps.length === 0 ? 'none' : requested === 'auto' ? plan.suggestion.strategy : requested;
+  if (strategy === 'none') {
+    plan.traps.forEach(trap => warnings.push(trap.message));
+    if (plan.traps.length > 0 && requested === 'auto') warnings.push(plan.suggestion.reason);
+  } else {
+    const remedy = strategy === 'preaggregate' ? 'measures are aggregated per entity before joining' : 'measures use symmetric aggregates';
+    plan.traps.forEach(trap => warnings.push(`${trap.message}; ${remedy}`));
+  }
+  const repeated = new Set(plan.traps.flatMap(t => t.measureEntities.map(e => e.id)));
+
+  // Table aliases are the snake_case entity names
+  const warned = new Set<string>();
+  const createScope = (scopeBase: Entity, steps: JoinEdge[]) => {
+    const sources = new Map<string, EntitySource>();
+    const aliases = new Set<string>();
+    [scopeBase, ...steps.map(s => s.to)].forEach(entity => {
+      let alias = toColumnName(entity.name);
+      for (let n = 2; aliases.has(alias); n++) alias = `${toColumnName(entity.name)}_${n}`;
+      aliases.add(alias);
+      sources.set(entity.id, { ...sourceOf(entity, settings, warnings), alias });
+    });
+
+    const columnSql = (entity: Entity, property: Property): string => {
+      const source = sources.get(entity.id);
+      if (!source) throw new SemanticQueryError(`${entity.name}.${property.name} is referenced, but ${entity.name} is not joined`);
+      const alias = identifier(source.alias);
+      const expression = expressionOf(property);
+      if (expression) {
+        // ${...} references become the referenced column or expression, or
+        // for measures outside an aggregate their aggregated value
+        let sql = '';
+        let last = 0;
+        graph.nodes.get(fieldKey({ entity, property }))!.references.forEach(reference => {
+          const target = fieldOf(graph.nodes.get(fieldKey(reference.target!))!);
+          sql += qualifyColumns(expression.slice(last, reference.start), alias, source.columns);
+          sql += inline(target.isMeasure && !reference.inAggregate
+            ? fieldSql(target, scope)
+            : columnSql(target.entity, target.property), expression, reference);
+          last = reference.end;
+        });
+        return sql + qualifyColumns(expression.slice(last), alias, source.columns);
+      }
+      const bound = boundColumn(property);
+      if (bound && lastSegment(bound.table) !== lastSegment(source.table)) {
+        throw new SemanticQueryError(`${entity.name}.${property.name} is bound to ${bound.table}, not to ${entity.name}'s table ${source.table}`);
+      }
+      const column = bound?.column || toColumnName(property.name);
+      if (!bound && !warned.has(fieldKey({ entity, property }))) {
+        warned.add(fieldKey({ entity, property }));
+        warnings.push(`${entity.name}.${property.name} has no binding; assuming column ${column}`);
+      }
+      return `${alias}.\`${column}\``;
+    };
+
+    const from = [`FROM \`${sources.get(scopeBase.id)!.table}\` AS ${identifier(sources.get(scopeBase.id)!.alias)}`];
+
+    // Latest snapshot time of an entity, within the query's filters on that
+    // time, cross joined once as a single-row subquery
+    const latest = new Map<string, string>();
+    const latestSql = (entity: Entity, snapshot: Property) => {
+      const key = fieldKey({ entity, property: snapshot });
+      if (!latest.has(key)) {
+        const source = sources.get(entity.id)!;
+        let alias = `${source.alias}_latest`;
+        for (let n = 2; aliases.has(alias); n++) alias = `${source.alias}_latest_${n}`;
+        aliases.add(alias);
+        const time = columnSql(entity, snapshot);
+        const where = filters
+          .filter(f => fieldKey(f.field) === key)
+          .map(({ filter, field }) => filterSql(time, filter, field.property));
+        from.push(`CROSS JOIN (SELECT MAX(${time}) AS snapshot FROM \`${source.table}\` AS ${identifier(source.alias)}${where.length ? ` WHERE ${where.join(' AND ')}` : ''}) AS ${identifier(alias)}`);
+        latest.set(key, `${identifier(alias)}.snapshot`);
+      }
+      return latest.get(key)!;
+    };
+    const scope = { columnSql, latestSql, from };
+
+    steps.forEach(step => {
+      const target = sources.get(step.to.id)!;
+      from.push(`LEFT JOIN \`${target.table}\` AS ${identifier(target.alias)}`);
+      from.push(`  ON ${columnSql(step.to, step.toProperty)} = ${columnSql(step.from, step.fromProperty)}`);
+    });
+    return scope;
+  };
+  type Scope = ReturnType<typeof createScope>;
+
+  // Column measures use their declared aggregation. Semi-additive measures
+  // only count rows of the latest snapshot unless grouped by the snapshot time.
+  const fieldSql = ({ entity, property, isMeasure, isMetric }: ResolvedField, scope: Scope): string => {
+    const sql = scope.columnSql(entity, property);
+    if (!isMeasure || isMetric) return sql;
+    const declared = defaultAggregation(property);
+    let aggregate: Aggregate | undefined = isAggregate(sql)
+      ? parseAggregate(sql)
+      : { fn: declared === AggregationType.COUNT_DISTINCT ? 'COUNT' : declared, distinct: declared === AggregationType.COUNT_DISTINCT, argument: sql };
+    let rewritten = !isAggregate(sql);
+
+    const snapshot = snapshotPropertyOf(entity, property);
+    if (property.additivity === Additivity.SEMI_ADDITIVE && !snapshot) {
+      warnings.push(`${entity.name}.${property.name} is semi-additive but ${entity.name} has no date or time property; it is summed across snapshots`);
+    } else if (snapshot && !selected.some(f => !f.isMeasure && fieldKey(f) === fieldKey({ entity, property: snapshot }))) {
+      if (aggregate) {
+        const current = `${scope.columnSql(entity, snapshot)} = ${scope.latestSql(entity, snapshot)}`;
+        aggregate = { ...aggregate, argument: `IF(${current}, ${aggregate.argument === '*' ? '1' : aggregate.argument}, NULL)` };
+        rewritten = true;
+      } else {
+        warnings.push(`${entity.name}.${property.name} is not a single aggregate and cannot be limited to the latest ${snapshot.name}`);
+      }
+    }
+
+    if (strategy !== 'symmetric' || !repeated.has(entity.id)) {
+      return rewritten && aggregate ? `${aggregate.fn}(${aggregate.distinct ? 'DISTINCT ' : ''}${aggregate.argument})` : sql;
+    }
+    if (!aggregate) {
+      warnings.push(`${entity.name}.${property.name} is not a single aggregate and cannot be made symmetric; it may be overcounted`);
+      return sql;
+    }
+    const keys = entity.properties.filter(p => p.isUniqueKey).map(p => scope.columnSql(entity, p));
+    const key = keys.length === 1 ? `CAST(${keys[0]} AS STRING)` : `TO_JSON_STRING(STRUCT(${keys.join(', ')}))`;
+    return symmetricAggregate(aggregate, key, property.dataType);
+  };
+
+  // Output names: the property name, qualified by the entity when taken
+  const used = new Set<string>();
+  const names = new Map<string, string>();
+  const nameFor = (field: ResolvedField) => {
+    if (names.has(fieldKey(field))) return names.get(fieldKey(field))!;
+    let name = toColumnName(field.property.name);
+    if (used.has(name)) name = toColumnName(`${field.entity.name} ${field.property.name}`);
+    for (let n = 2; used.has(name); n++) name = `${toColumnName(field.property.name)}_${n}`;
+    used.add(name);
+    names.set(fieldKey(field), name);
+    return name;
+  };
+  const selected = [...new Map(fields.map(f => [fieldKey(f), f])).values()];
+  const columns: CompiledColumn[] = selected.map(field => ({
+    name: nameFor(field), entity: field.entity, property: field.property, kind: field.isMeasure ? 'measure' : 'dimension'
+  }));
+  const isSelected = (field: ResolvedField) => selected.some(f => fieldKey(f) === fieldKey(field));
+
+  sorts.forEach(({ field }) => {
+    // Unselected dimensions are not grouped, and measures would aggregate a row-level query
+    if (!isSelected(field) && aggregated !== field.isMeasure) {
+      throw new SemanticQueryError(`Sorting by ${field.entity.name}.${field.property.name} requires selecting it`);
+    }
+  });
+  const direction = (sort: QuerySort) => (sort.direction === 'DESC' ? ' DESC' : '');
+
+  let lines: string[];
+  let joins = plan.steps;
+  if (strategy !== 'preaggregate') {
+    const scope = createScope(base, plan.steps);
+    const where = filters.filter(f => !f.field.isMeasure).map(({ filter, field }) => filterSql(fieldSql(field, scope), filter, field.property));
+    const having = filters.filter(f => f.field.isMeasure).map(({ filter, field }) => filterSql(fieldSql(field, scope), filter, field.property));
+    const orderBy = sorts.map(({ sort, field }) =>
+      `${isSelected(field) ? identifier(nameFor(field)) : fieldSql(field, scope)}${direction(sort)}`);
+    lines = buildSelect(
+      selected.map(field => ({ name: nameFor(field), sql: fieldSql(field, scope), dimension: !field.isMeasure })),
+      scope.from, where, having, orderBy, query.limit
+    );
+  } else {
+    // One aggregate per measured entity at the grain of the selected
+    // dimensions, joined on those dimensions
+    const dimensions = selected.filter(f => !f.isMeasure);
+    const measures = [...new Map([...referenced, ...dependencies].filter(f => f.isMeasure && !f.isMetric).map(f => [fieldKey(f), f])).values()];
+    joins = [];
+    const ctes = measureEntities.map(entity => {
+      const own = measures.filter(f => f.entity.id === entity.id);
+      // Entities the measures' own references read from are joined as well
+      const required = [...dimensionEntities, ...entitiesOf(upstream(own)).filter(e => !dimensionEntities.includes(e))];
+      const sub = planFrom(entity, required, [entity]);
+      if (sub.traps.length > 0) throw new SemanticQueryError(`Cannot pre-aggregate ${entity.name}: ${sub.traps[0].message}`);
+      joins.push(...sub.steps);
+      const scope = createScope(entity, sub.steps);
+      const where = filters.filter(f => !f.field.isMeasure).map(({ filter, field }) => filterSql(fieldSql(field, scope), filter, field.property));
+      const select = buildSelect([
+        ...dimensions.map(field => ({ name: nameFor(field), sql: fieldSql(field, scope), dimension: true })),
+        ...own.map(field => ({ name: nameFor(field), sql: fieldSql(field, scope), dimension: false }))
+      ], scope.from, where, [], []);
+      return { name: `${toColumnName(entity.name)}_totals`, select };
+    });
+
+    // Metrics are computed from the joined aggregates
+    const outerSql = (field: ResolvedField): string => {
+      if (!field.isMetric) return identifier(nameFor(field));
+      const definition = expressionOf(field.property)!;
+      let sql = '';
+      let last = 0;
+      graph.nodes.get(fieldKey(field))!.references.forEach(reference => {
+        const target = fieldOf(graph.nodes.get(fieldKey(reference.target!))!);
+        if (!target.isMeasure || reference.inAggregate) {
+          throw new SemanticQueryError(`${referenceLabel(field)} uses \${${reference.text}} at row level and cannot be computed from pre-aggregated measures`);
+        }
+        sql += definition.slice(last, reference.start) + inline(outerSql(target), definition, reference);
+        last = reference.end;
+      });
+      return sql + definition.slice(last);
+    };
+
+    const keys = dimensions.map(field => identifier(nameFor(field)));
+    lines = ['WITH', ctes.map(cte => `${identifier(cte.name)} AS (\n${cte.select.join('\n').split('\n').map(line => `  ${line}`).join('\n')}\n)`).join(',\n'), 'SELECT'];
+    lines.push(selected.map(field => field.isMetric
+      ? `  ${outerSql(field)} AS ${identifier(nameFor(field))}`
+      : `  ${identifier(nameFor(field))}`).join(',\n'));
+    lines.push(`FROM ${identifier(ctes[0].name)}`);
+    ctes.slice(1).forEach(cte => {
+      lines.push(keys.length ? `FULL OUTER JOIN ${identifier(cte.name)} USING (${keys.join(', ')})` : `CROSS JOIN ${identifier(cte.name)}`);
+    });
+    const where = filters.filter(f => f.field.isMeasure).map(({ filter, field }) => filterSql(outerSql(field), filter, field.property));
+    if (where.length) lines.push(`WHERE ${where.join('\n  AND ')}`);
+    if (sorts.length) {
+      lines.push(`ORDER BY ${sorts.map(({ sort, field }) => `${isSelected(field) ? identifier(nameFor(field)) : outerSql(field)}${direction(sort)}`).join(', ')}`);
+    }
+    if (query.limit !== undefined) lines.push(`LIMIT ${query.limit}`);
+  }
+
+  return {
+    sql: `${lines.join('\n')}\n`,
+    columns,
+    joins,
+    plan,
+    strategy,
+    warnings: [...new Set(warnings)]
+  };
+};
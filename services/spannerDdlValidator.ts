@@ -0,0 +1,517 @@
+import { SPANNER_RESERVED } from './spannerGraph';
+
+// Checks Spanner DDL before it is downloaded or deployed. A tokenizer and a
+// recursive-descent parser cover the statements the Spanner Graph generator
+// writes (CREATE TABLE, CREATE INDEX and CREATE PROPERTY GRAPH) and report
+// syntax errors, unquoted reserved words and unknown types. Once everything
+// is parsed, references are resolved: key, foreign key and interleave
+// targets, and the tables, keys and properties of graph elements.
+// Expressions (generated columns, defaults, checks) are only checked for
+// balanced parentheses.
+
+export interface SpannerDdlIssue {
+  line: number;
+  message: string;
+}
+
+interface Token {
+  kind: 'word' | 'ident' | 'string' | 'number' | 'punct';
+  value: string;
+  line: number;
+}
+
+class SyntaxIssue extends Error {
+  line: number;
+
+  constructor(line: number, message: string) {
+    super(message);
+    this.name = 'SyntaxIssue';
+    this.line = line;
+  }
+}
+
+const tokenize = (ddl: string, issues: SpannerDdlIssue[]): Token[] => {
+  const tokens: Token[] = [];
+  let pos = 0;
+  let line = 1;
+  while (pos < ddl.length) {
+    const ch = ddl[pos];
+    if (ch === '\n') {
+      line++;
+      pos++;
+    } else if (/\s/.test(ch)) {
+      pos++;
+    } else if ((ch === '-' && ddl[pos + 1] === '-') || ch === '#') {
+      while (pos < ddl.length && ddl[pos] !== '\n') pos++;
+    } else if (ch === '/' && ddl[pos + 1] === '*') {
+      const end = ddl.indexOf('*/', pos + 2);
+      const stop = end === -1 ? ddl.length : end + 2;
+      line += ddl.slice(pos, stop).split('\n').length - 1;
+      if (end === -1) issues.push({ line, message: 'Unterminated comment' });
+      pos = stop;
+    } else if (ch === '`' || ch === '"' || ch === "'") {
+      const start = line;
+      let value = '';
+      pos++;
+      while (pos < ddl.length && ddl[pos] !== ch) {
+        if (ddl[pos] === '\\' && pos + 1 < ddl.length) pos++;
+        if (ddl[pos] === '\n') line++;
+        value += ddl[pos++];
+      }
+      if (pos >= ddl.length) issues.push({ line: start, message: `Unterminated ${ch === '`' ? 'quoted identifier' : 'string'}` });
+      pos++;
+      tokens.push({ kind: ch === '`' ? 'ident' : 'string', value, line: start });
+    } else if (/[A-Za-z_]/.test(ch)) {
+      const match = ddl.slice(pos).match(/^[A-Za-z_][A-Za-z0-9_]*/)!;
+      tokens.push({ kind: 'word', value: match[0], line });
+      pos += match[0].length;
+    } else if (/[0-9]/.test(ch)) {
+      const match = ddl.slice(pos).match(/^[0-9]+(\.[0-9]*)?([eE][+-]?[0-9]+)?/)!;
+      tokens.push({ kind: 'number', value: match[0], line });
+      pos += match[0].length;
+    } else {
+      tokens.push({ kind: 'punct', value: ch, line });
+      pos++;
+    }
+  }
+  return tokens;
+};
+
+interface TableInfo {
+  name: string;
+  line: number;
+  columns: Map<string, string>;
+  primaryKey: string[];
+  foreignKeys: { columns: string[]; table: string; referenced: string[]; line: number }[];
+  parent?: { name: string; line: number };
+}
+
+interface ElementInfo {
+  name: string;
+  table: string;
+  line: number;
+  key?: string[];
+  source?: { columns: string[]; table: string; referenced?: string[] };
+  destination?: { columns: string[]; table: string; referenced?: string[] };
+  propertyColumns: string[];
+  exceptColumns: string[];
+}
+
+interface GraphInfo {
+  name: string;
+  line: number;
+  nodes: ElementInfo[];
+  edges: ElementInfo[];
+}
+
+const SCALAR_TYPES = new Set(['INT64', 'FLOAT64', 'FLOAT32', 'BOOL', 'DATE', 'TIMESTAMP', 'NUMERIC', 'JSON', 'TOKENLIST']);
+
+// Parses one statement's tokens; throws SyntaxIssue on the first error
+const parseStatement = (tokens: Token[], tables: TableInfo[], graphs: GraphInfo[]) => {
+  let pos = 0;
+  const peek = (offset = 0) => tokens[pos + offset];
+  const lastLine = () => (tokens[pos] || tokens[tokens.length - 1]).line;
+  const fail = (message: string): never => {
+    throw new SyntaxIssue(lastLine(), message);
+  };
+  const isWord = (word: string, offset = 0) => peek(offset)?.kind === 'word' && peek(offset).value.toUpperCase() === word;
+  const acceptWord = (...words: string[]) => {
+    if (!words.every((w, i) => isWord(w, i))) return false;
+    pos += words.length;
+    return true;
+  };
+  const expectWord = (...words: string[]) => {
+    if (!acceptWord(...words)) fail(`Expected ${words.join(' ')} but found ${describe(peek())}`);
+  };
+  const isPunct = (value: string) => peek()?.kind === 'punct' && peek().value === value;
+  const acceptPunct = (value: string) => {
+    if (!isPunct(value)) return false;
+    pos++;
+    return true;
+  };
+  const expectPunct = (value: string) => {
+    if (!acceptPunct(value)) fail(`Expected "${value}" but found ${describe(peek())}`);
+  };
+  const identifier = (what: string): string => {
+    const token = peek();
+    if (token?.kind === 'ident') {
+      pos++;
+      return token.value;
+    }
+    if (token?.kind === 'word') {
+      if (SPANNER_RESERVED.has(token.value.toUpperCase())) fail(`Reserved keyword ${token.value} used as ${what}; quote it with backticks`);
+      pos++;
+      return token.value;
+    }
+    return fail(`Expected ${what} but found ${describe(token)}`);
+  };
+  // Schema-qualified names such as sch.Orders
+  const path = (what: string) => {
+    let name = identifier(what);
+    while (acceptPunct('.')) name += `.${identifier(what)}`;
+    return name;
+  };
+  const identifierList = (what: string): string[] => {
+    expectPunct('(');
+    const names: string[] = [];
+    if (acceptPunct(')')) return names;
+    do {
+      names.push(identifier(what));
+    } while (acceptPunct(','));
+    expectPunct(')');
+    return names;
+  };
+  // Skips a parenthesized expression, checking that it is balanced
+  const skipParenthesized = () => {
+    expectPunct('(');
+    let depth = 1;
+    while (depth > 0) {
+      const token = peek();
+      if (!token) fail('Unbalanced parentheses');
+      pos++;
+      if (token.kind === 'punct' && token.value === '(') depth++;
+      if (token.kind === 'punct' && token.value === ')') depth--;
+    }
+  };
+  const dataType = (): string => {
+    const token = peek();
+    if (token?.kind !== 'word') return fail(`Expected a column type but found ${describe(token)}`);
+    const type = token.value.toUpperCase();
+    pos++;
+    if (type === 'STRING' || type === 'BYTES') {
+      expectPunct('(');
+      const length = peek();
+      if (!(length?.kind === 'number' || (length?.kind === 'word' && length.value.toUpperCase() === 'MAX'))) {
+        fail(`${type} needs a length or MAX`);
+      }
+      pos++;
+      expectPunct(')');
+      return type;
+    }
+    if (type === 'ARRAY') {
+      expectPunct('<');
+      const element = dataType();
+      expectPunct('>');
+      if (isPunct('(')) skipParenthesized();
+      return `ARRAY<${element}>`;
+    }
+    if (!SCALAR_TYPES.has(type)) fail(`Unknown Spanner type ${token.value}`);
+    return type;
+  };
+
+  const createTable = () => {
+    const line = lastLine();
+    acceptWord('IF', 'NOT', 'EXISTS');
+    const table: TableInfo = { name: path('table name'), line, columns: new Map(), primaryKey: [], foreignKeys: [] };
+    expectPunct('(');
+    if (!isPunct(')')) {
+      do {
+        const elementLine = lastLine();
+        const constrained = acceptWord('CONSTRAINT');
+        if (constrained) identifier('constraint name');
+        if (acceptWord('FOREIGN', 'KEY')) {
+          const columns = identifierList('column name');
+          expectWord('REFERENCES');
+          const referencedTable = path('table name');
+          const referenced = identifierList('column name');
+          table.foreignKeys.push({ columns, table: referencedTable, referenced, line: elementLine });
+          if (acceptWord('ON', 'DELETE')) {
+            if (!acceptWord('CASCADE')) expectWord('NO', 'ACTION');
+          }
+          if (!acceptWord('NOT', 'ENFORCED')) acceptWord('ENFORCED');
+        } else if (acceptWord('CHECK')) {
+          skipParenthesized();
+        } else if (constrained) {
+          fail('Expected FOREIGN KEY or CHECK after the constraint name');
+        } else {
+          const column = identifier('column name');
+          if (table.columns.has(column.toLowerCase())) {
+            throw new SyntaxIssue(elementLine, `Column ${column} is defined twice in ${table.name}`);
+          }
+          table.columns.set(column.toLowerCase(), dataType());
+          for (;;) {
+            if (acceptWord('NOT', 'NULL')) continue;
+            if (acceptWord('DEFAULT')) {
+              skipParenthesized();
+              continue;
+            }
+            if (acceptWord('AS')) {
+              skipParenthesized();
+              acceptWord('STORED');
+              continue;
+            }
+            if (acceptWord('HIDDEN')) continue;
+            if (acceptWord('OPTIONS')) {
+              skipParenthesized();
+              continue;
+            }
+            break;
+          }
+        }
+      } while (acceptPunct(','));
+    }
+    expectPunct(')');
+    expectWord('PRIMARY', 'KEY');
+    expectPunct('(');
+    if (!isPunct(')')) {
+      do {
+        table.primaryKey.push(identifier('key column'));
+        if (!acceptWord('ASC')) acceptWord('DESC');
+      } while (acceptPunct(','));
+    }
+    expectPunct(')');
+    while (acceptPunct(',')) {
+      if (acceptWord('INTERLEAVE', 'IN', 'PARENT')) {
+        table.parent = { name: path('parent table name'), line: lastLine() };
+        if (acceptWord('ON', 'DELETE')) {
+          if (!acceptWord('CASCADE')) expectWord('NO', 'ACTION');
+        }
+      } else if (acceptWord('ROW', 'DELETION', 'POLICY')) {
+        skipParenthesized();
+      } else {
+        fail(`Unexpected ${describe(peek())} after PRIMARY KEY`);
+      }
+    }
+    tables.push(table);
+  };
+
+  const keyReference = () => {
+    const columns = identifierList('key column');
+    expectWord('REFERENCES');
+    const table = identifier('node table name');
+    const referenced = isPunct('(') ? identifierList('key column') : undefined;
+    return { columns, table, referenced };
+  };
+
+  const propertiesSpec = (element: ElementInfo): boolean => {
+    if (acceptWord('NO', 'PROPERTIES')) return true;
+    if (!acceptWord('PROPERTIES')) return false;
+    acceptWord('ARE');
+    if (acceptWord('ALL', 'COLUMNS')) {
+      if (acceptWord('EXCEPT')) element.exceptColumns.push(...identifierList('column name'));
+      return true;
+    }
+    expectPunct('(');
+    do {
+      // An expression, optionally aliased; plain column references are resolved later
+      const start = pos;
+      let depth = 0;
+      while (peek() && !(depth === 0 && (isPunct(',') || isPunct(')') || isWord('AS')))) {
+        if (isPunct('(')) depth++;
+        if (isPunct(')')) depth--;
+        pos++;
+      }
+      if (pos === start) fail('Expected a property expression');
+      if (pos === start + 1 && (tokens[start].kind === 'word' || tokens[start].kind === 'ident')) {
+        pos = start;
+        element.propertyColumns.push(identifier('column name'));
+      }
+      if (acceptWord('AS')) identifier('property name');
+    } while (acceptPunct(','));
+    expectPunct(')');
+    return true;
+  };
+
+  const graphElement = (isEdge: boolean): ElementInfo => {
+    const line = lastLine();
+    const table = identifier('table name');
+    const element: ElementInfo = {
+      name: acceptWord('AS') ? identifier('element name') : table,
+      table,
+      line,
+      propertyColumns: [],
+      exceptColumns: []
+    };
+    if (acceptWord('KEY')) element.key = identifierList('key column');
+    if (isEdge) {
+      expectWord('SOURCE', 'KEY');
+      element.source = keyReference();
+      expectWord('DESTINATION', 'KEY');
+      element.destination = keyReference();
+    }
+    let labelled = false;
+    for (;;) {
+      const defaultLabel = acceptWord('DEFAULT', 'LABEL');
+      if (defaultLabel || acceptWord('LABEL')) {
+        if (!defaultLabel) identifier('label name');
+        labelled = true;
+        propertiesSpec(element);
+        continue;
+      }
+      if (!labelled && propertiesSpec(element)) {
+        labelled = true;
+        continue;
+      }
+      break;
+    }
+    return element;
+  };
+
+  const elementList = (isEdge: boolean): ElementInfo[] => {
+    expectPunct('(');
+    const elements: ElementInfo[] = [];
+    do {
+      elements.push(graphElement(isEdge));
+    } while (acceptPunct(','));
+    expectPunct(')');
+    return elements;
+  };
+
+  const createPropertyGraph = () => {
+    const line = lastLine();
+    acceptWord('IF', 'NOT', 'EXISTS');
+    const name = identifier('graph name');
+    expectWord('NODE', 'TABLES');
+    const nodes = elementList(false);
+    const edges = acceptWord('EDGE', 'TABLES') ? elementList(true) : [];
+    graphs.push({ name, line, nodes, edges });
+  };
+
+  const createIndex = () => {
+    acceptWord('IF', 'NOT', 'EXISTS');
+    identifier('index name');
+    expectWord('ON');
+    path('table name');
+    skipParenthesized();
+    while (peek()) {
+      if (acceptWord('STORING') || acceptWord('INTERLEAVE', 'IN')) {
+        if (isPunct('(')) skipParenthesized();
+        else path('table name');
+      } else if (isPunct(',')) {
+        pos++;
+      } else {
+        break;
+      }
+    }
+  };
+
+  expectWord('CREATE');
+  const replace = acceptWord('OR', 'REPLACE');
+  if (acceptWord('TABLE')) {
+    if (replace) fail('CREATE OR REPLACE is not supported for tables');
+    createTable();
+  } else if (acceptWord('PROPERTY', 'GRAPH')) {
+    createPropertyGraph();
+  } else if (acceptWord('UNIQUE', 'NULL_FILTERED', 'INDEX') || acceptWord('UNIQUE', 'INDEX') || acceptWord('NULL_FILTERED', 'INDEX') || acceptWord('INDEX')) {
+    createIndex();
+  } else {
+    fail(`Unsupported statement CREATE ${describe(peek())}`);
+  }
+  if (peek()) fail(`Unexpected ${describe(peek())} at the end of the statement`);
+};
+
+const describe = (token?: Token) =>
+  !token ? 'the end of the statement' : token.kind === 'ident' ? `\`${token.value}\`` : `"${token.value}"`;
+
+// --- Reference checks ---
+
+const checkReferences = (tables: TableInfo[], graphs: GraphInfo[], issues: SpannerDdlIssue[]) => {
+  const byName = new Map<string, TableInfo>();
+  tables.forEach(table => {
+    const key = table.name.toLowerCase();
+    if (byName.has(key)) issues.push({ line: table.line, message: `Table ${table.name} is defined twice` });
+    byName.set(key, table);
+  });
+  const missingColumns = (table: TableInfo, columns: string[]) => columns.filter(c => !table.columns.has(c.toLowerCase()));
+
+  tables.forEach(table => {
+    missingColumns(table, table.primaryKey).forEach(c =>
+      issues.push({ line: table.line, message: `Primary key column ${c} is not a column of ${table.name}` }));
+    table.foreignKeys.forEach(fk => {
+      missingColumns(table, fk.columns).forEach(c =>
+        issues.push({ line: fk.line, message: `Foreign key column ${c} is not a column of ${table.name}` }));
+      const target = byName.get(fk.table.toLowerCase());
+      if (!target) {
+        issues.push({ line: fk.line, message: `Foreign key in ${table.name} references unknown table ${fk.table}` });
+        return;
+      }
+      missingColumns(target, fk.referenced).forEach(c =>
+        issues.push({ line: fk.line, message: `Foreign key in ${table.name} references unknown column ${target.name}.${c}` }));
+      if (fk.columns.length !== fk.referenced.length) {
+        issues.push({ line: fk.line, message: `Foreign key in ${table.name} has ${fk.columns.length} columns but references ${fk.referenced.length}` });
+      }
+    });
+    if (table.parent && !byName.has(table.parent.name.toLowerCase())) {
+      issues.push({ line: table.parent.line, message: `${table.name} is interleaved in unknown table ${table.parent.name}` });
+    }
+  });
+
+  graphs.forEach(graph => {
+    const elementNames = new Set<string>();
+    const nodesByName = new Map<string, ElementInfo>();
+    const checkElement = (element: ElementInfo, kind: string): TableInfo | undefined => {
+      if (elementNames.has(element.name.toLowerCase())) {
+        issues.push({ line: element.line, message: `Graph ${graph.name} defines element ${element.name} twice` });
+      }
+      elementNames.add(element.name.toLowerCase());
+      const table = byName.get(element.table.toLowerCase());
+      if (!table) {
+        issues.push({ line: element.line, message: `${kind} ${element.name} uses unknown table ${element.table}` });
+        return undefined;
+      }
+      [...(element.key || []), ...element.propertyColumns, ...element.exceptColumns].forEach(c => {
+        if (!table.columns.has(c.toLowerCase())) {
+          issues.push({ line: element.line, message: `${kind} ${element.name} uses unknown column ${table.name}.${c}` });
+        }
+      });
+      if (!element.key && table.primaryKey.length === 0) {
+        issues.push({ line: element.line, message: `${kind} ${element.name} needs a KEY because ${table.name} has no primary key` });
+      }
+      return table;
+    };
+
+    graph.nodes.forEach(node => {
+      checkElement(node, 'Node table');
+      nodesByName.set(node.name.toLowerCase(), node);
+    });
+    graph.edges.forEach(edge => {
+      const table = checkElement(edge, 'Edge table');
+      ([['SOURCE', edge.source!], ['DESTINATION', edge.destination!]] as const).forEach(([side, reference]) => {
+        if (table) {
+          missingColumns(table, reference.columns).forEach(c =>
+            issues.push({ line: edge.line, message: `${side} KEY of edge ${edge.name} uses unknown column ${table.name}.${c}` }));
+        }
+        const node = nodesByName.get(reference.table.toLowerCase());
+        if (!node) {
+          issues.push({ line: edge.line, message: `${side} KEY of edge ${edge.name} references ${reference.table}, which is not a node table of ${graph.name}` });
+          return;
+        }
+        const nodeTable = byName.get(node.table.toLowerCase());
+        if (!nodeTable) return;
+        const referenced = reference.referenced || node.key || nodeTable.primaryKey;
+        missingColumns(nodeTable, referenced).forEach(c =>
+          issues.push({ line: edge.line, message: `${side} KEY of edge ${edge.name} references unknown column ${nodeTable.name}.${c}` }));
+        if (referenced.length !== reference.columns.length) {
+          issues.push({ line: edge.line, message: `${side} KEY of edge ${edge.name} has ${reference.columns.length} columns but references ${referenced.length}` });
+        }
+      });
+    });
+  });
+};
+
+export const validateSpannerDdl = (ddl: string): SpannerDdlIssue[] => {
+  const issues: SpannerDdlIssue[] = [];
+  const tokens = tokenize(ddl, issues);
+  const tables: TableInfo[] = [];
+  const graphs: GraphInfo[] = [];
+
+  let statement: Token[] = [];
+  const flush = () => {
+    if (statement.length === 0) return;
+    try {
+      parseStatement(statement, tables, graphs);
+    } catch (error) {
+      if (!(error instanceof SyntaxIssue)) throw error;
+      issues.push({ line: error.line, message: error.message });
+    }
+    statement = [];
+  };
+  tokens.forEach(token => {
+    if (token.kind === 'punct' && token.value === ';') flush();
+    else statement.push(token);
+  });
+  flush();
+
+  checkReferences(tables, graphs, issues);
+  return issues.sort((a, b) => a.line - b.line);
+};
@@ -0,0 +1,593 @@
+import { SemanticModel, Entity, EntityType, Property, PropertyType, Relationship } from '../types';
+import {
+  DdlFile, DdlTable, IDENTIFIER, parseDdl, ddlToModel, stripComments, splitTopLevel, findClosingParen,
+  unquote, identifierList, entityIdFor, propertyIdFor
+} from './ddlImport';
+import { humanizeIdentifier, mapSqlTypeToDataType } from './importUtils';
+
+// Spanner Graph schemas: CREATE TABLE statements plus a CREATE PROPERTY GRAPH
+// that exposes some of those tables as NODE TABLES and EDGE TABLES.
+//
+// Import builds on the DDL importer for the tables, then names entities and
+// properties after their graph labels and aliases and turns every edge into a
+// relationship. Export is the inverse, and the two round-trip losslessly for:
+//   - node tables with their columns, Spanner types, primary keys and generated columns
+//   - one label per node or edge table (explicit or DEFAULT LABEL)
+//   - node properties as ALL COLUMNS or a list of every column, with aliases
+//   - edges declared on the table of one of their endpoints (foreign-key edges)
+// A many-to-many edge backed by a dedicated edge table comes back as an edge
+// between the same nodes, but not as the same table: export regenerates it
+// with key columns named after the endpoint tables, without its other
+// columns (those are only listed in the relationship description), with both
+// endpoint keys as its primary key (so parallel edges between the same two
+// nodes collapse) and with generated NOT NULL and FOREIGN KEY constraints in
+// place of its own.
+// NOT NULL and FOREIGN KEY constraints on node tables, secondary indexes,
+// interleaving, multiple labels and NO PROPERTIES / EXCEPT are read where the
+// model has a place for them but not reproduced. Export infers the edge keys
+// of relationships without linked properties like the join planner, adding a
+// foreign-key column where none matches by name, and skips only those it
+// can't infer (self-relationships, unmatched composite keys).
+
+export interface SpannerGraphKeyReference {
+  columns: string[];
+  table: string;
+  // Empty when the DDL leaves it out, meaning the referenced table's key
+  referencedColumns: string[];
+}
+
+export interface SpannerGraphProperty {
+  column: string;
+  name: string;
+}
+
+export interface SpannerGraphElement {
+  // Element name: the alias if one is given, otherwise the table name
+  name: string;
+  table: string;
+  key?: string[];
+  // Undefined for DEFAULT LABEL, which is the element name
+  label?: string;
+  // 'ALL' for PROPERTIES ALL COLUMNS (the default), 'NONE' for NO PROPERTIES
+  properties: 'ALL' | 'NONE' | SpannerGraphProperty[];
+  exceptColumns?: string[];
+  source?: SpannerGraphKeyReference;
+  destination?: SpannerGraphKeyReference;
+}
+
+export interface SpannerPropertyGraph {
+  name: string;
+  nodeTables: SpannerGraphElement[];
+  edgeTables: SpannerGraphElement[];
+  file: string;
+}
+
+// --- Parsing ---
+
+const PROPERTY_GRAPH = new RegExp(
+  `^CREATE\\s+(?:OR\\s+REPLACE\\s+)?PROPERTY\\s+GRAPH\\s+(?:IF\\s+NOT\\s+EXISTS\\s+)?${IDENTIFIER}\\s+NODE\\s+TABLES\\s*\\(`, 'i'
+);
+
+export const isSpannerGraphDdl = (content: string) => /\bCREATE\s+(?:OR\s+REPLACE\s+)?PROPERTY\s+GRAPH\b/i.test(content);
+
+const parseKeyReference = (match: RegExpMatchArray): SpannerGraphKeyReference => ({
+  columns: identifierList(match[1]),
+  table: unquote(match[2]),
+  referencedColumns: match[3] !== undefined ? identifierList(match[3]) : []
+});
+
+// One entry of a NODE TABLES or EDGE TABLES list
+const parseElement = (definition: string, file: string): SpannerGraphElement => {
+  let rest = definition.trim();
+  const take = (pattern: RegExp) => {
+    const match = rest.match(pattern);
+    if (match) rest = rest.slice(match[0].length).trimStart();
+    return match;
+  };
+
+  const head = take(new RegExp(`^${IDENTIFIER}(?:\\s+AS\\s+${IDENTIFIER})?`, 'i'));
+  if (!head) throw new Error(`${file}: expected a table name in "${definition}"`);
+  const table = unquote(head[1]);
+  const element: SpannerGraphElement = { name: head[2] ? unquote(head[2]) : table, table, properties: 'ALL' };
+  const keyReference = (kind: string) => new RegExp(`^${kind}\\s+KEY\\s*\\(([^)]*)\\)\\s*REFERENCES\\s+${IDENTIFIER}(?:\\s*\\(([^)]*)\\))?`, 'i');
+  let labelCount = 0;
+
+  while (rest) {
+    let match: RegExpMatchArray | null;
+    if ((match = take(/^KEY\s*\(([^)]*)\)/i))) {
+      element.key = identifierList(match[1]);
+    } else if ((match = take(keyReference('SOURCE')))) {
+      element.source = parseKeyReference(match);
+    } else if ((match = take(keyReference('DESTINATION')))) {
+      element.destination = parseKeyReference(match);
+    } else if ((match = take(/^DEFAULT\s+LABEL\b/i)) || (match = take(new RegExp(`^LABEL\\s+${IDENTIFIER}`, 'i')))) {
+      // Only the first label is kept; the model has one name per entity or relationship
+      if (labelCount++ === 0 && match[1]) element.label = unquote(match[1]);
+    } else if (take(/^NO\s+PROPERTIES\b/i)) {
+      if (labelCount <= 1) element.properties = 'NONE';
+    } else if ((match = take(/^PROPERTIES\s+(?:ARE\s+)?ALL\s+COLUMNS(?:\s+EXCEPT\s*\(([^)]*)\))?/i))) {
+      if (labelCount <= 1) {
+        element.properties = 'ALL';
+        if (match[1]) element.exceptColumns = identifierList(match[1]);
+      }
+    } else if (/^PROPERTIES\s*\(/i.test(rest)) {
+      const open = rest.indexOf('(');
+      const close = findClosingParen(rest, open);
+      if (close === -1) throw new Error(`${file}: unbalanced parentheses in PROPERTIES of ${element.name}`);
+      const items = splitTopLevel(rest.slice(open + 1, close), ',');
+      rest = rest.slice(close + 1).trimStart();
+      if (labelCount > 1) continue;
+      // Expression properties have no column to bind to and are left out
+      element.properties = items
+        .map(item => item.match(new RegExp(`^${IDENTIFIER}(?:\\s+AS\\s+${IDENTIFIER})?$`, 'i')))
+        .filter((item): item is RegExpMatchArray => !!item)
+        .map(item => ({ column: unquote(item[1]), name: unquote(item[2] || item[1]) }));
+    } else {
+      throw new Error(`${file}: unexpected "${rest.split(/\s+/)[0]}" in graph element ${element.name}`);
+    }
+  }
+  return element;
+};
+
+export const parseSpannerGraphs = (files: DdlFile[]): SpannerPropertyGraph[] => {
+  const graphs: SpannerPropertyGraph[] = [];
+  files.forEach(file => {
+    splitTopLevel(stripComments(file.content), ';').forEach(statement => {
+      const header = statement.match(PROPERTY_GRAPH);
+      if (!header) return;
+      const name = unquote(header[1]);
+      const nodesOpen = header[0].length - 1;
+      const nodesClose = findClosingParen(statement, nodesOpen);
+      if (nodesClose === -1) throw new Error(`${file.name}: unbalanced parentheses in NODE TABLES of ${name}`);
+
+      const graph: SpannerPropertyGraph = {
+        name,
+        nodeTables: splitTopLevel(statement.slice(nodesOpen + 1, nodesClose), ',').map(e => parseElement(e, file.name)),
+        edgeTables: [],
+        file: file.name
+      };
+      const edges = statement.slice(nodesClose + 1).match(/^\s*EDGE\s+TABLES\s*\(/i);
+      if (edges) {
+        const edgesOpen = nodesClose + edges[0].length;
+        const edgesClose = findClosingParen(statement, edgesOpen);
+        if (edgesClose === -1) throw new Error(`${file.name}: unbalanced parentheses in EDGE TABLES of ${name}`);
+        graph.edgeTables = splitTopLevel(statement.slice(edgesOpen + 1, edgesClose), ',').map(e => parseElement(e, file.name));
+      }
+      graph.edgeTables.forEach(edge => {
+        if (!edge.source || !edge.destination) {
+          throw new Error(`${file.name}: edge table ${edge.name} needs both SOURCE KEY and DESTINATION KEY`);
+        }
+      });
+      graphs.push(graph);
+    });
+  });
+  return graphs;
+};
+
+// --- Types ---
+
+const SPANNER_TYPES: Record<string, string> = {
+  'STRING': 'STRING(MAX)',
+  'INTEGER': 'INT64',
+  'FLOAT': 'FLOAT64',
+  'BOOLEAN': 'BOOL',
+  'TIMESTAMP': 'TIMESTAMP',
+  'DATE': 'DATE',
+  'DATETIME': 'TIMESTAMP',
+  'TIME': 'STRING(MAX)',
+  'BYTES': 'BYTES(MAX)',
+  'NUMERIC': 'NUMERIC',
+  'JSON': 'JSON',
+};
+
+export const mapDataTypeToSpanner = (dataType: string): string => SPANNER_TYPES[dataType?.toUpperCase()] || 'STRING(MAX)';
+
+// Inverse of mapDataTypeToSpanner for the types it produces, so imported
+// columns keep their exact Spanner type on export
+const mapSpannerTypeToDataType = (spannerType: string): string => {
+  const normalized = spannerType.replace(/\s+/g, '').toUpperCase();
+  if (normalized === 'BYTES(MAX)') return 'BYTES';
+  if (normalized === 'NUMERIC' || normalized === 'JSON') return normalized;
+  return mapSqlTypeToDataType(normalized);
+};
+
+// --- Import ---
+
+export const spannerGraphToModel = (files: DdlFile[]): SemanticModel => {
+  const base = ddlToModel(files);
+  const graphs = parseSpannerGraphs(files);
+  if (graphs.length === 0) return base;
+
+  const tables = parseDdl(files);
+  const findTable = (name: string, context: string): DdlTable => {
+    const table = tables.find(t => t.name === name);
+    if (!table) throw new Error(`${context} references table ${name}, which has no CREATE TABLE statement.`);
+    return table;
+  };
+
+  const entities = new Map<string, Entity>(base.entities.map(e => [e.id, {
+    ...e,
+    properties: e.properties.map(p => ({ ...p }))
+  }]));
+  tables.forEach(table => {
+    entities.get(entityIdFor(table))?.properties.forEach(property => {
+      const column = table.columns.find(c => c.name === property.bindingColumn);
+      if (column) property.dataType = mapSpannerTypeToDataType(column.type);
+    });
+  });
+  const propertyFor = (table: DdlTable, column: string): Property | undefined =>
+    entities.get(entityIdFor(table))?.properties.find(p => p.id === propertyIdFor(table, column));
+
+  // Tables that only back edges hold many-to-many links rather than entities
+  const nodeTableNames = new Set(graphs.flatMap(g => g.nodeTables.map(n => n.table)));
+  const bridgeIds = new Set(tables
+    .filter(t => !nodeTableNames.has(t.name) && graphs.some(g => g.edgeTables.some(e => e.table === t.name)))
+    .map(entityIdFor));
+  bridgeIds.forEach(id => entities.delete(id));
+
+  let relationships: Relationship[] = base.relationships
+    .filter(r => !bridgeIds.has(r.sourceEntityId) && !bridgeIds.has(r.targetEntityId));
+
+  graphs.forEach(graph => {
+    graph.nodeTables.forEach(node => {
+      const table = findTable(node.table, `Node table ${node.name}`);
+      const entity = entities.get(entityIdFor(table))!;
+      if (node.label && node.label.toLowerCase() !== table.name.toLowerCase()) entity.name = node.label;
+      if (Array.isArray(node.properties)) {
+        node.properties.forEach(({ column, name }) => {
+          const property = propertyFor(table, column);
+          if (property && name !== column) property.name = name;
+        });
+      }
+      node.key?.forEach(column => {
+        const property = propertyFor(table, column);
+        if (property) property.isUniqueKey = true;
+      });
+    });
+
+    graph.edgeTables.forEach(edge => {
+      const table = findTable(edge.table, `Edge table ${edge.name}`);
+      const source = findTable(edge.source!.table, `Edge table ${edge.name}`);
+      const destination = findTable(edge.destination!.table, `Edge table ${edge.name}`);
+      const sourceReferenced = edge.source!.referencedColumns.length ? edge.source!.referencedColumns : source.primaryKey;
+      const destinationReferenced = edge.destination!.referencedColumns.length ? edge.destination!.referencedColumns : destination.primaryKey;
+      const label = edge.label || edge.name;
+      const isWholeKey = (columns: string[]) =>
+        columns.length === table.primaryKey.length && columns.every(c => table.primaryKey.includes(c));
+
+      let relationship: Relationship;
+      if (table === source) {
+        // The edge lives on the source rows and its destination key is a foreign key
+        const foreignKeyId = `rel_${table.name}_${edge.destination!.columns.join('_')}_${destination.name}`;
+        relationship = {
+          id: foreignKeyId,
+          sourceEntityId: entityIdFor(source),
+          targetEntityId: entityIdFor(destination),
+          sourcePropertyId: propertyFor(table, edge.destination!.columns[0])?.id,
+          targetPropertyId: propertyFor(destination, destinationReferenced[0])?.id,
+          type: isWholeKey(edge.destination!.columns.slice(0, 1)) ? 'ONE_TO_ONE' : 'MANY_TO_ONE'
+        };
+      } else if (table === destination) {
+        // Foreign key from the destination rows back to the source; the edge replaces it
+        const foreignKeyId = `rel_${table.name}_${edge.source!.columns.join('_')}_${source.name}`;
+        relationships = relationships.filter(r => r.id !== foreignKeyId);
+        relationship = {
+          id: `rel_edge_${edge.name}`,
+          sourceEntityId: entityIdFor(source),
+          targetEntityId: entityIdFor(destination),
+          sourcePropertyId: propertyFor(source, sourceReferenced[0])?.id,
+          targetPropertyId: propertyFor(table, edge.source!.columns[0])?.id,
+          type: 'ONE_TO_MANY'
+        };
+      } else {
+        relationship = {
+          id: `rel_edge_${edge.name}`,
+          sourceEntityId: entityIdFor(source),
+          targetEntityId: entityIdFor(destination),
+          sourcePropertyId: propertyFor(source, sourceReferenced[0])?.id,
+          targetPropertyId: propertyFor(destination, destinationReferenced[0])?.id,
+          type: 'MANY_TO_MANY'
+        };
+      }
+
+      const existing = relationships.find(r => r.id === relationship.id);
+      if (existing && existing.label) relationship.id = `${relationship.id}_${label}`;
+      relationship.label = label;
+      if (edge.name !== label) relationship.title = edge.name;
+      // A dedicated edge table's own columns have nowhere to go on a relationship
+      const edgeColumns = table === source || table === destination ? [] : table.columns
+        .map(c => c.name)
+        .filter(c => !edge.source!.columns.includes(c) && !edge.destination!.columns.includes(c));
+      relationship.description = existing?.description ||
+        `Spanner Graph edge ${edge.name} from ${source.name} to ${destination.name} via ${table.name}` +
+        (edgeColumns.length ? `. Edge columns not imported: ${edgeColumns.join(', ')}` : '');
+      relationships = existing && !existing.label
+        ? relationships.map(r => (r === existing ? relationship : r))
+        : [...relationships, relationship];
+    });
+  });
+
+  // Same fact/dimension rule as plain DDL, but from the edges: the many side
+  // of an edge references the one side
+  const referencing = new Set<string>();
+  const referenced = new Set<string>();
+  relationships.forEach(r => {
+    if (r.type === 'MANY_TO_MANY') return;
+    const [many, one] = r.type === 'ONE_TO_MANY' ? [r.targetEntityId, r.sourceEntityId] : [r.sourceEntityId, r.targetEntityId];
+    referencing.add(many);
+    referenced.add(one);
+  });
+  entities.forEach(entity => {
+    entity.type = referencing.has(entity.id) && !referenced.has(entity.id)
+      ? EntityType.FACT
+      : referenced.has(entity.id) && !referencing.has(entity.id) ? EntityType.DIMENSION : EntityType.ENTITY;
+  });
+
+  const graph = graphs[0];
+  return {
+    ...base,
+    name: graph.name,
+    description: `Imported from Spanner Graph ${graph.name} (${files.map(f => f.name).join(', ')}) on ${new Date().toLocaleDateString()}.`,
+    entities: base.entities.filter(e => entities.has(e.id)).map(e => entities.get(e.id)!),
+    relationships
+  };
+};
+
+// --- Export ---
+
+export interface SpannerGraphDdlOptions {
+  project?: string;
+  instance?: string;
+  database?: string;
+}
+
+// GoogleSQL reserved keywords; as identifiers they must be quoted
+export const SPANNER_RESERVED = new Set([
+  'ALL', 'AND', 'ANY', 'ARRAY', 'AS', 'ASC', 'ASSERT_ROWS_MODIFIED', 'AT', 'BETWEEN', 'BY', 'CASE', 'CAST',
+  'COLLATE', 'CONTAINS', 'CREATE', 'CROSS', 'CUBE', 'CURRENT', 'DEFAULT', 'DEFINE', 'DESC', 'DISTINCT', 'ELSE',
+  'END', 'ENUM', 'ESCAPE', 'EXCEPT', 'EXCLUDE', 'EXISTS', 'EXTRACT', 'FALSE', 'FETCH', 'FOLLOWING', 'FOR', 'FROM',
+  'FULL', 'GRAPH_TABLE', 'GROUP', 'GROUPING', 'GROUPS', 'HASH', 'HAVING', 'IF', 'IGNORE', 'IN', 'INNER',
+  'INTERSECT', 'INTERVAL', 'INTO', 'IS', 'JOIN', 'LATERAL', 'LEFT', 'LIKE', 'LIMIT', 'LOOKUP', 'MERGE', 'NATURAL',
+  'NEW', 'NO', 'NOT', 'NULL', 'NULLS', 'OF', 'ON', 'OR', 'ORDER', 'OUTER', 'OVER', 'PARTITION', 'PRECEDING',
+  'PROTO', 'RANGE', 'RECURSIVE', 'RESPECT', 'RIGHT', 'ROLLUP', 'ROWS', 'SELECT', 'SET', 'SOME', 'STRUCT',
+  'TABLESAMPLE', 'THEN', 'TO', 'TREAT', 'TRUE', 'UNBOUNDED', 'UNION', 'UNNEST', 'USING', 'WHEN', 'WHERE',
+  'WINDOW', 'WITH', 'WITHIN'
+]);
+
+// Names derived from display names: punctuation and spaces become underscores
+const toIdentifier = (name: string) => name.trim().replace(/[^\w]+/g, '_').replace(/^_+|_+$/g, '') || 'unnamed';
+
+// Backtick-quotes names that are not plain identifiers or are reserved
+export const quoteSpannerIdentifier = (name: string) =>
+  /^[A-Za-z_][A-Za-z0-9_]*$/.test(name) && !SPANNER_RESERVED.has(name.toUpperCase())
+    ? name
+    : `\`${name.replace(/\\/g, '\\\\').replace(/`/g, '\\`')}\``;
+
+const q = quoteSpannerIdentifier;
+const list = (names: string[]) => names.map(q).join(', ');
+
+const spannerTableName = (entity: Entity) =>
+  entity.bindings?.find(b => b.type === 'SPANNER')?.resource.split('.').pop() || toIdentifier(entity.name);
+
+// Columns keep their bound Spanner name; anything else is named after the property
+const spannerColumnName = (property: Property, tableName: string) =>
+  property.bindingSystem === 'spanner' && property.bindingTable === tableName && property.bindingColumn
+    ? property.bindingColumn
+    : toIdentifier(property.name);
+
+// Measures and other computed properties that aren't Spanner generated columns have no column
+const isSpannerColumn = (property: Property, tableName: string) =>
+  !property.isComputed || (property.bindingSystem === 'spanner' && property.bindingTable === tableName);
+
+interface NodeTable {
+  entity: Entity;
+  name: string;
+  columns: { property: Property; name: string; type: string }[];
+  primaryKey: string[];
+}
+
+// Columns on `from` that reference `to`, and the columns they reference.
+// A composite key on `to` is matched column by column (by the linked
+// property, then by name); otherwise the relationship's linked properties
+// are used, with `to`'s key standing in for its side. Without a linked
+// property on `from` the reference is inferred as the join planner does: a
+// non-measure column named like the referenced one, or else a new column on
+// `from` named after it. Undefined when no column on `from` can be told
+// apart as the reference.
+const referenceColumns = (from: NodeTable, to: NodeTable, fromPropertyId?: string, toPropertyId?: string) => {
+  const fromColumn = from.columns.find(c => c.property.id === fromPropertyId)?.name;
+  const toColumn = to.columns.find(c => c.property.id === toPropertyId)?.name;
+  if (to.primaryKey.length > 1) {
+    const matched = to.primaryKey.map(key =>
+      key === toColumn && fromColumn ? fromColumn : from.columns.find(c => c.name.toLowerCase() === key.toLowerCase())?.name);
+    if (matched.every(Boolean)) return { columns: matched as string[], referenced: to.primaryKey };
+  }
+  const referenced = toColumn ? [toColumn] : to.primaryKey;
+  if (fromColumn) return { columns: [fromColumn], referenced };
+  // On a self-relationship the same-named column is the key itself
+  if (from === to || referenced.length !== 1) return undefined;
+  const matched = from.columns.find(c =>
+    c.property.propertyType !== PropertyType.MEASURE && c.name.toLowerCase() === referenced[0].toLowerCase());
+  if (matched) return { columns: [matched.name], referenced };
+
+  const key = to.columns.find(c => c.name === referenced[0]);
+  if (!key) return undefined;
+  const id = `${key.property.id}:${from.entity.id}`;
+  let column = from.columns.find(c => c.property.id === id);
+  if (!column) {
+    let name = key.name;
+    for (let i = 2; from.columns.some(c => c.name.toLowerCase() === name.toLowerCase()); i++) name = `${key.name}_${i}`;
+    column = { property: { id, name: key.property.name, dataType: key.property.dataType, description: '' }, name, type: key.type };
+    from.columns.push(column);
+  }
+  return { columns: [column.name], referenced };
+};
+
+// The linked column of a single-column key table, otherwise the whole key
+const keyColumns = (table: NodeTable, propertyId?: string) => {
+  const column = table.columns.find(c => c.property.id === propertyId)?.name;
+  return column && table.primaryKey.length <= 1 ? [column] : table.primaryKey;
+};
+
+export const generateSpannerGraphDdl = (model: SemanticModel, options: SpannerGraphDdlOptions = {}): string => {
+  const tableNames = new Set<string>();
+  const uniqueTableName = (name: string) => {
+    let candidate = name;
+    for (let i = 2; tableNames.has(candidate.toLowerCase()); i++) candidate = `${name}_${i}`;
+    tableNames.add(candidate.toLowerCase());
+    return candidate;
+  };
+
+  const tables = new Map<string, NodeTable>(model.entities.map(entity => {
+    const name = uniqueTableName(spannerTableName(entity));
+    const used = new Set<string>();
+    const columns = entity.properties
+      .filter(p => isSpannerColumn(p, name))
+      .map(property => {
+        let column = spannerColumnName(property, name);
+        for (let i = 2; used.has(column.toLowerCase()); i++) column = `${spannerColumnName(property, name)}_${i}`;
+        used.add(column.toLowerCase());
+        return { property, name: column, type: mapDataTypeToSpanner(property.dataType) };
+      });
+    const keyColumns = columns.filter(c => c.property.isUniqueKey);
+    const fallbackKey = columns.find(c => c.name.toLowerCase() === 'id') || columns[0];
+    if (!fallbackKey) columns.push({ property: { id: `${entity.id}_id`, name: 'id', dataType: 'STRING', description: '' }, name: 'id', type: 'STRING(MAX)' });
+    const primaryKey = keyColumns.length ? keyColumns.map(c => c.name) : [(fallbackKey || columns[0]).name];
+    return [entity.id, { entity, name, columns, primaryKey }];
+  }));
+  const typeOf = (table: NodeTable, column: string) => table.columns.find(c => c.name === column)?.type || 'STRING(MAX)';
+
+  const elementNames = new Set<string>();
+  const uniqueElementName = (name: string) => {
+    let candidate = name;
+    for (let i = 2; elementNames.has(candidate.toLowerCase()); i++) candidate = `${name}_${i}`;
+    elementNames.add(candidate.toLowerCase());
+    return candidate;
+  };
+  tables.forEach(table => uniqueElementName(table.name));
+
+  // Many-to-many relationships get a backing edge table holding both keys
+  const bridges: { name: string; source: NodeTable; target: NodeTable; sourceColumns: string[]; targetColumns: string[];
+    sourceReferenced: string[]; targetReferenced: string[]; rel: Relationship }[] = [];
+  const edgeTables: string[] = [];
+  const skipped: string[] = [];
+
+  model.relationships.forEach(rel => {
+    const source = tables.get(rel.sourceEntityId);
+    const target = tables.get(rel.targetEntityId);
+    if (!source || !target) return;
+    const skip = () => { skipped.push(`-- Skipped edge ${source.name} -> ${target.name}: relationship ${rel.id} has no linked properties to infer its edge keys from\n`); };
+    const elementName = () => uniqueElementName(toIdentifier(rel.title || rel.label || `${source.name}_to_${target.name}`));
+    let lines: string[];
+
+    if (rel.type === 'MANY_TO_MANY') {
+      const sourceReferenced = keyColumns(source, rel.sourcePropertyId);
+      const targetReferenced = keyColumns(target, rel.targetPropertyId);
+      const name = elementName();
+      const [sourcePrefix, targetPrefix] = source === target ? ['source', 'destination'] : [source.name, target.name];
+      const bridge = {
+        name: uniqueTableName(name),
+        source,
+        target,
+        sourceColumns: sourceReferenced.map(c => `${sourcePrefix}_${c}`),
+        targetColumns: targetReferenced.map(c => `${targetPrefix}_${c}`),
+        sourceReferenced,
+        targetReferenced,
+        rel
+      };
+      bridges.push(bridge);
+      lines = [
+        bridge.name === name ? q(name) : `${q(bridge.name)} AS ${q(name)}`,
+        `SOURCE KEY (${list(bridge.sourceColumns)}) REFERENCES ${q(source.name)} (${list(sourceReferenced)})`,
+        `DESTINATION KEY (${list(bridge.targetColumns)}) REFERENCES ${q(target.name)} (${list(targetReferenced)})`
+      ];
+    } else if (rel.type === 'ONE_TO_MANY') {
+      // One-to-many edges live on the target rows, everything else on the source rows
+      const reference = referenceColumns(target, source, rel.targetPropertyId, rel.sourcePropertyId);
+      if (!reference) return skip();
+      const name = elementName();
+      lines = [
+        `${q(target.name)} AS ${q(name)}`,
+        `SOURCE KEY (${list(reference.columns)}) REFERENCES ${q(source.name)} (${list(reference.referenced)})`,
+        `DESTINATION KEY (${list(target.primaryKey)}) REFERENCES ${q(target.name)} (${list(target.primaryKey)})`
+      ];
+    } else {
+      const reference = referenceColumns(source, target, rel.sourcePropertyId, rel.targetPropertyId);
+      if (!reference) return skip();
+      const name = elementName();
+      lines = [
+        `${q(source.name)} AS ${q(name)}`,
+        `SOURCE KEY (${list(source.primaryKey)}) REFERENCES ${q(source.name)} (${list(source.primaryKey)})`,
+        `DESTINATION KEY (${list(reference.columns)}) REFERENCES ${q(target.name)} (${list(reference.referenced)})`
+      ];
+    }
+    // Without a LABEL clause the edge is labelled with its element name
+    if (rel.label) lines.push(`LABEL ${q(toIdentifier(rel.label))}`);
+    edgeTables.push(lines.join('\n      '));
+  });
+
+  let ddl = `-- Spanner Graph DDL for ${model.name}\n`;
+  ddl += `-- Generated: ${new Date().toISOString()}\n`;
+  ddl += `-- Project: ${options.project || 'project'}\n`;
+  ddl += `-- Instance: ${options.instance || 'instance'}\n`;
+  ddl += `-- Database: ${options.database || 'database'}\n\n`;
+
+  ddl += `-- Node Tables (Entities)\n`;
+  ddl += `-- ========================\n\n`;
+
+  tables.forEach(({ entity, name, columns, primaryKey }) => {
+    ddl += `-- ${entity.type || 'ENTITY'}: ${entity.name}\n`;
+    if (entity.description) {
+      ddl += `-- ${entity.description.replace(/\n/g, ' ')}\n`;
+    }
+    ddl += `CREATE TABLE ${q(name)} (\n`;
+    ddl += columns.map(({ property, name: column, type }) => {
+      const generated = property.isComputed && property.definition ? ` AS (${property.definition}) STORED` : '';
+      return `  ${q(column)} ${type}${generated}`;
+    }).join(',\n');
+    ddl += `\n) PRIMARY KEY (${list(primaryKey)});\n\n`;
+  });
+
+  if (bridges.length > 0) {
+    ddl += `-- Edge Tables (Many-to-Many Relationships)\n`;
+    ddl += `-- ========================================\n\n`;
+    bridges.forEach(bridge => {
+      const { name, source, target, sourceColumns, targetColumns, sourceReferenced, targetReferenced, rel } = bridge;
+      ddl += `-- ${source.entity.name} <-> ${target.entity.name}${rel.description ? `: ${rel.description.replace(/\n/g, ' ')}` : ''}\n`;
+      ddl += `CREATE TABLE ${q(name)} (\n`;
+      ddl += [
+        ...sourceColumns.map((c, i) => `  ${q(c)} ${typeOf(source, sourceReferenced[i])} NOT NULL`),
+        ...targetColumns.map((c, i) => `  ${q(c)} ${typeOf(target, targetReferenced[i])} NOT NULL`),
+        `  CONSTRAINT ${q(`FK_${name}_${source.name}`)} FOREIGN KEY (${list(sourceColumns)}) REFERENCES ${q(source.name)} (${list(sourceReferenced)})`,
+        `  CONSTRAINT ${q(`FK_${name}_${target.name}${source === target ? '_2' : ''}`)} FOREIGN KEY (${list(targetColumns)}) REFERENCES ${q(target.name)} (${list(targetReferenced)})`
+      ].join(',\n');
+      ddl += `\n) PRIMARY KEY (${list([...sourceColumns, ...targetColumns])});\n\n`;
+    });
+  }
+
+  const nodeTables = [...tables.values()].map(({ entity, name, columns }) => {
+    let element = q(name);
+    // The default label is the table name, which the importer shows humanized
+    if (entity.name !== humanizeIdentifier(name) && entity.name.toLowerCase() !== name.toLowerCase()) {
+      element += ` LABEL ${q(toIdentifier(entity.name))}`;
+    }
+    const aliased = columns.filter(c => c.property.name !== humanizeIdentifier(c.name) && toIdentifier(c.property.name) !== c.name);
+    if (aliased.length > 0) {
+      element += ` PROPERTIES (${columns.map(c => (aliased.includes(c) ? `${q(c.name)} AS ${q(toIdentifier(c.property.name))}` : q(c.name))).join(', ')})`;
+    }
+    return element;
+  });
+
+  ddl += `-- Property Graph Definition\n`;
+  ddl += `-- =========================\n\n`;
+  if (skipped.length > 0) ddl += `${skipped.join('')}\n`;
+  const graphName = toIdentifier(model.name);
+  ddl += `CREATE OR REPLACE PROPERTY GRAPH ${q(/graph$/i.test(graphName) ? graphName : `${graphName}Graph`)}\n`;
+  ddl += `  NODE TABLES (\n${nodeTables.map(n => `    ${n}`).join(',\n')}\n  )`;
+  if (edgeTables.length > 0) {
+    ddl += `\n  EDGE TABLES (\n${edgeTables.map(e => `    ${e}`).join(',\n')}\n  )`;
+  }
+  ddl += `;\n`;
+
+  return ddl;
+};
@@ -0,0 +1,611 @@
+import { SemanticModel, Entity, Property, Relationship, EntityType, GlossaryTerm, PropertyType, AggregationType, Additivity } from '../types';
+import { humanizeIdentifier } from './importUtils';
+
+// OWL ontologies in Turtle syntax. Import parses the triples, then maps
+// owl:Class to entities, owl:DatatypeProperty to properties on each domain
+// class, owl:ObjectProperty to relationships from domain to range and
+// skos:Concept to glossary terms. Functional / inverse functional object
+// properties carry the relationship cardinality and owl:hasKey the unique
+// keys. Measure settings (property type, aggregation, additivity and snapshot
+// property) have no OWL equivalent and travel as annotation properties in the
+// sm: vocabulary. Export writes the same vocabulary, so a model survives the
+// round trip.
+
+export type TurtleTerm =
+  | { kind: 'iri'; value: string }
+  | { kind: 'blank'; value: string }
+  | { kind: 'literal'; value: string; language?: string; datatype?: string };
+
+export interface Triple {
+  subject: TurtleTerm;
+  predicate: string;
+  object: TurtleTerm;
+}
+
+export class TurtleParseError extends Error {
+  file: string;
+  line: number;
+
+  constructor(file: string, line: number, message: string) {
+    super(`${file}:${line}: ${message}`);
+    this.name = 'TurtleParseError';
+    this.file = file;
+    this.line = line;
+  }
+}
+
+const RDF = 'http://www.w3.org/1999/02/22-rdf-syntax-ns#';
+const RDFS = 'http://www.w3.org/2000/01/rdf-schema#';
+const OWL = 'http://www.w3.org/2002/07/owl#';
+const XSD = 'http://www.w3.org/2001/XMLSchema#';
+const SKOS = 'http://www.w3.org/2004/02/skos/core#';
+const DCTERMS = 'http://purl.org/dc/terms/';
+const SM = 'urn:semantic-model:vocabulary#';
+
+// Annotation properties for the property settings OWL has no term for
+const SM_ANNOTATIONS = ['propertyType', 'aggregation', 'additivity', 'snapshotProperty'];
+
+// --- Parser ---
+
+type Token =
+  | { type: 'iri' | 'pname' | 'blank' | 'string' | 'langtag' | 'number' | 'keyword' | 'punct'; value: string; line: number };
+
+const tokenize = (content: string, fileName: string): Token[] => {
+  const tokens: Token[] = [];
+  let pos = 0;
+  let line = 1;
+  const fail = (message: string): never => {
+    throw new TurtleParseError(fileName, line, message);
+  };
+
+  while (pos < content.length) {
+    const ch = content[pos];
+    if (ch === '\n') {
+      line++;
+      pos++;
+    } else if (/\s/.test(ch)) {
+      pos++;
+    } else if (ch === '#') {
+      while (pos < content.length && content[pos] !== '\n') pos++;
+    } else if (ch === '<') {
+      const end = content.indexOf('>', pos);
+      if (end === -1) fail('Unterminated IRI');
+      tokens.push({ type: 'iri', value: content.slice(pos + 1, end), line });
+      pos = end + 1;
+    } else if (ch === '"' || ch === "'") {
+      const long = content.startsWith(ch.repeat(3), pos);
+      const quote = long ? ch.repeat(3) : ch;
+      const start = line;
+      pos += quote.length;
+      let value = '';
+      while (!content.startsWith(quote, pos)) {
+        if (pos >= content.length || (!long && content[pos] === '\n')) fail('Unterminated string');
+        if (content[pos] === '\\') {
+          const escape = content[pos + 1];
+          if (escape === 'u' || escape === 'U') {
+            const size = escape === 'u' ? 4 : 8;
+            value += String.fromCodePoint(parseInt(content.slice(pos + 2, pos + 2 + size), 16));
+            pos += 2 + size;
+            continue;
+          }
+          value += ({ n: '\n', t: '\t', r: '\r', b: '\b', f: '\f' } as Record<string, string>)[escape] ?? escape;
+          pos += 2;
+          continue;
+        }
+        if (content[pos] === '\n') line++;
+        value += content[pos++];
+      }
+      pos += quote.length;
+      tokens.push({ type: 'string', value, line: start });
+    } else if (ch === '@') {
+      const match = content.slice(pos).match(/^@([a-zA-Z]+(?:-[a-zA-Z0-9]+)*)/);
+      if (!match) fail('Expected a directive or language tag after @');
+      const directive = match![1] === 'prefix' || match![1] === 'base';
+      tokens.push({ type: directive ? 'keyword' : 'langtag', value: directive ? `@${match![1]}` : match![1], line });
+      pos += match![0].length;
+    } else if (ch === '^' && content[pos + 1] === '^') {
+      tokens.push({ type: 'punct', value: '^^', line });
+      pos += 2;
+    } else if ('.;,[]()'.includes(ch) && !(ch === '.' && /[0-9]/.test(content[pos + 1] || ''))) {
+      tokens.push({ type: 'punct', value: ch, line });
+      pos++;
+    } else if (ch === '_' && content[pos + 1] === ':') {
+      const match = content.slice(pos + 2).match(/^[\w\-.]*[\w\-]/);
+      tokens.push({ type: 'blank', value: match ? match[0] : '', line });
+      pos += 2 + (match ? match[0].length : 0);
+    } else {
+      // Digits after a "." belong to the number; a bare trailing "." ends the statement
+      const number = content.slice(pos).match(/^[+-]?(?:\d+(?:\.\d+)?|\.\d+)(?:[eE][+-]?\d+)?/);
+      if (number) {
+        tokens.push({ type: 'number', value: number[0], line });
+        pos += number[0].length;
+        continue;
+      }
+      const word = content.slice(pos).match(/^(?:[A-Za-z][\w\-.]*)?:(?:[\w\-:%]|\\.|\.(?=[\w\-:%]))*|^[A-Za-z][\w\-]*/);
+      if (!word) fail(`Unexpected character "${ch}"`);
+      tokens.push({ type: word![0].includes(':') ? 'pname' : 'keyword', value: word![0], line });
+      pos += word![0].length;
+    }
+  }
+  return tokens;
+};
+
+export const parseTurtle = (content: string, fileName = 'input.ttl'): Triple[] => {
+  const tokens = tokenize(content, fileName);
+  const triples: Triple[] = [];
+  const prefixes: Record<string, string> = {};
+  let base = '';
+  let index = 0;
+  let blankCount = 0;
+
+  const peek = () => tokens[index];
+  const fail = (message: string): never => {
+    throw new TurtleParseError(fileName, (peek() || tokens[tokens.length - 1])?.line ?? 1, message);
+  };
+  const next = () => tokens[index++] || fail('Unexpected end of input');
+  const isPunct = (value: string) => peek()?.type === 'punct' && peek().value === value;
+  const expectPunct = (value: string) => {
+    if (!isPunct(value)) fail(`Expected "${value}"${peek() ? ` but found "${peek().value}"` : ''}`);
+    index++;
+  };
+
+  const resolveIri = (iri: string) => (/^[a-z][\w+.-]*:/i.test(iri) || !base ? iri : base + iri);
+  const expandName = (name: string) => {
+    const colon = name.indexOf(':');
+    const prefix = name.slice(0, colon);
+    if (!(prefix in prefixes)) fail(`Undefined prefix "${prefix}:"`);
+    return prefixes[prefix] + name.slice(colon + 1).replace(/\\(.)/g, '$1');
+  };
+  const newBlank = (): TurtleTerm => ({ kind: 'blank', value: `b${++blankCount}` });
+
+  const readIri = (): string => {
+    const token = next();
+    if (token.type === 'iri') return resolveIri(token.value);
+    if (token.type === 'pname') return expandName(token.value);
+    if (token.type === 'keyword' && token.value === 'a') return `${RDF}type`;
+    return fail(`Expected an IRI but found "${token.value}"`);
+  };
+
+  const readObject = (): TurtleTerm => {
+    const token = peek() || fail('Unexpected end of input');
+    if (isPunct('[')) return readBlankNodePropertyList();
+    if (isPunct('(')) return readCollection();
+    if (token.type === 'blank') {
+      index++;
+      return { kind: 'blank', value: `_${token.value}` };
+    }
+    if (token.type === 'string') {
+      index++;
+      if (peek()?.type === 'langtag') return { kind: 'literal', value: token.value, language: next().value };
+      if (isPunct('^^')) {
+        index++;
+        return { kind: 'literal', value: token.value, datatype: readIri() };
+      }
+      return { kind: 'literal', value: token.value };
+    }
+    if (token.type === 'number') {
+      index++;
+      return { kind: 'literal', value: token.value, datatype: `${XSD}${/[eE]/.test(token.value) ? 'double' : token.value.includes('.') ? 'decimal' : 'integer'}` };
+    }
+    if (token.type === 'keyword' && (token.value === 'true' || token.value === 'false')) {
+      index++;
+      return { kind: 'literal', value: token.value, datatype: `${XSD}boolean` };
+    }
+    return { kind: 'iri', value: readIri() };
+  };
+
+  const readPredicateObjectList = (subject: TurtleTerm) => {
+    for (;;) {
+      const predicate = readIri();
+      for (;;) {
+        triples.push({ subject, predicate, object: readObject() });
+        if (!isPunct(',')) break;
+        index++;
+      }
+      if (!isPunct(';')) return;
+      while (isPunct(';')) index++;
+      if (isPunct('.') || isPunct(']') || !peek()) return;
+    }
+  };
+
+  const readBlankNodePropertyList = (): TurtleTerm => {
+    expectPunct('[');
+    const node = newBlank();
+    if (!isPunct(']')) readPredicateObjectList(node);
+    expectPunct(']');
+    return node;
+  };
+
+  const readCollection = (): TurtleTerm => {
+    expectPunct('(');
+    const items: TurtleTerm[] = [];
+    while (!isPunct(')')) items.push(readObject());
+    index++;
+    if (items.length === 0) return { kind: 'iri', value: `${RDF}nil` };
+    const nodes = items.map(() => newBlank());
+    items.forEach((item, i) => {
+      triples.push({ subject: nodes[i], predicate: `${RDF}first`, object: item });
+      triples.push({ subject: nodes[i], predicate: `${RDF}rest`, object: nodes[i + 1] || { kind: 'iri', value: `${RDF}nil` } });
+    });
+    return nodes[0];
+  };
+
+  while (index < tokens.length) {
+    const token = peek();
+    if (token.type === 'keyword' && /^@?(prefix|base)$/i.test(token.value)) {
+      index++;
+      const sparqlStyle = !token.value.startsWith('@');
+      if (/prefix$/i.test(token.value)) {
+        const name = next();
+        if (name.type !== 'pname' || !name.value.endsWith(':')) fail('Expected a prefix name like "ex:"');
+        const iri = next();
+        if (iri.type !== 'iri') fail('Expected the prefix IRI in <...>');
+        prefixes[name.value.slice(0, -1)] = resolveIri(iri.value);
+      } else {
+        const iri = next();
+        if (iri.type !== 'iri') fail('Expected the base IRI in <...>');
+        base = resolveIri(iri.value);
+      }
+      // @prefix / @base end with "."; SPARQL-style PREFIX / BASE don't
+      if (!sparqlStyle) expectPunct('.');
+      continue;
+    }
+    let subject: TurtleTerm;
+    if (isPunct('[')) {
+      subject = readBlankNodePropertyList();
+      if (isPunct('.')) {
+        index++;
+        continue;
+      }
+    } else if (isPunct('(')) {
+      subject = readCollection();
+    } else if (token.type === 'blank') {
+      index++;
+      subject = { kind: 'blank', value: `_${token.value}` };
+    } else {
+      subject = { kind: 'iri', value: readIri() };
+    }
+    readPredicateObjectList(subject);
+    expectPunct('.');
+  }
+  return triples;
+};
+
+// --- Mapping to the semantic model ---
+
+const localName = (iri: string) => iri.replace(/[#/:]+$/, '').split(/[#/:]/).pop() || iri;
+
+const XSD_TYPES: Record<string, string> = {
+  string: 'STRING', normalizedString: 'STRING', token: 'STRING', anyURI: 'STRING', langString: 'STRING',
+  integer: 'INTEGER', int: 'INTEGER', long: 'INTEGER', short: 'INTEGER', byte: 'INTEGER',
+  nonNegativeInteger: 'INTEGER', positiveInteger: 'INTEGER', negativeInteger: 'INTEGER', nonPositiveInteger: 'INTEGER',
+  unsignedLong: 'INTEGER', unsignedInt: 'INTEGER', unsignedShort: 'INTEGER', unsignedByte: 'INTEGER',
+  decimal: 'FLOAT', double: 'FLOAT', float: 'FLOAT',
+  boolean: 'BOOLEAN',
+  date: 'DATE',
+  dateTime: 'TIMESTAMP', dateTimeStamp: 'TIMESTAMP'
+};
+
+export const turtleToModel = (content: string, fileName = 'input.ttl'): SemanticModel => {
+  const triples = parseTurtle(content, fileName);
+  const key = (term: TurtleTerm) => `${term.kind}:${term.value}`;
+  const bySubject = new Map<string, Triple[]>();
+  triples.forEach(t => {
+    const k = key(t.subject);
+    bySubject.set(k, [...(bySubject.get(k) || []), t]);
+  });
+  const objects = (subject: TurtleTerm, predicate: string) =>
+    (bySubject.get(key(subject)) || []).filter(t => t.predicate === predicate).map(t => t.object);
+  const iri = (value: string): TurtleTerm => ({ kind: 'iri', value });
+  const typesOf = (subject: TurtleTerm) => objects(subject, `${RDF}type`).map(o => o.value);
+  const subjectsOfType = (...types: string[]) => [...new Set(triples
+    .filter(t => t.predicate === `${RDF}type` && t.subject.kind === 'iri' && types.includes(t.object.value))
+    .map(t => t.subject.value))];
+
+  // Prefer an English or untagged literal
+  const text = (subject: TurtleTerm, ...predicates: string[]) => {
+    for (const predicate of predicates) {
+      const literals = objects(subject, predicate).filter(o => o.kind === 'literal') as { value: string; language?: string }[];
+      const preferred = literals.find(l => !l.language || /^en\b/i.test(l.language)) || literals[0];
+      if (preferred) return preferred.value;
+    }
+    return undefined;
+  };
+  const list = (head: TurtleTerm): TurtleTerm[] => {
+    const items: TurtleTerm[] = [];
+    let node: TurtleTerm | undefined = head;
+    while (node && node.value !== `${RDF}nil` && items.length < 1000) {
+      const first = objects(node, `${RDF}first`)[0];
+      if (!first) break;
+      items.push(first);
+      node = objects(node, `${RDF}rest`)[0];
+    }
+    return items;
+  };
+  // rdfs:domain / rdfs:range may be a class or an owl:unionOf of classes
+  const classesIn = (subject: TurtleTerm, predicate: string): string[] =>
+    objects(subject, predicate).flatMap(o => {
+      if (o.kind === 'iri') return [o.value];
+      const union = objects(o, `${OWL}unionOf`)[0];
+      return union ? list(union).filter(c => c.kind === 'iri').map(c => c.value) : [];
+    });
+
+  // Glossary
+  const schemeNames = new Map(subjectsOfType(`${SKOS}ConceptScheme`).map(s => [s, text(iri(s), `${SKOS}prefLabel`, `${RDFS}label`, `${DCTERMS}title`) || humanizeIdentifier(localName(s))]));
+  const terms = new Map<string, GlossaryTerm>(subjectsOfType(`${SKOS}Concept`).map(concept => {
+    const subject = iri(concept);
+    const scheme = objects(subject, `${SKOS}inScheme`)[0] || objects(subject, `${SKOS}topConceptOf`)[0];
+    const term: GlossaryTerm = {
+      id: `term_${localName(concept)}`,
+      name: text(subject, `${SKOS}prefLabel`, `${RDFS}label`) || humanizeIdentifier(localName(concept)),
+      description: text(subject, `${SKOS}definition`, `${RDFS}comment`, `${SKOS}scopeNote`) || ''
+    };
+    const domain = scheme && (schemeNames.get(scheme.value) || humanizeIdentifier(localName(scheme.value)));
+    if (domain) term.domain = domain;
+    return [concept, term];
+  }));
+  // Any statement from a class or property to a concept tags it with that term
+  const termsFor = (subject: TurtleTerm): GlossaryTerm[] | undefined => {
+    const linked = [...new Set((bySubject.get(key(subject)) || [])
+      .filter(t => t.object.kind === 'iri' && terms.has(t.object.value))
+      .map(t => t.object.value))].map(c => terms.get(c)!);
+    return linked.length > 0 ? linked : undefined;
+  };
+
+  // Entities: declared classes plus any class used as a domain or range
+  const entities = new Map<string, Entity>();
+  const ensureEntity = (classIri: string): Entity => {
+    const existing = entities.get(classIri);
+    if (existing) return existing;
+    const subject = iri(classIri);
+    const entity: Entity = {
+      id: `entity_${localName(classIri)}`,
+      name: text(subject, `${RDFS}label`, `${SKOS}prefLabel`) || humanizeIdentifier(localName(classIri)),
+      description: text(subject, `${RDFS}comment`, `${SKOS}definition`) || '',
+      type: EntityType.ENTITY,
+      properties: []
+    };
+    const glossaryTerms = termsFor(subject);
+    if (glossaryTerms) entity.glossaryTerms = glossaryTerms;
+    entities.set(classIri, entity);
+    return entity;
+  };
+  const skipClass = (c: string) => c.startsWith(OWL) || c.startsWith(RDFS) || c.startsWith(XSD);
+  subjectsOfType(`${OWL}Class`, `${RDFS}Class`).filter(c => !skipClass(c)).forEach(ensureEntity);
+
+  subjectsOfType(`${OWL}DatatypeProperty`).forEach(propertyIri => {
+    const subject = iri(propertyIri);
+    const range = objects(subject, `${RDFS}range`).find(o => o.kind === 'iri');
+    const glossaryTerms = termsFor(subject);
+    classesIn(subject, `${RDFS}domain`).filter(c => !skipClass(c)).forEach(classIri => {
+      const entity = ensureEntity(classIri);
+      const property: Property = {
+        id: `prop_${localName(classIri)}_${localName(propertyIri)}`,
+        name: text(subject, `${RDFS}label`, `${SKOS}prefLabel`) || humanizeIdentifier(localName(propertyIri)),
+        dataType: range && range.value.startsWith(XSD) ? XSD_TYPES[localName(range.value)] || 'STRING' : 'STRING',
+        description: text(subject, `${RDFS}comment`, `${SKOS}definition`) || ''
+      };
+      if (glossaryTerms) property.glossaryTerms = glossaryTerms;
+      const propertyType = text(subject, `${SM}propertyType`);
+      if (Object.values(PropertyType).includes(propertyType as PropertyType)) property.propertyType = propertyType as PropertyType;
+      const aggregation = text(subject, `${SM}aggregation`);
+      if (Object.values(AggregationType).includes(aggregation as AggregationType)) property.aggregation = aggregation as AggregationType;
+      const additivity = text(subject, `${SM}additivity`);
+      if (Object.values(Additivity).includes(additivity as Additivity)) property.additivity = additivity as Additivity;
+      const snapshot = objects(subject, `${SM}snapshotProperty`).find(o => o.kind === 'iri');
+      if (snapshot) property.snapshotPropertyId = `prop_${localName(classIri)}_${localName(snapshot.value)}`;
+      if (!entity.properties.some(p => p.id === property.id)) entity.properties.push(property);
+    });
+  });
+
+  // owl:hasKey ( :prop ... ) marks the key properties of a class
+  triples.filter(t => t.predicate === `${OWL}hasKey` && t.subject.kind === 'iri').forEach(t => {
+    const entity = entities.get(t.subject.value);
+    list(t.object).forEach(item => {
+      const property = entity?.properties.find(p => p.id === `prop_${localName(t.subject.value)}_${localName(item.value)}`);
+      if (property) property.isUniqueKey = true;
+    });
+  });
+
+  const relationships: Relationship[] = [];
+  subjectsOfType(`${OWL}ObjectProperty`).forEach(propertyIri => {
+    const subject = iri(propertyIri);
+    const types = typesOf(subject);
+    const functional = types.includes(`${OWL}FunctionalProperty`);
+    const inverseFunctional = types.includes(`${OWL}InverseFunctionalProperty`);
+    const domains = classesIn(subject, `${RDFS}domain`).filter(c => !skipClass(c));
+    const ranges = classesIn(subject, `${RDFS}range`).filter(c => !skipClass(c));
+    const label = text(subject, `${RDFS}label`, `${SKOS}prefLabel`) || localName(propertyIri);
+    domains.forEach(domain => ranges.forEach(range => {
+      const relationship: Relationship = {
+        id: domains.length * ranges.length > 1
+          ? `rel_${localName(propertyIri)}_${localName(domain)}_${localName(range)}`
+          : `rel_${localName(propertyIri)}`,
+        sourceEntityId: ensureEntity(domain).id,
+        targetEntityId: ensureEntity(range).id,
+        type: functional && inverseFunctional ? 'ONE_TO_ONE'
+          : functional ? 'MANY_TO_ONE'
+          : inverseFunctional ? 'ONE_TO_MANY' : 'MANY_TO_MANY',
+        label
+      };
+      const description = text(subject, `${RDFS}comment`, `${SKOS}definition`);
+      if (description) relationship.description = description;
+      relationships.push(relationship);
+    }));
+  });
+
+  if (entities.size === 0) {
+    throw new Error('No owl:Class definitions found.');
+  }
+
+  const ontology = subjectsOfType(`${OWL}Ontology`)[0];
+  const ontologySubject = ontology ? iri(ontology) : undefined;
+  const baseName = fileName.replace(/\.(ttl|turtle)$/i, '');
+  return {
+    id: `owl_${Date.now()}`,
+    name: (ontologySubject && text(ontologySubject, `${RDFS}label`, `${DCTERMS}title`)) || humanizeIdentifier(baseName),
+    description: (ontologySubject && text(ontologySubject, `${RDFS}comment`, `${DCTERMS}description`)) ||
+      `Imported from ${fileName} on ${new Date().toLocaleDateString()}.`,
+    domain: 'Ontology',
+    glossaryTerms: terms.size > 0 ? [...terms.values()] : undefined,
+    entities: [...entities.values()],
+    relationships,
+    createdAt: new Date(),
+    updatedAt: new Date()
+  };
+};
+
+// --- Export ---
+
+const DATA_TYPE_TO_XSD: Record<string, string> = {
+  STRING: 'string',
+  INTEGER: 'integer',
+  FLOAT: 'decimal',
+  BOOLEAN: 'boolean',
+  DATE: 'date',
+  TIMESTAMP: 'dateTime'
+};
+
+const literal = (value: string) =>
+  /[\n"]/.test(value) && !value.includes('"""') && !value.endsWith('"')
+    ? `"""${value.replace(/\\/g, '\\\\')}"""`
+    : `"${value.replace(/\\/g, '\\\\').replace(/"/g, '\\"').replace(/\n/g, '\\n').replace(/\r/g, '\\r')}"`;
+
+const words = (name: string) => name.split(/[^A-Za-z0-9]+|(?<=[a-z0-9])(?=[A-Z])/).filter(Boolean);
+const pascalCase = (name: string) => words(name).map(w => w.charAt(0).toUpperCase() + w.slice(1)).join('') || 'Unnamed';
+const camelCase = (name: string) => {
+  const pascal = pascalCase(name);
+  // Keep leading acronyms lower case as a whole, e.g. "SKU Code" -> "skuCode"
+  const lead = pascal.match(/^[A-Z0-9]+(?=[A-Z][a-z]|$)/)?.[0] || pascal.charAt(0);
+  return lead.toLowerCase() + pascal.slice(lead.length);
+};
+// Prefixed names can't start with a digit in older Turtle parsers
+const safeLocal = (name: string) => (/^[0-9]/.test(name) ? `_${name}` : name);
+
+export interface TurtleExportOptions {
+  baseIri?: string;
+}
+
+export const modelToTurtle = (model: SemanticModel, options: TurtleExportOptions = {}): string => {
+  const base = options.baseIri || `urn:semantic-model:${model.id}#`;
+  const glossaryBase = `${base.replace(/#$/, '')}:glossary#`;
+  const used = new Set<string>();
+  const allocate = (local: string) => {
+    let candidate = safeLocal(local);
+    for (let i = 2; used.has(candidate); i++) candidate = `${safeLocal(local)}${i}`;
+    used.add(candidate);
+    return candidate;
+  };
+
+  // Terms assigned anywhere in the model, deduplicated by id
+  const terms = new Map<string, GlossaryTerm>();
+  [model.glossaryTerms, ...model.entities.flatMap(e => [e.glossaryTerms, ...e.properties.map(p => p.glossaryTerms)])]
+    .forEach(list => list?.forEach(term => { if (!terms.has(term.id)) terms.set(term.id, term); }));
+  const termNames = new Map<string, string>();
+  const usedTerms = new Set<string>();
+  terms.forEach(term => {
+    let local = safeLocal(pascalCase(term.name));
+    for (let i = 2; usedTerms.has(local); i++) local = `${safeLocal(pascalCase(term.name))}${i}`;
+    usedTerms.add(local);
+    termNames.set(term.id, `glossary:${local}`);
+  });
+  const subjects = (list?: GlossaryTerm[]) => (list || []).map(t => termNames.get(t.id)).filter(Boolean);
+
+  const classNames = new Map(model.entities.map(e => [e.id, `:${allocate(pascalCase(e.name))}`]));
+
+  const blocks: string[] = [];
+  const block = (subject: string, statements: (string | undefined | false)[]) => {
+    const lines = statements.filter(Boolean) as string[];
+    blocks.push(`${subject} ${lines.join(' ;\n    ')} .`);
+  };
+
+  blocks.push([
+    `@prefix : <${base}> .`,
+    `@prefix glossary: <${glossaryBase}> .`,
+    `@prefix rdf: <${RDF}> .`,
+    `@prefix rdfs: <${RDFS}> .`,
+    `@prefix owl: <${OWL}> .`,
+    `@prefix xsd: <${XSD}> .`,
+    `@prefix skos: <${SKOS}> .`,
+    `@prefix dcterms: <${DCTERMS}> .`,
+    `@prefix sm: <${SM}> .`
+  ].join('\n'));
+
+  block(`<${base.replace(/#$/, '')}>`, [
+    'a owl:Ontology',
+    `rdfs:label ${literal(model.name)}`,
+    model.description && `rdfs:comment ${literal(model.description)}`
+  ]);
+
+  const hasSettings = model.entities.some(e => e.properties.some(p => p.propertyType || p.aggregation || p.additivity || p.snapshotPropertyId));
+  if (hasSettings) SM_ANNOTATIONS.forEach(name => block(`sm:${name}`, ['a owl:AnnotationProperty']));
+
+  model.entities.forEach(entity => {
+    const className = classNames.get(entity.id)!;
+    const propertyNames = entity.properties.map(property => {
+      const local = camelCase(property.name);
+      return used.has(local) ? allocate(`${camelCase(entity.name)}${pascalCase(property.name)}`) : allocate(local);
+    });
+    const keys = entity.properties.map((p, i) => (p.isUniqueKey ? `:${propertyNames[i]}` : undefined)).filter(Boolean);
+    const entityTerms = subjects(entity.glossaryTerms);
+    block(className, [
+      'a owl:Class',
+      `rdfs:label ${literal(entity.name)}`,
+      entity.description && `rdfs:comment ${literal(entity.description)}`,
+      keys.length > 0 && `owl:hasKey ( ${keys.join(' ')} )`,
+      entityTerms.length > 0 && `dcterms:subject ${entityTerms.join(', ')}`
+    ]);
+    entity.properties.forEach((property, i) => {
+      const propertyTerms = subjects(property.glossaryTerms);
+      const snapshot = entity.properties.findIndex(p => p.id === property.snapshotPropertyId);
+      block(`:${propertyNames[i]}`, [
+        'a owl:DatatypeProperty',
+        `rdfs:label ${literal(property.name)}`,
+        property.description && `rdfs:comment ${literal(property.description)}`,
+        `rdfs:domain ${className}`,
+        `rdfs:range xsd:${DATA_TYPE_TO_XSD[property.dataType?.toUpperCase()] || 'string'}`,
+        propertyTerms.length > 0 && `dcterms:subject ${propertyTerms.join(', ')}`,
+        property.propertyType && `sm:propertyType ${literal(property.propertyType)}`,
+        property.aggregation && `sm:aggregation ${literal(property.aggregation)}`,
+        property.additivity && `sm:additivity ${literal(property.additivity)}`,
+        snapshot >= 0 && `sm:snapshotProperty :${propertyNames[snapshot]}`
+      ]);
+    });
+  });
+
+  model.relationships.forEach(rel => {
+    const source = classNames.get(rel.sourceEntityId);
+    const target = classNames.get(rel.targetEntityId);
+    if (!source || !target) return;
+    const label = rel.label || rel.title || `${source.slice(1)} to ${target.slice(1)}`;
+    const characteristics = {
+      ONE_TO_ONE: ['owl:FunctionalProperty', 'owl:InverseFunctionalProperty'],
+      MANY_TO_ONE: ['owl:FunctionalProperty'],
+      ONE_TO_MANY: ['owl:InverseFunctionalProperty'],
+      MANY_TO_MANY: []
+    }[rel.type];
+    block(`:${allocate(camelCase(label))}`, [
+      `a ${['owl:ObjectProperty', ...characteristics].join(', ')}`,
+      `rdfs:label ${literal(label)}`,
+      rel.description && `rdfs:comment ${literal(rel.description)}`,
+      `rdfs:domain ${source}`,
+      `rdfs:range ${target}`
+    ]);
+  });
+
+  const schemes = new Map<string, string>();
+  terms.forEach(term => {
+    if (term.domain && !schemes.has(term.domain)) schemes.set(term.domain, `glossary:${allocate(`${pascalCase(term.domain)}Scheme`)}`);
+  });
+  schemes.forEach((scheme, domain) => block(scheme, ['a skos:ConceptScheme', `skos:prefLabel ${literal(domain)}`]));
+  terms.forEach(term => {
+    block(termNames.get(term.id)!, [
+      'a skos:Concept',
+      `skos:prefLabel ${literal(term.name)}`,
+      term.description && `skos:definition ${literal(term.description)}`,
+      term.domain && `skos:inScheme ${schemes.get(term.domain)}`
+    ]);
+  });
+
+  return `${blocks.join('\n\n')}\n`;
+};
@@ -0,0 +1,13 @@
+// The small markdown dialect of WikiEditor descriptions: **bold**, *italic*,
+// `code` and line breaks. Shared by the editor preview and generated docs so
+// both render a description the same way.
+
+export const escapeHtml = (text: string) =>
+  text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+export const renderWikiMarkdown = (text: string) =>
+  escapeHtml(text)
+    .replace(/\*\*(.*?)\*\*/g, '<strong>$1</strong>')
+    .replace(/\*(.*?)\*/g, '<em>$1</em>')
+    .replace(/`(.*?)`/g, '<code class="bg-gray-100 px-1 rounded text-sm">$1</code>')
+    .replace(/\n/g, '<br/>');
@@ -26,6 +26,22 @@ export enum PropertyType {
   OTHER = 'OTHER'
 }
 
+export enum AggregationType {
+  SUM = 'SUM',
+  AVG = 'AVG',
+  MIN = 'MIN',
+  MAX = 'MAX',
+  COUNT = 'COUNT',
+  COUNT_DISTINCT = 'COUNT_DISTINCT',
+  APPROX_COUNT_DISTINCT = 'APPROX_COUNT_DISTINCT'
+}
+
+export enum Additivity {
+  ADDITIVE = 'ADDITIVE',
+  SEMI_ADDITIVE = 'SEMI_ADDITIVE',
+  NON_ADDITIVE = 'NON_ADDITIVE'
+}
+
 export interface AspectType {
   id: string;
   name: string;
@@ -71,6 +87,11 @@ export interface Property {
   isUniqueKey?: boolean;
   propertyType?: PropertyType;
   definition?: string;
+  // Measures: how values combine when a row-level column or expression is aggregated
+  aggregation?: AggregationType;
+  additivity?: Additivity;
+  // Semi-additive measures: the snapshot date or time they must not be summed across
+  snapshotPropertyId?: string;
 }
 
 export interface Entity {
@@ -84,7 +105,7 @@ export interface Entity {
   type: EntityType;
   properties: Property[];
   bindings?: {
-    type: 'BIGQUERY' | 'SPANNNER' | 'LOOKER';
+    type: 'BIGQUERY' | 'SPANNER' | 'LOOKER';
     resource: string;
   }[];
 }
@@ -116,6 +137,7 @@ export interface QueryRoutingConfig {
 }
 
 export interface SemanticModel extends SemanticModelGraph {
+  formatVersion?: number;
   id: string;
   name: string;
   description?: string;
@@ -130,6 +152,17 @@ export interface SemanticModel extends SemanticModelGraph {
   updatedAt?: Date;
 }
 
+export interface ModelSnapshot {
+  id: string;
+  modelId: string;
+  name: string;
+  createdAt: Date;
+  author?: string;
+  // Name of the target, on snapshots recorded by a deployment
+  deployedTo?: string;
+  model: SemanticModel;
+}
+
 export interface SemanticModelCollection {
   models: SemanticModel[];
 }
@@ -159,7 +192,8 @@ export enum SuggestionType {
   NEW_PROPERTY = 'NEW_PROPERTY',
   UPDATED_DESCRIPTION = 'UPDATED_DESCRIPTION',
   NEW_ENTITY = 'NEW_ENTITY',
-  UPDATED_ENTITY = 'UPDATED_ENTITY'
+  UPDATED_ENTITY = 'UPDATED_ENTITY',
+  NEW_RELATIONSHIP = 'NEW_RELATIONSHIP'
 }
 
 export interface PropertySuggestion {
@@ -169,12 +203,15 @@ export interface PropertySuggestion {
 
 export interface EntityUpdateSuggestion {
   id: string;
+  // Set when the suggestion only applies to one model
+  modelId?: string;
   entityId: string;
   entityName: string;
   type: SuggestionType;
   source: SuggestionSource;
   status: SuggestionStatus;
   suggestedProperties?: PropertySuggestion[];
+  suggestedRelationship?: Relationship;
   suggestedDescription?: string;
   currentDescription?: string;
   reason?: string;